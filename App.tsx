@@ -9,7 +9,15 @@ import firestore, {
 import { NavigationContainer } from '@react-navigation/native';
 import RegistrationNavigator from './app/navigators/RegistrationNavigator';
 import { AppNavigator }          from './app/navigators/app-navigator';
+import { navigationRef }         from './app/navigators/navigation-utilities';
+import { BookingFlowProvider }   from './app/context/BookingFlow';
+import {
+  linking,
+  replayPendingDeepLink,
+  setDeepLinksOpen,
+} from './app/navigators/deep-linking';
 import { colors }                from './app/theme/colors';
+import { getCustomer }           from './app/services/firestore';
 
 //
 // Enable Firestore debug logs (optional)
@@ -25,6 +33,7 @@ export default function App() {
   const [initializing,  setInitializing]  = useState(true);
   const [user,          setUser]          = useState(auth().currentUser);
   const [profileExists, setProfileExists] = useState<boolean|null>(null);
+  const signedIn = !!user && profileExists === true;
 
   //
   // 1) Listen for auth changes
@@ -45,13 +54,19 @@ export default function App() {
       setProfileExists(null);
       return;
     }
-    firestore()
-      .doc(`customers/${user.uid}`)
-      .get()
-      .then(doc => setProfileExists(doc.exists))
+    getCustomer(user.uid)
+      .then(customer => setProfileExists(customer !== null))
       .catch(() => setProfileExists(false));
   }, [user]);
 
+  //
+  // 3) Deep links wait until the app navigator is showing, so a link
+  //    opened while signed out resumes once registration is done
+  //
+  useEffect(() => {
+    setDeepLinksOpen(signedIn);
+  }, [signedIn]);
+
   //
   // 🔍  Test Firestore read
   //
@@ -85,7 +100,7 @@ useEffect(() => {
 }, []);
 
   //
-  // 3) Show a loader until auth + profile check complete
+  // 4) Show a loader until auth + profile check complete
   //
   if (initializing || (user && profileExists === null)) {
     return (
@@ -96,13 +111,21 @@ useEffect(() => {
   }
 
   //
-  // 4) Render the appropriate navigator
+  // 5) Render the appropriate navigator
   //
   return (
-    <NavigationContainer>
-      {(!user || !profileExists)
+    <NavigationContainer
+      ref={navigationRef}
+      linking={linking}
+      onReady={replayPendingDeepLink}
+    >
+      {!signedIn
         ? <RegistrationNavigator />
-        : <AppNavigator />
+        : (
+          <BookingFlowProvider>
+            <AppNavigator />
+          </BookingFlowProvider>
+        )
       }
     </NavigationContainer>
   );
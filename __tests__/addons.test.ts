@@ -0,0 +1,99 @@
+import {
+  compatibleAddons,
+  isSoldOut,
+  resolveAddons,
+  stockLeft,
+} from '../app/services/addons';
+import { addonFromFirestore } from '../app/services/firestore/converters';
+import { addonQuoteInput, describeAddonPrice } from '../app/services/pricing';
+import type { Addon } from '../app/services/firestore/models';
+
+const addon = (over: Partial<Addon> = {}): Addon => ({
+  id: 'cooler',
+  label: 'Cooler',
+  description: '',
+  price: 10,
+  unit: 'day',
+  stock: null,
+  modelIds: [],
+  active: true,
+  ...over,
+});
+
+const at = (hour: number) => new Date(Date.UTC(2025, 5, 1, hour));
+
+describe('addonFromFirestore', () => {
+  test('normalizes legacy field names and pricing units', () => {
+    expect(
+      addonFromFirestore('speaker', {
+        name: 'Speaker',
+        price: '$5',
+        pricingUnit: 'per_hour',
+        quantity: '3',
+        compatibleModels: ['c1'],
+      }),
+    ).toEqual({
+      id: 'speaker',
+      label: 'Speaker',
+      description: '',
+      price: 5,
+      unit: 'hour',
+      stock: 3,
+      modelIds: ['c1'],
+      active: true,
+    });
+  });
+
+  test('defaults to a flat, unlimited add-on for every model', () => {
+    const a = addonFromFirestore('seat', { label: 'Child seat', active: false });
+    expect(a).toMatchObject({ unit: 'flat', stock: null, modelIds: [], active: false });
+  });
+});
+
+describe('compatibleAddons', () => {
+  test('keeps universal add-ons and those fitting any selected model', () => {
+    const catalog = [
+      addon(),
+      addon({ id: 'seat', modelIds: ['c2'] }),
+      addon({ id: 'rack', modelIds: ['c3'] }),
+    ];
+    expect(compatibleAddons(catalog, ['c1', 'c2']).map(a => a.id)).toEqual(['cooler', 'seat']);
+  });
+});
+
+describe('resolveAddons', () => {
+  test('matches ids and legacy labels once each, dropping unknown entries', () => {
+    const catalog = [addon(), addon({ id: 'speaker', label: 'Speaker' })];
+    expect(
+      resolveAddons(['cooler', ' speaker ', 'Cooler', 'Umbrella'], catalog).map(a => a.id),
+    ).toEqual(['cooler', 'speaker']);
+  });
+});
+
+describe('stockLeft', () => {
+  const reservations = [
+    { bookingId: 'b1', start: at(8), end: at(10) },
+    { bookingId: 'b2', start: at(9), end: at(12) },
+  ];
+
+  test('subtracts overlapping reservations from stock', () => {
+    const limited = addon({ stock: 2 });
+    expect(stockLeft(limited, reservations, { start: at(9), end: at(11) })).toBe(0);
+    expect(stockLeft(limited, reservations, { start: at(10), end: at(11) })).toBe(1);
+    expect(stockLeft(limited, reservations, { start: at(9), end: at(11) }, 'b1')).toBe(1);
+    expect(isSoldOut({ addon: limited, left: 0 })).toBe(true);
+  });
+
+  test('is unlimited without a stock figure', () => {
+    expect(stockLeft(addon(), reservations, { start: at(9), end: at(11) })).toBeNull();
+    expect(isSoldOut({ addon: addon(), left: null })).toBe(false);
+  });
+});
+
+describe('add-on pricing', () => {
+  test('feeds catalog prices into the quote', () => {
+    expect(addonQuoteInput(addon())).toEqual({ id: 'cooler', label: 'Cooler', price: 10, unit: 'day' });
+    expect(describeAddonPrice(addon())).toBe('$10.00 / day');
+    expect(describeAddonPrice(addon({ unit: 'flat', price: 5 }))).toBe('$5.00');
+  });
+});
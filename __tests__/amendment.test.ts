@@ -0,0 +1,89 @@
+import {
+  bookingTotal,
+  describeDifference,
+  priceDifference,
+  rentalDifference,
+  selectionFromBooking,
+} from '../app/services/amendment';
+import { canAmend } from '../app/services/booking-lifecycle';
+import { bookingFromFirestore } from '../app/services/firestore/converters';
+import type { Quote } from '../app/services/pricing';
+
+const start = new Date('2025-06-10T10:00:00Z');
+const end = new Date('2025-06-10T14:00:00Z');
+
+const booking = bookingFromFirestore('b1', {
+  status: 'confirmed',
+  partialBooking: {
+    carts: [{ id: 'c1', qty: 2 }, { id: 'c2' }],
+    addons: ['cooler'],
+    dates: { start, end },
+    totals: { base: 100, tax: 10, deposit: 50, total: 160 },
+  },
+  revisions: [
+    {
+      at: 1748764800000,
+      actor: 'u1',
+      partialBooking: { carts: [{ id: 'c1', qty: 1 }], dates: { start, end } },
+      total: 120,
+      difference: 40,
+    },
+  ],
+});
+
+const quote = (total: number) => ({ total } as Quote);
+
+describe('selectionFromBooking', () => {
+  test('seeds a session with the booked models, quantities, add-ons and window', () => {
+    expect(selectionFromBooking(booking)).toEqual({
+      carts: ['c1', 'c2'],
+      quantities: { c1: 2, c2: 1 },
+      addons: ['cooler'],
+      dates: { start, end },
+    });
+  });
+});
+
+describe('price difference', () => {
+  test('compares the new quote with what was paid', () => {
+    expect(bookingTotal(booking)).toBe(160);
+    expect(priceDifference(booking, quote(185.5))).toBe(25.5);
+    expect(priceDifference(booking, quote(120))).toBe(-40);
+  });
+
+  test('charges or refunds the rental, leaving the deposit out', () => {
+    const next = (subtotal: number, deposit: number) =>
+      ({ subtotal, tax: subtotal / 10, deposit, total: subtotal * 1.1 + deposit } as Quote);
+    expect(rentalDifference(booking, next(150, 50))).toBe(55);
+    expect(rentalDifference(booking, next(80, 25))).toBe(-22);
+  });
+
+  test('describes charges and refunds', () => {
+    expect(describeDifference(25.5)).toBe('Additional charge $25.50');
+    expect(describeDifference(-40)).toBe('Refund $40.00');
+    expect(describeDifference(0)).toBe('No change in price');
+  });
+});
+
+describe('revisions', () => {
+  test('reads previous versions of the booking', () => {
+    expect(booking.revisions).toEqual([
+      {
+        at: new Date(1748764800000),
+        actor: 'u1',
+        dates: { start, end },
+        carts: [{ id: 'c1', brand: '', model: '', imageUrl: '', dailyPrice: 0, qty: 1 }],
+        addons: [],
+        total: 120,
+        difference: 40,
+        paymentIntentId: null,
+      },
+    ]);
+  });
+
+  test('only allows changes before pick-up', () => {
+    expect(canAmend('confirmed')).toBe(true);
+    expect(canAmend('checked_out')).toBe(false);
+    expect(canAmend('cancelled')).toBe(false);
+  });
+});
@@ -0,0 +1,88 @@
+import {
+  allocateUnits,
+  findConflicts,
+  overlaps,
+  unitsInService,
+} from '../app/services/availability';
+import { reservationsFromFirestore } from '../app/services/firestore/converters';
+import type { CartUnit } from '../app/services/firestore/models';
+
+const at = (hour: number) => new Date(Date.UTC(2025, 5, 1, hour));
+
+describe('overlaps', () => {
+  test('treats touching windows as free', () => {
+    expect(overlaps({ start: at(8), end: at(10) }, { start: at(10), end: at(12) })).toBe(false);
+    expect(overlaps({ start: at(8), end: at(11) }, { start: at(10), end: at(12) })).toBe(true);
+    expect(overlaps({ start: at(9), end: at(10) }, { start: at(8), end: at(12) })).toBe(true);
+  });
+});
+
+describe('findConflicts', () => {
+  const reservations = [
+    { bookingId: 'b1', start: at(8), end: at(10) },
+    { bookingId: 'b2', start: at(12), end: at(14) },
+  ];
+
+  test('returns only clashing reservations', () => {
+    expect(findConflicts(reservations, { start: at(9), end: at(11) })).toEqual([reservations[0]]);
+    expect(findConflicts(reservations, { start: at(10), end: at(12) })).toEqual([]);
+  });
+
+  test('ignores the booking being re-checked and incomplete windows', () => {
+    expect(findConflicts(reservations, { start: at(9), end: at(13) }, 'b1')).toEqual([reservations[1]]);
+    expect(findConflicts(reservations, { start: at(9), end: null })).toEqual([]);
+  });
+  test('counts a checkout hold only until it expires', () => {
+    const hold = [{ bookingId: 's1', start: at(8), end: at(10), expiresAt: at(7) }];
+    expect(findConflicts(hold, { start: at(9), end: at(11) }, undefined, at(6))).toEqual(hold);
+    expect(findConflicts(hold, { start: at(9), end: at(11) }, undefined, at(7))).toEqual([]);
+    expect(findConflicts(hold, { start: at(9), end: at(11) }, 's1', at(6))).toEqual([]);
+  });
+});
+
+describe('reservationsFromFirestore', () => {
+  test('drops entries without a full window', () => {
+    expect(
+      reservationsFromFirestore({
+        reservations: [
+          { bookingId: 'b1', start: at(8).toISOString(), end: at(10).toISOString() },
+          { bookingId: 'b2', start: at(8).toISOString() },
+        ],
+      }),
+    ).toEqual([{ bookingId: 'b1', start: at(8), end: at(10) }]);
+  });
+});
+
+describe('unit allocation', () => {
+  const unit = (id: string, battery: number | null, over: Partial<CartUnit> = {}): CartUnit => ({
+    id,
+    modelId: 'm1',
+    serial: id.toUpperCase(),
+    plate: '',
+    status: 'available',
+    battery,
+    ...over,
+  });
+  const units = [unit('u1', 40), unit('u2', 90), unit('u3', null)];
+  const reservations = { u2: [{ bookingId: 'b1', start: at(8), end: at(12) }] };
+
+  test('allocates free units, best charged first', () => {
+    expect(allocateUnits(units, reservations, { start: at(13), end: at(15) }, 2)?.map(u => u.id)).toEqual([
+      'u2',
+      'u1',
+    ]);
+    expect(allocateUnits(units, reservations, { start: at(9), end: at(10) }, 2)?.map(u => u.id)).toEqual([
+      'u1',
+      'u3',
+    ]);
+  });
+
+  test('returns null when there are not enough free units', () => {
+    expect(allocateUnits(units, reservations, { start: at(9), end: at(10) }, 3)).toBeNull();
+  });
+
+  test('counts units in service per model', () => {
+    expect(unitsInService('m1', [...units, unit('u4', 50, { status: 'maintenance' })])).toBe(3);
+    expect(unitsInService('legacy', units)).toBe(1);
+  });
+});
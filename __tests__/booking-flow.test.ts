@@ -0,0 +1,48 @@
+import { flowRedirect } from '../app/services/booking-flow';
+import { sessionFromFirestore } from '../app/services/firestore/converters';
+
+const start = new Date('2025-06-10T10:00:00Z');
+const end = new Date('2025-06-10T14:00:00Z');
+
+const session = (extra: Record<string, any> = {}, partialBooking: Record<string, any> = {}) =>
+  sessionFromFirestore('s1', {
+    customerId: 'u1',
+    status: 'in_progress',
+    ...extra,
+    partialBooking: { carts: ['c1'], quantities: { c1: 1 }, ...partialBooking },
+  });
+
+const withWindow = (extra: Record<string, any> = {}) => session(extra, { dates: { start, end } });
+
+describe('flowRedirect', () => {
+  test('starts over on Landing without a usable session', () => {
+    expect(flowRedirect('ReviewScreen', null, 'u1')).toBe('LandingScreen');
+    expect(flowRedirect('DetailsScreen', session({}, { carts: [] }), 'u1')).toBe('LandingScreen');
+    expect(flowRedirect('PaymentScreen', withWindow({ status: 'booked' }), 'u1')).toBe('LandingScreen');
+    expect(flowRedirect('ReviewScreen', withWindow({ status: 'abandoned' }), 'u1')).toBe('LandingScreen');
+  });
+
+  test("sends anyone but the session's customer back to Landing", () => {
+    expect(flowRedirect('DetailsScreen', session(), 'u2')).toBe('LandingScreen');
+    expect(flowRedirect('ReviewScreen', withWindow(), null)).toBe('LandingScreen');
+  });
+
+  test('lets Details in once carts are picked', () => {
+    expect(flowRedirect('DetailsScreen', session(), 'u1')).toBeNull();
+  });
+
+  test('sends later steps back to Details until a window is saved', () => {
+    expect(flowRedirect('AddOnsScreen', session(), 'u1')).toBe('DetailsScreen');
+    expect(flowRedirect('ReviewScreen', session(), 'u1')).toBe('DetailsScreen');
+    expect(flowRedirect('PaymentScreen', session({}, { dates: { start, end: null } }), 'u1')).toBe('DetailsScreen');
+    expect(flowRedirect('AddOnsScreen', withWindow(), 'u1')).toBeNull();
+    expect(flowRedirect('ReviewScreen', withWindow(), 'u1')).toBeNull();
+    expect(flowRedirect('PaymentScreen', withWindow(), 'u1')).toBeNull();
+  });
+
+  test('confirms changes to a booking on Review, not Payment', () => {
+    const amendment = withWindow({ amendsBookingId: 'b1' });
+    expect(flowRedirect('ReviewScreen', amendment, 'u1')).toBeNull();
+    expect(flowRedirect('PaymentScreen', amendment, 'u1')).toBe('ReviewScreen');
+  });
+});
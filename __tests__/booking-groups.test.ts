@@ -0,0 +1,39 @@
+import { bookingGroup, groupBookings } from '../app/services/booking-groups';
+import { bookingFromFirestore } from '../app/services/firestore/converters';
+
+const now = new Date('2025-06-10T12:00:00Z');
+
+const booking = (id: string, status: string, start: string, end: string) =>
+  bookingFromFirestore(id, {
+    status,
+    partialBooking: { dates: { start: new Date(start), end: new Date(end) } },
+  });
+
+describe('bookingGroup', () => {
+  test('groups by status, then by whether the rental has ended', () => {
+    expect(bookingGroup(booking('a', 'confirmed', '2025-06-11T10:00Z', '2025-06-11T12:00Z'), now)).toBe('upcoming');
+    expect(bookingGroup(booking('b', 'confirmed', '2025-06-10T10:00Z', '2025-06-10T14:00Z'), now)).toBe('upcoming');
+    expect(bookingGroup(booking('c', 'confirmed', '2025-06-09T10:00Z', '2025-06-09T12:00Z'), now)).toBe('past');
+    expect(bookingGroup(booking('d', 'checked_out', '2025-06-09T10:00Z', '2025-06-09T12:00Z'), now)).toBe('active');
+    expect(bookingGroup(booking('e', 'no_show', '2025-06-11T10:00Z', '2025-06-11T12:00Z'), now)).toBe('past');
+    expect(bookingGroup(booking('f', 'cancelled', '2025-06-11T10:00Z', '2025-06-11T12:00Z'), now)).toBe('cancelled');
+  });
+});
+
+describe('groupBookings', () => {
+  test('orders upcoming soonest first and past most recent first', () => {
+    const groups = groupBookings(
+      [
+        booking('later', 'confirmed', '2025-06-20T10:00Z', '2025-06-20T12:00Z'),
+        booking('old', 'closed', '2025-05-01T10:00Z', '2025-05-01T12:00Z'),
+        booking('soon', 'confirmed', '2025-06-11T10:00Z', '2025-06-11T12:00Z'),
+        booking('recent', 'returned', '2025-06-08T10:00Z', '2025-06-08T12:00Z'),
+      ],
+      now,
+    );
+    expect(groups.upcoming.map(b => b.id)).toEqual(['soon', 'later']);
+    expect(groups.past.map(b => b.id)).toEqual(['recent', 'old']);
+    expect(groups.active).toEqual([]);
+    expect(groups.cancelled).toEqual([]);
+  });
+});
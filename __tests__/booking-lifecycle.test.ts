@@ -0,0 +1,52 @@
+import {
+  assertTransition,
+  canTransition,
+  isFinal,
+  upcomingStatuses,
+} from '../app/services/booking-lifecycle';
+import { bookingFromFirestore } from '../app/services/firestore/converters';
+
+describe('booking lifecycle', () => {
+  test('allows the usual course and early exits', () => {
+    expect(canTransition('pending_payment', 'confirmed')).toBe(true);
+    expect(canTransition('confirmed', 'checked_out')).toBe(true);
+    expect(canTransition('checked_out', 'returned')).toBe(true);
+    expect(canTransition('returned', 'closed')).toBe(true);
+    expect(canTransition('confirmed', 'cancelled')).toBe(true);
+    expect(canTransition('confirmed', 'no_show')).toBe(true);
+  });
+
+  test('rejects skipping steps and leaving final states', () => {
+    expect(canTransition('confirmed', 'returned')).toBe(false);
+    expect(canTransition('checked_out', 'cancelled')).toBe(false);
+    expect(isFinal('cancelled')).toBe(true);
+    expect(() => assertTransition('closed', 'confirmed')).toThrow(
+      "A booking that is closed can't be marked confirmed.",
+    );
+  });
+
+  test('lists the steps still ahead', () => {
+    expect(upcomingStatuses('confirmed')).toEqual(['checked_out', 'returned', 'closed']);
+    expect(upcomingStatuses('closed')).toEqual([]);
+    expect(upcomingStatuses('cancelled')).toEqual([]);
+  });
+});
+
+describe('bookingFromFirestore status', () => {
+  test('reads the status history and defaults legacy statuses', () => {
+    const booking = bookingFromFirestore('b1', {
+      status: 'checked_out',
+      statusHistory: [
+        { status: 'confirmed', at: 1748764800000, actor: 'u1' },
+        { status: 'bogus' },
+        { status: 'checked_out', at: 1748851200000, actor: 'staff1', note: 'Unit 4' },
+      ],
+    });
+    expect(booking.status).toBe('checked_out');
+    expect(booking.statusHistory).toEqual([
+      { status: 'confirmed', at: new Date(1748764800000), actor: 'u1', note: null },
+      { status: 'checked_out', at: new Date(1748851200000), actor: 'staff1', note: 'Unit 4' },
+    ]);
+    expect(bookingFromFirestore('b2', { status: 'booked' }).status).toBe('confirmed');
+  });
+});
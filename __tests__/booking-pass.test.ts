@@ -0,0 +1,94 @@
+import {
+  formatFallbackCode,
+  isFallbackCode,
+  isPassText,
+  issuePass,
+  normalizeFallbackCode,
+  parsePass,
+  showsPass,
+  verifyPass,
+} from '../app/services/booking-pass';
+import { bookingFromFirestore } from '../app/services/firestore/converters';
+
+describe('booking passes', () => {
+  test('reads the booking id out of a pass', () => {
+    expect(parsePass('GCB2|AbC123bookingId|9f8e7d6c5b4a')).toEqual({
+      valid: true,
+      bookingId: 'AbC123bookingId',
+    });
+  });
+
+  test('rejects foreign, older and truncated codes', () => {
+    expect(parsePass('https://example.com')).toEqual({
+      valid: false,
+      reason: 'This is not a booking pass.',
+    });
+    expect(parsePass('GCB1|AbC123|uid42|a|b|sig')).toEqual({
+      valid: false,
+      reason: 'This pass was issued with an older version of the app.',
+    });
+    expect(parsePass('GCB2|AbC123|').valid).toBe(false);
+    expect(parsePass('GCB2|AbC123').valid).toBe(false);
+  });
+
+  test('tells scanned passes from typed codes', () => {
+    expect(isPassText('GCB2|AbC123|sig')).toBe(true);
+    expect(isPassText('7KQ2-M9XD')).toBe(false);
+  });
+
+  test('is shown until the carts come back', () => {
+    expect(showsPass('confirmed')).toBe(true);
+    expect(showsPass('checked_out')).toBe(true);
+    expect(showsPass('pending_payment')).toBe(false);
+    expect(showsPass('returned')).toBe(false);
+    expect(showsPass('cancelled')).toBe(false);
+  });
+
+  test('reads the stored pass off the booking', () => {
+    const booking = bookingFromFirestore('b1', {
+      pass: { code: 'GCB2|b1|sig', fallbackCode: '7KQ2M9XD', issuedAt: new Date('2025-06-01T10:00:00Z') },
+    });
+    expect(booking.pass).toEqual({
+      code: 'GCB2|b1|sig',
+      fallbackCode: '7KQ2M9XD',
+      issuedAt: new Date('2025-06-01T10:00:00Z'),
+    });
+    expect(bookingFromFirestore('b2', {}).pass).toBeNull();
+  });
+});
+
+describe('issuing and checking passes', () => {
+  const booking = (id: string, pass: { code: string; fallbackCode: string } | null) =>
+    bookingFromFirestore(id, { status: 'confirmed', pass });
+
+  test('issues a pass for the booking with a random token and fallback code', () => {
+    const issued = issuePass('AbC123');
+    expect(parsePass(issued.code)).toEqual({ valid: true, bookingId: 'AbC123' });
+    expect(issued.code).toMatch(/^GCB2\|AbC123\|[A-Za-z0-9]{24}$/);
+    expect(isFallbackCode(issued.fallbackCode)).toBe(true);
+    expect(normalizeFallbackCode(issued.fallbackCode)).toBe(issued.fallbackCode);
+    expect(issuePass('AbC123').code).not.toBe(issued.code);
+  });
+
+  test('accepts only the pass stored on the booking', () => {
+    const issued = issuePass('b1');
+    expect(verifyPass(` ${issued.code} `, booking('b1', issued))).toEqual({ valid: true, bookingId: 'b1' });
+    expect(verifyPass(issued.code.replace(/[^|]+$/, 'forged'), booking('b1', issued)).valid).toBe(false);
+    expect(verifyPass(issued.code, booking('b2', issued)).valid).toBe(false);
+    expect(verifyPass(issued.code, booking('b1', null))).toEqual({
+      valid: false,
+      reason: 'This pass does not match the booking. Ask the customer to reopen their booking.',
+    });
+  });
+});
+
+describe('fallback codes', () => {
+  test('are matched in the stored form, tolerant of typing', () => {
+    const typed = normalizeFallbackCode('7kq2 m9xd');
+    expect(typed).toBe('7KQ2M9XD');
+    expect(normalizeFallbackCode('O1IL-abcd')).toBe('0111ABCD');
+    expect(isFallbackCode(typed)).toBe(true);
+    expect(isFallbackCode(normalizeFallbackCode('7KQ2-M9'))).toBe(false);
+    expect(formatFallbackCode(typed)).toBe('7KQ2-M9XD');
+  });
+});
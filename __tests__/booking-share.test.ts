@@ -0,0 +1,33 @@
+import { bookingFromFirestore, locationFromFirestore } from '../app/services/firestore/converters';
+import { bookingShare } from '../app/services/booking-share';
+import { bookingLink } from '../app/services/deep-links';
+
+const booking = bookingFromFirestore('AbC123', {
+  status: 'confirmed',
+  partialBooking: {
+    carts: [{ id: 'c1', brand: 'EZGO', model: 'RXV', qty: 2 }],
+    dates: { start: new Date('2025-06-10T10:00Z'), end: new Date('2025-06-10T14:00Z') },
+    totals: { base: 200, tax: 20, deposit: 100, total: 320 },
+  },
+});
+
+describe('bookingShare', () => {
+  test('summarises the booking with a link back to it', () => {
+    const location = locationFromFirestore('l1', { name: 'Marina', address: '1 Dock St' });
+    const share = bookingShare(booking, location);
+    expect(share.url).toBe(bookingLink('AbC123'));
+    const lines = share.message.split('\n');
+    expect(lines[0]).toBe('Golf Kart Rental booking (Confirmed)');
+    expect(lines[1]).toMatch(/^Pick-up: .+ at Marina, 1 Dock St$/);
+    expect(lines[2]).toMatch(/^Return: /);
+    expect(lines.slice(3)).toEqual(['Carts: 2 × EZGO RXV', 'Total: $320.00', `View booking: ${share.url}`]);
+  });
+
+  test('skips what the booking does not have', () => {
+    const bare = bookingShare(bookingFromFirestore('b2', {}), null);
+    expect(bare.message.split('\n')).toEqual([
+      expect.stringMatching(/^Golf Kart Rental booking \(/),
+      `View booking: ${bookingLink('b2')}`,
+    ]);
+  });
+});
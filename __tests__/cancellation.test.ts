@@ -0,0 +1,95 @@
+import {
+  DEFAULT_CANCELLATION_POLICY,
+  cancellationPolicyFor,
+  refundFor,
+  refundRateFor,
+} from '../app/services/cancellation';
+import { bookingFromFirestore, locationFromFirestore, reservationsWithout } from '../app/services/firestore/converters';
+
+const start = new Date('2025-06-10T10:00:00Z');
+const hoursBefore = (h: number) => new Date(start.getTime() - h * 60 * 60 * 1000);
+
+const booking = bookingFromFirestore('b1', {
+  status: 'confirmed',
+  partialBooking: {
+    dates: { start, end: new Date('2025-06-10T14:00:00Z') },
+    quote: {
+      lines: [],
+      subtotal: 200,
+      taxRate: 0.1,
+      tax: 20,
+      deposit: 50,
+      total: 270,
+      currency: 'USD',
+    },
+  },
+});
+
+describe('refundRateFor', () => {
+  test('picks the most generous tier that still applies', () => {
+    expect(refundRateFor(DEFAULT_CANCELLATION_POLICY, 48)).toBe(1);
+    expect(refundRateFor(DEFAULT_CANCELLATION_POLICY, 24)).toBe(1);
+    expect(refundRateFor(DEFAULT_CANCELLATION_POLICY, 3)).toBe(0.5);
+    expect(refundRateFor(DEFAULT_CANCELLATION_POLICY, -1)).toBe(0);
+  });
+});
+
+describe('refundFor', () => {
+  test('refunds everything well ahead of pick-up', () => {
+    expect(refundFor(booking, DEFAULT_CANCELLATION_POLICY, hoursBefore(30))).toEqual({
+      refundRate: 1,
+      rentalRefund: 220,
+      depositRefund: 50,
+      refund: 270,
+      fee: 0,
+    });
+  });
+
+  test('keeps part of the rental but always returns the deposit', () => {
+    expect(refundFor(booking, DEFAULT_CANCELLATION_POLICY, hoursBefore(5))).toMatchObject({
+      rentalRefund: 110,
+      depositRefund: 50,
+      refund: 160,
+      fee: 110,
+    });
+  });
+
+  test('falls back to legacy totals', () => {
+    const legacy = bookingFromFirestore('b2', {
+      partialBooking: { totals: { base: 100, tax: 10, deposit: 50, total: 160 } },
+    });
+    expect(refundFor(legacy, DEFAULT_CANCELLATION_POLICY).refund).toBe(160);
+  });
+
+  test('refunds nothing while payment is still pending', () => {
+    expect(refundFor({ ...booking, status: 'pending_payment' }, DEFAULT_CANCELLATION_POLICY, hoursBefore(30))).toEqual({
+      refundRate: 0,
+      rentalRefund: 0,
+      depositRefund: 0,
+      refund: 0,
+      fee: 0,
+    });
+  });
+});
+
+describe('cancellation storage', () => {
+  test('reads a location policy, clamping rates', () => {
+    const location = locationFromFirestore('main', {
+      cancellationPolicy: { tiers: [{ minHoursBefore: 48, refundRate: 2 }, { minHoursBefore: 0, refundRate: 0 }] },
+    });
+    expect(cancellationPolicyFor(location).tiers).toEqual([
+      { minHoursBefore: 48, refundRate: 1 },
+      { minHoursBefore: 0, refundRate: 0 },
+    ]);
+    expect(cancellationPolicyFor(locationFromFirestore('main', {}))).toBe(DEFAULT_CANCELLATION_POLICY);
+  });
+
+  test('drops one booking from a schedule', () => {
+    expect(
+      reservationsWithout(
+        { reservations: [{ bookingId: 'b1', start: 1, end: 2 }, { bookingId: 'b2', start: 3, end: 4 }] },
+        'b1',
+      ),
+    ).toEqual([{ bookingId: 'b2', start: 3, end: 4 }]);
+  });
+});
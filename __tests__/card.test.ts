@@ -0,0 +1,119 @@
+import {
+  brandLabel,
+  cardDetailsFrom,
+  detectBrand,
+  formatCardNumber,
+  formatExpiry,
+  luhnValid,
+  parseExpiry,
+  validateCard,
+  validateCardNumber,
+  validateCvc,
+  validateExpiry,
+} from '../app/services/payments/card';
+
+const today = new Date(2025, 5, 15); // 15 June 2025
+
+describe('detectBrand', () => {
+  test.each([
+    ['4242424242424242', 'visa'],
+    ['5555555555554444', 'mastercard'],
+    ['2223003122003222', 'mastercard'],
+    ['378282246310005', 'amex'],
+    ['6011111111111117', 'discover'],
+    ['36227206271667', 'diners'],
+    ['3566002020360505', 'jcb'],
+    ['6200000000000005', 'unionpay'],
+    ['9999', 'unknown'],
+    ['', 'unknown'],
+  ])('%s is %s', (number, brand) => {
+    expect(detectBrand(number)).toBe(brand);
+  });
+
+  test('labels provider brand ids', () => {
+    expect(brandLabel('amex')).toBe('American Express');
+    expect(brandLabel('Visa')).toBe('Visa');
+    expect(brandLabel('cartes_bancaires')).toBe('cartes_bancaires');
+    expect(brandLabel('')).toBe('Card');
+  });
+});
+
+describe('luhnValid', () => {
+  test('accepts test cards and rejects a mistyped digit', () => {
+    expect(luhnValid('4242 4242 4242 4242')).toBe(true);
+    expect(luhnValid('378282246310005')).toBe(true);
+    expect(luhnValid('4242424242424241')).toBe(false);
+    expect(luhnValid('')).toBe(false);
+  });
+});
+
+describe('formatting', () => {
+  test('groups the number the way the brand prints it', () => {
+    expect(formatCardNumber('42424242')).toBe('4242 4242');
+    expect(formatCardNumber('4242-4242-4242-4242-9')).toBe('4242 4242 4242 42429');
+    expect(formatCardNumber('378282246310005')).toBe('3782 822463 10005');
+    expect(formatCardNumber('3782822463100059999')).toBe('3782 822463 10005');
+  });
+
+  test('builds MM/YY as it is typed', () => {
+    expect(formatExpiry('1')).toBe('1');
+    expect(formatExpiry('4')).toBe('04');
+    expect(formatExpiry('128')).toBe('12/8');
+    expect(formatExpiry('12/28')).toBe('12/28');
+    expect(formatExpiry('122830')).toBe('12/28');
+  });
+
+  test('parses two- and four-digit years', () => {
+    expect(parseExpiry('04/28')).toEqual({ month: 4, year: 2028 });
+    expect(parseExpiry('4 / 2028')).toEqual({ month: 4, year: 2028 });
+    expect(parseExpiry('13/28')).toBeNull();
+    expect(parseExpiry('0428')).toBeNull();
+  });
+});
+
+describe('validation', () => {
+  test('explains what is wrong with the number', () => {
+    expect(validateCardNumber('')).toBe('Enter your card number.');
+    expect(validateCardNumber('4242 4242')).toBe('The card number is incomplete.');
+    expect(validateCardNumber('5555 5555 5555 44445')).toBe('The card number is too long.');
+    expect(validateCardNumber('4242 4242 4242 4241')).toBe('The card number is not valid.');
+    expect(validateCardNumber('4242 4242 4242 4242')).toBeNull();
+  });
+
+  test('a card is good through the end of its expiry month', () => {
+    expect(validateExpiry('06/25', today)).toBeNull();
+    expect(validateExpiry('05/25', today)).toBe('This card has expired.');
+    expect(validateExpiry('12/24', today)).toBe('This card has expired.');
+    expect(validateExpiry('1/2', today)).toBe('Use MM/YY.');
+    expect(validateExpiry('01/2099', today)).toBe('Check the expiry year.');
+  });
+
+  test('expects four digits of CVV for Amex and three otherwise', () => {
+    expect(validateCvc('123', 'visa')).toBeNull();
+    expect(validateCvc('1234', 'visa')).toBe('The security code is 3 digits.');
+    expect(validateCvc('123', 'amex')).toBe('The security code is 4 digits.');
+    expect(validateCvc('1234', 'amex')).toBeNull();
+  });
+
+  test('collects errors per field', () => {
+    expect(validateCard({ number: '4242', name: ' ', expiry: '01/20', cvc: '' }, today)).toEqual({
+      number: 'The card number is incomplete.',
+      name: 'Enter the name on the card.',
+      expiry: 'This card has expired.',
+      cvc: 'Enter the security code.',
+    });
+    expect(
+      validateCard({ number: '3782 822463 10005', name: 'Ana Lopez', expiry: '09/27', cvc: '1234' }, today),
+    ).toEqual({});
+  });
+
+  test('hands the provider plain digits and a four-digit year', () => {
+    expect(cardDetailsFrom({ number: '4242 4242 4242 4242', name: ' Ana ', expiry: '09/27', cvc: '123' })).toEqual({
+      number: '4242424242424242',
+      expMonth: 9,
+      expYear: 2027,
+      cvc: '123',
+      name: 'Ana',
+    });
+  });
+});
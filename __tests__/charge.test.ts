@@ -0,0 +1,109 @@
+import { chargeBooking, holdDeposit, refundBookingCharge, settleDepositIntent } from '../app/services/payments/charge';
+import { createMockProvider } from '../app/services/payments/mock.provider';
+import type { PaymentProvider } from '../app/services/payments/provider';
+
+const setup = async (number = '4242424242424242') => {
+  const provider = createMockProvider();
+  const token = await provider.tokenizeCard({ number, expMonth: 1, expYear: 2031, cvc: '123', name: '' });
+  const input = { customerId: 'c1', tokenId: token.id, currency: 'USD', amount: 220, reference: 'b1' };
+  return { provider, input };
+};
+
+describe('chargeBooking', () => {
+  test('captures the rental', async () => {
+    const { provider, input } = await setup();
+    expect(await chargeBooking(provider, input)).toMatchObject({ status: 'captured', captured: 220 });
+  });
+
+  test('voids the authorization when the capture fails', async () => {
+    const { provider, input } = await setup();
+    const voided: string[] = [];
+    const flaky: PaymentProvider = {
+      ...provider,
+      capture: async () => {
+        throw new Error('network');
+      },
+      void: async id => {
+        voided.push(id);
+        return provider.void(id);
+      },
+    };
+    await expect(chargeBooking(flaky, input)).rejects.toThrow('network');
+    expect(voided).toHaveLength(1);
+  });
+
+  test('passes the decline through untouched', async () => {
+    const { provider, input } = await setup('4000000000000002');
+    await expect(chargeBooking(provider, input)).rejects.toMatchObject({ code: 'card_declined' });
+  });
+});
+
+describe('holdDeposit', () => {
+  test('leaves the deposit authorized', async () => {
+    const { provider, input } = await setup();
+    expect(await holdDeposit(provider, { ...input, amount: 100 })).toMatchObject({
+      status: 'authorized',
+      amount: 100,
+    });
+  });
+});
+
+describe('after the booking', () => {
+  test('settles the deposit by capturing what is kept, or voiding it', async () => {
+    const { provider, input } = await setup();
+    const kept = await holdDeposit(provider, { ...input, amount: 100 });
+    expect(await settleDepositIntent(provider, kept.id, 40)).toMatchObject({
+      status: 'captured',
+      captured: 40,
+    });
+    const released = await holdDeposit(provider, { ...input, amount: 100 });
+    expect(await settleDepositIntent(provider, released.id, 0)).toMatchObject({ status: 'voided' });
+  });
+
+  test('settling again leaves a settled deposit alone', async () => {
+    const { provider, input } = await setup();
+    const deposit = await holdDeposit(provider, { ...input, amount: 100 });
+    await settleDepositIntent(provider, deposit.id, 40);
+    const capture = jest.spyOn(provider, 'capture');
+    expect(await settleDepositIntent(provider, deposit.id, 40)).toMatchObject({
+      status: 'captured',
+      captured: 40,
+    });
+    expect(capture).not.toHaveBeenCalled();
+  });
+
+  test('cancellation refunds the rental part and voids a held deposit', async () => {
+    const { provider, input } = await setup();
+    const rental = await chargeBooking(provider, input);
+    const deposit = await holdDeposit(provider, { ...input, amount: 100 });
+    const refund = jest.spyOn(provider, 'refund');
+    const voidSpy = jest.spyOn(provider, 'void');
+    await refundBookingCharge(provider, { rentalIntentIds: [rental.id], depositIntentId: deposit.id }, 110);
+    expect(refund).toHaveBeenCalledWith(rental.id, 110);
+    expect(voidSpy).toHaveBeenCalledWith(deposit.id);
+  });
+
+  test('a retried refund only sends what is still due', async () => {
+    const { provider, input } = await setup();
+    const rental = await chargeBooking(provider, input);
+    const ids = { rentalIntentIds: [rental.id], depositIntentId: null };
+    await provider.refund(rental.id, 20);
+
+    // 20 went back before cancelling; the cancellation refunds 60 more
+    await refundBookingCharge(provider, ids, 60, 20);
+    const refund = jest.spyOn(provider, 'refund');
+    await refundBookingCharge(provider, ids, 60, 20);
+
+    expect(refund).not.toHaveBeenCalled();
+    expect(await provider.retrieve(rental.id)).toMatchObject({ refunded: 80 });
+  });
+
+  test('spreads a refund over later charges first', async () => {
+    const { provider, input } = await setup();
+    const first = await chargeBooking(provider, input);
+    const second = await chargeBooking(provider, { ...input, amount: 30 });
+    await refundBookingCharge(provider, { rentalIntentIds: [first.id, second.id], depositIntentId: null }, 50);
+    expect(await provider.retrieve(second.id)).toMatchObject({ status: 'refunded', refunded: 30 });
+    expect(await provider.retrieve(first.id)).toMatchObject({ refunded: 20 });
+  });
+});
@@ -0,0 +1,313 @@
+import {
+  bookingFromFirestore,
+  cartFromFirestore,
+  cartUnitFromFirestore,
+  customerFromFirestore,
+  parseAddonsField,
+  parsePrice,
+  paymentFromFirestore,
+  paymentMethodFromFirestore,
+  paymentMethodToFirestore,
+  paymentToFirestore,
+  sessionFromFirestore,
+  toDate,
+} from '../app/services/firestore/converters';
+
+describe('parseAddonsField', () => {
+  test('accepts arrays, maps and JSON-ish strings', () => {
+    expect(parseAddonsField([' Cooler ', 'Speaker', ''])).toEqual(['Cooler', 'Speaker']);
+    expect(parseAddonsField({ a: 'Cooler', b: 'Speaker' })).toEqual(['Cooler', 'Speaker']);
+    expect(parseAddonsField('["Cooler","Speaker"]')).toEqual(['Cooler', 'Speaker']);
+    expect(parseAddonsField("['Cooler', 'Speaker']")).toEqual(['Cooler', 'Speaker']);
+    expect(parseAddonsField('Cooler, Speaker')).toEqual(['Cooler', 'Speaker']);
+    expect(parseAddonsField('[]')).toEqual([]);
+    expect(parseAddonsField(null)).toEqual([]);
+  });
+});
+
+describe('parsePrice', () => {
+  test('strips currency symbols from string prices', () => {
+    expect(parsePrice('$45.50')).toBe(45.5);
+    expect(parsePrice(30)).toBe(30);
+    expect(parsePrice('n/a')).toBe(0);
+    expect(parsePrice(undefined)).toBe(0);
+  });
+});
+
+describe('toDate', () => {
+  test('handles timestamps, dates and strings', () => {
+    const d = new Date('2025-06-01T10:00:00Z');
+    expect(toDate({ toDate: () => d })).toBe(d);
+    expect(toDate(d)).toBe(d);
+    expect(toDate('2025-06-01T10:00:00Z')?.getTime()).toBe(d.getTime());
+    expect(toDate('not a date')).toBeNull();
+    expect(toDate(undefined)).toBeNull();
+  });
+});
+
+describe('cartFromFirestore', () => {
+  test('normalizes legacy cart fields', () => {
+    const cart = cartFromFirestore('c1', {
+      cart_id: 'GK-01',
+      brand: 'Club Car',
+      model: 'Onward',
+      passangers: 4,
+      battery: '48V',
+      daily_price: '$80',
+      image_url: 'https://example.com/kart.png',
+      'Add-ons': "['Cooler']",
+      add_ons: ['Speaker', 'Cooler'],
+    });
+    expect(cart).toEqual({
+      id: 'c1',
+      cartId: 'GK-01',
+      brand: 'Club Car',
+      model: 'Onward',
+      passengers: '4',
+      battery: '48V',
+      dailyPrice: 80,
+      hourlyPrice: null,
+      imageUrl: 'https://example.com/kart.png',
+      addons: ['Cooler', 'Speaker'],
+    });
+  });
+
+  test('falls back when passengers are missing', () => {
+    expect(cartFromFirestore('c2', {}).passengers).toBe('N/A');
+  });
+});
+
+describe('sessionFromFirestore', () => {
+  test('fills in missing partial booking fields', () => {
+    const session = sessionFromFirestore('s1', { customerId: 'u1' });
+    expect(session.status).toBe('in_progress');
+    expect(session.partialBooking).toEqual({
+      carts: [],
+      quantities: {},
+      addons: [],
+      dates: { start: null, end: null },
+    });
+  });
+
+  test('defaults every cart to a quantity of one', () => {
+    const session = sessionFromFirestore('s1', {
+      partialBooking: { carts: ['c1', 'c2'], quantities: { c2: 3 } },
+    });
+    expect(session.partialBooking.quantities).toEqual({ c1: 1, c2: 3 });
+  });
+});
+
+describe('cartUnitFromFirestore', () => {
+  test('normalizes unit fields and unknown statuses', () => {
+    expect(
+      cartUnitFromFirestore('u1', {
+        model_id: 'c1',
+        serial_number: 'SN-1',
+        status: 'Maintenance',
+        batteryLevel: '85',
+      }),
+    ).toEqual({
+      id: 'u1',
+      modelId: 'c1',
+      serial: 'SN-1',
+      plate: '',
+      status: 'maintenance',
+      battery: 85,
+    });
+    expect(cartUnitFromFirestore('u2', { status: 'lost' }).status).toBe('available');
+  });
+});
+
+describe('bookingFromFirestore', () => {
+  test('accepts cart ids as well as cart snapshots', () => {
+    const booking = bookingFromFirestore('b1', {
+      customerId: 'u1',
+      partialBooking: {
+        carts: ['c1', { id: 'c2', daily_price: '50', qty: 2, image_url: 'x' }],
+        totals: { base: 100, tax: 10, deposit: 50, total: 160 },
+      },
+    });
+    expect(booking.status).toBe('confirmed');
+    expect(booking.partialBooking.carts[0]).toMatchObject({ id: 'c1', qty: 1 });
+    expect(booking.partialBooking.carts[1]).toMatchObject({
+      id: 'c2',
+      dailyPrice: 50,
+      qty: 2,
+      imageUrl: 'x',
+    });
+    expect(booking.partialBooking.totals?.total).toBe(160);
+  });
+
+  test('reads counter check-out and check-in records', () => {
+    const booking = bookingFromFirestore('b1', {
+      status: 'returned',
+      checkOut: { at: new Date('2025-06-10T10:00Z'), staffId: 's1', readings: [{ unitId: 'u1', battery: '90', hours: 10 }] },
+      checkIn: { at: new Date('2025-06-10T12:00Z'), staffId: 's2', readings: [{ unitId: 'u1', battery: 40, hours: 12 }] },
+    });
+    expect(booking.checkOut?.readings).toEqual([{ unitId: 'u1', battery: 90, hours: 10 }]);
+    expect(booking.checkIn).toMatchObject({ staffId: 's2', note: null });
+    expect(bookingFromFirestore('b2', {}).checkOut).toBeNull();
+  });
+
+  test('reads the return inspection and deposit settlement', () => {
+    const booking = bookingFromFirestore('b1', {
+      inspection: { staffId: 's1', carts: [{ unitId: 'u1', damaged: ['body', 'paint'] }], photos: ['https://x/1.jpg'] },
+      settlement: { deposit: 50, captured: '40', released: 10, status: 'partially_captured' },
+    });
+    expect(booking.inspection?.carts).toEqual([{ unitId: 'u1', damaged: ['body'] }]);
+    expect(booking.inspection?.notes).toBe('');
+    expect(booking.settlement).toMatchObject({ captured: 40, released: 10, outstanding: 0, status: 'partially_captured' });
+  });
+
+  test('reads the invoice number, ignoring one without a sequence', () => {
+    const issuedAt = new Date('2025-06-11T09:00Z');
+    expect(bookingFromFirestore('b1', { invoice: { number: 'INV-000007', sequence: 7, issuedAt } }).invoice).toEqual({
+      number: 'INV-000007',
+      sequence: 7,
+      issuedAt,
+    });
+    expect(bookingFromFirestore('b2', { invoice: { number: 'INV-?' } }).invoice).toBeNull();
+    expect(bookingFromFirestore('b3', {}).invoice).toBeNull();
+  });
+
+  test('reads the payment deadline of a pending booking', () => {
+    const due = new Date('2025-06-10T10:10Z');
+    expect(bookingFromFirestore('b1', { status: 'pending_payment', paymentDueBy: due }).paymentDueBy).toEqual(due);
+    expect(bookingFromFirestore('b2', {}).paymentDueBy).toBeNull();
+  });
+});
+
+describe('customerFromFirestore', () => {
+  test('reads snake_case and alternate field names', () => {
+    const customer = customerFromFirestore('u1', {
+      first_name: 'Ana',
+      last_name: 'Lopez',
+      phone_number: '555',
+      postalCode: '00901',
+      dln: 'D123',
+    });
+    expect(customer).toMatchObject({
+      firstName: 'Ana',
+      lastName: 'Lopez',
+      phone: '555',
+      zipcode: '00901',
+      driverLicense: 'D123',
+    });
+  });
+
+  test('reads document review status, treating an unreviewed upload as pending', () => {
+    expect(customerFromFirestore('u1', {}).documents).toEqual({
+      identity: 'missing',
+      driverLicense: 'missing',
+    });
+    const customer = customerFromFirestore('u1', {
+      identityDocument: 'ids/u1.jpg',
+      documents: { driverLicense: { status: 'verified' } },
+    });
+    expect(customer.documents).toEqual({ identity: 'pending', driverLicense: 'verified' });
+  });
+
+  test('reads gateway customer ids by provider', () => {
+    expect(customerFromFirestore('u1', {}).paymentCustomers).toEqual({});
+    expect(
+      customerFromFirestore('u1', { paymentCustomers: { stripe: 'cus_1', mock: 7 } }).paymentCustomers,
+    ).toEqual({ stripe: 'cus_1', mock: '7' });
+  });
+});
+
+describe('paymentFromFirestore', () => {
+  test('derives last4 from a masked number', () => {
+    const payment = paymentFromFirestore('p1', { masked: '**** 4242' });
+    expect(payment.last4).toBe('4242');
+    expect(payment.currency).toBe('USD');
+  });
+
+  test('reads the deposit, treating an unknown status as held', () => {
+    expect(paymentFromFirestore('p1', {}).deposit).toBeNull();
+    expect(paymentFromFirestore('p2', { deposit: { amount: 50, status: 'pending' } }).deposit).toEqual({
+      amount: 50,
+      status: 'held',
+      captured: 0,
+      released: 0,
+      intentId: null,
+    });
+  });
+
+  test('reads the gateway references', () => {
+    const payment = paymentFromFirestore('p1', {
+      provider: 'stripe',
+      paymentMethodId: 'pm_1',
+      deposit: { amount: 50, status: 'held', intentId: 'pi_2' },
+    });
+    expect(payment).toMatchObject({ provider: 'stripe', paymentMethodId: 'pm_1' });
+    expect(payment.deposit?.intentId).toBe('pi_2');
+    expect(paymentFromFirestore('p2', {})).toMatchObject({ provider: '', paymentMethodId: null });
+  });
+});
+
+describe('paymentToFirestore', () => {
+  const payment = {
+    amount: 270,
+    currency: 'USD',
+    method: 'Visa',
+    status: 'captured',
+    provider: 'mock',
+    capturedAmount: 220,
+    stripeCustomerId: 'mock_cus_1',
+    paymentIntentId: 'mock_pi_2',
+    paymentMethodId: 'mock_pm_1',
+    last4: '4242',
+    brand: 'Visa',
+    expiry: '04/28',
+    deposit: null,
+  };
+
+  test('writes only the token and the card summary', () => {
+    const extra = { ...payment, number: '4242424242424242', cvc: '123' };
+    const doc = paymentToFirestore(extra);
+    expect(doc).toEqual(payment);
+    expect(JSON.stringify(doc)).not.toContain('42424242');
+  });
+
+  test('drops a malformed last4 or expiry', () => {
+    expect(paymentToFirestore({ ...payment, last4: '4242 4242', expiry: '4/2028' })).toMatchObject({
+      last4: null,
+      expiry: null,
+    });
+  });
+
+  test('refuses a card number in any free-text field', () => {
+    expect(() => paymentToFirestore({ ...payment, paymentMethodId: '4242 4242 4242 4242' })).toThrow(
+      'Card numbers must never be stored',
+    );
+    expect(() => paymentToFirestore({ ...payment, method: 'card 4242-4242-4242-4242' })).toThrow();
+  });
+});
+
+describe('payment methods', () => {
+  test('reads a saved card, defaulting to not default', () => {
+    expect(paymentMethodFromFirestore('m1', { customerId: 'u1', provider: 'mock', tokenId: 'pm_1', last4: 4242 })).toEqual({
+      id: 'm1',
+      customerId: 'u1',
+      provider: 'mock',
+      tokenId: 'pm_1',
+      brand: '',
+      last4: '4242',
+      expiry: '',
+      isDefault: false,
+      createdAt: null,
+    });
+  });
+
+  test('writes the token and card summary only', () => {
+    const method = { provider: 'mock', tokenId: 'pm_1', brand: 'Visa', last4: '4242', expiry: '4/28' };
+    expect(paymentMethodToFirestore({ ...method, number: '4242424242424242' } as typeof method)).toEqual({
+      ...method,
+      expiry: '',
+    });
+    expect(() => paymentMethodToFirestore({ ...method, tokenId: '' })).toThrow('provider token');
+    expect(() => paymentMethodToFirestore({ ...method, tokenId: '4242424242424242' })).toThrow(
+      'Card numbers must never be stored',
+    );
+  });
+});
@@ -0,0 +1,120 @@
+import {
+  counterUnits,
+  minutesLate,
+  parseReading,
+  validateCheckIn,
+  validateCheckOut,
+} from '../app/services/counter';
+import { bookingFromFirestore } from '../app/services/firestore/converters';
+
+const booking = (extra: Record<string, any> = {}) =>
+  bookingFromFirestore('b1', {
+    status: 'confirmed',
+    partialBooking: {
+      carts: [{ id: 'm1', brand: 'Club Car', model: 'Onward', qty: 2 }],
+      dates: { start: new Date('2025-06-10T10:00Z'), end: new Date('2025-06-10T12:00Z') },
+    },
+    ...extra,
+  });
+
+const withUnits = booking({
+  units: [
+    { unitId: 'u1', modelId: 'm1', serial: 'S-1', plate: 'GC 01' },
+    { unitId: 'u2', modelId: 'm1', serial: 'S-2', plate: '' },
+  ],
+});
+
+describe('counterUnits', () => {
+  test('labels each allocated unit with its model and plate or serial', () => {
+    expect(counterUnits(withUnits)).toEqual([
+      { unitId: 'u1', label: 'Club Car Onward · GC 01' },
+      { unitId: 'u2', label: 'Club Car Onward · S-2' },
+    ]);
+  });
+
+  test('falls back to the booked carts for bookings without units', () => {
+    expect(counterUnits(booking())).toEqual([{ unitId: 'm1', label: 'Club Car Onward' }]);
+  });
+});
+
+describe('parseReading', () => {
+  test('accepts decimal commas and rejects non-numbers', () => {
+    expect(parseReading(' 85 ')).toBe(85);
+    expect(parseReading('123,5')).toBe(123.5);
+    expect(parseReading('')).toBeNull();
+    expect(parseReading('full')).toBeNull();
+  });
+});
+
+describe('validateCheckOut', () => {
+  const units = counterUnits(withUnits);
+
+  test('requires a reading for every unit', () => {
+    expect(validateCheckOut(units, [{ unitId: 'u1', battery: 90, hours: 10 }])).toMatch(/S-2/);
+  });
+
+  test('rejects out-of-range battery and negative hours', () => {
+    expect(
+      validateCheckOut(units, [
+        { unitId: 'u1', battery: 120, hours: 10 },
+        { unitId: 'u2', battery: 80, hours: 5 },
+      ]),
+    ).toMatch(/between 0 and 100/);
+    expect(
+      validateCheckOut(units, [
+        { unitId: 'u1', battery: 90, hours: 10 },
+        { unitId: 'u2', battery: 80, hours: -1 },
+      ]),
+    ).toMatch(/negative/);
+  });
+
+  test('passes complete readings', () => {
+    expect(
+      validateCheckOut(units, [
+        { unitId: 'u1', battery: 90, hours: 10 },
+        { unitId: 'u2', battery: 80, hours: 5 },
+      ]),
+    ).toBeNull();
+  });
+});
+
+describe('validateCheckIn', () => {
+  const units = counterUnits(withUnits);
+  const checkOut = {
+    at: new Date('2025-06-10T10:00Z'),
+    staffId: 's1',
+    readings: [
+      { unitId: 'u1', battery: 90, hours: 10 },
+      { unitId: 'u2', battery: 80, hours: 5 },
+    ],
+  };
+
+  test('the hour meter cannot run backwards from check-out', () => {
+    expect(
+      validateCheckIn(
+        units,
+        [
+          { unitId: 'u1', battery: 40, hours: 12 },
+          { unitId: 'u2', battery: 30, hours: 4.5 },
+        ],
+        checkOut,
+      ),
+    ).toMatch(/below its check-out reading \(5\)/);
+  });
+
+  test('passes readings at or above check-out, and without a check-out record', () => {
+    const back = [
+      { unitId: 'u1', battery: 40, hours: 12 },
+      { unitId: 'u2', battery: 30, hours: 5 },
+    ];
+    expect(validateCheckIn(units, back, checkOut)).toBeNull();
+    expect(validateCheckIn(units, back, null)).toBeNull();
+  });
+});
+
+describe('minutesLate', () => {
+  test('counts whole minutes past drop-off', () => {
+    expect(minutesLate(withUnits, new Date('2025-06-10T11:59Z'))).toBe(0);
+    expect(minutesLate(withUnits, new Date('2025-06-10T12:20:30Z'))).toBe(20);
+  });
+});
@@ -0,0 +1,61 @@
+import { bookingLink, deepLinkRoutes, parseDeepLink, parseDeepLinkPath } from '../app/services/deep-links';
+
+const HOST = 'https://rentals.example.com';
+
+describe('parseDeepLink', () => {
+  test('reads bookings, carts and checkouts on both prefixes', () => {
+    expect(parseDeepLink('carapp://booking/AbC123')).toEqual({ kind: 'booking', bookingId: 'AbC123' });
+    expect(parseDeepLink(`${HOST}/cart/c1`, HOST)).toEqual({ kind: 'cart', cartId: 'c1' });
+    expect(parseDeepLink('carapp://checkout/s9?utm_source=email')).toEqual({
+      kind: 'checkout',
+      sessionId: 's9',
+    });
+  });
+
+  test('decodes escaped ids', () => {
+    expect(parseDeepLink(`${HOST}/booking/a%2Fb`, HOST)).toEqual({ kind: 'booking', bookingId: 'a/b' });
+  });
+
+  test('ignores trailing slashes, fragments and case in the prefix and kind', () => {
+    expect(parseDeepLink('HTTPS://Rentals.Example.com/Booking/AbC123/#top', HOST)).toEqual({
+      kind: 'booking',
+      bookingId: 'AbC123',
+    });
+  });
+
+  test('rejects other hosts, unknown paths and missing ids', () => {
+    expect(parseDeepLink(`${HOST}.evil.io/booking/AbC123`, HOST)).toBeNull();
+    expect(parseDeepLink('https://example.org/booking/AbC123', HOST)).toBeNull();
+    expect(parseDeepLink('carapp://profile/me')).toBeNull();
+    expect(parseDeepLink('carapp://booking/')).toBeNull();
+    expect(parseDeepLink('carapp://booking/a/b')).toBeNull();
+    expect(parseDeepLink('carapp://booking/%E0%A4%A')).toBeNull();
+  });
+});
+
+describe('bookingLink', () => {
+  test('points at the booking on the host, or on the scheme without one', () => {
+    expect(bookingLink('a/b', HOST)).toBe(`${HOST}/booking/a%2Fb`);
+    expect(bookingLink('AbC123', '')).toBe('carapp://booking/AbC123');
+    expect(parseDeepLink(bookingLink('a/b', HOST), HOST)).toEqual({ kind: 'booking', bookingId: 'a/b' });
+  });
+});
+
+describe('deepLinkRoutes', () => {
+  test('stacks the target on top of Landing', () => {
+    expect(deepLinkRoutes(parseDeepLinkPath('/booking/AbC123')!)).toEqual([
+      { name: 'LandingScreen' },
+      { name: 'ConfirmationScreen', params: { bookingId: 'AbC123' } },
+    ]);
+    expect(deepLinkRoutes(parseDeepLinkPath('checkout/s9')!)).toEqual([
+      { name: 'LandingScreen' },
+      { name: 'DetailsScreen', params: { sessionId: 's9' } },
+    ]);
+  });
+
+  test('preselects a linked cart on Landing itself', () => {
+    expect(deepLinkRoutes({ kind: 'cart', cartId: 'c1' })).toEqual([
+      { name: 'LandingScreen', params: { cartId: 'c1' } },
+    ]);
+  });
+});
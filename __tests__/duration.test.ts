@@ -0,0 +1,38 @@
+import { describeDuration, validateWindow } from '../app/services/duration';
+
+const now = new Date('2025-06-01T09:00:00Z');
+const at = (time: string) => new Date(`2025-06-${time}Z`);
+
+describe('validateWindow', () => {
+  test('accepts a window within the limits', () => {
+    expect(validateWindow({ start: at('01T10:00:00'), end: at('01T12:00:00') }, undefined, now)).toBeNull();
+  });
+
+  test('explains why a window is rejected', () => {
+    const check = (start: Date | null, end: Date | null) =>
+      validateWindow({ start, end }, { minHours: 1, maxDays: 7 }, now);
+
+    expect(check(null, at('01T12:00:00'))).toBe('Choose a pick-up and drop-off time.');
+    expect(check(at('01T08:00:00'), at('01T12:00:00'))).toBe('Pick-up time is in the past.');
+    expect(check(at('01T12:00:00'), at('01T12:00:00'))).toBe('Drop-off must be after pick-up.');
+    expect(check(at('01T12:00:00'), at('01T12:30:00'))).toBe('Rentals are at least 1 hour.');
+    expect(check(at('01T12:00:00'), at('09T12:00:00'))).toBe('Rentals can be at most 7 days.');
+  });
+
+  test('allows a pick-up a few minutes ago', () => {
+    expect(validateWindow({ start: at('01T08:57:00'), end: at('01T10:00:00') }, undefined, now)).toBeNull();
+  });
+});
+
+describe('describeDuration', () => {
+  test('spells out days, hours and minutes', () => {
+    expect(describeDuration({ start: at('01T10:00:00'), end: at('01T11:00:00') })).toBe('1 hour');
+    expect(describeDuration({ start: at('01T10:00:00'), end: at('01T11:30:00') })).toBe('1 hour 30 minutes');
+    expect(describeDuration({ start: at('01T10:00:00'), end: at('03T13:00:00') })).toBe('2 days 3 hours');
+  });
+
+  test('is empty for missing or inverted windows', () => {
+    expect(describeDuration({ start: null, end: null })).toBe('');
+    expect(describeDuration({ start: at('01T11:00:00'), end: at('01T10:00:00') })).toBe('');
+  });
+});
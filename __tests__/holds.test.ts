@@ -0,0 +1,50 @@
+import { formatCountdown, holdExpiry, isLapsed, secondsLeft } from '../app/services/holds';
+import {
+  reservationsFromFirestore,
+  reservationsWithout,
+  sessionFromFirestore,
+} from '../app/services/firestore/converters';
+
+const now = new Date('2025-06-10T12:00:00Z');
+const later = (minutes: number) => new Date(now.getTime() + minutes * 60 * 1000);
+
+describe('hold timing', () => {
+  test('expires ten minutes out and lapses at the expiry', () => {
+    const expiresAt = holdExpiry(now);
+    expect(expiresAt).toEqual(later(10));
+    const hold = { bookingId: 's1', start: now, end: later(60), expiresAt };
+    expect(isLapsed(hold, later(9))).toBe(false);
+    expect(isLapsed(hold, later(10))).toBe(true);
+    expect(isLapsed({ bookingId: 'b1', start: now, end: later(60) }, later(100))).toBe(false);
+  });
+
+  test('counts down in whole seconds, never below zero', () => {
+    expect(secondsLeft(later(10), now)).toBe(600);
+    expect(secondsLeft(now, later(1))).toBe(0);
+    expect(formatCountdown(545)).toBe('9:05');
+    expect(formatCountdown(0)).toBe('0:00');
+  });
+});
+
+describe('hold documents', () => {
+  test('reads the expiry on schedule entries and sessions', () => {
+    const [entry] = reservationsFromFirestore({
+      reservations: [{ bookingId: 's1', start: now, end: later(60), expiresAt: later(10) }],
+    });
+    expect(entry.expiresAt).toEqual(later(10));
+    const session = sessionFromFirestore('s1', { hold: { unitIds: ['u1'], expiresAt: later(10) } });
+    expect(session.hold).toEqual({ unitIds: ['u1'], expiresAt: later(10) });
+    expect(sessionFromFirestore('s2', {}).hold).toBeNull();
+  });
+
+  test('drops expired holds when a schedule is rewritten', () => {
+    const data = {
+      reservations: [
+        { bookingId: 'b1', start: 1, end: 2 },
+        { bookingId: 's1', start: 1, end: 2, expiresAt: later(-1) },
+        { bookingId: 's2', start: 1, end: 2, expiresAt: later(5) },
+      ],
+    };
+    expect(reservationsWithout(data, 'b1', now).map(r => r.bookingId)).toEqual(['s2']);
+  });
+});
@@ -0,0 +1,74 @@
+import { createMockProvider } from '../app/services/payments/mock.provider';
+import { isRetryable } from '../app/services/payments/provider';
+
+const card = (number: string) => ({ number, expMonth: 4, expYear: 2030, cvc: '123', name: 'Ana Lopez' });
+
+describe('createMockProvider', () => {
+  test('tokenizes without exposing the card number', async () => {
+    const provider = createMockProvider();
+    const token = await provider.tokenizeCard(card('4242 4242 4242 4242'));
+    expect(token).toEqual({ id: expect.any(String), brand: 'Visa', last4: '4242', expMonth: 4, expYear: 2030 });
+    expect(JSON.stringify(token)).not.toContain('42424242');
+  });
+
+  test('authorizes, partially captures and refunds', async () => {
+    const provider = createMockProvider();
+    const token = await provider.tokenizeCard(card('4242424242424242'));
+    const intent = await provider.authorize({
+      customerId: await provider.createCustomer({ uid: 'u1', email: '', name: '' }),
+      tokenId: token.id,
+      amount: 120,
+      currency: 'USD',
+      description: 'test',
+      reference: 'b1',
+    });
+    expect(intent).toMatchObject({ status: 'authorized', amount: 120, captured: 0 });
+
+    expect(await provider.capture(intent.id, 100)).toMatchObject({ status: 'captured', captured: 100 });
+    expect(await provider.refund(intent.id, 40)).toMatchObject({ status: 'partially_refunded', refunded: 40 });
+    expect(await provider.refund(intent.id)).toMatchObject({ status: 'refunded', refunded: 100 });
+    await expect(provider.refund(intent.id, 1)).rejects.toMatchObject({ code: 'invalid_request' });
+  });
+
+  test('no longer charges a detached card', async () => {
+    const provider = createMockProvider();
+    const token = await provider.tokenizeCard(card('4242424242424242'));
+    await provider.detachCard(token.id);
+    await provider.detachCard(token.id);
+    await expect(
+      provider.authorize({ customerId: 'c', tokenId: token.id, amount: 10, currency: 'USD', description: '', reference: 'b1' }),
+    ).rejects.toMatchObject({ code: 'invalid_request' });
+  });
+
+  test('voids only uncaptured authorizations', async () => {
+    const provider = createMockProvider();
+    const token = await provider.tokenizeCard(card('4242424242424242'));
+    const input = { customerId: 'c', tokenId: token.id, amount: 50, currency: 'USD', description: '', reference: 'b1' };
+    const first = await provider.authorize(input);
+    expect(await provider.void(first.id)).toMatchObject({ status: 'voided' });
+
+    const second = await provider.authorize(input);
+    await provider.capture(second.id);
+    await expect(provider.void(second.id)).rejects.toMatchObject({ code: 'invalid_request' });
+  });
+
+  test('fails like the matching Stripe test cards', async () => {
+    const provider = createMockProvider();
+    const attempt = async (number: string) => {
+      const token = await provider.tokenizeCard(card(number));
+      return provider.authorize({ customerId: 'c', tokenId: token.id, amount: 10, currency: 'USD', description: '', reference: 'b1' });
+    };
+    await expect(attempt('4000000000000002')).rejects.toMatchObject({ code: 'card_declined' });
+    await expect(attempt('4000000000009995')).rejects.toMatchObject({ code: 'insufficient_funds' });
+
+    const retryable = await attempt('4000000000000119').catch(err => err);
+    expect(retryable.code).toBe('processing_error');
+    expect(isRetryable(retryable)).toBe(true);
+  });
+
+  test('rejects incomplete card numbers', async () => {
+    await expect(createMockProvider().tokenizeCard(card('4242'))).rejects.toMatchObject({
+      code: 'invalid_request',
+    });
+  });
+});
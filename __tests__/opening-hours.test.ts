@@ -0,0 +1,104 @@
+import {
+  locationFromFirestore,
+  parseClock,
+  slotBookingsFromFirestore,
+} from '../app/services/firestore/converters';
+import {
+  firstSlotFrom,
+  slotBookingCount,
+  slotKey,
+  slotsLeft,
+  slotsOn,
+  validateOpeningHours,
+} from '../app/services/opening-hours';
+
+// Local times, like the pickers. 2025-06-02 is a Monday.
+const at = (day: number, hour: number, minute = 0) => new Date(2025, 5, day, hour, minute);
+
+const location = locationFromFirestore('main', {
+  address: '123 Golf Course Road',
+  hours: {
+    mon: { open: '09:00', close: '12:00' },
+    tue: { open: '09:00', close: '12:00' },
+    sun: null,
+  },
+  blackouts: ['2025-06-03'],
+  slotMinutes: 60,
+  maxPickupsPerSlot: 2,
+});
+
+describe('locationFromFirestore', () => {
+  test('reads weekday hours, treating missing days as closed', () => {
+    expect(location.hours[1]).toEqual({ open: 540, close: 720 });
+    expect(location.hours[0]).toBeNull();
+    expect(location.hours[3]).toBeNull();
+  });
+
+  test('falls back to default hours and slot settings', () => {
+    const fallback = locationFromFirestore('main', {});
+    expect(fallback.hours.every(h => h?.open === 480 && h.close === 1080)).toBe(true);
+    expect(fallback).toMatchObject({ slotMinutes: 30, maxPickupsPerSlot: 4, blackouts: [] });
+  });
+
+  test('parses clock times', () => {
+    expect(parseClock('08:30')).toBe(510);
+    expect(parseClock('8am')).toBeNull();
+  });
+});
+
+describe('slotsOn', () => {
+  test('lists slot starts within opening hours, skipping past ones', () => {
+    expect(slotsOn(location, at(2, 0), at(1, 0)).map(slotKey)).toEqual([
+      '2025-06-02T09:00',
+      '2025-06-02T10:00',
+      '2025-06-02T11:00',
+    ]);
+    expect(slotsOn(location, at(2, 0), at(2, 10, 15)).map(slotKey)).toEqual(['2025-06-02T11:00']);
+  });
+
+  test('has no slots on closed days or blackout dates', () => {
+    expect(slotsOn(location, at(1, 0), at(1, 0))).toEqual([]);
+    expect(slotsOn(location, at(3, 0), at(1, 0))).toEqual([]);
+  });
+
+  test('finds the next open slot across closed days', () => {
+    expect(firstSlotFrom(location, at(2, 12, 30))).toEqual(at(9, 9));
+  });
+});
+
+describe('validateOpeningHours', () => {
+  test('accepts a window from a slot to an open drop-off time', () => {
+    expect(validateOpeningHours(location, { start: at(2, 10), end: at(2, 11, 45) })).toBeNull();
+  });
+
+  test('rejects closed days, off-hours and off-slot pick-ups', () => {
+    expect(validateOpeningHours(location, { start: at(3, 10), end: at(3, 11) })).toMatch(/closed/);
+    expect(validateOpeningHours(location, { start: at(2, 8), end: at(2, 11) })).toBe(
+      'Pick-up must be between 09:00 and 12:00.',
+    );
+    expect(validateOpeningHours(location, { start: at(2, 9, 30), end: at(2, 11) })).toBe(
+      'Choose one of the listed pick-up slots.',
+    );
+    expect(validateOpeningHours(location, { start: at(2, 10), end: at(2, 13) })).toBe(
+      'Drop-off must be between 09:00 and 12:00.',
+    );
+    expect(validateOpeningHours(location, { start: at(2, 10), end: at(3, 10) })).toMatch(/drop-off day/);
+  });
+
+  test('counts remaining slot capacity', () => {
+    expect(slotsLeft(location, 1)).toBe(1);
+    expect(slotsLeft(location, 3)).toBe(0);
+  });
+
+  test('counts unpaid bookings only until their payment deadline', () => {
+    const now = at(2, 10);
+    const entries = slotBookingsFromFirestore({
+      bookings: ['paid', 'b2'],
+      pending: { b2: at(2, 9), unpaid: at(2, 10, 5), lapsed: at(2, 9, 55), broken: 'soon' },
+    });
+    expect(entries).toHaveLength(5);
+    expect(slotBookingCount(entries, undefined, now)).toBe(3);
+    expect(slotBookingCount(entries, 'paid', now)).toBe(2);
+    expect(slotBookingCount(entries, 'unpaid', at(2, 10, 5))).toBe(2);
+  });
+});
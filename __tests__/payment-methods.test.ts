@@ -0,0 +1,69 @@
+import {
+  nextDefaultAfterRemoving,
+  paymentMethodExpired,
+  paymentMethodLabel,
+  preferredPaymentMethod,
+  samePaymentMethod,
+  sortPaymentMethods,
+  usablePaymentMethods,
+} from '../app/services/payment-methods';
+import type { PaymentMethod } from '../app/services/firestore/models';
+
+const today = new Date(2025, 5, 15);
+
+const method = (id: string, extra: Partial<PaymentMethod> = {}): PaymentMethod => ({
+  id,
+  customerId: 'u1',
+  provider: 'mock',
+  tokenId: `pm_${id}`,
+  brand: 'Visa',
+  last4: '4242',
+  expiry: '04/28',
+  isDefault: false,
+  createdAt: new Date('2025-01-01T00:00Z'),
+  ...extra,
+});
+
+const older = method('a', { createdAt: new Date('2024-01-01T00:00Z') });
+const newer = method('b', { createdAt: new Date('2025-03-01T00:00Z') });
+const chosen = method('c', { isDefault: true, createdAt: new Date('2023-01-01T00:00Z') });
+
+describe('sortPaymentMethods', () => {
+  test('lists the default first, then the newest', () => {
+    expect(sortPaymentMethods([older, newer, chosen]).map(m => m.id)).toEqual(['c', 'b', 'a']);
+  });
+});
+
+describe('choosing a card at checkout', () => {
+  test('skips expired cards and other providers', () => {
+    const expired = method('x', { expiry: '05/25', isDefault: true });
+    const stripe = method('s', { provider: 'stripe' });
+    expect(paymentMethodExpired(expired, today)).toBe(true);
+    expect(paymentMethodExpired(method('y', { expiry: '06/25' }), today)).toBe(false);
+    expect(usablePaymentMethods([expired, stripe, older, newer], 'mock', today).map(m => m.id)).toEqual(['b', 'a']);
+  });
+
+  test('prefers the default, falling back to the newest usable card', () => {
+    expect(preferredPaymentMethod([older, newer, chosen], 'mock', today)?.id).toBe('c');
+    expect(preferredPaymentMethod([older, newer, { ...chosen, expiry: '01/24' }], 'mock', today)?.id).toBe('b');
+    expect(preferredPaymentMethod([], 'mock', today)).toBeNull();
+  });
+});
+
+describe('saving and removing', () => {
+  test('recognises a card already on file', () => {
+    expect(samePaymentMethod(older, { ...newer })).toBe(true);
+    expect(samePaymentMethod(older, { ...newer, expiry: '04/29' })).toBe(false);
+    expect(samePaymentMethod(older, { ...newer, provider: 'stripe' })).toBe(false);
+  });
+
+  test('promotes the next card only when the default goes', () => {
+    expect(nextDefaultAfterRemoving([older, newer, chosen], 'c')?.id).toBe('b');
+    expect(nextDefaultAfterRemoving([older, newer, chosen], 'a')).toBeNull();
+    expect(nextDefaultAfterRemoving([chosen], 'c')).toBeNull();
+  });
+
+  test('labels a card by brand and last4', () => {
+    expect(paymentMethodLabel({ brand: 'amex', last4: '0005' })).toBe('American Express •••• 0005');
+  });
+});
@@ -0,0 +1,121 @@
+import {
+  buildQuote,
+  describeLine,
+  formatMoney,
+  quoteTotals,
+  rentalLength,
+} from '../app/services/pricing';
+import type { Cart } from '../app/services/firestore/models';
+
+const cart = (over: Partial<Cart> = {}): Cart => ({
+  id: 'c1',
+  cartId: 'GK-01',
+  brand: 'Club Car',
+  model: 'Onward',
+  passengers: '4',
+  battery: '48V',
+  dailyPrice: 80,
+  hourlyPrice: 15,
+  imageUrl: '',
+  addons: [],
+  ...over,
+});
+
+const at = (iso: string) => new Date(iso);
+
+describe('rentalLength', () => {
+  test('bills short rentals by the started hour', () => {
+    expect(
+      rentalLength({ start: at('2025-06-01T10:00:00Z'), end: at('2025-06-01T12:30:00Z') }),
+    ).toEqual({ unit: 'hour', units: 3, hours: 3, days: 1 });
+  });
+
+  test('bills long rentals by the started day', () => {
+    expect(
+      rentalLength({ start: at('2025-06-01T10:00:00Z'), end: at('2025-06-03T11:00:00Z') }),
+    ).toEqual({ unit: 'day', units: 3, hours: 49, days: 3 });
+  });
+
+  test('bills anything over the hourly threshold as a day', () => {
+    const window = { start: at('2025-06-01T10:00:00Z'), end: at('2025-06-01T14:00:00Z') };
+    expect(rentalLength(window).unit).toBe('hour');
+    expect(
+      rentalLength({ ...window, end: at('2025-06-01T14:10:00Z') }),
+    ).toEqual({ unit: 'day', units: 1, hours: 5, days: 1 });
+  });
+
+  test('treats a missing window as one day', () => {
+    expect(rentalLength({ start: null, end: null }).units).toBe(1);
+  });
+});
+
+describe('buildQuote', () => {
+  const twoDays = { start: at('2025-06-01T10:00:00Z'), end: at('2025-06-03T10:00:00Z') };
+
+  test('itemizes rentals, add-ons, tax and deposit', () => {
+    const quote = buildQuote({
+      carts: [{ cart: cart(), qty: 2 }],
+      addons: [
+        { id: 'cooler', label: 'Cooler', price: 5, unit: 'day' },
+        { id: 'speaker', label: 'Speaker', price: 10, unit: 'flat' },
+      ],
+      dates: twoDays,
+    });
+
+    expect(quote.lines.map(l => l.amount)).toEqual([320, 10, 10]);
+    expect(quote.subtotal).toBe(340);
+    expect(quote.tax).toBe(34);
+    expect(quote.deposit).toBe(100);
+    expect(quote.total).toBe(474);
+    expect(quoteTotals(quote)).toEqual({ base: 340, tax: 34, deposit: 100, total: 474 });
+  });
+
+  test('uses the hourly rate for short rentals when the cart has one', () => {
+    const dates = { start: at('2025-06-01T10:00:00Z'), end: at('2025-06-01T13:00:00Z') };
+    const hourly = buildQuote({ carts: [{ cart: cart(), qty: 1 }], addons: [], dates });
+    expect(hourly.lines[0]).toMatchObject({ unit: 'hour', units: 3, amount: 45 });
+
+    const daily = buildQuote({
+      carts: [{ cart: cart({ hourlyPrice: null }), qty: 1 }],
+      addons: [],
+      dates,
+    });
+    expect(daily.lines[0]).toMatchObject({ unit: 'day', units: 1, amount: 80 });
+  });
+
+  test('prices several cart models in one quote', () => {
+    const quote = buildQuote({
+      carts: [
+        { cart: cart(), qty: 1 },
+        { cart: cart({ id: 'c2', model: 'Tempo', dailyPrice: 100 }), qty: 2 },
+      ],
+      addons: [],
+      dates: twoDays,
+    });
+    expect(quote.lines.map(l => [l.id, l.amount])).toEqual([
+      ['c1', 160],
+      ['c2', 400],
+    ]);
+    expect(quote.deposit).toBe(150);
+  });
+
+  test('skips carts with no quantity and charges no deposit without rentals', () => {
+    const quote = buildQuote({ carts: [{ cart: cart(), qty: 0 }], addons: [], dates: twoDays });
+    expect(quote.lines).toHaveLength(0);
+    expect(quote.total).toBe(0);
+  });
+});
+
+describe('formatting', () => {
+  test('formats money and line descriptions', () => {
+    expect(formatMoney(12.5)).toBe('$12.50');
+    expect(formatMoney(-3)).toBe('-$3.00');
+    expect(formatMoney(7, 'EUR')).toBe('EUR 7.00');
+    const quote = buildQuote({
+      carts: [{ cart: cart(), qty: 2 }],
+      addons: [],
+      dates: { start: at('2025-06-01T10:00:00Z'), end: at('2025-06-03T10:00:00Z') },
+    });
+    expect(describeLine(quote.lines[0])).toBe('2 × $80.00 × 2 days');
+  });
+});
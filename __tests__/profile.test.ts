@@ -0,0 +1,54 @@
+import { ageOn, EMPTY_PROFILE, parseDob, validateProfile } from '../app/services/profile';
+
+const now = new Date(2025, 5, 10);
+
+const valid = {
+  ...EMPTY_PROFILE,
+  firstName: 'Ana',
+  lastName: 'Lopez',
+  dob: '1990-04-02',
+  address: '1 Ocean Dr',
+  phone: '+1 (787) 555-0100',
+  email: 'ana@example.com',
+  driverLicense: 'D123-456',
+};
+
+describe('parseDob', () => {
+  test('accepts real YYYY-MM-DD dates only', () => {
+    expect(parseDob('1990-04-02')).toEqual(new Date(1990, 3, 2));
+    expect(parseDob('1990-02-30')).toBeNull();
+    expect(parseDob('02/04/1990')).toBeNull();
+  });
+});
+
+describe('ageOn', () => {
+  test('counts a birthday only once it has passed', () => {
+    expect(ageOn(new Date(2007, 5, 10), now)).toBe(18);
+    expect(ageOn(new Date(2007, 5, 11), now)).toBe(17);
+  });
+});
+
+describe('validateProfile', () => {
+  test('accepts a complete profile', () => {
+    expect(validateProfile(valid, now)).toEqual({});
+  });
+
+  test('flags missing required fields', () => {
+    const errors = validateProfile(EMPTY_PROFILE, now);
+    expect(Object.keys(errors).sort()).toEqual(
+      ['address', 'dob', 'driverLicense', 'email', 'firstName', 'lastName', 'phone'].sort(),
+    );
+    expect(errors.city).toBeUndefined();
+  });
+
+  test('checks email, phone, licence and age', () => {
+    const errors = validateProfile(
+      { ...valid, email: 'ana@', phone: '12', driverLicense: 'D 1!', dob: '2010-01-01' },
+      now,
+    );
+    expect(errors.email).toBeDefined();
+    expect(errors.phone).toBeDefined();
+    expect(errors.driverLicense).toBeDefined();
+    expect(errors.dob).toBe('Renters must be at least 18.');
+  });
+});
@@ -0,0 +1,88 @@
+/* eslint-disable no-bitwise */
+import { encodeQr, qrVersionFor } from '../app/services/qr-code';
+
+// Reads the 15 format bits from the copy around the top-left finder.
+function formatBits(m: boolean[][]) {
+  const coords: [number, number][] = [0, 1, 2, 3, 4, 5].map(i => [8, i]);
+  coords.push([8, 7], [8, 8], [7, 8], [5, 8], [4, 8], [3, 8], [2, 8], [1, 8], [0, 8]);
+  return coords.reduce((bits, [x, y], i) => (m[y][x] ? bits | (1 << i) : bits), 0);
+}
+
+// A booking pass as drawn by encodeQr, module for module. It matches the
+// output of Kazuhiko Arase's qrcode-generator for the same text, level M and
+// mask 2.
+const PASS_MATRIX = [
+  '#######..###....#.#######',
+  '#.....#......###..#.....#',
+  '#.###.#.#.###.#.#.#.###.#',
+  '#.###.#.#.#...#...#.###.#',
+  '#.###.#.###..#..#.#.###.#',
+  '#.....#.##.##..##.#.....#',
+  '#######.#.#.#.#.#.#######',
+  '........###.#.##.........',
+  '#.#####...#..##...#####..',
+  '..####.#.####...##...#..#',
+  '.##...#.......###.##.####',
+  '##.......#.##........#.#.',
+  '..##.##...##.##...###.#.#',
+  '####.#..#...###.##...#..#',
+  '#..#..#.##....###.#######',
+  '#.###..##.#.#...##.....#.',
+  '#....##.##..###.#####.###',
+  '........##....###...#.#.#',
+  '#######..#####..#.#.##.##',
+  '#.....#.#.##..#.#...#...#',
+  '#.###.#.#..###########...',
+  '#.###.#.###.##..###..#.##',
+  '#.###.#.###.....#..#....#',
+  '#.....#...##..###.#.#...#',
+  '#######.###.###......####',
+];
+
+describe('qrVersionFor', () => {
+  test('picks the smallest level-M version that fits', () => {
+    expect(qrVersionFor(14)).toBe(1);
+    expect(qrVersionFor(15)).toBe(2);
+    expect(qrVersionFor(213)).toBe(10);
+    expect(qrVersionFor(214)).toBeNull();
+  });
+});
+
+describe('encodeQr', () => {
+  test('draws finder patterns in three corners', () => {
+    const m = encodeQr('GCB1|booking');
+    expect(m).toHaveLength(21);
+    const finderRow = [true, true, true, true, true, true, true, false];
+    expect(m[0].slice(0, 8)).toEqual(finderRow);
+    expect(m[0].slice(13)).toEqual([...finderRow].reverse());
+    expect(m[20].slice(0, 8)).toEqual(finderRow);
+    expect(m[13][8]).toBe(true); // the always-dark module
+  });
+
+  test('writes level-M format information', () => {
+    const bits = formatBits(encodeQr('x'.repeat(100)));
+    // Unmasked, the top two data bits are the error correction level (00 for M).
+    expect(((bits ^ 0x5412) >>> 13) & 3).toBe(0);
+  });
+
+  test('adds version information from version 7', () => {
+    const m = encodeQr('y'.repeat(150));
+    expect(m).toHaveLength(49); // version 8
+    let bits = 0;
+    for (let i = 0; i < 18; i++) {
+      if (m[Math.floor(i / 3)][m.length - 11 + (i % 3)]) {
+        bits |= 1 << i;
+      }
+    }
+    expect(bits).toBe(0x085bc);
+  });
+
+  test('matches a known-good encoding of a booking pass', () => {
+    const m = encodeQr('GCB2|AbC123bookingId|sig');
+    expect(m.map(row => row.map(dark => (dark ? '#' : '.')).join(''))).toEqual(PASS_MATRIX);
+  });
+
+  test('rejects text that does not fit', () => {
+    expect(() => encodeQr('z'.repeat(300))).toThrow('too long');
+  });
+});
@@ -0,0 +1,145 @@
+import {
+  bookingFromFirestore,
+  customerFromFirestore,
+  paymentFromFirestore,
+} from '../app/services/firestore/converters';
+import {
+  assertInvoiceDetails,
+  buildReceipt,
+  canIssueInvoice,
+  formatInvoiceNumber,
+  receiptHtml,
+} from '../app/services/receipts';
+
+const invoice = { number: 'INV-000042', sequence: 42, issuedAt: new Date('2025-06-11T09:00Z') };
+
+const quote = {
+  lines: [
+    { kind: 'rental', id: 'c1', label: 'EZGO RXV', qty: 2, unit: 'day', units: 1, unitPrice: 100, amount: 200 },
+    { kind: 'addon', id: 'a1', label: 'Cooler <large>', qty: 1, unit: 'flat', units: 1, unitPrice: 20, amount: 20 },
+  ],
+  rental: { unit: 'day', units: 1, hours: 24, days: 1 },
+  subtotal: 220,
+  taxRate: 0.1,
+  tax: 22,
+  deposit: 100,
+  total: 342,
+  currency: 'USD',
+};
+
+const booking = bookingFromFirestore('b1', {
+  status: 'closed',
+  partialBooking: {
+    dates: { start: new Date('2025-06-10T10:00Z'), end: new Date('2025-06-11T10:00Z') },
+    quote,
+  },
+  revisions: [{ at: new Date('2025-06-09T10:00Z'), difference: -20, carts: [], dates: {} }],
+  settlement: { at: new Date('2025-06-11T10:30Z'), deposit: 100, lateFee: 25, damageFee: 0, captured: 25, released: 75, status: 'partially_captured' },
+});
+
+const payment = paymentFromFirestore('p1', {
+  bookingId: 'b1',
+  status: 'captured',
+  amount: 342,
+  currency: 'USD',
+  brand: 'Visa',
+  last4: '4242',
+  createdAt: new Date('2025-06-01T10:00Z'),
+});
+
+const customer = customerFromFirestore('u1', {
+  firstName: 'Ana',
+  lastName: 'Lopez',
+  email: 'ana@example.com',
+  city: 'San Juan',
+});
+
+const business = {
+  name: 'Golf Kart Rental',
+  address: '1 Fairway Dr',
+  email: '',
+  phone: '',
+  taxId: 'TX-123',
+};
+
+describe('formatInvoiceNumber', () => {
+  test('pads the sequence', () => {
+    expect(formatInvoiceNumber(1)).toBe('INV-000001');
+    expect(formatInvoiceNumber(1234567)).toBe('INV-1234567');
+  });
+});
+
+describe('canIssueInvoice', () => {
+  test('waits until the payment is captured', () => {
+    expect(canIssueInvoice(booking, payment)).toBe(true);
+    expect(canIssueInvoice(booking, { ...payment, status: 'refund_pending' })).toBe(true);
+    expect(canIssueInvoice({ ...booking, status: 'pending_payment' }, payment)).toBe(false);
+    expect(canIssueInvoice(booking, { ...payment, status: 'authorized' })).toBe(false);
+  });
+
+  test('never invoices a booking cancelled before it was paid', () => {
+    expect(canIssueInvoice({ ...booking, status: 'cancelled' }, null)).toBe(false);
+    expect(canIssueInvoice(booking, { ...payment, bookingId: 'other' })).toBe(false);
+  });
+});
+
+describe('assertInvoiceDetails', () => {
+  test('refuses to invoice without the business name, address and tax ID', () => {
+    expect(() => assertInvoiceDetails(business)).not.toThrow();
+    expect(() => assertInvoiceDetails({ ...business, taxId: '' })).toThrow('the business tax ID is not set up');
+    expect(() => assertInvoiceDetails({ ...business, name: '', address: '' })).toThrow(
+      'the business name and address are not set up',
+    );
+  });
+});
+
+describe('buildReceipt', () => {
+  const receipt = buildReceipt(booking, invoice, payment, customer, null, business);
+
+  test('itemizes the quote with tax and deposit', () => {
+    expect(receipt.invoiceNumber).toBe('INV-000042');
+    expect(receipt.lines).toEqual([
+      { label: 'EZGO RXV', detail: expect.stringContaining('2 × $100.00'), amount: 200 },
+      { label: 'Cooler <large>', detail: '1 × $20.00', amount: 20 },
+    ]);
+    expect(receipt).toMatchObject({ subtotal: 220, taxRate: 0.1, tax: 22, deposit: 100, total: 342 });
+    expect(receipt.customer).toEqual({ name: 'Ana Lopez', email: 'ana@example.com', address: 'San Juan' });
+  });
+
+  test('lists payments, refunds and what the deposit paid for', () => {
+    expect(receipt.payments).toEqual([{ label: 'Paid by Visa •••• 4242', at: payment.createdAt, amount: 342 }]);
+    expect(receipt.refunds.map(r => [r.label, r.amount])).toEqual([
+      ['Booking change refund', 20],
+      ['Deposit returned', 75],
+    ]);
+    expect(receipt.charges.map(c => [c.label, c.amount])).toEqual([['Late return fee', 25]]);
+    expect(receipt.paid).toBe(342);
+    expect(receipt.refunded).toBe(95);
+  });
+
+  test('falls back to legacy totals without a quote or payment', () => {
+    const legacy = bookingFromFirestore('b2', {
+      partialBooking: {
+        carts: [{ id: 'c1', brand: 'Club Car', model: 'Onward', qty: 2 }],
+        totals: { base: 100, tax: 10, deposit: 50, total: 160 },
+      },
+      cancellation: { refund: 160, fee: 0 },
+    });
+    const legacyReceipt = buildReceipt(legacy, invoice, null, null, null, business);
+    expect(legacyReceipt.lines).toEqual([{ label: 'Cart rental', detail: '2 × Club Car Onward', amount: 100 }]);
+    expect(legacyReceipt.payments).toEqual([]);
+    expect(legacyReceipt.refunds).toEqual([{ label: 'Cancellation refund', at: null, amount: 160 }]);
+  });
+});
+
+describe('receiptHtml', () => {
+  test('renders the invoice with escaped text', () => {
+    const html = receiptHtml(buildReceipt(booking, invoice, payment, customer, null, business));
+    expect(html).toContain('<title>Invoice INV-000042</title>');
+    expect(html).toContain('Cooler &lt;large&gt;');
+    expect(html).not.toContain('Cooler <large>');
+    expect(html).toContain('$342.00');
+    expect(html).toContain('-$75.00');
+    expect(html).toContain('Net paid');
+  });
+});
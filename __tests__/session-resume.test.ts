@@ -0,0 +1,41 @@
+import { latestResumable, resumeScreen } from '../app/services/session-resume';
+import { sessionFromFirestore } from '../app/services/firestore/converters';
+
+const now = new Date('2025-06-10T12:00:00Z');
+
+const session = (id: string, updatedAt: string, extra: Record<string, any> = {}) =>
+  sessionFromFirestore(id, {
+    customerId: 'u1',
+    status: 'in_progress',
+    updatedAt: new Date(updatedAt),
+    ...extra,
+  });
+
+describe('latestResumable', () => {
+  test('picks the most recently touched in-progress session', () => {
+    const picked = latestResumable(
+      [
+        session('older', '2025-06-08T12:00:00Z'),
+        session('newer', '2025-06-09T12:00:00Z'),
+        session('booked', '2025-06-10T11:00:00Z', { status: 'booked' }),
+        session('amend', '2025-06-10T11:00:00Z', { amendsBookingId: 'b1' }),
+      ],
+      now,
+    );
+    expect(picked?.id).toBe('newer');
+  });
+
+  test('ignores sessions outside the resume window', () => {
+    expect(latestResumable([session('stale', '2025-05-01T12:00:00Z')], now)).toBeNull();
+  });
+});
+
+describe('resumeScreen', () => {
+  test('resumes on Review once dates were saved', () => {
+    expect(resumeScreen(session('s', '2025-06-09T12:00:00Z'))).toBe('DetailsScreen');
+    const withDates = session('s', '2025-06-09T12:00:00Z', {
+      partialBooking: { dates: { start: now, end: now } },
+    });
+    expect(resumeScreen(withDates)).toBe('ReviewScreen');
+  });
+});
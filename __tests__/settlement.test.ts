@@ -0,0 +1,125 @@
+import { bookingFromFirestore, locationFromFirestore } from '../app/services/firestore/converters';
+import {
+  DEFAULT_RETURN_POLICY,
+  damageFeeFor,
+  depositOf,
+  lateFeeFor,
+  returnPolicyFor,
+  settleDeposit,
+  settlementWithIntent,
+} from '../app/services/settlement';
+
+// Two carts: $100 deposit, drop-off at noon.
+const booking = bookingFromFirestore('b1', {
+  status: 'returned',
+  partialBooking: {
+    dates: { start: new Date('2025-06-10T10:00Z'), end: new Date('2025-06-10T12:00Z') },
+    totals: { base: 200, tax: 20, deposit: 100, total: 320 },
+  },
+});
+
+const at = (time: string) => new Date(`2025-06-10T${time}Z`);
+
+describe('depositOf', () => {
+  test('reads the legacy totals when there is no quote', () => {
+    expect(depositOf(booking)).toBe(100);
+    expect(depositOf(bookingFromFirestore('b2', {}))).toBe(0);
+  });
+});
+
+describe('lateFeeFor', () => {
+  test('nothing within the grace period', () => {
+    expect(lateFeeFor(booking, DEFAULT_RETURN_POLICY, at('11:50'))).toBe(0);
+    expect(lateFeeFor(booking, DEFAULT_RETURN_POLICY, at('12:15'))).toBe(0);
+  });
+
+  test('charges every started hour once past the grace period', () => {
+    expect(lateFeeFor(booking, DEFAULT_RETURN_POLICY, at('12:16'))).toBe(25);
+    expect(lateFeeFor(booking, DEFAULT_RETURN_POLICY, at('13:30'))).toBe(50);
+  });
+});
+
+describe('damageFeeFor', () => {
+  test('adds the charge for each damaged area on each cart', () => {
+    expect(
+      damageFeeFor(
+        [
+          { unitId: 'u1', damaged: ['body', 'lights'] },
+          { unitId: 'u2', damaged: ['body'] },
+        ],
+        DEFAULT_RETURN_POLICY,
+      ),
+    ).toBe(100);
+  });
+});
+
+describe('settleDeposit', () => {
+  test('releases the whole deposit for an on-time, undamaged return', () => {
+    expect(settleDeposit(booking, [{ unitId: 'u1', damaged: [] }], DEFAULT_RETURN_POLICY, at('12:00'))).toEqual({
+      deposit: 100,
+      lateFee: 0,
+      damageFee: 0,
+      captured: 0,
+      released: 100,
+      outstanding: 0,
+      status: 'released',
+    });
+  });
+
+  test('captures charges and releases the rest', () => {
+    const result = settleDeposit(booking, [{ unitId: 'u1', damaged: ['seats'] }], DEFAULT_RETURN_POLICY, at('12:40'));
+    expect(result).toMatchObject({ lateFee: 25, damageFee: 25, captured: 50, released: 50, status: 'partially_captured' });
+  });
+
+  test('captures no more than the deposit and reports the rest as outstanding', () => {
+    const result = settleDeposit(
+      booking,
+      [{ unitId: 'u1', damaged: ['glass', 'charger'] }],
+      DEFAULT_RETURN_POLICY,
+      at('12:30'),
+    );
+    expect(result).toMatchObject({ captured: 100, released: 0, outstanding: 25, status: 'captured' });
+  });
+});
+
+describe('settlementWithIntent', () => {
+  const quote = settleDeposit(booking, [{ unitId: 'u1', damaged: ['seats'] }], DEFAULT_RETURN_POLICY, at('12:40'));
+  const intent = (status: 'captured' | 'voided', captured: number) => ({
+    id: 'pi_1',
+    status,
+    amount: 100,
+    currency: 'USD',
+    captured,
+    refunded: 0,
+  });
+
+  test('records what the deposit intent captured', () => {
+    expect(settlementWithIntent(quote, intent('captured', 50))).toEqual(quote);
+  });
+
+  test('leaves the charges outstanding when the hold had lapsed or was voided', () => {
+    expect(settlementWithIntent(quote, intent('voided', 0))).toMatchObject({
+      lateFee: 25,
+      damageFee: 25,
+      captured: 0,
+      released: 100,
+      outstanding: 50,
+      status: 'released',
+    });
+    expect(settlementWithIntent(quote, null)).toMatchObject({ captured: 0, outstanding: 50 });
+  });
+});
+
+describe('return policy', () => {
+  test('locations fill missing or invalid values from the default policy', () => {
+    const location = locationFromFirestore('main', {
+      returnPolicy: { lateFeePerHour: '30', graceMinutes: -5, damageCharges: { body: 80 } },
+    });
+    const policy = returnPolicyFor(location);
+    expect(policy.lateFeePerHour).toBe(30);
+    expect(policy.graceMinutes).toBe(0);
+    expect(policy.damageCharges).toMatchObject({ body: 80, seats: 25 });
+    expect(returnPolicyFor(locationFromFirestore('main', {}))).toBe(DEFAULT_RETURN_POLICY);
+    expect(returnPolicyFor(null)).toBe(DEFAULT_RETURN_POLICY);
+  });
+});
@@ -0,0 +1,129 @@
+import { createStripeProvider, errorCodeFromStripe, intentFromStripe } from '../app/services/payments/stripe.provider';
+
+const respond = (status: number, body: any) =>
+  Promise.resolve({ ok: status < 400, status, json: () => Promise.resolve(body) } as Response);
+
+const getIdToken = () => Promise.resolve('id-token');
+
+describe('intentFromStripe', () => {
+  test('maps statuses and converts cents', () => {
+    expect(intentFromStripe({ id: 'pi_1', status: 'requires_capture', amount: 12050, currency: 'usd' })).toEqual({
+      id: 'pi_1',
+      status: 'authorized',
+      amount: 120.5,
+      currency: 'USD',
+      captured: 0,
+      refunded: 0,
+    });
+    expect(intentFromStripe({ id: 'pi_2', status: 'succeeded', amount: 5000, amount_received: 5000 }).status).toBe(
+      'captured',
+    );
+    expect(
+      intentFromStripe({ id: 'pi_3', status: 'succeeded', amount_received: 5000, latest_charge: { amount_refunded: 1000 } })
+        .status,
+    ).toBe('partially_refunded');
+    expect(intentFromStripe({ id: 'pi_4', status: 'canceled' }).status).toBe('voided');
+  });
+});
+
+describe('errorCodeFromStripe', () => {
+  test('prefers the decline reason', () => {
+    expect(errorCodeFromStripe({ type: 'card_error', code: 'card_declined', decline_code: 'insufficient_funds' })).toBe(
+      'insufficient_funds',
+    );
+    expect(errorCodeFromStripe({ type: 'card_error', code: 'card_declined', decline_code: 'generic_decline' })).toBe(
+      'card_declined',
+    );
+    expect(errorCodeFromStripe({ type: 'invalid_request_error', code: 'parameter_missing' })).toBe('invalid_request');
+  });
+});
+
+describe('createStripeProvider', () => {
+  test('tokenizes with the publishable key and authorizes through the backend for manual capture', async () => {
+    const fetchImpl = jest
+      .fn()
+      .mockReturnValueOnce(
+        respond(200, { id: 'pm_1', card: { brand: 'visa', last4: '4242', exp_month: 4, exp_year: 2030 } }),
+      )
+      .mockReturnValueOnce(respond(200, { id: 'pi_1', status: 'requires_capture', amount: 10000, currency: 'usd' }));
+    const provider = createStripeProvider({
+      publishableKey: 'pk_test',
+      backendUrl: 'https://pay.example',
+      getIdToken,
+      fetchImpl,
+    });
+
+    const token = await provider.tokenizeCard({ number: '4242 4242 4242 4242', expMonth: 4, expYear: 2030, cvc: '123', name: '' });
+    expect(token).toMatchObject({ id: 'pm_1', last4: '4242' });
+    const [tokenUrl, tokenInit] = fetchImpl.mock.calls[0];
+    expect(tokenUrl).toBe('https://api.stripe.com/v1/payment_methods');
+    expect(tokenInit.headers.Authorization).toBe('Bearer pk_test');
+    expect(tokenInit.body).toContain('card%5Bnumber%5D=4242424242424242');
+
+    const intent = await provider.authorize({ customerId: 'cus_1', tokenId: 'pm_1', amount: 100, currency: 'USD', description: '', reference: 'b1' });
+    expect(intent.status).toBe('authorized');
+    const [intentUrl, intentInit] = fetchImpl.mock.calls[1];
+    expect(intentUrl).toBe('https://pay.example/payment_intents');
+    expect(intentInit.headers.Authorization).toBe('Bearer id-token');
+    expect(JSON.parse(intentInit.body)).toMatchObject({
+      amount: 10000,
+      currency: 'usd',
+      capture_method: 'manual',
+      metadata: { bookingId: 'b1' },
+    });
+  });
+
+  test('sends capture and refund amounts through the backend', async () => {
+    const fetchImpl = jest
+      .fn()
+      .mockReturnValueOnce(respond(200, { id: 'pi_1', status: 'succeeded', amount: 10000, amount_received: 6000 }))
+      .mockReturnValueOnce(respond(200, { id: 're_1' }))
+      .mockReturnValueOnce(respond(200, { id: 'pi_1', status: 'succeeded', amount_received: 6000, amount_refunded: 6000 }));
+    const provider = createStripeProvider({ publishableKey: 'pk', backendUrl: 'https://pay.example', getIdToken, fetchImpl });
+
+    await provider.capture('pi_1', 60);
+    await provider.refund('pi_1', 25.5);
+    const [captureUrl, captureInit] = fetchImpl.mock.calls[0];
+    expect(captureUrl).toBe('https://pay.example/payment_intents/pi_1/capture');
+    expect(captureInit.headers.Authorization).toBe('Bearer id-token');
+    expect(JSON.parse(captureInit.body)).toEqual({ amount_to_capture: 6000 });
+    expect(JSON.parse(fetchImpl.mock.calls[1][1].body)).toEqual({ payment_intent: 'pi_1', amount: 2550 });
+  });
+
+  test('detaches removed cards through the backend', async () => {
+    const fetchImpl = jest.fn().mockReturnValueOnce(respond(200, { id: 'pm_1', customer: null }));
+    const provider = createStripeProvider({ publishableKey: 'pk', backendUrl: 'https://pay.example', getIdToken, fetchImpl });
+
+    await provider.detachCard('pm_1');
+    const [url, init] = fetchImpl.mock.calls[0];
+    expect(url).toBe('https://pay.example/payment_methods/pm_1/detach');
+    expect(init.headers.Authorization).toBe('Bearer id-token');
+  });
+
+  test('refuses backend calls without a signed-in user', async () => {
+    const fetchImpl = jest.fn();
+    const provider = createStripeProvider({
+      publishableKey: 'pk',
+      backendUrl: 'https://pay.example',
+      getIdToken: () => Promise.resolve(null),
+      fetchImpl,
+    });
+    await expect(provider.void('pi_1')).rejects.toMatchObject({ code: 'invalid_request' });
+    expect(fetchImpl).not.toHaveBeenCalled();
+  });
+
+  test('turns declines, outages and network failures into payment errors', async () => {
+    const fetchImpl = jest
+      .fn()
+      .mockReturnValueOnce(respond(402, { error: { type: 'card_error', code: 'expired_card', message: 'Expired.' } }))
+      .mockReturnValueOnce(respond(503, {}))
+      .mockReturnValueOnce(Promise.reject(new Error('offline')));
+    const provider = createStripeProvider({ publishableKey: 'pk', backendUrl: 'https://pay.example', getIdToken, fetchImpl });
+    const input = { customerId: 'c', tokenId: 'pm', amount: 1, currency: 'USD', description: '', reference: 'b1' };
+
+    await expect(provider.authorize(input)).rejects.toMatchObject({ code: 'expired_card', message: 'Expired.' });
+    await expect(provider.authorize(input)).rejects.toMatchObject({ code: 'processing_error' });
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    await expect(provider.authorize(input)).rejects.toMatchObject({ code: 'network_error' });
+  });
+});
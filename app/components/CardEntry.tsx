@@ -0,0 +1,141 @@
+// app/components/CardEntry.tsx
+import React from 'react';
+import { View, Text, TextInput, StyleSheet } from 'react-native';
+import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
+import { colors } from '../theme/colors';
+import { scale } from '../theme/scale';
+import {
+  brandLabel,
+  cvcLengthFor,
+  detectBrand,
+  formatCardNumber,
+  formatExpiry,
+} from '../services/payments';
+import type { CardErrors, CardFields } from '../services/payments';
+
+type Props = {
+  value: CardFields;
+  errors: CardErrors;
+  onChange: (fields: CardFields) => void;
+  editable?: boolean;
+};
+
+/**
+ * New-card form: groups the number and expiry as they are typed and shows
+ * the detected brand. The parent validates with validateCard and hands the
+ * fields to the provider's tokenizeCard; nothing here is ever stored.
+ */
+export default function CardEntry({ value, errors, onChange, editable = true }: Props) {
+  const brand = detectBrand(value.number);
+
+  const set = (field: keyof CardFields, text: string) => onChange({ ...value, [field]: text });
+
+  return (
+    <View>
+      <View style={styles.field}>
+        <Text style={styles.fieldLabel}>Card number</Text>
+        <View style={[styles.input, styles.numberRow, errors.number ? styles.inputError : null]}>
+          <TextInput
+            style={styles.numberInput}
+            placeholder="1234 5678 9012 3456"
+            placeholderTextColor={colors.grayLight}
+            value={value.number}
+            onChangeText={text => set('number', formatCardNumber(text))}
+            keyboardType="number-pad"
+            autoComplete="cc-number"
+            textContentType="creditCardNumber"
+            editable={editable}
+          />
+          {brand === 'unknown' ? (
+            <MaterialCommunityIcons name="credit-card-outline" size={scale(22)} color={colors.grayLight} />
+          ) : (
+            <Text style={styles.brand}>{brandLabel(brand)}</Text>
+          )}
+        </View>
+        {errors.number ? <Text style={styles.errorText}>{errors.number}</Text> : null}
+      </View>
+
+      <View style={styles.field}>
+        <Text style={styles.fieldLabel}>Name on card</Text>
+        <TextInput
+          style={[styles.input, errors.name ? styles.inputError : null]}
+          placeholder="Name on Card"
+          placeholderTextColor={colors.grayLight}
+          value={value.name}
+          onChangeText={text => set('name', text)}
+          autoCapitalize="words"
+          autoComplete="name"
+          editable={editable}
+        />
+        {errors.name ? <Text style={styles.errorText}>{errors.name}</Text> : null}
+      </View>
+
+      <View style={styles.row}>
+        <View style={[styles.field, styles.col, { marginRight: scale(8) }]}>
+          <Text style={styles.fieldLabel}>Expiry date</Text>
+          <TextInput
+            style={[styles.input, errors.expiry ? styles.inputError : null]}
+            placeholder="MM/YY"
+            placeholderTextColor={colors.grayLight}
+            value={value.expiry}
+            onChangeText={text => set('expiry', formatExpiry(text))}
+            keyboardType="number-pad"
+            autoComplete="cc-exp"
+            maxLength={5}
+            editable={editable}
+          />
+          {errors.expiry ? <Text style={styles.errorText}>{errors.expiry}</Text> : null}
+        </View>
+
+        <View style={[styles.field, styles.col, { marginLeft: scale(8) }]}>
+          <Text style={styles.fieldLabel}>{brand === 'amex' ? 'CID' : 'CVV'}</Text>
+          <TextInput
+            style={[styles.input, errors.cvc ? styles.inputError : null]}
+            placeholder={'0'.repeat(cvcLengthFor(brand))}
+            placeholderTextColor={colors.grayLight}
+            value={value.cvc}
+            onChangeText={text => set('cvc', text.replace(/\D/g, ''))}
+            keyboardType="number-pad"
+            autoComplete="cc-csc"
+            maxLength={cvcLengthFor(brand)}
+            secureTextEntry
+            editable={editable}
+          />
+          {errors.cvc ? <Text style={styles.errorText}>{errors.cvc}</Text> : null}
+        </View>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: { flexDirection: 'row' },
+  col: { flex: 1 },
+  field: { marginBottom: scale(16) },
+  fieldLabel: {
+    fontSize: scale(12),
+    color: colors.textDark,
+    opacity: 0.8,
+    marginBottom: scale(6),
+  },
+  input: {
+    backgroundColor: colors.white,
+    borderRadius: scale(6),
+    paddingHorizontal: scale(12),
+    paddingVertical: scale(14),
+    fontSize: scale(14),
+    color: colors.textDark,
+    borderWidth: 1,
+    borderColor: colors.white,
+  },
+  inputError: { borderColor: colors.red },
+  numberRow: { flexDirection: 'row', alignItems: 'center', paddingVertical: 0 },
+  numberInput: {
+    flex: 1,
+    paddingVertical: scale(14),
+    fontSize: scale(14),
+    color: colors.textDark,
+  },
+  brand: { fontSize: scale(12), fontWeight: '600', color: colors.primaryDark },
+  errorText: { fontSize: scale(12), color: colors.red, marginTop: scale(4) },
+});
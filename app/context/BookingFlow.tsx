@@ -0,0 +1,234 @@
+// app/context/BookingFlow.tsx
+import React, { createContext, useCallback, useContext, useMemo, useRef, useState } from 'react';
+import { Alert } from 'react-native';
+import auth from '@react-native-firebase/auth';
+import { useNavigation } from '@react-navigation/native';
+import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import type { NavigatorParamList } from '../navigators/navigation-route';
+import {
+  getSession,
+  placeHold,
+  releaseHold,
+  saveSessionAddons,
+  saveSessionDetails,
+  saveSessionQuantities,
+} from '../services/firestore';
+import type {
+  BookingDates,
+  HoldRequest,
+  PartialBooking,
+  Session,
+  SessionHold,
+} from '../services/firestore';
+import { checkoutFor, priceSession } from '../services/checkout';
+import type { Checkout } from '../services/checkout';
+import { flowRedirect } from '../services/booking-flow';
+import type { FlowStep } from '../services/booking-flow';
+
+type FlowState = {
+  /** The session being checked out. */
+  session: Session | null;
+  /** Its carts, add-ons, location and quote, once a step asked for them. */
+  checkout: Checkout | null;
+};
+
+type BookingFlow = FlowState & {
+  open: (sessionId: string, options?: { reload?: boolean }) => Promise<Session>;
+  loadCheckout: () => Promise<Checkout>;
+  saveDetails: (details: PartialBooking) => Promise<void>;
+  saveAddons: (addons: string[]) => Promise<void>;
+  saveQuantities: (quantities: Record<string, number>) => Promise<void>;
+  hold: (requests: HoldRequest[], dates: BookingDates) => Promise<SessionHold>;
+  release: () => Promise<void>;
+  linkBooking: (bookingId: string) => void;
+  close: () => void;
+};
+
+const EMPTY: FlowState = { session: null, checkout: null };
+
+const BookingFlowContext = createContext<BookingFlow | null>(null);
+
+/**
+ * Owns the booking in progress between Details and Payment. The session is
+ * read once and every step's writes go through here, so later steps use
+ * what is already loaded instead of fetching the session again.
+ */
+export function BookingFlowProvider({ children }: { children: React.ReactNode }) {
+  const [state, setState] = useState<FlowState>(EMPTY);
+  // async actions read the latest state, not the one they were created with
+  const stateRef = useRef(state);
+
+  const update = useCallback((next: FlowState) => {
+    stateRef.current = next;
+    setState(next);
+  }, []);
+
+  const current = useCallback(() => {
+    const { session } = stateRef.current;
+    if (!session) {
+      throw new Error('No booking in progress');
+    }
+    return session;
+  }, []);
+
+  // 🔹 Apply a saved change to the session, if it is still the open one.
+  //    The checkout is kept as is, re-priced, or dropped to be rebuilt.
+  const patch = useCallback(
+    (sessionId: string, change: (s: Session) => Session, checkout: 'keep' | 'reprice' | 'drop') => {
+      const { session, checkout: loaded } = stateRef.current;
+      if (session?.id !== sessionId) {
+        return;
+      }
+      const next = change(session);
+      if (!loaded || checkout === 'drop') {
+        update({ session: next, checkout: null });
+        return;
+      }
+      const quote =
+        checkout === 'reprice' ? priceSession(next.partialBooking, loaded.carts, loaded.addons) : loaded.quote;
+      update({ session: next, checkout: { ...loaded, session: next, quote } });
+    },
+    [update],
+  );
+
+  const open = useCallback(
+    async (sessionId: string, { reload = false }: { reload?: boolean } = {}) => {
+      const cached = stateRef.current.session;
+      if (cached?.id === sessionId && !reload) {
+        return cached;
+      }
+      const session = await getSession(sessionId);
+      update({ session, checkout: null });
+      return session;
+    },
+    [update],
+  );
+
+  const loadCheckout = useCallback(async () => {
+    const session = current();
+    const { checkout } = stateRef.current;
+    if (checkout) {
+      return checkout;
+    }
+    const loaded = await checkoutFor(session);
+    if (stateRef.current.session === session) {
+      update({ session, checkout: loaded });
+    }
+    return loaded;
+  }, [current, update]);
+
+  const saveDetails = useCallback(
+    async (details: PartialBooking) => {
+      const { id } = current();
+      await saveSessionDetails(id, details);
+      patch(id, s => ({ ...s, partialBooking: { ...s.partialBooking, ...details } }), 'drop');
+    },
+    [current, patch],
+  );
+
+  const saveAddons = useCallback(
+    async (addons: string[]) => {
+      const { id } = current();
+      await saveSessionAddons(id, addons);
+      patch(id, s => ({ ...s, partialBooking: { ...s.partialBooking, addons } }), 'drop');
+    },
+    [current, patch],
+  );
+
+  // Shown (and priced) straight away, then saved
+  const saveQuantities = useCallback(
+    async (quantities: Record<string, number>) => {
+      const { id } = current();
+      patch(id, s => ({ ...s, partialBooking: { ...s.partialBooking, quantities } }), 'reprice');
+      await saveSessionQuantities(id, quantities);
+    },
+    [current, patch],
+  );
+
+  const hold = useCallback(
+    async (requests: HoldRequest[], dates: BookingDates) => {
+      const { id } = current();
+      const placed = await placeHold(id, requests, dates);
+      patch(id, s => ({ ...s, hold: placed }), 'keep');
+      return placed;
+    },
+    [current, patch],
+  );
+
+  const release = useCallback(async () => {
+    const { id } = current();
+    await releaseHold(id);
+    patch(id, s => ({ ...s, hold: null }), 'keep');
+  }, [current, patch]);
+
+  // A booking awaiting payment was created for the session
+  const linkBooking = useCallback(
+    (bookingId: string) => {
+      const { id } = current();
+      patch(id, s => ({ ...s, bookingRef: bookingId }), 'keep');
+    },
+    [current, patch],
+  );
+
+  const close = useCallback(() => update(EMPTY), [update]);
+
+  const value = useMemo(
+    () => ({
+      ...state,
+      open,
+      loadCheckout,
+      saveDetails,
+      saveAddons,
+      saveQuantities,
+      hold,
+      release,
+      linkBooking,
+      close,
+    }),
+    [state, open, loadCheckout, saveDetails, saveAddons, saveQuantities, hold, release, linkBooking, close],
+  );
+
+  return <BookingFlowContext.Provider value={value}>{children}</BookingFlowContext.Provider>;
+}
+
+export function useBookingFlow(): BookingFlow {
+  const flow = useContext(BookingFlowContext);
+  if (!flow) {
+    throw new Error('useBookingFlow must be used inside BookingFlowProvider');
+  }
+  return flow;
+}
+
+/**
+ * Opens the session for a checkout step, or sends the customer to the step
+ * it still needs (see flowRedirect) and resolves to null. Details always
+ * re-reads the session: Landing and booking changes write it just before.
+ */
+export function useFlowStep(step: FlowStep) {
+  const { open } = useBookingFlow();
+  const navigation = useNavigation<NativeStackNavigationProp<NavigatorParamList>>();
+
+  return useCallback(
+    async (sessionId: string): Promise<Session | null> => {
+      let session: Session | null = null;
+      try {
+        session = await open(sessionId, { reload: step === 'DetailsScreen' });
+      } catch (err) {
+        console.error('❌ booking flow load error', err);
+        Alert.alert('Error', 'Could not load your booking. Please start again.');
+      }
+
+      const redirect = flowRedirect(step, session, auth().currentUser?.uid ?? null);
+      if (redirect === 'LandingScreen') {
+        navigation.popTo('LandingScreen');
+        return null;
+      }
+      if (redirect) {
+        navigation.replace(redirect, { sessionId });
+        return null;
+      }
+      return session;
+    },
+    [navigation, open, step],
+  );
+}
@@ -15,6 +15,11 @@ import ReviewScreen       from '../screens/Review.screen';
 import ConfirmationScreen from '../screens/Confirmation.screen';
 import LandingScreen      from '../screens/Landing.screen';
 import DetailsScreen      from '../screens/Details.screen';
+import MyBookingsScreen   from '../screens/MyBookings.screen';
+import ProfileScreen      from '../screens/Profile.screen';
+import PaymentMethodsScreen from '../screens/PaymentMethods.screen';
+import StaffCounterScreen from '../screens/StaffCounter.screen';
+import StaffBookingScreen from '../screens/StaffBooking.screen';
 
 import { colors } from '../theme/colors';
 import { scale }  from '../theme/scale';
@@ -79,6 +84,15 @@ export function AppNavigator() {
       <Stack.Screen name="ReviewScreen"       component={ReviewScreen} />
       <Stack.Screen name="ConfirmationScreen" component={ConfirmationScreen} />
 
+      {/* account */}
+      <Stack.Screen name="MyBookingsScreen"   component={MyBookingsScreen} />
+      <Stack.Screen name="ProfileScreen"      component={ProfileScreen} />
+      <Stack.Screen name="PaymentMethodsScreen" component={PaymentMethodsScreen} />
+
+      {/* staff counter */}
+      <Stack.Screen name="StaffCounterScreen" component={StaffCounterScreen} />
+      <Stack.Screen name="StaffBookingScreen" component={StaffBookingScreen} />
+
       {/* an optional tabbed home */}
     </Stack.Navigator>
   );
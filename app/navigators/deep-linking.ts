@@ -0,0 +1,101 @@
+import { Linking } from 'react-native';
+import type { LinkingOptions } from '@react-navigation/native';
+import {
+  DEEP_LINK_PREFIXES,
+  deepLinkRoutes,
+  parseDeepLink,
+  parseDeepLinkPath,
+} from '../services/deep-links';
+import { NavigatorParamList } from './navigation-route';
+import { navigationRef } from './navigation-utilities';
+
+// A link that arrived while nobody was signed in (or before the profile was
+// created) waits here until the app navigator is showing.
+let pendingUrl: string | null = null;
+let linksOpen = false;
+let launchUrlRead = false;
+let deliver: ((url: string) => void) | null = null;
+
+/**
+ * Let a link through when the app navigator can handle it; otherwise keep
+ * it (the latest wins) for replayPendingDeepLink.
+ */
+function admit(url: string): string | null {
+  if (!parseDeepLink(url)) {
+    return null;
+  }
+  if (!linksOpen) {
+    pendingUrl = url;
+    return null;
+  }
+  return url;
+}
+
+function takePending(): string | null {
+  const url = linksOpen ? pendingUrl : null;
+  if (url) {
+    pendingUrl = null;
+  }
+  return url;
+}
+
+/**
+ * Open once the signed-in app navigator is showing; closed again when
+ * falling back to registration, so links wait for the sign-in.
+ */
+export function setDeepLinksOpen(open: boolean) {
+  linksOpen = open;
+  replayPendingDeepLink();
+}
+
+/**
+ * Hand the held-back link to the container, once it has a navigator to
+ * handle it. Also wired to the container's onReady.
+ */
+export function replayPendingDeepLink() {
+  if (!deliver || !navigationRef.isReady()) {
+    return;
+  }
+  const url = takePending();
+  if (url) {
+    deliver(url);
+  }
+}
+
+export const linking: LinkingOptions<NavigatorParamList> = {
+  prefixes: DEEP_LINK_PREFIXES,
+
+  // The container asks again each time it remounts (e.g. after the
+  // sign-in loader); the launch link is only read the first time, after
+  // that it is whatever was held back meanwhile.
+  async getInitialURL() {
+    if (!launchUrlRead) {
+      launchUrlRead = true;
+      const url = await Linking.getInitialURL();
+      const admitted = url ? admit(url) : null;
+      if (admitted) {
+        return admitted;
+      }
+    }
+    return takePending();
+  },
+
+  subscribe(listener) {
+    deliver = listener;
+    const subscription = Linking.addEventListener('url', ({ url }) => {
+      const admitted = admit(url);
+      if (admitted) {
+        listener(admitted);
+      }
+    });
+    return () => {
+      deliver = null;
+      subscription.remove();
+    };
+  },
+
+  getStateFromPath(path) {
+    const target = parseDeepLinkPath(path);
+    return target ? { routes: deepLinkRoutes(target) } : undefined;
+  },
+};
@@ -3,12 +3,18 @@ export type NavigatorParamList = {
   ['WelcomeScreen']: undefined;
   ['RentalMapScreen']: undefined;
   ['RegistrationScreen']: undefined;
-  ['AddOnsScreen']: undefined;
-  ['PaymentScreen']: undefined;
-  ['ReviewScreen']: undefined;
-  ['ConfirmationScreen']: undefined;
-  ['LandingScreen']: undefined;
-  ['DetailsScreen']: undefined;
+  ['AddOnsScreen']: { sessionId: string };
+  ['PaymentScreen']: { sessionId: string };
+  ['ReviewScreen']: { sessionId: string };
+  ['ConfirmationScreen']: { bookingId: string };
+  // cartId: preselected when opened from a `/cart/:id` link
+  ['LandingScreen']: { cartId?: string } | undefined;
+  ['DetailsScreen']: { sessionId: string };
+  ['MyBookingsScreen']: undefined;
+  ['ProfileScreen']: undefined;
+  ['PaymentMethodsScreen']: undefined;
+  ['StaffCounterScreen']: undefined;
+  ['StaffBookingScreen']: { bookingId: string };
 
 };
 
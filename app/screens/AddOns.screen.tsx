@@ -12,131 +12,61 @@ import {
   Alert,
 } from 'react-native';
 import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
-import firestore from '@react-native-firebase/firestore';
 import { colors } from '../theme/colors';
 import { scale } from '../theme/scale';
 import type { NativeStackScreenProps } from '@react-navigation/native-stack';
 import type { NavigatorParamList } from '../navigators/navigation-route';
+import { getAddons } from '../services/firestore';
+import type { Addon } from '../services/firestore';
+import { compatibleAddons, isSoldOut, resolveAddons } from '../services/addons';
+import { checkAddonStock } from '../services/checkout';
+import { describeAddonPrice } from '../services/pricing';
+import { useBookingFlow, useFlowStep } from '../context/BookingFlow';
 
 const { width } = Dimensions.get('window');
 
 type Props = NativeStackScreenProps<NavigatorParamList, 'AddOnsScreen'>;
 
-type AddOn = {
-  label: string;
+type AddOn = Addon & {
   selected: boolean;
+  soldOut: boolean;
 };
 
 export default function AddOnsScreen({ navigation, route }: Props) {
-  // grab sessionId from route params
-  const { sessionId } = (route.params || {}) as { sessionId?: string };
+  const { sessionId } = route.params;
+  const flow = useBookingFlow();
+  const enterStep = useFlowStep('AddOnsScreen');
 
   const [loading, setLoading] = useState(true);
   const [addons, setAddons] = useState<AddOn[]>([]);
 
   useEffect(() => {
-    if (!sessionId) {
-      Alert.alert('Missing session', 'No sessionId was provided to Add-Ons screen.');
-      setLoading(false);
-      return;
-    }
-
     let cancelled = false;
 
-    const parseAddonsField = (raw: any): string[] => {
-      if (!raw) return [];
-      // direct array
-      if (Array.isArray(raw)) return raw.map(String).map(s => s.trim()).filter(Boolean);
-
-      // object with keys? try values
-      if (typeof raw === 'object') {
-        return Object.values(raw).map(String).map(s => s.trim()).filter(Boolean);
-      }
-
-      // string: try to parse JSON first (in some docs it's stored as "['A','B']")
-      if (typeof raw === 'string') {
-        const s = raw.trim();
-        try {
-          // attempt JSON parse if it's valid JSON
-          const p = JSON.parse(s);
-          if (Array.isArray(p)) return p.map(String).map(i => i.trim()).filter(Boolean);
-        } catch (e) {
-          // not valid JSON, fall through to manual parse
-        }
-
-        // remove surrounding [] if present and split on commas
-        const stripped = s.replace(/^\[|\]$/g, '').trim();
-        if (!stripped) return [];
-        // split by comma, remove surrounding quotes/spaces
-        return stripped
-          .split(',')
-          .map(x => x.replace(/^["']|["']$/g, '').trim())
-          .filter(Boolean);
-      }
-
-      return [];
-    };
-
     const load = async () => {
       try {
-        const db = firestore();
-        const sessionSnap = await db.collection('sessions').doc(sessionId).get();
-        if (!sessionSnap.exists) {
-          throw new Error('Session not found');
-        }
-        const sessionData = sessionSnap.data() as any;
-        const partial = sessionData?.partialBooking || {};
-        const cartIds: string[] = Array.isArray(partial?.carts) ? partial.carts : [];
-
-        // Parse any previously saved addons from session (handles array / object / string)
-        const existingAddons = parseAddonsField(partial?.addons);
-
-        if (cartIds.length === 0) {
-          // no carts selected — still show previously saved addons (preselected)
-          if (!cancelled) {
-            const listFromSession = Array.from(new Set(existingAddons)).map(label => ({
-              label,
-              selected: true,
-            }));
-            setAddons(listFromSession);
-          }
+        const session = await enterStep(sessionId);
+        if (!session) {
           return;
         }
+        const { carts: cartIds, addons: saved, dates } = session.partialBooking;
 
-        // fetch cart docs
-        const cartDocs = await Promise.all(
-          cartIds.map(id => db.collection('carts').doc(id).get())
-        );
+        const catalog = await getAddons();
+        // Previously saved addons from session (ids, or labels on older sessions)
+        const chosen = resolveAddons(saved, catalog).map(a => a.id);
+        const fitting = compatibleAddons(catalog, cartIds);
 
-        const setOfAddons = new Set<string>();
-        for (const cd of cartDocs) {
-          if (!cd.exists) continue;
-          const d = cd.data() as any;
-
-          // try multiple potential field names
-          const candidates = [
-            d['Add-ons'],
-            d['addons'],
-            d['addOns'],
-            d['add_ons'],
-            d['AddOns'],
-          ];
-
-          for (const cand of candidates) {
-            const parsed = parseAddonsField(cand);
-            parsed.forEach(a => setOfAddons.add(a));
-          }
-        }
-
-        // union with existingAddons (so previously saved addons are preserved)
-        existingAddons.forEach(a => setOfAddons.add(a));
+        // sold-out add-ons stay visible but can't be switched on
+        const stock = await checkAddonStock(fitting, dates);
 
         if (!cancelled) {
-          const list = Array.from(setOfAddons).map(label => ({
-            label,
-            selected: existingAddons.includes(label), // preselect if stored in session
-          }));
-          setAddons(list);
+          setAddons(
+            stock.map(entry => ({
+              ...entry.addon,
+              selected: chosen.includes(entry.addon.id),
+              soldOut: isSoldOut(entry) && !chosen.includes(entry.addon.id),
+            }))
+          );
         }
       } catch (err: any) {
         console.error('❌ AddOns load error', err);
@@ -151,28 +81,17 @@ export default function AddOnsScreen({ navigation, route }: Props) {
     return () => {
       cancelled = true;
     };
-  }, [sessionId]);
+  }, [sessionId, enterStep]);
 
-  const toggle = (label: string) => {
-    setAddons(a => a.map(x => (x.label === label ? { ...x, selected: !x.selected } : x)));
+  const toggle = (id: string) => {
+    setAddons(a => a.map(x => (x.id === id ? { ...x, selected: !x.selected } : x)));
   };
 
   const onSave = async () => {
-    if (!sessionId) {
-      Alert.alert('Missing session', 'No sessionId available');
-      return;
-    }
-    const selected = addons.filter(a => a.selected).map(a => a.label);
+    const selected = addons.filter(a => a.selected).map(a => a.id);
     try {
       setLoading(true);
-      const db = firestore();
-      await db
-        .collection('sessions')
-        .doc(sessionId)
-        .set(
-          { partialBooking: { addons: selected } },
-          { merge: true } // merge so we don't overwrite other partialBooking fields
-        );
+      await flow.saveAddons(selected);
 
       // navigate to review, passing sessionId
       navigation.navigate('ReviewScreen', { sessionId });
@@ -214,14 +133,23 @@ export default function AddOnsScreen({ navigation, route }: Props) {
         ) : (
           <FlatList
             data={addons}
-            keyExtractor={(it) => it.label}
+            keyExtractor={(it) => it.id}
             contentContainerStyle={{ paddingHorizontal: scale(16) }}
             renderItem={({ item }) => (
               <View style={styles.addonRow}>
-                <Text style={styles.addonLabel}>{item.label}</Text>
+                <View style={styles.addonInfo}>
+                  <Text style={styles.addonLabel}>{item.label}</Text>
+                  {item.description ? (
+                    <Text style={styles.addonDescription}>{item.description}</Text>
+                  ) : null}
+                  <Text style={styles.addonPrice}>
+                    {item.soldOut ? 'Sold out for these times' : describeAddonPrice(item)}
+                  </Text>
+                </View>
                 <Switch
                   value={item.selected}
-                  onValueChange={() => toggle(item.label)}
+                  disabled={item.soldOut}
+                  onValueChange={() => toggle(item.id)}
                   trackColor={{ true: colors.primaryDark, false: colors.grayLightest }}
                   thumbColor={colors.white}
                 />
@@ -313,8 +241,23 @@ const styles = StyleSheet.create({
     borderRadius: scale(8),
     marginBottom: scale(10),
   },
+  addonInfo: {
+    flex: 1,
+    marginRight: scale(12),
+  },
   addonLabel: {
     fontSize: scale(14),
     color: colors.textDark,
   },
+  addonDescription: {
+    fontSize: scale(12),
+    color: colors.icon,
+    marginTop: scale(2),
+  },
+  addonPrice: {
+    fontSize: scale(12),
+    fontWeight: '600',
+    color: colors.primaryDark,
+    marginTop: scale(4),
+  },
 });
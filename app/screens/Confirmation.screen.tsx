@@ -1,5 +1,5 @@
 // app/screens/Confirmation.screen.tsx
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import {
   View,
   Text,
@@ -10,131 +10,384 @@ import {
   ScrollView,
   ActivityIndicator,
   Alert,
+  Platform,
 } from 'react-native';
+import auth from '@react-native-firebase/auth';
 import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
-import firestore from '@react-native-firebase/firestore';
+import { generatePDF } from 'react-native-html-to-pdf';
+import Share, { Social } from 'react-native-share';
+import Clipboard from '@react-native-clipboard/clipboard';
 import { colors } from '../theme/colors';
 import { scale } from '../theme/scale';
 import type { NativeStackScreenProps } from '@react-navigation/native-stack';
 import type { NavigatorParamList } from '../navigators/navigation-route';
+import {
+  cancelBooking,
+  createAmendmentSession,
+  getBookingPayment,
+  getBusinessDetails,
+  getCustomer,
+  getLocation,
+  issueBookingPass,
+  issueInvoice,
+  subscribeBooking,
+} from '../services/firestore';
+import type { Booking, Location, PaymentRecord } from '../services/firestore';
+import { DEFAULT_PRICING, describeLine, formatMoney, quoteTotals } from '../services/pricing';
+import { describeDuration } from '../services/duration';
+import { STATUS_LABELS, canAmend, canTransition, upcomingStatuses } from '../services/booking-lifecycle';
+import { describeDifference } from '../services/amendment';
+import { cancellationPolicyFor, refundFor } from '../services/cancellation';
+import { DEPOSIT_STATUS_LABELS } from '../services/settlement';
+import { getPaymentProvider } from '../services/payments';
+import { sendPendingRefund } from '../services/checkout';
+import { formatFallbackCode, showsPass } from '../services/booking-pass';
+import { encodeQr } from '../services/qr-code';
+import type { QrMatrix } from '../services/qr-code';
+import { assertInvoiceDetails, buildReceipt, canIssueInvoice, receiptHtml } from '../services/receipts';
+import { bookingShare } from '../services/booking-share';
+import { APP_LINK_HOST } from '../services/deep-links';
 
 type Props = NativeStackScreenProps<NavigatorParamList, 'ConfirmationScreen'>;
 const { width } = Dimensions.get('window');
 
-type BookingCart = {
-  id: string;
-  brand?: string;
-  model?: string;
-  image_url?: string;
-  daily_price?: number;
-  qty?: number;
-};
-
-type BookingDoc = {
-  customerId?: string;
-  createdAt?: any;
-  status?: string;
-  sessionId?: string;
-  partialBooking?: {
-    dates?: { start?: any; end?: any };
-    carts?: BookingCart[] | string[]; // either array of cart ids or array of cart objects
-    totals?: { base?: number; tax?: number; deposit?: number; total?: number };
-  };
-  [k: string]: any;
-};
+// Light border around the code, in modules, so scanners find its edges.
+const QR_QUIET_ZONE = 4;
+
+type ShareChannel = Social.Whatsapp | Social.Facebook | Social.Twitter | Social.Email;
+
+const SHARE_CHANNELS: { icon: string; social: ShareChannel }[] = [
+  { icon: 'whatsapp', social: Social.Whatsapp },
+  { icon: 'facebook', social: Social.Facebook },
+  { icon: 'twitter', social: Social.Twitter },
+  { icon: 'email', social: Social.Email },
+];
+
+const TOAST_MS = 2000;
+
+/**
+ * Draws a QR matrix with Views, one row at a time, merging runs of dark
+ * modules.
+ */
+function QrCode({ matrix, size }: { matrix: QrMatrix; size: number }) {
+  const moduleSize = Math.floor(size / (matrix.length + QR_QUIET_ZONE * 2));
+  return (
+    <View style={[styles.qrCode, { padding: moduleSize * QR_QUIET_ZONE }]}>
+      {matrix.map((row, y) => {
+        const runs: { dark: boolean; length: number }[] = [];
+        row.forEach(dark => {
+          const last = runs[runs.length - 1];
+          if (last && last.dark === dark) {
+            last.length++;
+          } else {
+            runs.push({ dark, length: 1 });
+          }
+        });
+        return (
+          <View key={y} style={styles.qrRow}>
+            {runs.map((run, i) => (
+              <View
+                key={i}
+                style={{
+                  width: run.length * moduleSize,
+                  height: moduleSize,
+                  backgroundColor: run.dark ? colors.textDark : colors.white,
+                }}
+              />
+            ))}
+          </View>
+        );
+      })}
+    </View>
+  );
+}
 
 export default function ConfirmationScreen({ route, navigation }: Props) {
-  // Expect bookingId from previous screen (Payment -> Confirmation)
-  const { bookingId } = (route.params || {}) as { bookingId?: string };
+  // From Payment, My Bookings, a booking change or a `/booking/:id` link
+  const { bookingId } = route.params;
 
-  const [booking, setBooking] = useState<BookingDoc | null>(null);
+  const [booking, setBooking] = useState<Booking | null>(null);
   const [loading, setLoading] = useState<boolean>(true);
+  const [location, setLocation] = useState<Location | null>(null);
+  const [cancelling, setCancelling] = useState(false);
+  const [paymentRecord, setPaymentRecord] = useState<PaymentRecord | null>(null);
+  const [refunding, setRefunding] = useState(false);
+  const [receiptBusy, setReceiptBusy] = useState(false);
+  const [toast, setToast] = useState<string | null>(null);
 
   useEffect(() => {
-    if (!bookingId) {
-      Alert.alert('Missing booking', 'No booking id supplied.');
-      setLoading(false);
-      return;
+    const unsub = subscribeBooking(
+      bookingId,
+      data => {
+        setBooking(data);
+        setLoading(false);
+      },
+      err => {
+        console.error('❌ booking subscription error', err);
+        Alert.alert('Error', 'Could not load booking.');
+        setLoading(false);
+      }
+    );
+
+    return () => unsub();
+  }, [bookingId]);
+
+  // 🔹 Bookings are only shown to the customer who made them
+  const uid = auth().currentUser?.uid ?? null;
+  const isOwner = !!booking && !!uid && booking.customerId === uid;
+  const foreign = !!booking && !isOwner;
+  useEffect(() => {
+    if (foreign) {
+      navigation.popTo('LandingScreen');
     }
+  }, [foreign, navigation]);
 
-    const unsub = firestore()
-      .collection('bookings')
-      .doc(bookingId)
-      .onSnapshot(
-        snap => {
-          if (!snap.exists) {
-            setBooking(null);
-            setLoading(false);
-            return;
-          }
-          setBooking(snap.data() as BookingDoc);
-          setLoading(false);
-        },
-        err => {
-          console.error('❌ booking subscription error', err);
-          Alert.alert('Error', 'Could not load booking.');
-          setLoading(false);
+  // Pick-up address for the booking's location
+  const locationId = booking?.locationId;
+  useEffect(() => {
+    getLocation(locationId ?? undefined)
+      .then(setLocation)
+      .catch(err => console.error('❌ location load error', err));
+  }, [locationId]);
+
+  // The booking's payment, to invoice it and to offer a retry while a refund is pending
+  const bookingStatus = booking?.status;
+  const revisionCount = booking?.revisions.length ?? 0;
+  useEffect(() => {
+    if (!isOwner || !bookingStatus || bookingStatus === 'pending_payment') {
+      return;
+    }
+    let cancelled = false;
+    getBookingPayment(bookingId)
+      .then(data => {
+        if (!cancelled) {
+          setPaymentRecord(data);
         }
-      );
+      })
+      .catch(err => console.error('❌ payment load error', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [bookingId, isOwner, bookingStatus, revisionCount]);
 
-    return () => unsub();
-  }, [bookingId]);
+  // 🔹 Bookings confirmed before passes existed get one; it arrives through the subscription
+  const needsPass = isOwner && showsPass(booking.status) && !booking.pass;
+  useEffect(() => {
+    if (!needsPass) {
+      return;
+    }
+    issueBookingPass(bookingId).catch(err => console.error('❌ pass issue error', err));
+  }, [bookingId, needsPass]);
 
-  const fmtDate = (val: any) => {
-    if (!val) return '';
-    try {
-      if (typeof val === 'string') return val;
-      if (val.toDate && typeof val.toDate === 'function') {
-        return val.toDate().toLocaleString();
-      }
-      if (val instanceof Date) return val.toLocaleString();
-      return String(val);
-    } catch (e) {
-      return String(val);
+  useEffect(() => {
+    if (!toast) {
+      return;
     }
-  };
+    const timer = setTimeout(() => setToast(null), TOAST_MS);
+    return () => clearTimeout(timer);
+  }, [toast]);
+
+  // Pick-up pass, shown until the carts are handed over and again to return them
+  const pass = isOwner && showsPass(booking.status) ? booking.pass : null;
+  const passCode = pass?.code;
+  const qrMatrix = useMemo(() => (passCode ? encodeQr(passCode) : null), [passCode]);
+
+  const fmtDate = (val: Date | null) => (val ? val.toLocaleString() : '');
 
   if (loading) {
     return (
-      <View style={[styles.container, { justifyContent: 'center', alignItems: 'center' }]}>
+      <View style={[styles.container, styles.centered]}>
         <ActivityIndicator size="large" color={colors.primaryDark} />
       </View>
     );
   }
 
-  if (!booking) {
+  if (!booking || !isOwner) {
     return (
-      <View style={[styles.container, { justifyContent: 'center', alignItems: 'center' }]}>
-        <Text style={{ color: colors.textDark }}>Booking not found.</Text>
-        <TouchableOpacity style={{ marginTop: 16 }} onPress={() => navigation.navigate('LandingScreen')}>
-          <Text style={{ color: colors.primaryDark }}>Back to home</Text>
+      <View style={[styles.container, styles.centered]}>
+        <Text style={styles.notFoundText}>Booking not found.</Text>
+        <TouchableOpacity style={styles.homeLink} onPress={() => navigation.navigate('LandingScreen')}>
+          <Text style={styles.homeLinkText}>Back to home</Text>
         </TouchableOpacity>
       </View>
     );
   }
 
-  const partial = booking.partialBooking || {};
-  const carts = Array.isArray(partial.carts)
-    ? // carts might be array of ids or array of objects
-      (partial.carts as BookingCart[]).map(c =>
-        typeof c === 'string'
-          ? ({ id: c } as BookingCart)
-          : c
-      )
-    : [];
-
-  // Prefer totals from booking if provided, otherwise compute
-  const totals = partial.totals || {};
-  const computedBase =
-    carts.reduce((s, c) => s + (Number(c.daily_price || 0) * (Number(c.qty || 1) || 1)), 0) || 0;
-  const base = typeof totals.base === 'number' ? totals.base : computedBase;
-  const tax = typeof totals.tax === 'number' ? totals.tax : +(base * 0.1).toFixed(2);
-  const deposit = typeof totals.deposit === 'number' ? totals.deposit : 50;
-  const total = typeof totals.total === 'number' ? totals.total : +(base + tax + deposit).toFixed(2);
-
-  const startStr = fmtDate(partial.dates?.start);
-  const endStr = fmtDate(partial.dates?.end);
+  const partial = booking.partialBooking;
+  const carts = partial.carts;
+
+  // Bookings written before the pricing engine only carry `totals`
+  const quote = partial.quote;
+  const currency = quote?.currency;
+  const { base, tax, deposit, total } = quote ? quoteTotals(quote) : partial.totals ?? {
+    base: 0,
+    tax: 0,
+    deposit: 0,
+    total: 0,
+  };
+  const taxRate = quote ? quote.taxRate : DEFAULT_PRICING.taxRate;
+
+  const quoteLineFor = (cartId: string) =>
+    quote?.lines.find(l => l.kind === 'rental' && l.id === cartId);
+
+  const startStr = fmtDate(partial.dates.start);
+  const endStr = fmtDate(partial.dates.end);
   const createdStr = fmtDate(booking.createdAt);
+  const durationStr = describeDuration(partial.dates);
+
+  // Bookings written before the lifecycle have no history: show their status as of creation
+  const history = booking.statusHistory.length
+    ? booking.statusHistory
+    : [{ status: booking.status, at: booking.createdAt, actor: 'system', note: null }];
+  const upcoming = upcomingStatuses(booking.status);
+  const statusColor =
+    booking.status === 'cancelled' || booking.status === 'no_show' ? colors.red : colors.primaryDark;
+
+  // 🔹 Modify: reopen Details on a session seeded from this booking
+  const onModify = async () => {
+    try {
+      const sessionId = await createAmendmentSession(booking);
+      navigation.navigate('DetailsScreen', { sessionId });
+    } catch (err: any) {
+      console.error('❌ modify booking error', err);
+      Alert.alert('Error', 'Could not start modifying this booking.');
+    }
+  };
+
+  const lastRevision = booking.revisions[booking.revisions.length - 1];
+
+  // 🔹 Refund: send what a cancellation or booking change owes, then show where it stands
+  const sendRefund = async (record: PaymentRecord) => {
+    await sendPendingRefund(getPaymentProvider(), record);
+    setPaymentRecord(await getBookingPayment(booking.id));
+  };
+
+  // 🔹 Cancel: show the refund under the location's policy, then confirm
+  const onCancel = () => {
+    const policy = cancellationPolicyFor(location);
+    const preview = refundFor(booking, policy);
+    const feeNote = preview.fee > 0 ? ` A cancellation fee of ${formatMoney(preview.fee, currency)} applies.` : '';
+    Alert.alert(
+      'Cancel booking?',
+      `You will be refunded ${formatMoney(preview.refund, currency)}, including your ${formatMoney(preview.depositRefund, currency)} deposit.${feeNote}`,
+      [
+        { text: 'Keep booking', style: 'cancel' },
+        {
+          text: 'Cancel booking',
+          style: 'destructive',
+          onPress: async () => {
+            setCancelling(true);
+            let refund;
+            try {
+              const actor = auth().currentUser?.uid ?? booking.customerId;
+              refund = await cancelBooking(booking.id, actor, policy);
+            } catch (err: any) {
+              console.error('❌ cancel booking error', err);
+              Alert.alert('Could not cancel', err.message || 'Please try again');
+              setCancelling(false);
+              return;
+            }
+            // The booking is cancelled either way; a refund that fails stays pending for a retry
+            try {
+              const record = await getBookingPayment(booking.id);
+              if (record) {
+                await sendRefund(record);
+              }
+              Alert.alert('Booking cancelled', `${formatMoney(refund.refund, currency)} will be refunded.`);
+            } catch (err: any) {
+              console.error('❌ cancellation refund error', err);
+              Alert.alert(
+                'Booking cancelled',
+                `Your refund could not be sent yet: ${err.message || 'please try again'}. You can retry it from this screen.`,
+              );
+            } finally {
+              setCancelling(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const onRetryRefund = async () => {
+    if (!paymentRecord) {
+      return;
+    }
+    setRefunding(true);
+    try {
+      await sendRefund(paymentRecord);
+      Alert.alert('Refund sent', 'Your refund is on its way.');
+    } catch (err: any) {
+      console.error('❌ refund retry error', err);
+      Alert.alert('Refund not sent', err.message || 'Please try again');
+    } finally {
+      setRefunding(false);
+    }
+  };
+
+  // 🔹 Receipt: issue the invoice number (once), print it to PDF, then share or save it
+  const onReceipt = async (saveToFiles: boolean) => {
+    setReceiptBusy(true);
+    try {
+      const invoice = await issueInvoice(booking.id);
+      const [payment, customer, business] = await Promise.all([
+        getBookingPayment(booking.id),
+        getCustomer(booking.customerId),
+        getBusinessDetails(),
+      ]);
+      assertInvoiceDetails(business);
+      const receipt = buildReceipt(booking, invoice, payment, customer, location, business);
+      const pdf = await generatePDF({ html: receiptHtml(receipt), fileName: receipt.invoiceNumber });
+      await Share.open({
+        url: pdf.filePath.startsWith('file://') ? pdf.filePath : `file://${pdf.filePath}`,
+        type: 'application/pdf',
+        filename: receipt.invoiceNumber,
+        title: `Invoice ${receipt.invoiceNumber}`,
+        saveToFiles,
+        failOnCancel: false,
+      });
+    } catch (err: any) {
+      console.error('❌ receipt error', err);
+      Alert.alert('Receipt unavailable', err.message || 'Please try again');
+    } finally {
+      setReceiptBusy(false);
+    }
+  };
+
+  // 🔹 Share: the chosen app when it is installed, otherwise the native share sheet
+  const onShare = async (social?: ShareChannel) => {
+    const content = bookingShare(booking, location);
+    const openSheet = () =>
+      Share.open({ title: content.title, subject: content.subject, message: content.message, failOnCancel: false });
+    try {
+      if (!social) {
+        await openSheet();
+        return;
+      }
+      await Share.shareSingle({
+        social,
+        title: content.title,
+        subject: content.subject,
+        message: content.message,
+        // Facebook drops prefilled text and only takes a web link, so it needs the link host
+        ...(social === Social.Facebook && APP_LINK_HOST ? { url: content.url } : {}),
+      });
+    } catch (err: any) {
+      if (String(err?.message ?? '').includes('did not share')) {
+        return;
+      }
+      try {
+        await openSheet();
+      } catch (sheetErr) {
+        console.error('❌ share booking error', sheetErr);
+      }
+    }
+  };
+
+  const onCopyReference = () => {
+    Clipboard.setString(booking.id);
+    setToast('Booking reference copied');
+  };
 
   return (
     <View style={styles.container}>
@@ -145,63 +398,191 @@ export default function ConfirmationScreen({ route, navigation }: Props) {
         {/* Instructions Box */}
         <View style={styles.instructionBox}>
           <Text style={styles.instructionText}>
-            Please present this code at pickup.{'\n'}
-            Pickup address: 123 Golf Course Road
+            {booking.status === 'checked_out'
+              ? 'Please present this code when you return the carts.'
+              : 'Please present this code at pickup.'}{'\n'}
+            Pickup address: {location?.address || '123 Golf Course Road'}
           </Text>
         </View>
 
-        {/* QR Code */}
-        <View style={styles.qrWrapper}>
-          <Image
-            // Keep placeholder; you can generate a QR from `bookingId` / booking data later
-            source={require('../assets/images/qr-placeholder.jpeg')}
-            style={styles.qrImage}
-          />
-        </View>
+        {/* QR Code + fallback for when scanning fails */}
+        {pass && qrMatrix ? (
+          <View style={styles.qrWrapper}>
+            <QrCode matrix={qrMatrix} size={width * 0.6} />
+            <Text style={styles.fallbackLabel}>Can’t scan? Give staff this code:</Text>
+            <Text style={styles.fallbackCode}>{formatFallbackCode(pass.fallbackCode)}</Text>
+          </View>
+        ) : null}
 
         {/* Booking Summary */}
         <View style={styles.summaryBox}>
-          <Text style={[styles.summaryText, { fontWeight: '600' }]}>Reference: {bookingId}</Text>
-          <Text style={styles.summaryText}>Status: {String(booking.status ?? 'confirmed')}</Text>
+          <Text style={[styles.summaryText, styles.summaryHeading]}>Reference: {bookingId}</Text>
+          <View style={styles.statusRow}>
+            <Text style={styles.summaryText}>Status:</Text>
+            <View style={[styles.statusBadge, { backgroundColor: statusColor }]}>
+              <Text style={styles.statusBadgeText}>{STATUS_LABELS[booking.status]}</Text>
+            </View>
+          </View>
           {createdStr ? <Text style={styles.summaryText}>Created: {createdStr}</Text> : null}
           {startStr || endStr ? (
             <Text style={styles.summaryText}>{`${startStr}${startStr && endStr ? ' → ' : ''}${endStr}`}</Text>
           ) : null}
-          <View style={{ height: scale(8) }} />
+          {durationStr ? <Text style={styles.summaryText}>Duration: {durationStr}</Text> : null}
+          {lastRevision ? (
+            <Text style={styles.summaryText}>
+              {`Modified${lastRevision.at ? ` ${fmtDate(lastRevision.at)}` : ''} · ${describeDifference(lastRevision.difference, currency)}`}
+            </Text>
+          ) : null}
+          <View style={styles.spacer} />
 
           {/* carts */}
           {carts.length === 0 ? (
             <Text style={styles.summaryText}>No carts listed in booking</Text>
           ) : (
             carts.map((c) => (
-              <View key={c.id} style={{ flexDirection: 'row', alignItems: 'center', marginBottom: scale(8) }}>
+              <View key={c.id} style={styles.cartRow}>
                 <Image
-                  source={c.image_url ? { uri: c.image_url } : require('../assets/images/kart1.png')}
-                  style={{ width: scale(64), height: scale(44), borderRadius: 6, backgroundColor: colors.grayLightest }}
+                  source={c.imageUrl ? { uri: c.imageUrl } : require('../assets/images/kart1.png')}
+                  style={styles.cartImage}
                 />
-                <View style={{ marginLeft: scale(8), flex: 1 }}>
-                  <Text style={[styles.summaryText, { fontWeight: '600' }]}>{`${c.brand ?? ''} ${c.model ?? ''}`.trim()}</Text>
-                  <Text style={styles.summaryText}>{`Qty: ${c.qty ?? 1} • $${(Number(c.daily_price) || 0).toFixed(2)} / day`}</Text>
+                <View style={styles.cartInfo}>
+                  <Text style={[styles.summaryText, styles.summaryHeading]}>{`${c.brand} ${c.model}`.trim()}</Text>
+                  <Text style={styles.summaryText}>
+                    {quoteLineFor(c.id)
+                      ? describeLine(quoteLineFor(c.id)!, currency)
+                      : `Qty: ${c.qty} • ${formatMoney(c.dailyPrice)} / day`}
+                  </Text>
+                  {booking.units
+                    .filter(u => u.modelId === c.id && (u.serial || u.plate))
+                    .map(u => (
+                      <Text key={u.unitId} style={styles.summaryText}>
+                        {`Unit ${[u.serial, u.plate].filter(Boolean).join(' · ')}`}
+                      </Text>
+                    ))}
                 </View>
               </View>
             ))
           )}
 
-          <View style={{ height: scale(8) }} />
+          <View style={styles.spacer} />
 
-          <View style={{ borderTopWidth: 1, borderTopColor: '#eee', paddingTop: scale(8) }}>
-            <Text style={styles.summaryText}>{`Base: $${base.toFixed(2)}`}</Text>
-            <Text style={styles.summaryText}>{`Service tax (10%): $${tax.toFixed(2)}`}</Text>
-            <Text style={styles.summaryText}>{`Deposit: $${deposit.toFixed(2)}`}</Text>
-            <Text style={[styles.summaryText, { fontWeight: '700', marginTop: scale(8) }]}>{`Total: $${total.toFixed(2)}`}</Text>
+          <View style={styles.totalsBox}>
+            {quote?.lines
+              .filter(l => l.kind === 'addon')
+              .map(l => (
+                <Text key={l.id} style={styles.summaryText}>{`${l.label}: ${formatMoney(l.amount, currency)}`}</Text>
+              ))}
+            <Text style={styles.summaryText}>{`Base: ${formatMoney(base, currency)}`}</Text>
+            <Text style={styles.summaryText}>{`Service tax (${Math.round(taxRate * 100)}%): ${formatMoney(tax, currency)}`}</Text>
+            <Text style={styles.summaryText}>{`Deposit: ${formatMoney(deposit, currency)}`}</Text>
+            <Text style={[styles.summaryText, styles.totalText]}>{`Total: ${formatMoney(total, currency)}`}</Text>
           </View>
         </View>
 
+        {booking.cancellation ? (
+          <View style={styles.summaryBox}>
+            <Text style={styles.summaryText}>
+              {`Refund: ${formatMoney(booking.cancellation.refund, currency)}`}
+              {booking.cancellation.fee > 0 ? ` (fee ${formatMoney(booking.cancellation.fee, currency)})` : ''}
+            </Text>
+          </View>
+        ) : null}
+
+        {paymentRecord?.pendingRefund ? (
+          <View style={styles.summaryBox}>
+            <Text style={styles.summaryText}>
+              {`Refund pending: ${formatMoney(paymentRecord.pendingRefund.rental, currency)}`}
+            </Text>
+            <TouchableOpacity style={styles.retryRefundBtn} onPress={onRetryRefund} disabled={refunding}>
+              {refunding ? (
+                <ActivityIndicator color={colors.primaryDark} />
+              ) : (
+                <Text style={styles.retryRefundText}>Retry refund</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        ) : null}
+
+        {booking.settlement ? (
+          <View style={styles.summaryBox}>
+            <Text style={styles.summaryText}>
+              {`Deposit ${DEPOSIT_STATUS_LABELS[booking.settlement.status].toLowerCase()}: ${formatMoney(booking.settlement.released, currency)} returned`}
+            </Text>
+            {booking.settlement.lateFee > 0 ? (
+              <Text style={styles.summaryText}>{`Late return: ${formatMoney(booking.settlement.lateFee, currency)}`}</Text>
+            ) : null}
+            {booking.settlement.damageFee > 0 ? (
+              <Text style={styles.summaryText}>{`Damage: ${formatMoney(booking.settlement.damageFee, currency)}`}</Text>
+            ) : null}
+          </View>
+        ) : null}
+
+        {/* Status timeline (live via onSnapshot) */}
+        <View style={styles.summaryBox}>
+          <Text style={[styles.summaryText, styles.summaryHeading]}>Timeline</Text>
+          {history.map((h, i) => (
+            <View key={`${h.status}-${i}`} style={styles.timelineRow}>
+              <View style={[styles.timelineDot, styles.timelineDotDone]} />
+              <View style={styles.timelineBody}>
+                <Text style={styles.summaryText}>{STATUS_LABELS[h.status]}</Text>
+                {h.at ? <Text style={styles.timelineMeta}>{fmtDate(h.at)}</Text> : null}
+                {h.note ? <Text style={styles.timelineMeta}>{h.note}</Text> : null}
+              </View>
+            </View>
+          ))}
+          {upcoming.map(status => (
+            <View key={status} style={styles.timelineRow}>
+              <View style={[styles.timelineDot, styles.timelineDotUpcoming]} />
+              <Text style={[styles.summaryText, styles.timelineUpcoming]}>{STATUS_LABELS[status]}</Text>
+            </View>
+          ))}
+        </View>
+
+        {isOwner && canAmend(booking.status) ? (
+          <TouchableOpacity style={styles.modifyBtn} onPress={onModify}>
+            <Text style={styles.modifyText}>Modify booking</Text>
+          </TouchableOpacity>
+        ) : null}
+
+        {isOwner && canTransition(booking.status, 'cancelled') ? (
+          <TouchableOpacity style={styles.cancelBtn} onPress={onCancel} disabled={cancelling}>
+            {cancelling ? (
+              <ActivityIndicator color={colors.red} />
+            ) : (
+              <Text style={styles.cancelText}>Cancel booking</Text>
+            )}
+          </TouchableOpacity>
+        ) : null}
+
+        {/* Receipt / invoice (PDF) */}
+        {canIssueInvoice(booking, paymentRecord) ? (
+          <View style={styles.receiptRow}>
+            <TouchableOpacity style={styles.receiptBtn} onPress={() => onReceipt(false)} disabled={receiptBusy}>
+              {receiptBusy ? (
+                <ActivityIndicator color={colors.primaryDark} />
+              ) : (
+                <>
+                  <MaterialCommunityIcons name="file-document-outline" size={scale(20)} color={colors.primaryDark} />
+                  <Text style={styles.receiptText}>
+                    {booking.invoice ? `Receipt ${booking.invoice.number}` : 'Get receipt'}
+                  </Text>
+                </>
+              )}
+            </TouchableOpacity>
+            {/* iOS can save straight to Files; Android's share sheet already offers it */}
+            {Platform.OS === 'ios' ? (
+              <TouchableOpacity style={styles.receiptSave} onPress={() => onReceipt(true)} disabled={receiptBusy}>
+                <MaterialCommunityIcons name="download" size={scale(20)} color={colors.primaryDark} />
+              </TouchableOpacity>
+            ) : null}
+          </View>
+        ) : null}
+
         {/* Share Row */}
         <Text style={styles.shareLabel}>Share</Text>
         <View style={styles.shareRow}>
-          {['whatsapp', 'facebook', 'twitter', 'email'].map((icon) => (
-            <TouchableOpacity key={icon} style={styles.iconBtn}>
+          {SHARE_CHANNELS.map(({ icon, social }) => (
+            <TouchableOpacity key={icon} style={styles.iconBtn} onPress={() => onShare(social)}>
               <MaterialCommunityIcons
                 name={icon}
                 size={scale(28)}
@@ -209,20 +590,25 @@ export default function ConfirmationScreen({ route, navigation }: Props) {
               />
             </TouchableOpacity>
           ))}
-          <TouchableOpacity style={styles.copyRow} onPress={() => {
-            // simple copy shortcut; you could integrate Clipboard if desired
-            Alert.alert('Copied', `Booking reference ${bookingId} copied to clipboard (not implemented).`);
-          }}>
+          <TouchableOpacity style={styles.iconBtn} onPress={() => onShare()}>
+            <MaterialCommunityIcons name="share-variant" size={scale(28)} color={colors.primaryDark} />
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.copyRow} onPress={onCopyReference}>
             <MaterialCommunityIcons
-              name="link"
+              name="content-copy"
               size={scale(20)}
               color={colors.textDark}
             />
-            <Text style={styles.copyText}>Copy link</Text>
+            <Text style={styles.copyText}>Copy reference</Text>
           </TouchableOpacity>
         </View>
 
       </ScrollView>
+      {toast ? (
+        <View style={styles.toast} pointerEvents="none">
+          <Text style={styles.toastText}>{toast}</Text>
+        </View>
+      ) : null}
       {/* Pagination dots */}
       <View style={styles.dotsRow}>
         {[0,1,2,3,4,5].map(i => (
@@ -241,6 +627,10 @@ export default function ConfirmationScreen({ route, navigation }: Props) {
 
 const styles = StyleSheet.create({
   container: { flex:1, backgroundColor: colors.backgroundLight },
+  centered: { justifyContent: 'center', alignItems: 'center' },
+  notFoundText: { color: colors.textDark },
+  homeLink: { marginTop: 16 },
+  homeLinkText: { color: colors.primaryDark },
   scroll: { padding: scale(16), alignItems: 'center' },
   title: {
     fontSize: scale(20),
@@ -262,15 +652,24 @@ const styles = StyleSheet.create({
     lineHeight: scale(18),
   },
   qrWrapper: {
-    width: width * 0.6,
-    height: width * 0.6,
+    alignItems: 'center',
     marginBottom: scale(16),
   },
-  qrImage: {
-    flex:1,
-    width: null,
-    height: null,
-    resizeMode: 'contain',
+  qrCode: {
+    backgroundColor: colors.white,
+  },
+  qrRow: { flexDirection: 'row' },
+  fallbackLabel: {
+    fontSize: scale(12),
+    color: colors.icon,
+    marginTop: scale(12),
+  },
+  fallbackCode: {
+    fontSize: scale(28),
+    fontWeight: '700',
+    letterSpacing: scale(4),
+    color: colors.textDark,
+    marginTop: scale(4),
   },
   summaryBox: {
     width: '100%',
@@ -284,6 +683,119 @@ const styles = StyleSheet.create({
     color: colors.textDark,
     marginBottom: scale(4),
   },
+  summaryHeading: { fontWeight: '600' },
+  spacer: { height: scale(8) },
+  cartRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: scale(8),
+  },
+  cartImage: {
+    width: scale(64),
+    height: scale(44),
+    borderRadius: 6,
+    backgroundColor: colors.grayLightest,
+  },
+  cartInfo: { marginLeft: scale(8), flex: 1 },
+  totalsBox: {
+    borderTopWidth: 1,
+    borderTopColor: '#eee',
+    paddingTop: scale(8),
+  },
+  totalText: { fontWeight: '700', marginTop: scale(8) },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  statusBadge: {
+    marginLeft: scale(6),
+    marginBottom: scale(4),
+    paddingHorizontal: scale(8),
+    paddingVertical: scale(2),
+    borderRadius: scale(10),
+  },
+  statusBadgeText: {
+    fontSize: scale(12),
+    fontWeight: '600',
+    color: colors.white,
+  },
+  retryRefundBtn: {
+    marginTop: scale(8),
+    borderWidth: 1,
+    borderColor: colors.primaryDark,
+    borderRadius: scale(8),
+    paddingVertical: scale(8),
+    alignItems: 'center',
+  },
+  retryRefundText: { fontSize: scale(14), fontWeight: '600', color: colors.primaryDark },
+  timelineRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    marginTop: scale(6),
+  },
+  timelineDot: {
+    width: scale(10),
+    height: scale(10),
+    borderRadius: scale(5),
+    marginTop: scale(4),
+    marginRight: scale(8),
+  },
+  timelineDotDone: { backgroundColor: colors.primaryDark },
+  timelineDotUpcoming: { backgroundColor: colors.grayLight },
+  timelineBody: { flex: 1 },
+  timelineUpcoming: { color: colors.icon },
+  timelineMeta: {
+    fontSize: scale(12),
+    color: colors.icon,
+    marginBottom: scale(2),
+  },
+  modifyBtn: {
+    width: '100%',
+    backgroundColor: colors.primaryDark,
+    borderRadius: scale(8),
+    paddingVertical: scale(12),
+    alignItems: 'center',
+    marginBottom: scale(12),
+  },
+  modifyText: {
+    fontSize: scale(16),
+    fontWeight: '600',
+    color: colors.white,
+  },
+  cancelBtn: {
+    width: '100%',
+    borderWidth: 1,
+    borderColor: colors.red,
+    borderRadius: scale(8),
+    paddingVertical: scale(12),
+    alignItems: 'center',
+    marginBottom: scale(16),
+  },
+  cancelText: {
+    fontSize: scale(16),
+    fontWeight: '600',
+    color: colors.red,
+  },
+  receiptRow: { width: '100%', flexDirection: 'row', marginBottom: scale(16) },
+  receiptBtn: {
+    flex: 1,
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: colors.primaryDark,
+    borderRadius: scale(8),
+    paddingVertical: scale(12),
+  },
+  receiptText: { marginLeft: scale(8), fontSize: scale(16), fontWeight: '600', color: colors.primaryDark },
+  receiptSave: {
+    marginLeft: scale(8),
+    paddingHorizontal: scale(14),
+    justifyContent: 'center',
+    borderWidth: 1,
+    borderColor: colors.primaryDark,
+    borderRadius: scale(8),
+  },
   shareLabel: {
     alignSelf: 'flex-start',
     fontSize: scale(16),
@@ -309,6 +821,16 @@ const styles = StyleSheet.create({
     fontSize: scale(14),
     color: colors.textDark,
   },
+  toast: {
+    position: 'absolute',
+    bottom: scale(48),
+    alignSelf: 'center',
+    backgroundColor: colors.textDark,
+    borderRadius: scale(20),
+    paddingHorizontal: scale(16),
+    paddingVertical: scale(10),
+  },
+  toastText: { color: colors.white, fontSize: scale(14) },
   dotsRow: {
     flexDirection:'row',
     justifyContent:'center',
@@ -9,139 +9,310 @@ import {
   ScrollView,
   ActivityIndicator,
   Dimensions,
+  Alert,
 } from 'react-native';
-import firestore from '@react-native-firebase/firestore';
 import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
 import DateTimePicker from '@react-native-community/datetimepicker';
 import { colors } from '../theme/colors';
 import { scale } from '../theme/scale';
 import type { NativeStackScreenProps } from '@react-navigation/native-stack';
 import type { NavigatorParamList } from '../navigators/navigation-route';
+import {
+  getAddons,
+  getCarts,
+  getLocation,
+  getSlotCounts,
+  listCarts,
+} from '../services/firestore';
+import type { Addon, Cart as CartModel, Location } from '../services/firestore';
+import { checkAddonStock, checkAvailability } from '../services/checkout';
+import { describeShortfall, isShort } from '../services/availability';
+import type { ModelAvailability } from '../services/availability';
+import { compatibleAddons, isSoldOut, resolveAddons } from '../services/addons';
+import { describeAddonPrice, rentalLength } from '../services/pricing';
+import { describeDuration, validateWindow } from '../services/duration';
+import {
+  firstSlotFrom,
+  slotKey,
+  slotsLeft,
+  slotsOn,
+  validateOpeningHours,
+} from '../services/opening-hours';
+import { useBookingFlow, useFlowStep } from '../context/BookingFlow';
 
 type Props = NativeStackScreenProps<NavigatorParamList, 'DetailsScreen'>;
 const { width } = Dimensions.get('window');
 
-type Cart = {
-  id: string;
-  brand: string;
-  model: string;
-  image_url: string;
-  daily_price: string;
-  passengers: string;
-  battery: string;
+type Cart = CartModel & {
   quantity: number;
 };
 
-type AddOn = {
-  label: string;
+type AddOn = Addon & {
   selected: boolean;
 };
 
+const HOUR_MS = 60 * 60 * 1000;
+
+// Default window: the next full hour, for two hours
+const nextFullHour = () => {
+  const d = new Date();
+  d.setHours(d.getHours() + 1, 0, 0, 0);
+  return d;
+};
+
 export default function DetailsScreen({ route, navigation }: Props) {
-  const { sessionId } = route.params as { sessionId: string };
+  const { sessionId } = route.params;
+  const flow = useBookingFlow();
+  const enterStep = useFlowStep('DetailsScreen');
 
   const [carts, setCarts] = useState<Cart[]>([]);
   const [addons, setAddons] = useState<AddOn[]>([]);
   const [loading, setLoading] = useState(true);
 
-  const [pickUp, setPickUp] = useState<Date>(new Date());
-  const [dropOff, setDropOff] = useState<Date>(new Date());
+  const [pickUp, setPickUp] = useState<Date>(nextFullHour);
+  const [dropOff, setDropOff] = useState<Date>(() => new Date(nextFullHour().getTime() + 2 * HOUR_MS));
   const [showPicker, setShowPicker] = useState<{
     mode: 'date' | 'time';
     field: 'pickUp' | 'dropOff';
     visible: boolean;
   }>({ mode: 'date', field: 'pickUp', visible: false });
+  const [conflicts, setConflicts] = useState<ModelAvailability[]>([]);
+  const [location, setLocation] = useState<Location | null>(null);
+  // pick-up slot key → bookings already starting then
+  const [slotCounts, setSlotCounts] = useState<Record<string, number>>({});
+  // set when modifying a booking: its own reservations don't block it
+  const [amendsBookingId, setAmendsBookingId] = useState<string | undefined>(undefined);
 
-  // helper: parse Add-ons field from Firestore
-  const parseAddonsField = (raw: any): string[] => {
-    if (!raw) return [];
-    if (Array.isArray(raw)) return raw.map(String).map(s => s.trim()).filter(Boolean);
-
-    if (typeof raw === 'string') {
-      const stripped = raw.replace(/^\[|\]$/g, '');
-      return stripped
-        .split(',')
-        .map(s => s.replace(/^['"]|['"]$/g, '').trim())
-        .filter(Boolean);
-    }
+  // 🔹 Load session + carts + add-ons + location hours
+  useEffect(() => {
+    enterStep(sessionId)
+      .then(async session => {
+        if (!session) {
+          return;
+        }
+        // modifying a booking can switch to any model, so offer the whole fleet
+        const amends = session.amendsBookingId ?? undefined;
+        const [fetched, catalog, loc] = await Promise.all([
+          amends ? listCarts() : getCarts(session.partialBooking.carts),
+          getAddons(),
+          getLocation(),
+        ]);
+        setLocation(loc);
+        setAmendsBookingId(amends);
 
-    return [];
-  };
+        // start with the models and quantities picked on Landing
+        const { quantities } = session.partialBooking;
+        setCarts(
+          fetched.map(c => ({
+            ...c,
+            quantity: quantities[c.id] ?? (amends ? 0 : 1),
+          }))
+        );
 
-  // 🔹 Load session + carts + add-ons
-  useEffect(() => {
-    const docRef = firestore().collection('sessions').doc(sessionId);
-
-    docRef
-      .get()
-      .then(async docSnap => {
-        if (!docSnap.exists) throw new Error('Session not found');
-        const data = docSnap.data() as any;
-
-        const cartIds: string[] = Array.isArray(data.partialBooking?.carts)
-          ? data.partialBooking.carts
-          : [];
-
-        const db = firestore();
-        const cartDocs = await Promise.all(cartIds.map(id => db.collection('carts').doc(id).get()));
-
-        const addOnSet = new Set<string>();
-        const fetched: Cart[] = [];
-
-        for (const cd of cartDocs) {
-          if (!cd.exists) continue;
-          const d = cd.data() as any;
-
-          fetched.push({
-            id: cd.id,
-            brand: d.brand,
-            model: d.model,
-            image_url: d.image_url,
-            daily_price: d.daily_price,
-            passengers: d.passangers || d.passengers || 'N/A',
-            battery: d.battery,
-            quantity: 0, // start unselected
-          });
-
-          const candidates = parseAddonsField(
-            d['Add-ons'] || d['addons'] || d['addOns'] || d['add_ons']
-          );
-          candidates.forEach(a => addOnSet.add(a));
+        // returning to Details keeps the window chosen earlier
+        // otherwise start at the first open pick-up slot
+        const { start, end } = session.partialBooking.dates;
+        if (start && end) {
+          setPickUp(start);
+          setDropOff(end);
+        } else {
+          const first = firstSlotFrom(loc, new Date());
+          if (first) {
+            setPickUp(first);
+            setDropOff(new Date(first.getTime() + 2 * HOUR_MS));
+          }
         }
 
-        setCarts(fetched);
-        setAddons(Array.from(addOnSet).map(label => ({ label, selected: false })));
+        // every add-on that fits one of the session's models, with earlier picks preselected
+        const chosen = resolveAddons(session.partialBooking.addons, catalog).map(a => a.id);
+        setAddons(
+          compatibleAddons(catalog, fetched.map(c => c.id)).map(a => ({
+            ...a,
+            selected: chosen.includes(a.id),
+          }))
+        );
       })
       .catch(err => console.error('❌ Details load error', err))
       .finally(() => setLoading(false));
-  }, [sessionId]);
+  }, [sessionId, enterStep]);
+
+  // 🔹 Re-check availability whenever the selection or window changes
+  const selectedKey = carts
+    .filter(c => c.quantity > 0)
+    .map(c => `${c.id}:${c.quantity}`)
+    .join(',');
+  useEffect(() => {
+    const requests = selectedKey
+      ? selectedKey.split(',').map(k => {
+          const [cartId, qty] = k.split(':');
+          return { cartId, qty: Number(qty) };
+        })
+      : [];
+    if (requests.length === 0 || validateWindow({ start: pickUp, end: dropOff })) {
+      setConflicts([]);
+      return;
+    }
+    let cancelled = false;
+    checkAvailability(requests, { start: pickUp, end: dropOff }, amendsBookingId ?? sessionId)
+      .then(found => {
+        if (!cancelled) {
+          setConflicts(found.filter(isShort));
+        }
+      })
+      .catch(err => console.error('❌ Availability check error', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedKey, pickUp, dropOff, amendsBookingId, sessionId]);
+
+  // 🔹 Pick-up slots on the chosen day, with how many bookings each already has
+  const slots = location ? slotsOn(location, pickUp) : [];
+  const slotKeys = slots.map(slotKey).join(',');
+  useEffect(() => {
+    if (!location || !slotKeys) {
+      setSlotCounts({});
+      return;
+    }
+    let cancelled = false;
+    getSlotCounts(location.id, slotKeys.split(','), amendsBookingId)
+      .then(counts => {
+        if (!cancelled) {
+          setSlotCounts(counts);
+        }
+      })
+      .catch(err => console.error('❌ Slot capacity error', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [location, slotKeys, amendsBookingId]);
 
-  // 🔹 Only one cart can be selected
+  const slotFull = (slot: Date) =>
+    !!location && slotsLeft(location, slotCounts[slotKey(slot)] ?? 0) < 1;
+
+  const window = { start: pickUp, end: dropOff };
+  const windowError =
+    validateWindow(window) ??
+    (location ? validateOpeningHours(location, window) : null) ??
+    (slotFull(pickUp) ? 'That pick-up time is full. Please choose another slot.' : null);
+  const duration = describeDuration({ start: pickUp, end: dropOff });
+  // carts without an hourly rate always bill by the day
+  const billedHourly =
+    rentalLength({ start: pickUp, end: dropOff }).unit === 'hour' &&
+    carts.every(c => c.quantity === 0 || c.hourlyPrice !== null);
+
+  // 🔹 Moving pick-up keeps the rental length by shifting drop-off with it
+  const changePickUp = (next: Date) => {
+    const length = dropOff.getTime() - pickUp.getTime();
+    setPickUp(next);
+    setDropOff(new Date(next.getTime() + Math.max(length, HOUR_MS)));
+  };
+
+  // 🔹 Pick-up: pick the date, then one of that day's slots below.
+  //    Drop-off: pick the date first, then the time on that date.
+  const onPicked = (selected: Date) => {
+    const { field, mode } = showPicker;
+    if (field === 'pickUp') {
+      const [first] = location ? slotsOn(location, selected) : [];
+      const next = new Date(selected);
+      next.setHours(pickUp.getHours(), pickUp.getMinutes(), 0, 0);
+      changePickUp(first ?? next);
+      return;
+    }
+    const next = new Date(selected);
+    if (mode === 'date') {
+      next.setHours(dropOff.getHours(), dropOff.getMinutes(), 0, 0);
+    }
+    setDropOff(next);
+    if (mode === 'date') {
+      setShowPicker({ mode: 'time', field, visible: true });
+    }
+  };
+
+  const conflictFor = (id: string) => conflicts.find(c => c.cartId === id);
+
+  // 🔹 Any number of carts can be selected; one pick-up/drop-off window applies to all
   const toggleCart = (id: string) =>
-    setCarts(cs => cs.map(c => ({ ...c, quantity: c.id === id ? (c.quantity > 0 ? 0 : 1) : 0 })));
+    setCarts(cs => cs.map(c => (c.id === id ? { ...c, quantity: c.quantity > 0 ? 0 : 1 } : c)));
+
+  const changeQty = (id: string, delta: number) =>
+    setCarts(cs => cs.map(c => (c.id === id ? { ...c, quantity: Math.max(0, c.quantity + delta) } : c)));
 
   // 🔹 Toggle add-ons
-  const toggleAddon = (label: string) =>
-    setAddons(as => as.map(a => (a.label === label ? { ...a, selected: !a.selected } : a)));
+  const toggleAddon = (id: string) =>
+    setAddons(as => as.map(a => (a.id === id ? { ...a, selected: !a.selected } : a)));
 
   // 🔹 Save everything into session
   const handleSave = async () => {
+    if (!carts.some(c => c.quantity > 0)) {
+      Alert.alert('Select a cart', 'Choose at least one cart to continue.');
+      return;
+    }
+    if (windowError) {
+      Alert.alert('Check your times', windowError);
+      return;
+    }
     try {
-      const selectedAddons = addons.filter(a => a.selected).map(a => a.label);
-      const selectedCarts = carts.filter(c => c.quantity > 0).map(c => c.id);
-
-      await firestore().collection('sessions').doc(sessionId).update({
-        'partialBooking.dates.start': pickUp,
-        'partialBooking.dates.end': dropOff,
-        'partialBooking.addons': selectedAddons,
-        'partialBooking.carts': selectedCarts,
-        updatedAt: firestore.FieldValue.serverTimestamp(),
+      const selected = carts.filter(c => c.quantity > 0);
+      const selectedIds = selected.map(c => c.id);
+      // drop add-ons that only fit models the customer has since deselected
+      const selectedAddons = compatibleAddons(
+        addons.filter(a => a.selected),
+        selectedIds
+      );
+      const quantities = Object.fromEntries(selected.map(c => [c.id, c.quantity]));
+
+      const found = (
+        await checkAvailability(
+          selected.map(c => ({ cartId: c.id, qty: c.quantity })),
+          { start: pickUp, end: dropOff },
+          amendsBookingId ?? sessionId
+        )
+      ).filter(isShort);
+      setConflicts(found);
+      if (found.length > 0) {
+        Alert.alert(
+          'Cart unavailable',
+          'Not enough carts are free for part of this time. Please choose different times or another cart.'
+        );
+        return;
+      }
+
+      const soldOut = (
+        await checkAddonStock(selectedAddons, { start: pickUp, end: dropOff }, amendsBookingId)
+      ).filter(isSoldOut);
+      if (soldOut.length > 0) {
+        Alert.alert(
+          'Add-on unavailable',
+          `${soldOut.map(a => a.addon.label).join(', ')} ${soldOut.length === 1 ? 'is' : 'are'} sold out for these times.`
+        );
+        return;
+      }
+
+      // hold the carts while the customer checks out; a booking being
+      // modified already holds its own
+      if (!amendsBookingId) {
+        try {
+          await flow.hold(
+            selected.map(c => ({ cartId: c.id, qty: c.quantity, label: `${c.brand} ${c.model}`.trim() })),
+            { start: pickUp, end: dropOff }
+          );
+        } catch (err: any) {
+          Alert.alert('Cart unavailable', err.message || 'Please choose different times or another cart.');
+          return;
+        }
+      }
+
+      await flow.saveDetails({
+        carts: selectedIds,
+        quantities,
+        addons: selectedAddons.map(a => a.id),
+        dates: { start: pickUp, end: dropOff },
       });
 
       navigation.navigate('ReviewScreen', { sessionId });
     } catch (err) {
       console.error('❌ Could not save details', err);
-      alert('Unable to save, try again');
+      Alert.alert('Error', 'Unable to save, try again');
     }
   };
 
@@ -156,7 +327,7 @@ export default function DetailsScreen({ route, navigation }: Props) {
   return (
     <View style={styles.container}>
       <View style={styles.appBar}>
-        <Text style={styles.appBarTitle}>Details</Text>
+        <Text style={styles.appBarTitle}>{amendsBookingId ? 'Modify booking' : 'Details'}</Text>
       </View>
       <ScrollView contentContainerStyle={styles.scrollContent}>
         {/* 🔹 Cart list */}
@@ -166,7 +337,7 @@ export default function DetailsScreen({ route, navigation }: Props) {
             style={[styles.cartContainer, c.quantity > 0 && { borderColor: colors.primaryDark }]}
             onPress={() => toggleCart(c.id)}
           >
-            <Image source={{ uri: c.image_url }} style={styles.cartImage} />
+            <Image source={{ uri: c.imageUrl }} style={styles.cartImage} />
             <View style={styles.cartInfo}>
               <Text style={{ fontSize: scale(22), color: colors.white, fontWeight: '300' }}>
                 {c.model} <Text style={styles.cartTitle}>{c.brand}</Text>
@@ -174,7 +345,21 @@ export default function DetailsScreen({ route, navigation }: Props) {
               <Text style={styles.cartText}>
                 {c.passengers}-seater · Battery {c.battery}
               </Text>
-              <Text style={styles.cartPrice}>${c.daily_price} / day</Text>
+              <Text style={styles.cartPrice}>${c.dailyPrice} / day</Text>
+              {c.quantity > 0 ? (
+                <View style={styles.qtyRow}>
+                  <TouchableOpacity onPress={() => changeQty(c.id, -1)}>
+                    <MaterialCommunityIcons name="minus-circle-outline" size={scale(26)} color={colors.white} />
+                  </TouchableOpacity>
+                  <Text style={styles.qtyText}>{c.quantity}</Text>
+                  <TouchableOpacity onPress={() => changeQty(c.id, 1)}>
+                    <MaterialCommunityIcons name="plus-circle-outline" size={scale(26)} color={colors.white} />
+                  </TouchableOpacity>
+                </View>
+              ) : null}
+              {conflictFor(c.id) ? (
+                <Text style={styles.conflictText}>{describeShortfall(conflictFor(c.id)!)}</Text>
+              ) : null}
             </View>
           </TouchableOpacity>
         ))}
@@ -189,6 +374,30 @@ export default function DetailsScreen({ route, navigation }: Props) {
             <Text style={styles.timeInput}>{pickUp.toLocaleString()}</Text>
             <MaterialCommunityIcons name="calendar" size={scale(20)} color={colors.grayLight} />
           </TouchableOpacity>
+          {location && slots.length === 0 ? (
+            <Text style={styles.slotNote}>No pick-up slots left on this day</Text>
+          ) : (
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.slotRow}>
+              {slots.map(slot => {
+                const full = slotFull(slot);
+                const chosen = slot.getTime() === pickUp.getTime();
+                return (
+                  <TouchableOpacity
+                    key={slot.getTime()}
+                    disabled={full}
+                    style={[styles.slotChip, chosen && styles.slotChipSelected, full && styles.slotChipFull]}
+                    onPress={() => changePickUp(slot)}
+                  >
+                    <Text style={[styles.slotText, chosen && { color: colors.white }]}>
+                      {full
+                        ? 'Full'
+                        : slot.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </ScrollView>
+          )}
         </View>
 
         <View style={styles.timeGroupFull}>
@@ -209,16 +418,25 @@ export default function DetailsScreen({ route, navigation }: Props) {
             mode={showPicker.mode}
             is24Hour={true}
             display="default"
+            minimumDate={showPicker.mode === 'date' ? new Date() : undefined}
             onChange={(_, selected) => {
               setShowPicker(s => ({ ...s, visible: false }));
               if (selected) {
-                if (showPicker.field === 'pickUp') setPickUp(selected);
-                else setDropOff(selected);
+                onPicked(selected);
               }
             }}
           />
         )}
 
+        {/* 🔹 Duration / validation */}
+        {windowError ? (
+          <Text style={styles.windowError}>{windowError}</Text>
+        ) : (
+          <Text style={styles.durationText}>
+            {`Duration: ${duration} · billed ${billedHourly ? 'hourly' : 'by the day'}`}
+          </Text>
+        )}
+
         {/* 🔹 Add-ons */}
         <View style={styles.addOnsSection}>
           <Text style={styles.addOnsTitle}>Add Ons</Text>
@@ -230,12 +448,12 @@ export default function DetailsScreen({ route, navigation }: Props) {
             <View style={styles.addOnsContainer}>
               {addons.map(a => (
                 <TouchableOpacity
-                  key={a.label}
+                  key={a.id}
                   style={[
                     styles.addOnCard,
                     a.selected && { backgroundColor: colors.primaryDark },
                   ]}
-                  onPress={() => toggleAddon(a.label)}
+                  onPress={() => toggleAddon(a.id)}
                 >
                   <Text
                     style={[
@@ -245,6 +463,9 @@ export default function DetailsScreen({ route, navigation }: Props) {
                   >
                     {a.label}
                   </Text>
+                  <Text style={[styles.addOnPrice, a.selected && { color: colors.white }]}>
+                    {describeAddonPrice(a)}
+                  </Text>
                 </TouchableOpacity>
               ))}
             </View>
@@ -253,7 +474,10 @@ export default function DetailsScreen({ route, navigation }: Props) {
       </ScrollView>
 
       {/* Save button */}
-      <TouchableOpacity style={styles.saveBtn} onPress={handleSave}>
+      <TouchableOpacity
+        style={[styles.saveBtn, conflicts.length > 0 && styles.saveBtnDisabled]}
+        onPress={handleSave}
+      >
         <Text style={styles.saveText}>Save & Continue</Text>
       </TouchableOpacity>
     </View>
@@ -288,6 +512,25 @@ const styles = StyleSheet.create({
   addOnsContainer: { flexDirection: 'row', flexWrap: 'wrap', gap: scale(12) },
   addOnCard: { backgroundColor: colors.white, padding: scale(12), borderRadius: scale(8), alignItems: 'center', minWidth: width * 0.26 },
   addOnText: { fontSize: scale(14), color: colors.textDark },
+  durationText: { fontSize: scale(14), color: colors.white, paddingHorizontal: scale(16), marginTop: scale(8) },
+  slotRow: { marginTop: scale(8) },
+  slotChip: {
+    backgroundColor: colors.white,
+    paddingVertical: scale(6),
+    paddingHorizontal: scale(10),
+    borderRadius: scale(6),
+    marginRight: scale(8),
+  },
+  slotChipSelected: { backgroundColor: colors.primaryDark },
+  slotChipFull: { opacity: 0.4 },
+  slotText: { fontSize: scale(13), color: colors.textDark },
+  slotNote: { fontSize: scale(13), color: colors.grayLight, marginTop: scale(8) },
+  windowError: { fontSize: scale(14), color: colors.red, paddingHorizontal: scale(16), marginTop: scale(8) },
+  addOnPrice: { fontSize: scale(12), color: colors.icon, marginTop: scale(2) },
   saveBtn: { position: 'absolute', bottom: 0, left: 0, right: 0, backgroundColor: colors.primaryDark, padding: scale(16), alignItems: 'center' },
+  saveBtnDisabled: { backgroundColor: colors.grayLight },
   saveText: { color: colors.white, fontSize: scale(16), fontWeight: '600' },
+  qtyRow: { flexDirection: 'row', alignItems: 'center', marginVertical: scale(6) },
+  qtyText: { fontSize: scale(18), fontWeight: '600', color: colors.white, marginHorizontal: scale(12) },
+  conflictText: { fontSize: scale(14), color: colors.red, marginBottom: 4 },
 });
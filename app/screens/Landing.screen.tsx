@@ -1,5 +1,5 @@
 // app/screens/Landing.screen.tsx
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import {
   View,
   Text,
@@ -12,71 +12,139 @@ import {
   Alert,
 } from 'react-native';
 import auth from '@react-native-firebase/auth';
-import firestore from '@react-native-firebase/firestore';
 import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
 import { colors } from '../theme/colors';
 import { scale } from '../theme/scale';
 import type { NativeStackScreenProps } from '@react-navigation/native-stack';
 import type { NavigatorParamList } from '../navigators/navigation-route';
+import {
+  abandonSession,
+  createSession,
+  getOpenSessions,
+  saveSessionSelection,
+  subscribeCarts,
+  subscribeUnits,
+} from '../services/firestore';
+import type { Cart, CartUnit, Session } from '../services/firestore';
+import { unitsInService } from '../services/availability';
+import { latestResumable, resumeScreen } from '../services/session-resume';
 
 type Props = NativeStackScreenProps<NavigatorParamList, 'LandingScreen'>;
 const { width } = Dimensions.get('window');
 
-type Cart = {
-  id: string;
-  cart_id: string;
-  brand: string;
-  model: string;
-  passengers: string;
-  battery: string;
-  daily_price: string;
-  image_url: string;
-};
-
-export default function LandingScreen({ navigation }: Props) {
+export default function LandingScreen({ navigation, route }: Props) {
+  // set when opened from a `/cart/:id` link
+  const linkedCartId = route.params?.cartId;
   const [carts, setCarts] = useState<Cart[]>([]);
+  const [units, setUnits] = useState<CartUnit[]>([]);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
-  const [selectedCartId, setSelectedCartId] = useState<string | null>(null);
+  // cart model id → number of units wanted
+  const [selection, setSelection] = useState<Record<string, number>>({});
+  // the customer's unfinished checkout, if any
+  const [resumable, setResumable] = useState<Session | null>(null);
 
   const [selectedModel, setSelectedModel] = useState<string | null>(null);
   const [selectedPassengers, setSelectedPassengers] = useState<string | null>(null);
+  const linkedCartRef = useRef<string | null>(null);
 
   // 🔹 Subscribe to Firestore 'carts'
   useEffect(() => {
-    const unsubscribe = firestore()
-      .collection('carts')
-      .onSnapshot(
-        snap => {
-          const data = snap.docs.map(d => {
-            const doc = d.data() as any;
-            return {
-              id: d.id,
-              cart_id: doc.cart_id,
-              brand: doc.brand,
-              model: doc.model,
-              passengers: doc.passangers,
-              battery: doc.battery,
-              daily_price: doc.daily_price,
-              image_url: doc.image_url,
-            } as Cart;
-          });
-          setCarts(data);
-          setLoading(false);
-        },
-        err => {
-          console.error('❌ carts subscription error', err);
-          Alert.alert('Error', 'Could not load carts. Please try again.');
-          setLoading(false);
-        }
-      );
+    const unsubscribe = subscribeCarts(
+      data => {
+        setCarts(data);
+        setLoading(false);
+      },
+      err => {
+        console.error('❌ carts subscription error', err);
+        Alert.alert('Error', 'Could not load carts. Please try again.');
+        setLoading(false);
+      }
+    );
     return unsubscribe;
   }, []);
 
-  // 🔹 On “Next”, save session with the single selected cart
-  const onNext = async (cartId?: string) => {
-    const finalSelected = cartId || selectedCartId;
-    if (!finalSelected) {
+  // 🔹 Subscribe to fleet units for the per-model availability count
+  useEffect(() => {
+    const unsubscribe = subscribeUnits(setUnits, err =>
+      console.error('❌ units subscription error', err)
+    );
+    return unsubscribe;
+  }, []);
+
+  // 🔹 Preselect the cart a link pointed at, once it is known to be available
+  useEffect(() => {
+    if (!linkedCartId || loading || linkedCartRef.current === linkedCartId) {
+      return;
+    }
+    if (!carts.some(c => c.id === linkedCartId)) {
+      linkedCartRef.current = linkedCartId;
+      Alert.alert('Cart not found', 'That cart is no longer offered.');
+      return;
+    }
+    if (unitsInService(linkedCartId, units) === 0) {
+      return;
+    }
+    linkedCartRef.current = linkedCartId;
+    setSelectedModel(null);
+    setSelectedPassengers(null);
+    setSelection(sel => (sel[linkedCartId] ? sel : { ...sel, [linkedCartId]: 1 }));
+  }, [linkedCartId, carts, units, loading]);
+
+  // 🔹 Look for an unfinished checkout whenever Landing comes into view
+  useEffect(() => {
+    return navigation.addListener('focus', () => {
+      const uid = auth().currentUser?.uid;
+      if (!uid) {
+        return;
+      }
+      getOpenSessions(uid)
+        .then(sessions => setResumable(latestResumable(sessions)))
+        .catch(err => console.error('❌ open sessions load error', err));
+    });
+  }, [navigation]);
+
+  // 🔹 Continue the unfinished checkout where it was left
+  const onResume = () => {
+    if (!resumable) {
+      return;
+    }
+    const sessionId = resumable.id;
+    navigation.navigate('DetailsScreen', { sessionId });
+    if (resumeScreen(resumable) === 'ReviewScreen') {
+      navigation.navigate('ReviewScreen', { sessionId });
+    }
+  };
+
+  const onDismissResume = async () => {
+    if (!resumable) {
+      return;
+    }
+    setResumable(null);
+    try {
+      await abandonSession(resumable.id);
+    } catch (err) {
+      console.error('❌ session abandon error', err);
+    }
+  };
+
+  // 🔹 Select / deselect a model, or change how many of it
+  const setQty = (cartId: string, qty: number) =>
+    setSelection(sel => {
+      const next = { ...sel };
+      if (qty > 0) {
+        next[cartId] = qty;
+      } else {
+        delete next[cartId];
+      }
+      return next;
+    });
+
+  const selectedCount = Object.values(selection).reduce((sum, q) => sum + q, 0);
+
+  // 🔹 On “Next”, save session with every selected model and quantity
+  const onNext = async () => {
+    if (selectedCount === 0) {
       Alert.alert('Select a cart to continue');
       return;
     }
@@ -89,20 +157,17 @@ export default function LandingScreen({ navigation }: Props) {
 
     setSaving(true);
     try {
-      const sessionRef = await firestore().collection('sessions').add({
-        customerId: user.uid,
-        createdAt: firestore.FieldValue.serverTimestamp(),
-        partialBooking: {
-          carts: [finalSelected],
-          addons: [],
-          dates: {},
-        },
-        status: 'in_progress',
-        updatedAt: firestore.FieldValue.serverTimestamp(),
-      });
+      // Reuse the unfinished session rather than leaving it orphaned
+      let sessionId = resumable?.id;
+      if (sessionId) {
+        await saveSessionSelection(sessionId, selection);
+      } else {
+        sessionId = await createSession(user.uid, selection);
+        console.log('✅ session created', sessionId);
+      }
 
-      console.log('✅ session created', sessionRef.id);
-      navigation.navigate('DetailsScreen', { sessionId: sessionRef.id });
+      setSelection({});
+      navigation.navigate('DetailsScreen', { sessionId });
     } catch (err) {
       console.error('❌ session write error', err);
       Alert.alert('Error', 'Could not save session. Try again.');
@@ -113,24 +178,45 @@ export default function LandingScreen({ navigation }: Props) {
 
   // 🔹 Render each cart
   const renderItem = ({ item }: { item: Cart }) => {
-    const isSelected = item.id === selectedCartId;
+    const qty = selection[item.id] ?? 0;
+    const isSelected = qty > 0;
+    const available = unitsInService(item.id, units);
     return (
       <TouchableOpacity
         style={[styles.card, isSelected && { borderColor: colors.primaryDark, borderWidth: 2 }]}
-        onPress={() => {
-          setSelectedCartId(isSelected ? null : item.id); // toggle
-          if (!isSelected) onNext(item.id);
-        }}
+        disabled={available === 0}
+        onPress={() => setQty(item.id, isSelected ? 0 : 1)} // toggle
       >
         <View style={styles.cardInfo}>
           <Text style={styles.cartType}>{`${item.brand} ${item.model}`}</Text>
           <Text style={styles.cartDetails}>{`Battery ${item.battery}`}</Text>
+          <Text style={[styles.cartDetails, available === 0 && styles.unavailable]}>
+            {available === 0 ? 'None available' : `${available} available`}
+          </Text>
           <View style={styles.cartBottomRow}>
-            <Text style={styles.cartPrice}>{`$${item.daily_price} / day`}</Text>
+            <Text style={styles.cartPrice}>{`$${item.dailyPrice} / day`}</Text>
             <Text style={styles.cartSeater}>{`${item.passengers}-seater`}</Text>
           </View>
+          {isSelected ? (
+            <View style={styles.qtyRow}>
+              <TouchableOpacity onPress={() => setQty(item.id, qty - 1)}>
+                <MaterialCommunityIcons name="minus-circle-outline" size={scale(22)} color={colors.primaryDark} />
+              </TouchableOpacity>
+              <Text style={styles.qtyText}>{qty}</Text>
+              <TouchableOpacity
+                disabled={qty >= available}
+                onPress={() => setQty(item.id, qty + 1)}
+              >
+                <MaterialCommunityIcons
+                  name="plus-circle-outline"
+                  size={scale(22)}
+                  color={qty >= available ? colors.grayLight : colors.primaryDark}
+                />
+              </TouchableOpacity>
+            </View>
+          ) : null}
         </View>
-        <Image source={{ uri: item.image_url }} style={styles.kartImage} resizeMode="contain" />
+        <Image source={{ uri: item.imageUrl }} style={styles.kartImage} resizeMode="contain" />
       </TouchableOpacity>
     );
   };
@@ -153,10 +239,24 @@ export default function LandingScreen({ navigation }: Props) {
   const uniqueModels = Array.from(new Set(carts.map(cart => cart.brand)));
   const uniquePassengers = Array.from(new Set(carts.map(cart => cart.passengers)));
 
+  // 🔹 What the unfinished checkout holds, for the resume banner
+  const resumeSummary = resumable
+    ? [
+        resumable.partialBooking.carts
+          .map(id => carts.find(c => c.id === id))
+          .filter((c): c is Cart => !!c)
+          .map(c => `${c.brand} ${c.model}`)
+          .join(', '),
+        resumable.partialBooking.dates.start?.toLocaleDateString() ?? '',
+      ]
+        .filter(Boolean)
+        .join(' · ')
+    : '';
+
   return (
     <View style={styles.container}>
       <View style={styles.appBar}>
-        <TouchableOpacity onPress={() => console.log('Hamburger menu pressed')}>
+        <TouchableOpacity onPress={() => navigation.navigate('ProfileScreen')}>
           <MaterialCommunityIcons name="account-circle" size={scale(24)} color={colors.white} />
         </TouchableOpacity>
         <Text style={styles.appBarTitle}>
@@ -195,6 +295,18 @@ export default function LandingScreen({ navigation }: Props) {
         </View>
       </View>
 
+      {resumable ? (
+        <View style={styles.resumeBanner}>
+          <TouchableOpacity style={styles.resumeInfo} onPress={onResume}>
+            <Text style={styles.resumeTitle}>Continue your booking</Text>
+            {resumeSummary ? <Text style={styles.resumeText}>{resumeSummary}</Text> : null}
+          </TouchableOpacity>
+          <TouchableOpacity onPress={onDismissResume}>
+            <MaterialCommunityIcons name="close" size={scale(20)} color={colors.icon} />
+          </TouchableOpacity>
+        </View>
+      ) : null}
+
       <FlatList
         data={filteredCarts}
         renderItem={renderItem}
@@ -202,6 +314,18 @@ export default function LandingScreen({ navigation }: Props) {
         contentContainerStyle={styles.listContent}
         showsVerticalScrollIndicator={false}
       />
+
+      {selectedCount > 0 ? (
+        <TouchableOpacity style={styles.saveBtn} onPress={onNext} disabled={saving}>
+          {saving ? (
+            <ActivityIndicator color={colors.white} />
+          ) : (
+            <Text style={styles.saveText}>
+              {`Continue with ${selectedCount} cart${selectedCount === 1 ? '' : 's'}`}
+            </Text>
+          )}
+        </TouchableOpacity>
+      ) : null}
     </View>
   );
 }
@@ -246,6 +370,21 @@ const styles = StyleSheet.create({
   cartPrice: { fontSize: scale(14), fontWeight: '500', color: colors.textDark, marginBottom: scale(8) },
   cartBottomRow: { flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' },
   cartSeater: { fontSize: scale(14), color: colors.textDark },
+  unavailable: { color: colors.red },
+  qtyRow: { flexDirection: 'row', alignItems: 'center' },
+  qtyText: { fontSize: scale(16), fontWeight: '600', color: colors.textDark, marginHorizontal: scale(10) },
+  resumeBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.white,
+    marginHorizontal: scale(12),
+    marginTop: scale(12),
+    borderRadius: scale(12),
+    padding: scale(12),
+  },
+  resumeInfo: { flex: 1 },
+  resumeTitle: { fontSize: scale(16), fontWeight: '600', color: colors.primaryDark },
+  resumeText: { fontSize: scale(14), color: colors.textDark, marginTop: scale(4) },
   saveBtn: {
     position: 'absolute',
     bottom: scale(40),
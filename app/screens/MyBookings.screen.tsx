@@ -0,0 +1,163 @@
+// app/screens/MyBookings.screen.tsx
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  SectionList,
+  Alert,
+} from 'react-native';
+import auth from '@react-native-firebase/auth';
+import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
+import { colors } from '../theme/colors';
+import { scale } from '../theme/scale';
+import type { NativeStackScreenProps } from '@react-navigation/native-stack';
+import type { NavigatorParamList } from '../navigators/navigation-route';
+import { subscribeCustomerBookings } from '../services/firestore';
+import type { Booking } from '../services/firestore';
+import { BOOKING_GROUPS, groupBookings } from '../services/booking-groups';
+import { STATUS_LABELS } from '../services/booking-lifecycle';
+import { bookingTotal } from '../services/amendment';
+import { formatMoney } from '../services/pricing';
+
+type Props = NativeStackScreenProps<NavigatorParamList, 'MyBookingsScreen'>;
+
+export default function MyBookingsScreen({ navigation }: Props) {
+  const [bookings, setBookings] = useState<Booking[]>([]);
+  const [loading, setLoading] = useState(true);
+  const uid = auth().currentUser?.uid;
+
+  // 🔹 Live list of the signed-in customer's bookings
+  useEffect(() => {
+    if (!uid) {
+      setLoading(false);
+      return;
+    }
+    const unsubscribe = subscribeCustomerBookings(
+      uid,
+      data => {
+        setBookings(data);
+        setLoading(false);
+      },
+      err => {
+        console.error('❌ bookings subscription error', err);
+        Alert.alert('Error', 'Could not load your bookings.');
+        setLoading(false);
+      }
+    );
+    return unsubscribe;
+  }, [uid]);
+
+  const groups = groupBookings(bookings);
+  const sections = BOOKING_GROUPS.map(g => ({ title: g.title, data: groups[g.key] })).filter(
+    s => s.data.length > 0
+  );
+
+  const fmtDate = (val: Date | null) =>
+    val ? `${val.toLocaleDateString()} ${val.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}` : '';
+
+  // 🔹 Render one booking; tapping opens its Confirmation view
+  const renderItem = ({ item }: { item: Booking }) => {
+    const { carts, dates, quote } = item.partialBooking;
+    const title =
+      carts
+        .map(c => `${c.qty > 1 ? `${c.qty} × ` : ''}${`${c.brand} ${c.model}`.trim() || 'Cart'}`)
+        .join(', ') || 'Booking';
+    return (
+      <TouchableOpacity
+        style={styles.card}
+        onPress={() => navigation.navigate('ConfirmationScreen', { bookingId: item.id })}
+      >
+        <View style={styles.cardInfo}>
+          <Text style={styles.cardTitle}>{title}</Text>
+          <Text style={styles.cardText}>
+            {`${fmtDate(dates.start)}${dates.end ? ` → ${fmtDate(dates.end)}` : ''}`}
+          </Text>
+          <Text style={styles.cardText}>{`${STATUS_LABELS[item.status]} · ${formatMoney(bookingTotal(item), quote?.currency)}`}</Text>
+        </View>
+        <MaterialCommunityIcons name="chevron-right" size={scale(22)} color={colors.grayLight} />
+      </TouchableOpacity>
+    );
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loader}>
+        <ActivityIndicator size="large" color={colors.primaryDark} />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()}>
+          <MaterialCommunityIcons name="chevron-left" size={scale(24)} color={colors.textDark} />
+        </TouchableOpacity>
+        <Text style={styles.title}>My Bookings</Text>
+        <View style={{ width: scale(24) }} />
+      </View>
+
+      {!uid ? (
+        <Text style={styles.placeholderText}>Sign in to see your bookings.</Text>
+      ) : sections.length === 0 ? (
+        <Text style={styles.placeholderText}>You have no bookings yet.</Text>
+      ) : (
+        <SectionList
+          sections={sections}
+          keyExtractor={b => b.id}
+          renderItem={renderItem}
+          renderSectionHeader={({ section }) => (
+            <Text style={styles.sectionTitle}>{section.title}</Text>
+          )}
+          contentContainerStyle={styles.listContent}
+          stickySectionHeadersEnabled={false}
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: colors.backgroundLight },
+  loader: { flex: 1, alignItems: 'center', justifyContent: 'center' },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: scale(16),
+    justifyContent: 'space-between',
+  },
+  title: {
+    fontSize: scale(18),
+    fontWeight: '600',
+    color: colors.primaryDark,
+  },
+  listContent: { paddingHorizontal: scale(16), paddingBottom: scale(32) },
+  sectionTitle: {
+    fontSize: scale(16),
+    fontWeight: '600',
+    color: colors.primaryDark,
+    marginTop: scale(12),
+    marginBottom: scale(8),
+  },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.white,
+    borderRadius: scale(8),
+    padding: scale(12),
+    marginBottom: scale(10),
+  },
+  cardInfo: { flex: 1 },
+  cardTitle: { fontSize: scale(15), fontWeight: '600', color: colors.textDark },
+  cardText: { fontSize: scale(13), color: colors.textDark, marginTop: scale(4) },
+  placeholderText: {
+    fontSize: scale(14),
+    color: colors.icon,
+    textAlign: 'center',
+    marginTop: scale(40),
+  },
+});
@@ -13,18 +13,56 @@ import {
   Alert,
 } from 'react-native';
 import auth from '@react-native-firebase/auth';
-import firestore from '@react-native-firebase/firestore';
 import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
+import DateTimePicker from '@react-native-community/datetimepicker';
 import { colors } from '../theme/colors';
 import { scale } from '../theme/scale';
 import type { NativeStackScreenProps } from '@react-navigation/native-stack';
 import type { NavigatorParamList } from '../navigators/navigation-route';
+import {
+  cancelBooking,
+  confirmBookingPayment,
+  createPendingBooking,
+  getBooking,
+  getCustomer,
+  getPaymentMethods,
+  savePaymentMethod,
+} from '../services/firestore';
+import type { PaymentMethod } from '../services/firestore';
+import { paymentCustomerFor } from '../services/checkout';
+import { formatCountdown, HOLD_EXPIRED_MESSAGE, secondsLeft } from '../services/holds';
+import {
+  cardDetailsFrom,
+  chargeBooking,
+  EMPTY_CARD,
+  formatCardExpiry,
+  getPaymentProvider,
+  isPaymentError,
+  isRetryable,
+  PAYMENTS_NOT_CONFIGURED,
+  paymentsConfigured,
+  refundBookingCharge,
+  validateCard,
+} from '../services/payments';
+import type { CardErrors, CardFields, PaymentIntent } from '../services/payments';
+import { DEFAULT_CANCELLATION_POLICY } from '../services/cancellation';
+import { parseDob } from '../services/profile';
+import {
+  paymentMethodLabel,
+  preferredPaymentMethod,
+  usablePaymentMethods,
+} from '../services/payment-methods';
+import { dayKey } from '../services/opening-hours';
+import CardEntry from '../components/CardEntry';
+import { useBookingFlow, useFlowStep } from '../context/BookingFlow';
 
 type Props = NativeStackScreenProps<NavigatorParamList, 'PaymentScreen'>;
 const { width } = Dimensions.get('window');
 
 export default function PaymentScreen({ route, navigation }: Props) {
-  const { sessionId } = (route.params || {}) as { sessionId?: string };
+  const { sessionId } = route.params;
+  const { loadCheckout, release: releaseHold, linkBooking, close } = useBookingFlow();
+  const enterStep = useFlowStep('PaymentScreen');
 
   // Personal details (customer profile)
   const [personal, setPersonal] = useState({
@@ -38,23 +76,29 @@ export default function PaymentScreen({ route, navigation }: Props) {
     zipcode: '',
   });
 
-  // Saved card (non-sensitive)
-  const [cardMasked, setCardMasked] = useState(''); // **** **** **** 4242
-  const [cardBrand, setCardBrand] = useState('');   // e.g. Visa
-  const [cardExpiry, setCardExpiry] = useState(''); // e.g. 04/28
+  const [showDobPicker, setShowDobPicker] = useState(false);
 
-  // New card inputs
-  const [cardNumberInput, setCardNumberInput] = useState('');
-  const [nameOnCardInput, setNameOnCardInput] = useState('');
-  const [expiryInput, setExpiryInput] = useState('');
-  const [cvvInput, setCvvInput] = useState('');
+  // Saved cards this provider can charge; null selection means a new card
+  const [savedMethods, setSavedMethods] = useState<PaymentMethod[]>([]);
+  const [selectedMethodId, setSelectedMethodId] = useState<string | null>(null);
 
+  // New card: only ever handed to the provider's tokenizeCard
+  const [card, setCard] = useState<CardFields>(EMPTY_CARD);
+  const [cardErrors, setCardErrors] = useState<CardErrors>({});
   const [saveCard, setSaveCard] = useState(false);
   const [agreements, setAgreements] = useState({ rental: false, rules: false });
 
   const [fetching, setFetching]   = useState(true);
   const [submitting, setSubmitting] = useState(false);
 
+  // A booking awaiting payment: kept across retries so the carts stay reserved
+  const [pendingBookingId, setPendingBookingId] = useState<string | null>(null);
+  const [paymentError, setPaymentError] = useState<{ message: string; retryable: boolean } | null>(null);
+
+  // Carts held for this checkout
+  const [holdExpiresAt, setHoldExpiresAt] = useState<Date | null>(null);
+  const [now, setNow] = useState(() => new Date());
+
   const onChange = (field: keyof typeof personal, value: string) =>
     setPersonal(p => ({ ...p, [field]: value }));
 
@@ -70,70 +114,28 @@ export default function PaymentScreen({ route, navigation }: Props) {
 
     const load = async () => {
       try {
-        const db = firestore();
-
         // 1) Customer profile
-        const custSnap = await db.collection('customers').doc(uid).get();
-        if (!cancelled && custSnap.exists) {
-          const cd = custSnap.data() as any;
+        const customer = await getCustomer(uid);
+        if (!cancelled && customer) {
           setPersonal(p => ({
             ...p,
-            firstName: cd.firstName ?? p.firstName,
-            lastName: cd.lastName ?? p.lastName,
-            dob: cd.dob ?? p.dob,
-            address: cd.address ?? p.address,
-            city: cd.city ?? p.city,
-            state: cd.state ?? p.state,
-            country: cd.country ?? p.country,
-            zipcode: cd.zipcode ?? p.zipcode,
+            firstName: customer.firstName || p.firstName,
+            lastName: customer.lastName || p.lastName,
+            dob: customer.dob || p.dob,
+            address: customer.address || p.address,
+            city: customer.city || p.city,
+            state: customer.state || p.state,
+            country: customer.country || p.country,
+            zipcode: customer.zipcode || p.zipcode,
           }));
         }
 
-        // 2) Most recent saved payment (non-sensitive prefill)
-        let paymentDocData: any | null = null;
-
-        try {
-          const paymentsQuery = await db
-            .collection('payments')
-            .where('customerId', '==', uid)
-            .orderBy('createdAt', 'desc')
-            .limit(1)
-            .get();
-
-          if (!paymentsQuery.empty) {
-            paymentDocData = paymentsQuery.docs[0].data();
-          }
-        } catch (err: any) {
-          // Composite index missing? Fallback: filter by customerId and sort locally.
-          const needsIndex =
-            err &&
-            (err.code === 'failed-precondition' ||
-              (typeof err.message === 'string' && err.message.toLowerCase().includes('requires an index')));
-          if (needsIndex) {
-            const qs = await db.collection('payments').where('customerId', '==', uid).get();
-            if (!qs.empty) {
-              const mapped = qs.docs.map(d => ({ id: d.id, data: d.data() as any }));
-              mapped.sort((a, b) => {
-                const ta = a.data.createdAt?.toMillis?.()
-                  ?? (a.data.createdAt ? new Date(a.data.createdAt).getTime() : 0);
-                const tb = b.data.createdAt?.toMillis?.()
-                  ?? (b.data.createdAt ? new Date(b.data.createdAt).getTime() : 0);
-                return tb - ta;
-              });
-              paymentDocData = mapped[0].data;
-            }
-          } else {
-            throw err;
-          }
-        }
-
-        if (!cancelled && paymentDocData) {
-          const pdoc = paymentDocData as any;
-          if (pdoc.last4) setCardMasked(`**** **** **** ${String(pdoc.last4)}`);
-          else if (pdoc.masked) setCardMasked(pdoc.masked);
-          if (pdoc.brand) setCardBrand(pdoc.brand);
-          if (pdoc.expiry) setCardExpiry(pdoc.expiry);
-          setSaveCard(true);
+        // 2) Saved cards, preselecting the default
+        const methods = await getPaymentMethods(uid);
+        if (!cancelled && paymentsConfigured()) {
+          const providerName = getPaymentProvider().name;
+          setSavedMethods(usablePaymentMethods(methods, providerName, new Date()));
+          setSelectedMethodId(preferredPaymentMethod(methods, providerName, new Date())?.id ?? null);
         }
       } catch (err) {
         console.error('❌ Payment screen load error', err);
@@ -148,125 +150,216 @@ export default function PaymentScreen({ route, navigation }: Props) {
     };
   }, []);
 
-  // Confirm → write customer, booking, (optional) payment, update session
+  // Hold countdown: once it lapses, release the carts and go back to Details
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      const session = await enterStep(sessionId);
+      if (!session) {
+        return;
+      }
+      // A payment that failed earlier left a booking awaiting payment: pick it up again
+      const pending = session.bookingRef ? await getBooking(session.bookingRef) : null;
+      if (cancelled) {
+        return;
+      }
+      if (pending?.status === 'pending_payment') {
+        setPendingBookingId(pending.id);
+        setHoldExpiresAt(pending.paymentDueBy);
+      } else {
+        setHoldExpiresAt(session.hold?.expiresAt ?? null);
+      }
+    };
+    load().catch(err => console.error('❌ Hold load error', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId, enterStep]);
+
+  useEffect(() => {
+    if (!holdExpiresAt) {
+      return;
+    }
+    const timer = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(timer);
+  }, [holdExpiresAt]);
+
+  const holdSeconds = holdExpiresAt ? secondsLeft(holdExpiresAt, now) : null;
+  useEffect(() => {
+    if (holdSeconds !== 0 || submitting || !navigation.isFocused()) {
+      return;
+    }
+    setHoldExpiresAt(null);
+    const release = pendingBookingId
+      ? cancelBooking(pendingBookingId, 'system', DEFAULT_CANCELLATION_POLICY)
+      : releaseHold();
+    release.catch(err => console.error('❌ Hold release error', err));
+    setPendingBookingId(null);
+    Alert.alert('Your hold expired', HOLD_EXPIRED_MESSAGE);
+    navigation.navigate('DetailsScreen', { sessionId });
+  }, [holdSeconds, navigation, pendingBookingId, releaseHold, sessionId, submitting]);
+
+  // 🔹 Give up on a booking whose payment failed: releases its carts
+  const cancelPending = async (bookingId: string) => {
+    try {
+      await cancelBooking(bookingId, auth().currentUser?.uid ?? 'system', DEFAULT_CANCELLATION_POLICY);
+      setPendingBookingId(null);
+      setPaymentError(null);
+      navigation.goBack();
+    } catch (err) {
+      console.error('❌ Pending booking cancel error', err);
+      Alert.alert('Error', 'Could not cancel the booking.');
+    }
+  };
+
+  // Confirm → reserve a booking awaiting payment, authorize the card, then confirm it
   const handleConfirm = async () => {
     const uid = auth().currentUser?.uid;
     if (!uid) return Alert.alert('Not signed in', 'Please sign in / register first.');
-    if (!sessionId) return Alert.alert('Missing session', 'No active session found.');
     if (!personal.firstName.trim() || !personal.lastName.trim())
       return Alert.alert('Missing info', 'Please enter your full name.');
     if (!agreements.rental || !agreements.rules)
       return Alert.alert('Need agreements', 'Please accept the rental agreement and rules.');
 
+    if (!paymentsConfigured()) return Alert.alert('Payments unavailable', PAYMENTS_NOT_CONFIGURED);
+
+    const provider = getPaymentProvider();
+    const savedMethod = savedMethods.find(m => m.id === selectedMethodId) ?? null;
+    if (!savedMethod) {
+      const errors = validateCard(card, new Date());
+      setCardErrors(errors);
+      if (Object.keys(errors).length) {
+        return Alert.alert('Check your card', 'Please fix the highlighted card details.');
+      }
+    }
+
     setSubmitting(true);
+    setPaymentError(null);
+    let bookingId = pendingBookingId;
+    let charge: PaymentIntent | null = null;
     try {
-      const db = firestore();
-
-      // Read session
-      const sessionSnap = await db.collection('sessions').doc(sessionId).get();
-      if (!sessionSnap.exists) throw new Error('Session not found');
-      const sessionData = sessionSnap.data() as any;
-
-      const partial = sessionData.partialBooking;
-      if (!partial || !Array.isArray(partial.carts) || partial.carts.length === 0)
-        throw new Error('No carts selected in session.');
-
-      // Load carts to compute totals
-      const cartDocs = await Promise.all(
-        partial.carts.map((cartId: string) => db.collection('carts').doc(cartId).get())
-      );
-
-      let base = 0;
-      const cartsForBooking: any[] = [];
-      cartDocs.forEach(cd => {
-        if (!cd.exists) return;
-        const d = cd.data() as any;
-        const raw = String(d.daily_price ?? '0');
-        const price = parseFloat(raw.replace(/[^0-9.-]+/g, '')) || 0;
-        const qty = 1;
-        base += price * qty;
-        cartsForBooking.push({
-          id: cd.id,
-          brand: d.brand,
-          model: d.model,
-          image_url: d.image_url,
-          daily_price: price,
-          qty,
+      // Read session, carts and the same quote the customer reviewed
+      const { session, carts, addons, location, quote } = await loadCheckout();
+
+      // 🔹 1. Reserve the carts on a booking awaiting payment (kept when retrying)
+      if (!bookingId) {
+        const cartsForBooking = carts.map(c => ({
+          id: c.id,
+          brand: c.brand,
+          model: c.model,
+          imageUrl: c.imageUrl,
+          dailyPrice: c.dailyPrice,
+          qty: quote.lines.find(l => l.kind === 'rental' && l.id === c.id)?.qty ?? 1,
+        }));
+        bookingId = await createPendingBooking({
+          customerId: uid,
+          sessionId,
+          partialBooking: session.partialBooking,
+          carts: cartsForBooking,
+          addons,
+          location,
+          quote,
+          profile: {
+            firstName: personal.firstName,
+            lastName: personal.lastName,
+            dob: personal.dob,
+            address: personal.address,
+            city: personal.city,
+            state: personal.state,
+            country: personal.country,
+            zipcode: personal.zipcode,
+          },
         });
-      });
+        setPendingBookingId(bookingId);
+        linkBooking(bookingId);
+        const pending = await getBooking(bookingId);
+        setHoldExpiresAt(pending?.paymentDueBy ?? null);
+      }
 
-      const tax = +(base * 0.10).toFixed(2);
-      const deposit = 50;
-      const total = +(base + tax + deposit).toFixed(2);
-
-      // Batch writes
-      const batch = db.batch();
-
-      // Upsert customer
-      const customerRef = db.collection('customers').doc(uid);
-      batch.set(
-        customerRef,
-        {
-          firstName: personal.firstName.trim(),
-          lastName: personal.lastName.trim(),
-          dob: personal.dob || null,
-          address: personal.address || null,
-          city: personal.city || null,
-          state: personal.state || null,
-          country: personal.country || null,
-          zipcode: personal.zipcode || null,
-          updatedAt: firestore.FieldValue.serverTimestamp(),
-        },
-        { merge: true }
-      );
-
-      // Booking
-      const bookingsRef = db.collection('bookings').doc();
-      batch.set(bookingsRef, {
-        customerId: uid,
-        createdAt: firestore.FieldValue.serverTimestamp(),
-        status: 'confirmed',
-        partialBooking: {
-          ...partial,
-          carts: cartsForBooking,
-          totals: { base, tax, deposit, total },
-        },
-        sessionId,
+      // 🔹 2. Authorize: the saved card, or a new one tokenized by the provider
+      const customerId = await paymentCustomerFor(provider, uid, {
+        email: auth().currentUser?.email ?? '',
+        name: `${personal.firstName} ${personal.lastName}`.trim(),
+      });
+      let token = {
+        id: savedMethod?.tokenId ?? '',
+        brand: savedMethod?.brand ?? '',
+        last4: savedMethod?.last4 ?? '',
+        expiry: savedMethod?.expiry ?? '',
+      };
+      if (!savedMethod) {
+        const tokenized = await provider.tokenizeCard(cardDetailsFrom(card));
+        token = {
+          id: tokenized.id,
+          brand: tokenized.brand,
+          last4: tokenized.last4,
+          expiry: formatCardExpiry(tokenized.expMonth, tokenized.expYear),
+        };
+      }
+      charge = await chargeBooking(provider, {
+        customerId,
+        tokenId: token.id,
+        currency: quote.currency,
+        amount: quote.total - quote.deposit,
+        reference: bookingId,
       });
 
-      // Session → booked
-      const sessionRef = db.collection('sessions').doc(sessionId);
-      batch.update(sessionRef, {
-        status: 'booked',
-        bookingRef: bookingsRef.id,
-        updatedAt: firestore.FieldValue.serverTimestamp(),
+      // 🔹 3. Confirm the booking with the payment on record
+      await confirmBookingPayment(bookingId, {
+        amount: quote.total,
+        currency: quote.currency,
+        method: token.brand || 'card',
+        status: charge.status,
+        provider: provider.name,
+        capturedAmount: charge.captured,
+        stripeCustomerId: customerId,
+        paymentIntentId: charge.id,
+        paymentMethodId: token.id,
+        last4: token.last4 || null,
+        brand: token.brand || null,
+        expiry: token.expiry || null,
+        // Held on this card at hand-over; see checkOutBooking
+        deposit: null,
       });
 
-      // Optional payment doc (placeholder fields only)
-      if (saveCard) {
-        const paymentsRef = db.collection('payments').doc();
-        batch.set(paymentsRef, {
-          customerId: uid,
-          sessionId,
-          bookingId: bookingsRef.id,
-          amount: total,
-          currency: 'USD',
-          method: cardBrand || 'card',
-          status: 'saved',
-          stripeCustomerId: null,
-          paymentIntentId: null,
-          last4: cardMasked ? cardMasked.slice(-4) : (cardNumberInput ? cardNumberInput.slice(-4) : null),
-          brand: cardBrand || null,
-          expiry: expiryInput || cardExpiry || null,
-          createdAt: firestore.FieldValue.serverTimestamp(),
-        });
+      setPendingBookingId(null);
+      close();
+      if (!savedMethod && saveCard) {
+        // The booking is paid either way; a card that fails to save can be added later
+        await savePaymentMethod(uid, {
+          provider: provider.name,
+          tokenId: token.id,
+          brand: token.brand,
+          last4: token.last4,
+          expiry: token.expiry,
+        }).catch(saveErr => console.error('❌ Save card error', saveErr));
       }
-
-      await batch.commit();
-      navigation.navigate('ConfirmationScreen', { bookingId: bookingsRef.id });
+      navigation.navigate('ConfirmationScreen', { bookingId });
     } catch (err: any) {
       console.error('❌ Payment/booking error', err);
-      Alert.alert('Booking failed', err.message || 'Please try again');
+      // Paid but not confirmed (e.g. the carts lapsed meanwhile): give the money back
+      if (charge) {
+        refundBookingCharge(
+          provider,
+          { rentalIntentIds: [charge.id], depositIntentId: null },
+          charge.captured,
+        ).catch(refundErr => console.error('❌ Refund after failed confirm', refundErr));
+      }
+      const message = err.message || 'Please try again';
+      if (!bookingId) {
+        Alert.alert('Booking failed', message);
+      } else {
+        const pendingId = bookingId;
+        setPaymentError({ message, retryable: isRetryable(err) });
+        Alert.alert(
+          isPaymentError(err) ? 'Payment failed' : 'Booking failed',
+          `${message}\n\nYour carts stay reserved while the timer runs.`,
+          [
+            { text: 'Cancel booking', style: 'destructive', onPress: () => cancelPending(pendingId) },
+            { text: 'OK' },
+          ]
+        );
+      }
     } finally {
       setSubmitting(false);
     }
@@ -283,6 +376,14 @@ export default function PaymentScreen({ route, navigation }: Props) {
   return (
     <View style={styles.container}>
       <ScrollView contentContainerStyle={styles.scroll}>
+        {/* Hold countdown */}
+        {holdSeconds !== null ? (
+          <View style={styles.holdRow}>
+            <MaterialCommunityIcons name="timer-sand" size={scale(16)} color={colors.primaryDark} />
+            <Text style={styles.holdText}>{`Carts held for ${formatCountdown(holdSeconds)}`}</Text>
+          </View>
+        ) : null}
+
         {/* Personal Details */}
         <Text style={styles.sectionTitle}>Personal Details *</Text>
 
@@ -309,8 +410,10 @@ export default function PaymentScreen({ route, navigation }: Props) {
 
           <View style={[styles.col, { marginLeft: scale(8) }]}>
             <Text style={styles.fieldLabel}>DOB</Text>
-            <TouchableOpacity style={styles.dateInput}>
-              <Text style={styles.placeholder}>{personal.dob ? personal.dob : 'DOB'}</Text>
+            <TouchableOpacity style={styles.dateInput} onPress={() => setShowDobPicker(true)}>
+              <Text style={personal.dob ? styles.dateText : styles.placeholder}>
+                {parseDob(personal.dob)?.toLocaleDateString() ?? (personal.dob || 'DOB')}
+              </Text>
               <MaterialCommunityIcons name="calendar" size={scale(20)} color={colors.grayLight} />
             </TouchableOpacity>
           </View>
@@ -399,84 +502,59 @@ export default function PaymentScreen({ route, navigation }: Props) {
 
         <Text style={styles.orText}>or</Text>
 
-        {cardMasked ? (
-          <View style={[styles.input, { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between' }]}>
-            <View>
-              <Text style={{ fontSize: 14, color: colors.textDark }}>{cardBrand || 'Saved card'}</Text>
-              <Text style={{ fontSize: 14, color: colors.textDark }}>
-                {cardMasked}{cardExpiry ? ` • ${cardExpiry}` : ''}
-              </Text>
-            </View>
-            <View style={{ flexDirection: 'row', alignItems: 'center' }}>
-              <Text style={{ marginRight: scale(8) }}>Use</Text>
-              <Switch
-                value={saveCard}
-                onValueChange={setSaveCard}
-                trackColor={{ true: colors.primaryDark, false: colors.grayLightest }}
-                thumbColor={colors.white}
-              />
-            </View>
-          </View>
-        ) : null}
-
-        <View style={styles.col}>
-          <Text style={styles.fieldLabel}>Card number</Text>
-          <TextInput
-            style={styles.input}
-            placeholder={cardMasked ? 'Enter new card or leave masked card selected' : 'Card number'}
-            value={cardNumberInput}
-            onChangeText={setCardNumberInput}
-            keyboardType="number-pad"
-          />
-        </View>
-
-        <View style={styles.row}>
-          <View style={[styles.col, { marginRight: scale(8) }]}>
-            <Text style={styles.fieldLabel}>Name on card</Text>
-            <TextInput
-              style={styles.input}
-              placeholder="Name on Card"
-              value={nameOnCardInput}
-              onChangeText={setNameOnCardInput}
+        {savedMethods.map(method => (
+          <TouchableOpacity
+            key={method.id}
+            style={styles.methodRow}
+            onPress={() => setSelectedMethodId(method.id)}
+            disabled={submitting}
+          >
+            <MaterialCommunityIcons
+              name={selectedMethodId === method.id ? 'radiobox-marked' : 'radiobox-blank'}
+              size={scale(20)}
+              color={colors.primaryDark}
             />
-          </View>
-
-          <View style={[styles.col, { marginLeft: scale(8) }]}>
-            <Text style={styles.fieldLabel}>Expiry date</Text>
-            <TouchableOpacity style={styles.dateInput}>
-              <Text style={styles.placeholder}>{expiryInput || (cardExpiry ? cardExpiry : 'MM/YY')}</Text>
-              <MaterialCommunityIcons name="calendar" size={scale(20)} color={colors.grayLight} />
-            </TouchableOpacity>
-          </View>
-        </View>
-
-        <View style={styles.row}>
-          <View style={[styles.col, { flex: 0.4, marginRight: scale(8) }]}>
-            <Text style={styles.fieldLabel}>CVV</Text>
-            <TextInput
-              style={styles.input}
-              placeholder="CVV"
-              value={cvvInput}
-              onChangeText={setCvvInput}
-              secureTextEntry
-              keyboardType="number-pad"
+            <Text style={styles.methodText}>{paymentMethodLabel(method)}</Text>
+            <Text style={styles.methodExpiry}>{method.expiry}</Text>
+          </TouchableOpacity>
+        ))}
+        {savedMethods.length ? (
+          <TouchableOpacity
+            style={styles.methodRow}
+            onPress={() => setSelectedMethodId(null)}
+            disabled={submitting}
+          >
+            <MaterialCommunityIcons
+              name={selectedMethodId === null ? 'radiobox-marked' : 'radiobox-blank'}
+              size={scale(20)}
+              color={colors.primaryDark}
             />
-          </View>
+            <Text style={styles.methodText}>Use a new card</Text>
+          </TouchableOpacity>
+        ) : null}
 
-          <View style={[styles.col, { flex: 0.6 }]}>
-            <Text style={styles.fieldLabel}>Save card details</Text>
-            <View style={[styles.input, { flexDirection: 'row', alignItems: 'center' }]}>
-              <MaterialCommunityIcons name="credit-card" size={scale(24)} color={colors.grayLight} />
-              <View style={{ flex: 1 }} />
+        {selectedMethodId === null ? (
+          <View style={styles.cardEntry}>
+            <CardEntry
+              value={card}
+              errors={cardErrors}
+              onChange={fields => {
+                setCard(fields);
+                setCardErrors({});
+              }}
+              editable={!submitting}
+            />
+            <View style={styles.agreementRow}>
               <Switch
                 value={saveCard}
                 onValueChange={setSaveCard}
                 trackColor={{ true: colors.primaryDark, false: colors.grayLightest }}
                 thumbColor={colors.white}
               />
+              <Text style={styles.agreementText}>Save this card for next time</Text>
             </View>
           </View>
-        </View>
+        ) : null}
 
         {/* Agreements */}
         <View style={styles.agreementRow}>
@@ -499,9 +577,40 @@ export default function PaymentScreen({ route, navigation }: Props) {
         </View>
       </ScrollView>
 
+      {showDobPicker && (
+        <DateTimePicker
+          value={parseDob(personal.dob) ?? new Date(1990, 0, 1)}
+          mode="date"
+          display="default"
+          maximumDate={new Date()}
+          onChange={(_, selected) => {
+            setShowDobPicker(false);
+            if (selected) {
+              onChange('dob', dayKey(selected));
+            }
+          }}
+        />
+      )}
+
+      {/* Payment failure: the pending booking is kept so the customer can retry or cancel */}
+      {paymentError && pendingBookingId ? (
+        <View style={styles.paymentErrorBox}>
+          <Text style={styles.paymentErrorText}>
+            {paymentError.retryable ? paymentError.message : `${paymentError.message} Check your card details or use another card.`}
+          </Text>
+          <TouchableOpacity onPress={() => cancelPending(pendingBookingId)} disabled={submitting}>
+            <Text style={styles.paymentErrorLink}>Cancel booking</Text>
+          </TouchableOpacity>
+        </View>
+      ) : null}
+
       {/* Confirm */}
       <TouchableOpacity style={styles.confirmBtn} onPress={handleConfirm} disabled={submitting}>
-        {submitting ? <ActivityIndicator color={colors.white} /> : <Text style={styles.confirmText}>Confirm</Text>}
+        {submitting ? (
+          <ActivityIndicator color={colors.white} />
+        ) : (
+          <Text style={styles.confirmText}>{paymentError && pendingBookingId ? 'Retry payment' : 'Confirm'}</Text>
+        )}
       </TouchableOpacity>
 
       {/* Dots */}
@@ -526,6 +635,9 @@ const styles = StyleSheet.create({
     marginBottom: scale(12),
   },
 
+  holdRow: { flexDirection: 'row', alignItems: 'center' },
+  holdText: { marginLeft: scale(6), fontSize: scale(14), fontWeight: '600', color: colors.primaryDark },
+
   row: { flexDirection: 'row', marginBottom: scale(16), alignItems: 'center' },
   col: { flex: 1 },
   fieldLabel: {
@@ -554,6 +666,18 @@ const styles = StyleSheet.create({
     paddingVertical: scale(14),
   },
   placeholder: { color: colors.grayLight },
+  dateText: { color: colors.textDark },
+  cardEntry: { marginTop: scale(16) },
+  methodRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.white,
+    borderRadius: scale(6),
+    padding: scale(12),
+    marginBottom: scale(8),
+  },
+  methodText: { flex: 1, marginLeft: scale(8), fontSize: scale(14), color: colors.textDark },
+  methodExpiry: { fontSize: scale(13), color: colors.icon },
 
   uploadRow: { flexDirection: 'row', alignItems: 'center', marginBottom: scale(16) },
   uploadText: { marginLeft: scale(8), color: colors.textDark },
@@ -566,6 +690,20 @@ const styles = StyleSheet.create({
   agreementRow: { flexDirection: 'row', alignItems: 'center', marginBottom: scale(16) },
   agreementText: { marginLeft: scale(8), flex: 1, color: colors.textDark, fontSize: scale(14) },
 
+  paymentErrorBox: {
+    position: 'absolute',
+    bottom: scale(104),
+    left: scale(16),
+    right: scale(16),
+    backgroundColor: colors.white,
+    borderRadius: scale(8),
+    borderWidth: 1,
+    borderColor: colors.red,
+    padding: scale(12),
+  },
+  paymentErrorText: { fontSize: scale(13), color: colors.red },
+  paymentErrorLink: { marginTop: scale(8), fontSize: scale(13), fontWeight: '600', color: colors.primaryDark },
+
   confirmBtn: {
     position: 'absolute',
     bottom: scale(40),
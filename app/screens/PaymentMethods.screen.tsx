@@ -0,0 +1,315 @@
+// app/screens/PaymentMethods.screen.tsx
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import auth from '@react-native-firebase/auth';
+import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
+import { colors } from '../theme/colors';
+import { scale } from '../theme/scale';
+import type { NativeStackScreenProps } from '@react-navigation/native-stack';
+import type { NavigatorParamList } from '../navigators/navigation-route';
+import {
+  getPaymentMethods,
+  removePaymentMethod,
+  savePaymentMethod,
+  setDefaultPaymentMethod,
+} from '../services/firestore';
+import type { PaymentMethod } from '../services/firestore';
+import {
+  cardDetailsFrom,
+  EMPTY_CARD,
+  formatCardExpiry,
+  getPaymentProvider,
+  paymentsConfigured,
+  validateCard,
+} from '../services/payments';
+import type { CardErrors, CardFields } from '../services/payments';
+import { paymentMethodExpired, paymentMethodLabel } from '../services/payment-methods';
+import CardEntry from '../components/CardEntry';
+
+type Props = NativeStackScreenProps<NavigatorParamList, 'PaymentMethodsScreen'>;
+
+export default function PaymentMethodsScreen({ navigation }: Props) {
+  const [methods, setMethods] = useState<PaymentMethod[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [adding, setAdding] = useState(false);
+  const [card, setCard] = useState<CardFields>(EMPTY_CARD);
+  const [cardErrors, setCardErrors] = useState<CardErrors>({});
+  const [saving, setSaving] = useState(false);
+  const uid = auth().currentUser?.uid;
+  const providerName = paymentsConfigured() ? getPaymentProvider().name : null;
+
+  const reload = useCallback(async () => {
+    if (!uid) {
+      return;
+    }
+    setMethods(await getPaymentMethods(uid));
+  }, [uid]);
+
+  // 🔹 Saved cards for the signed-in customer
+  useEffect(() => {
+    if (!uid) {
+      setLoading(false);
+      return;
+    }
+    let cancelled = false;
+
+    getPaymentMethods(uid)
+      .then(data => {
+        if (!cancelled) {
+          setMethods(data);
+        }
+      })
+      .catch(err => console.error('❌ payment methods load error', err))
+      .finally(() => {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [uid]);
+
+  const onMakeDefault = async (method: PaymentMethod) => {
+    if (!uid || method.isDefault) {
+      return;
+    }
+    setBusyId(method.id);
+    try {
+      await setDefaultPaymentMethod(uid, method.id);
+      await reload();
+    } catch (err) {
+      console.error('❌ default payment method error', err);
+      Alert.alert('Error', 'Could not change your default card.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const onRemove = (method: PaymentMethod) => {
+    if (!uid) {
+      return;
+    }
+    Alert.alert('Remove card?', `${paymentMethodLabel(method)} will no longer be offered at checkout.`, [
+      { text: 'Keep', style: 'cancel' },
+      {
+        text: 'Remove',
+        style: 'destructive',
+        onPress: async () => {
+          setBusyId(method.id);
+          try {
+            // Detached at the provider first, so a failure leaves the card listed to retry
+            if (method.provider === providerName) {
+              await getPaymentProvider().detachCard(method.tokenId);
+            }
+            await removePaymentMethod(uid, method.id);
+            await reload();
+          } catch (err) {
+            console.error('❌ remove payment method error', err);
+            Alert.alert('Error', 'Could not remove the card.');
+          } finally {
+            setBusyId(null);
+          }
+        },
+      },
+    ]);
+  };
+
+  // 🔹 New cards go to the provider first; only its token is saved
+  const onAdd = async () => {
+    if (!uid) {
+      return;
+    }
+    const errors = validateCard(card, new Date());
+    setCardErrors(errors);
+    if (Object.keys(errors).length) {
+      return;
+    }
+    setSaving(true);
+    try {
+      const provider = getPaymentProvider();
+      const token = await provider.tokenizeCard(cardDetailsFrom(card));
+      await savePaymentMethod(uid, {
+        provider: provider.name,
+        tokenId: token.id,
+        brand: token.brand,
+        last4: token.last4,
+        expiry: formatCardExpiry(token.expMonth, token.expYear),
+      });
+      setCard(EMPTY_CARD);
+      setAdding(false);
+      await reload();
+    } catch (err: any) {
+      console.error('❌ add payment method error', err);
+      Alert.alert('Card not saved', err.message || 'Please try again');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderMethod = (method: PaymentMethod) => {
+    const expired = paymentMethodExpired(method, new Date());
+    const otherProvider = method.provider !== providerName;
+    return (
+      <View key={method.id} style={styles.card}>
+        <TouchableOpacity
+          style={styles.cardInfo}
+          onPress={() => onMakeDefault(method)}
+          disabled={busyId !== null || method.isDefault}
+        >
+          <View style={styles.cardTitleRow}>
+            <MaterialCommunityIcons
+              name={method.isDefault ? 'radiobox-marked' : 'radiobox-blank'}
+              size={scale(20)}
+              color={colors.primaryDark}
+            />
+            <Text style={styles.cardTitle}>{paymentMethodLabel(method)}</Text>
+          </View>
+          <Text style={[styles.cardText, expired ? styles.expiredText : null]}>
+            {expired ? `Expired ${method.expiry}` : method.expiry ? `Expires ${method.expiry}` : ''}
+            {method.isDefault ? '  ·  Default' : ''}
+          </Text>
+          {otherProvider ? (
+            <Text style={styles.cardText}>Not available with the current payment provider</Text>
+          ) : null}
+        </TouchableOpacity>
+        {busyId === method.id ? (
+          <ActivityIndicator color={colors.primaryDark} />
+        ) : (
+          <TouchableOpacity onPress={() => onRemove(method)} disabled={busyId !== null}>
+            <MaterialCommunityIcons name="trash-can-outline" size={scale(22)} color={colors.red} />
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loader}>
+        <ActivityIndicator size="large" color={colors.primaryDark} />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()}>
+          <MaterialCommunityIcons name="chevron-left" size={scale(24)} color={colors.textDark} />
+        </TouchableOpacity>
+        <Text style={styles.title}>Payment Methods</Text>
+        <View style={{ width: scale(24) }} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.scroll}>
+        {methods.length ? (
+          <>
+            <Text style={styles.hint}>Tap a card to make it your default at checkout.</Text>
+            {methods.map(renderMethod)}
+          </>
+        ) : (
+          <Text style={styles.placeholderText}>No saved cards yet.</Text>
+        )}
+
+        {adding ? (
+          <View style={styles.addBox}>
+            <CardEntry
+              value={card}
+              errors={cardErrors}
+              onChange={fields => {
+                setCard(fields);
+                setCardErrors({});
+              }}
+              editable={!saving}
+            />
+            <TouchableOpacity style={styles.primaryBtn} onPress={onAdd} disabled={saving}>
+              {saving ? (
+                <ActivityIndicator color={colors.white} />
+              ) : (
+                <Text style={styles.primaryText}>Save card</Text>
+              )}
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.secondaryBtn}
+              onPress={() => {
+                setAdding(false);
+                setCard(EMPTY_CARD);
+                setCardErrors({});
+              }}
+              disabled={saving}
+            >
+              <Text style={styles.secondaryText}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <TouchableOpacity style={styles.addRow} onPress={() => setAdding(true)}>
+            <MaterialCommunityIcons name="plus-circle-outline" size={scale(20)} color={colors.primaryDark} />
+            <Text style={styles.addText}>Add a card</Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: colors.backgroundLight },
+  loader: { flex: 1, alignItems: 'center', justifyContent: 'center' },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: scale(16),
+    justifyContent: 'space-between',
+  },
+  title: {
+    fontSize: scale(18),
+    fontWeight: '600',
+    color: colors.primaryDark,
+  },
+  scroll: { paddingHorizontal: scale(16), paddingBottom: scale(32) },
+  hint: { fontSize: scale(13), color: colors.icon, marginBottom: scale(12) },
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.white,
+    borderRadius: scale(8),
+    padding: scale(12),
+    marginBottom: scale(10),
+  },
+  cardInfo: { flex: 1 },
+  cardTitleRow: { flexDirection: 'row', alignItems: 'center' },
+  cardTitle: { marginLeft: scale(8), fontSize: scale(15), fontWeight: '600', color: colors.textDark },
+  cardText: { fontSize: scale(13), color: colors.textDark, marginTop: scale(4), marginLeft: scale(28) },
+  expiredText: { color: colors.red },
+  placeholderText: {
+    fontSize: scale(14),
+    color: colors.icon,
+    textAlign: 'center',
+    marginTop: scale(40),
+    marginBottom: scale(24),
+  },
+  addRow: { flexDirection: 'row', alignItems: 'center', paddingVertical: scale(12) },
+  addText: { marginLeft: scale(8), fontSize: scale(14), fontWeight: '600', color: colors.primaryDark },
+  addBox: { marginTop: scale(16) },
+  primaryBtn: {
+    backgroundColor: colors.primaryDark,
+    paddingVertical: scale(16),
+    borderRadius: scale(8),
+    alignItems: 'center',
+  },
+  primaryText: { color: colors.white, fontSize: scale(16), fontWeight: '600' },
+  secondaryBtn: { paddingVertical: scale(12), alignItems: 'center' },
+  secondaryText: { color: colors.primaryDark, fontSize: scale(14) },
+});
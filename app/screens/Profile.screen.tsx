@@ -0,0 +1,376 @@
+// app/screens/Profile.screen.tsx
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import auth from '@react-native-firebase/auth';
+import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import { colors } from '../theme/colors';
+import { scale } from '../theme/scale';
+import type { NativeStackScreenProps } from '@react-navigation/native-stack';
+import type { NavigatorParamList } from '../navigators/navigation-route';
+import { getCustomer, getStaffMember, saveCustomer } from '../services/firestore';
+import type { CustomerDocuments, DocumentStatus } from '../services/firestore';
+import {
+  DOCUMENT_STATUS_LABELS,
+  EMPTY_PROFILE,
+  parseDob,
+  profileFields,
+  validateProfile,
+} from '../services/profile';
+import type { ProfileErrors, ProfileFields } from '../services/profile';
+import { dayKey } from '../services/opening-hours';
+
+type Props = NativeStackScreenProps<NavigatorParamList, 'ProfileScreen'>;
+
+const DOCUMENT_ICONS: Record<DocumentStatus, { name: string; color: string }> = {
+  missing: { name: 'file-upload-outline', color: colors.icon },
+  pending: { name: 'clock-outline', color: colors.primaryDark },
+  verified: { name: 'check-circle', color: colors.primaryDark },
+  rejected: { name: 'alert-circle', color: colors.red },
+};
+
+export default function ProfileScreen({ navigation }: Props) {
+  const [fields, setFields] = useState<ProfileFields>(EMPTY_PROFILE);
+  const [documents, setDocuments] = useState<CustomerDocuments>({
+    identity: 'missing',
+    driverLicense: 'missing',
+  });
+  const [errors, setErrors] = useState<ProfileErrors>({});
+  const [showDobPicker, setShowDobPicker] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [isStaff, setIsStaff] = useState(false);
+  const uid = auth().currentUser?.uid;
+
+  // 🔹 Prefill from customers/{uid}, falling back to the sign-in email
+  useEffect(() => {
+    if (!uid) {
+      setLoading(false);
+      return;
+    }
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        const [customer, staff] = await Promise.all([getCustomer(uid), getStaffMember(uid)]);
+        if (cancelled) {
+          return;
+        }
+        const loaded = customer ? profileFields(customer) : EMPTY_PROFILE;
+        setFields({ ...loaded, email: loaded.email || auth().currentUser?.email || '' });
+        if (customer) {
+          setDocuments(customer.documents);
+        }
+        setIsStaff(!!staff);
+      } catch (err) {
+        console.error('❌ Profile load error', err);
+        Alert.alert('Error', 'Could not load your profile.');
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [uid]);
+
+  const onChange = (field: keyof ProfileFields, value: string) => {
+    setFields(f => ({ ...f, [field]: value }));
+    setErrors(e => ({ ...e, [field]: undefined }));
+  };
+
+  // 🔹 Validate, merge into customers/{uid}, then return to where we came from
+  const handleSave = async () => {
+    if (!uid) {
+      return Alert.alert('Not signed in', 'Please sign in / register first.');
+    }
+    const found = validateProfile(fields);
+    setErrors(found);
+    if (Object.keys(found).length > 0) {
+      return Alert.alert('Check your details', 'Some fields need attention.');
+    }
+
+    setSaving(true);
+    try {
+      await saveCustomer(uid, fields);
+      navigation.goBack();
+    } catch (err: any) {
+      console.error('❌ Profile save error', err);
+      Alert.alert('Save failed', err.message || 'Please try again');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderField = (
+    field: keyof ProfileFields,
+    label: string,
+    props: React.ComponentProps<typeof TextInput> = {}
+  ) => (
+    <View style={styles.field}>
+      <Text style={styles.fieldLabel}>{label}</Text>
+      <TextInput
+        style={[styles.input, errors[field] ? styles.inputError : null]}
+        placeholder={label}
+        placeholderTextColor={colors.grayLight}
+        value={fields[field]}
+        onChangeText={v => onChange(field, v)}
+        {...props}
+      />
+      {errors[field] ? <Text style={styles.errorText}>{errors[field]}</Text> : null}
+    </View>
+  );
+
+  const renderDocument = (label: string, status: DocumentStatus) => (
+    <View style={styles.documentRow}>
+      <MaterialCommunityIcons
+        name={DOCUMENT_ICONS[status].name}
+        size={scale(22)}
+        color={DOCUMENT_ICONS[status].color}
+      />
+      <View style={styles.documentInfo}>
+        <Text style={styles.documentLabel}>{label}</Text>
+        <Text style={[styles.documentStatus, status === 'rejected' ? styles.errorText : null]}>
+          {DOCUMENT_STATUS_LABELS[status]}
+        </Text>
+      </View>
+    </View>
+  );
+
+  if (loading) {
+    return (
+      <View style={styles.loader}>
+        <ActivityIndicator size="large" color={colors.primaryDark} />
+      </View>
+    );
+  }
+
+  const dob = parseDob(fields.dob);
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()}>
+          <MaterialCommunityIcons name="chevron-left" size={scale(24)} color={colors.textDark} />
+        </TouchableOpacity>
+        <Text style={styles.title}>Profile</Text>
+        <View style={{ width: scale(24) }} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.scroll}>
+        {/* Personal details */}
+        <Text style={styles.sectionTitle}>Personal Details</Text>
+        <View style={styles.row}>
+          <View style={[styles.col, { marginRight: scale(8) }]}>
+            {renderField('firstName', 'First name')}
+          </View>
+          <View style={[styles.col, { marginLeft: scale(8) }]}>
+            {renderField('lastName', 'Last name')}
+          </View>
+        </View>
+
+        <View style={styles.field}>
+          <Text style={styles.fieldLabel}>Date of birth</Text>
+          <TouchableOpacity
+            style={[styles.dateInput, errors.dob ? styles.inputError : null]}
+            onPress={() => setShowDobPicker(true)}
+          >
+            <Text style={fields.dob ? styles.inputText : styles.placeholder}>
+              {dob ? dob.toLocaleDateString() : fields.dob || 'Date of birth'}
+            </Text>
+            <MaterialCommunityIcons name="calendar" size={scale(20)} color={colors.grayLight} />
+          </TouchableOpacity>
+          {errors.dob ? <Text style={styles.errorText}>{errors.dob}</Text> : null}
+        </View>
+
+        {/* Contact */}
+        <Text style={styles.sectionTitle}>Contact</Text>
+        {renderField('email', 'Email', { keyboardType: 'email-address', autoCapitalize: 'none' })}
+        {renderField('phone', 'Phone', { keyboardType: 'phone-pad' })}
+        {renderField('address', 'Address')}
+        <View style={styles.row}>
+          <View style={[styles.col, { marginRight: scale(8) }]}>
+            {renderField('city', 'City')}
+          </View>
+          <View style={[styles.col, { marginLeft: scale(8) }]}>
+            {renderField('state', 'State / Province')}
+          </View>
+        </View>
+        <View style={styles.row}>
+          <View style={[styles.col, { marginRight: scale(8) }]}>
+            {renderField('country', 'Country')}
+          </View>
+          <View style={[styles.col, { marginLeft: scale(8) }]}>
+            {renderField('zipcode', 'Zip / Postal code')}
+          </View>
+        </View>
+
+        {/* Driving */}
+        <Text style={styles.sectionTitle}>Driver’s Licence</Text>
+        {renderField('driverLicense', 'Licence number', { autoCapitalize: 'characters' })}
+
+        {/* Documents */}
+        <Text style={styles.sectionTitle}>Documents</Text>
+        <View style={styles.card}>
+          {renderDocument('Identity document', documents.identity)}
+          {renderDocument('Driver’s licence', documents.driverLicense)}
+        </View>
+
+        {/* Account */}
+        <TouchableOpacity style={styles.linkRow} onPress={() => navigation.navigate('MyBookingsScreen')}>
+          <MaterialCommunityIcons name="calendar-check" size={scale(20)} color={colors.primaryDark} />
+          <Text style={styles.linkText}>My bookings</Text>
+          <MaterialCommunityIcons name="chevron-right" size={scale(20)} color={colors.grayLight} />
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.linkRow, { marginTop: scale(12) }]}
+          onPress={() => navigation.navigate('PaymentMethodsScreen')}
+        >
+          <MaterialCommunityIcons name="credit-card-outline" size={scale(20)} color={colors.primaryDark} />
+          <Text style={styles.linkText}>Payment methods</Text>
+          <MaterialCommunityIcons name="chevron-right" size={scale(20)} color={colors.grayLight} />
+        </TouchableOpacity>
+        {isStaff ? (
+          <TouchableOpacity
+            style={[styles.linkRow, { marginTop: scale(12) }]}
+            onPress={() => navigation.navigate('StaffCounterScreen')}
+          >
+            <MaterialCommunityIcons name="qrcode-scan" size={scale(20)} color={colors.primaryDark} />
+            <Text style={styles.linkText}>Staff counter</Text>
+            <MaterialCommunityIcons name="chevron-right" size={scale(20)} color={colors.grayLight} />
+          </TouchableOpacity>
+        ) : null}
+      </ScrollView>
+
+      {showDobPicker && (
+        <DateTimePicker
+          value={dob ?? new Date(1990, 0, 1)}
+          mode="date"
+          display="default"
+          maximumDate={new Date()}
+          onChange={(_, selected) => {
+            setShowDobPicker(false);
+            if (selected) {
+              onChange('dob', dayKey(selected));
+            }
+          }}
+        />
+      )}
+
+      {/* Save button */}
+      <TouchableOpacity style={styles.saveBtn} onPress={handleSave} disabled={saving}>
+        {saving ? (
+          <ActivityIndicator color={colors.white} />
+        ) : (
+          <Text style={styles.saveText}>Save</Text>
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: colors.backgroundLight },
+  loader: { flex: 1, alignItems: 'center', justifyContent: 'center' },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: scale(16),
+    justifyContent: 'space-between',
+  },
+  title: {
+    fontSize: scale(18),
+    fontWeight: '600',
+    color: colors.primaryDark,
+  },
+  scroll: { paddingHorizontal: scale(16), paddingBottom: scale(120) },
+
+  sectionTitle: {
+    fontSize: scale(16),
+    fontWeight: '600',
+    color: colors.primaryDark,
+    marginTop: scale(16),
+    marginBottom: scale(12),
+  },
+
+  row: { flexDirection: 'row' },
+  col: { flex: 1 },
+  field: { marginBottom: scale(16) },
+  fieldLabel: {
+    fontSize: scale(12),
+    color: colors.textDark,
+    opacity: 0.8,
+    marginBottom: scale(6),
+  },
+  input: {
+    backgroundColor: colors.white,
+    borderRadius: scale(6),
+    paddingHorizontal: scale(12),
+    paddingVertical: scale(14),
+    fontSize: scale(14),
+    color: colors.textDark,
+    borderWidth: 1,
+    borderColor: colors.white,
+  },
+  inputError: { borderColor: colors.red },
+  inputText: { fontSize: scale(14), color: colors.textDark },
+  dateInput: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: colors.white,
+    borderRadius: scale(6),
+    paddingHorizontal: scale(12),
+    paddingVertical: scale(14),
+    borderWidth: 1,
+    borderColor: colors.white,
+  },
+  placeholder: { color: colors.grayLight },
+  errorText: { fontSize: scale(12), color: colors.red, marginTop: scale(4) },
+
+  card: {
+    backgroundColor: colors.white,
+    borderRadius: scale(8),
+    padding: scale(12),
+  },
+  documentRow: { flexDirection: 'row', alignItems: 'center', paddingVertical: scale(6) },
+  documentInfo: { marginLeft: scale(10), flex: 1 },
+  documentLabel: { fontSize: scale(14), color: colors.textDark },
+  documentStatus: { fontSize: scale(12), color: colors.icon, marginTop: scale(2) },
+
+  linkRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.white,
+    borderRadius: scale(8),
+    padding: scale(12),
+    marginTop: scale(24),
+  },
+  linkText: { flex: 1, marginLeft: scale(10), fontSize: scale(14), color: colors.textDark },
+
+  saveBtn: {
+    position: 'absolute',
+    bottom: scale(32),
+    left: scale(16),
+    right: scale(16),
+    backgroundColor: colors.primaryDark,
+    paddingVertical: scale(16),
+    borderRadius: scale(8),
+    alignItems: 'center',
+  },
+  saveText: { color: colors.white, fontSize: scale(16), fontWeight: '600' },
+});
@@ -12,116 +12,66 @@ import {
   Alert,
 } from 'react-native';
 import auth from '@react-native-firebase/auth';
-import firestore from '@react-native-firebase/firestore';
 import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
 import { colors } from '../theme/colors';
 import { scale } from '../theme/scale';
 import type { NativeStackScreenProps } from '@react-navigation/native-stack';
 import type { NavigatorParamList } from '../navigators/navigation-route';
+import { amendBooking, getBookingPayment, getCustomer } from '../services/firestore';
+import type { Customer } from '../services/firestore';
+import { checkAvailability, sendPendingRefund } from '../services/checkout';
+import { describeLine, describeRentalLength, formatMoney } from '../services/pricing';
+import { describeDuration } from '../services/duration';
+import {
+  bookingTotal,
+  describeDifference,
+  priceDifference,
+  rentalDifference,
+} from '../services/amendment';
+import { chargeBooking, getPaymentProvider } from '../services/payments';
+import type { PaymentIntent, PaymentProvider } from '../services/payments';
+import { formatCountdown, HOLD_EXPIRED_MESSAGE, secondsLeft } from '../services/holds';
+import { useBookingFlow, useFlowStep } from '../context/BookingFlow';
 
 type Props = NativeStackScreenProps<NavigatorParamList, 'ReviewScreen'>;
 const { width } = Dimensions.get('window');
 
-type Cart = {
-  id: string;
-  brand: string;
-  model: string;
-  image_url: string;
-  daily_price: number;
-  qty: number;
-  time: string;
-};
-
-type Profile = {
-  firstName?: string;
-  lastName?: string;
-  phone?: string;
-  email?: string;
-  address?: string;
-  city?: string;
-  state?: string;
-  zipcode?: string;
-  driverLicense?: string;
-  idDocument?: string;
-};
-
 export default function ReviewScreen({ route, navigation }: Props) {
-  const { sessionId } = route.params as { sessionId: string };
-  const [carts, setCarts] = useState<Cart[]>([]);
+  const { sessionId } = route.params;
+  const { checkout, loadCheckout, saveQuantities, hold, release, close } = useBookingFlow();
+  const enterStep = useFlowStep('ReviewScreen');
+  const [freeUnits, setFreeUnits] = useState<Record<string, number>>({});
   const [loading, setLoading] = useState(true);
-  const [profile, setProfile] = useState<Profile | null>(null);
+  const [profile, setProfile] = useState<Customer | null>(null);
+  const [saving, setSaving] = useState(false);
+  // when the carts held for this checkout are released
+  const [holdExpiresAt, setHoldExpiresAt] = useState<Date | null>(null);
+  const [now, setNow] = useState(() => new Date());
 
   useEffect(() => {
     const load = async () => {
       try {
-        // 1) Fetch the session
-        const snap = await firestore().collection('sessions').doc(sessionId).get();
-        if (!snap.exists) {
-          throw new Error('Session not found');
+        // 1) The session, its carts and the quote, unless this step has to wait
+        if (!(await enterStep(sessionId))) {
+          return;
         }
+        const loaded = await loadCheckout();
+        const { session } = loaded;
+        setHoldExpiresAt(session.hold?.expiresAt ?? null);
+        const { quantities, dates: window } = session.partialBooking;
 
-        const data = snap.data() as any;
-        const partial = data.partialBooking;
-        if (!partial || !Array.isArray(partial.carts)) {
-          throw new Error('No carts in this session yet');
-        }
-
-        const cartIds: string[] = partial.carts;
-
-        // 2) Fetch each cart’s details
-        const fetched: Cart[] = await Promise.all(
-          cartIds.map(async (id: string) => {
-            const cd = await firestore().collection('carts').doc(id).get();
-            if (!cd.exists) throw new Error(`Cart ${id} not found`);
-            const d = cd.data()!;
-            // normalize price
-            const dailyPrice = parseFloat(String(d.daily_price ?? '0').replace(/[^0-9.-]+/g, '')) || 0;
-            // format time if available
-            let timeStr = '—';
-            try {
-              if (partial.dates && partial.dates.start && partial.dates.end) {
-                // Firestore Timestamp: use toDate if available
-                const s = partial.dates.start.toDate ? partial.dates.start.toDate() : new Date(partial.dates.start);
-                const e = partial.dates.end.toDate ? partial.dates.end.toDate() : new Date(partial.dates.end);
-                timeStr = `${s.toLocaleDateString()} · ${s.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })} → ${e.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
-              }
-            } catch (err) {
-              // ignore formatting errors — keep fallback
-            }
-
-            return {
-              id: cd.id,
-              brand: d.brand,
-              model: d.model,
-              image_url: d.image_url,
-              daily_price: dailyPrice,
-              qty: 1,
-              time: timeStr,
-            } as Cart;
-          })
+        // 2) How many units of each model could still be added
+        const availability = await checkAvailability(
+          loaded.carts.map(c => ({ cartId: c.id, qty: quantities[c.id] ?? 1 })),
+          window,
+          session.amendsBookingId ?? session.id
         );
-
-        setCarts(fetched);
+        setFreeUnits(Object.fromEntries(availability.map(a => [a.cartId, a.free.length])));
 
         // 3) load customer profile (from session.customerId or signed-in user)
-        const customerId = data.customerId ?? auth().currentUser?.uid;
+        const customerId = session.customerId || auth().currentUser?.uid;
         if (customerId) {
-          const custSnap = await firestore().collection('customers').doc(customerId).get();
-          if (custSnap.exists) {
-            const cd = custSnap.data() as any;
-            setProfile({
-              firstName: cd.firstName ?? cd.first_name ?? '',
-              lastName: cd.lastName ?? cd.last_name ?? '',
-              phone: cd.phone ?? cd.phoneNumber ?? cd.phone_number ?? '',
-              email: cd.email ?? '',
-              address: cd.address ?? '',
-              city: cd.city ?? '',
-              state: cd.state ?? '',
-              zipcode: cd.zipcode ?? cd.postalCode ?? '',
-              driverLicense: cd.driverLicense ?? cd.dln ?? '',
-              idDocument: cd.identityDocument ?? cd.idDocument ?? '',
-            });
-          }
+          setProfile(await getCustomer(customerId));
         }
       } catch (err: any) {
         console.error('❌ Review load error', err);
@@ -132,7 +82,162 @@ export default function ReviewScreen({ route, navigation }: Props) {
     };
 
     load();
-  }, [sessionId]);
+  }, [sessionId, enterStep, loadCheckout]);
+
+  // 🔹 Pick up profile edits when coming back from the Profile screen
+  useEffect(() => {
+    if (!checkout) {
+      return;
+    }
+    const customerId = checkout.session.customerId || auth().currentUser?.uid;
+    return navigation.addListener('focus', () => {
+      if (customerId) {
+        getCustomer(customerId)
+          .then(setProfile)
+          .catch(err => console.error('❌ Profile refresh error', err));
+      }
+    });
+  }, [navigation, checkout]);
+
+  // 🔹 Count down the hold; once it lapses, release it and go back to Details
+  useEffect(() => {
+    if (!holdExpiresAt) {
+      return;
+    }
+    const timer = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(timer);
+  }, [holdExpiresAt]);
+
+  const holdSeconds = holdExpiresAt ? secondsLeft(holdExpiresAt, now) : null;
+  useEffect(() => {
+    if (holdSeconds !== 0 || !navigation.isFocused()) {
+      return;
+    }
+    setHoldExpiresAt(null);
+    release().catch(err => console.error('❌ Hold release error', err));
+    Alert.alert('Your hold expired', HOLD_EXPIRED_MESSAGE);
+    navigation.navigate('DetailsScreen', { sessionId });
+  }, [holdSeconds, navigation, release, sessionId]);
+
+  // 🔹 Quantity stepper: allocate more or fewer units of a model
+  const changeQty = async (cartId: string, delta: number) => {
+    if (!checkout) {
+      return;
+    }
+    const partial = checkout.session.partialBooking;
+    const current = partial.quantities[cartId] ?? 1;
+    const next = current + delta;
+    const max = freeUnits[cartId] ?? current;
+    if (next < 1) {
+      return;
+    }
+    if (next > max) {
+      Alert.alert('No more carts', `Only ${max} available for these times.`);
+      return;
+    }
+
+    const quantities = { ...partial.quantities, [cartId]: next };
+    try {
+      // re-hold for the new quantities before showing them
+      if (!checkout.amends) {
+        const held = await hold(
+          checkout.carts.map(c => ({
+            cartId: c.id,
+            qty: quantities[c.id] ?? 1,
+            label: `${c.brand} ${c.model}`.trim(),
+          })),
+          partial.dates
+        );
+        setHoldExpiresAt(held.expiresAt);
+      }
+      await saveQuantities(quantities);
+    } catch (err: any) {
+      console.error('❌ Quantity save error', err);
+      Alert.alert('Error', err.message || 'Could not update quantity. Try again.');
+    }
+  };
+
+  // 🔹 Confirm: new bookings go on to Payment, modifications are charged and saved here
+  const onConfirm = async () => {
+    if (!checkout?.amends) {
+      navigation.navigate('PaymentScreen', { sessionId });
+      return;
+    }
+    const { session, carts: models, addons, location, quote: newQuote, amends } = checkout;
+    const rental = rentalDifference(amends, newQuote);
+    setSaving(true);
+    let provider: PaymentProvider | null = null;
+    let charge: PaymentIntent | null = null;
+    try {
+      // 1. Take what the change adds with the card the booking was paid with
+      const payment = await getBookingPayment(amends.id);
+      if (rental !== 0) {
+        provider = getPaymentProvider();
+        if (!payment?.paymentMethodId || !payment.stripeCustomerId || payment.provider !== provider.name) {
+          throw new Error('This booking was not paid in the app, so its price can’t change here. Please contact us.');
+        }
+        if (rental > 0) {
+          charge = await chargeBooking(provider, {
+            customerId: payment.stripeCustomerId,
+            tokenId: payment.paymentMethodId,
+            currency: newQuote.currency,
+            amount: rental,
+            reference: amends.id,
+          });
+        }
+      }
+
+      // 2. Save the change with the provider references; give the charge back if that fails
+      let difference: number;
+      try {
+        difference = await amendBooking({
+          bookingId: amends.id,
+          sessionId,
+          actor: auth().currentUser?.uid ?? session.customerId,
+          partialBooking: session.partialBooking,
+          carts: models.map(c => ({
+            id: c.id,
+            brand: c.brand,
+            model: c.model,
+            imageUrl: c.imageUrl,
+            dailyPrice: c.dailyPrice,
+            qty: newQuote.lines.find(l => l.kind === 'rental' && l.id === c.id)?.qty ?? 1,
+          })),
+          addons,
+          location,
+          quote: newQuote,
+          payment: { rental, rentalIntentId: charge?.id ?? null },
+        });
+      } catch (err) {
+        if (provider && charge) {
+          provider.refund(charge.id).catch(refundErr => console.error('❌ Refund amendment charge', refundErr));
+        }
+        throw err;
+      }
+      close();
+
+      // 3. Send any refund; a refund that fails stays pending
+      let refundNote = '';
+      if (provider && rental < 0) {
+        try {
+          const updated = await getBookingPayment(amends.id);
+          if (updated) {
+            await sendPendingRefund(provider, updated);
+          }
+        } catch (refundErr: any) {
+          console.error('❌ Amendment refund error', refundErr);
+          refundNote = '\n\nYour refund could not be sent yet. You can retry it from the booking.';
+        }
+      }
+      Alert.alert('Booking updated', `${describeDifference(difference, newQuote.currency)}${refundNote}`);
+      navigation.navigate('ConfirmationScreen', { bookingId: amends.id });
+    } catch (err: any) {
+      console.error('❌ Amend booking error', err);
+      Alert.alert('Could not update booking', err.message || 'Please try again');
+    } finally {
+      setSaving(false);
+    }
+  };
 
   if (loading) {
     return (
@@ -142,15 +247,34 @@ export default function ReviewScreen({ route, navigation }: Props) {
     );
   }
 
-  // compute fees
-  const base = carts.reduce((sum, c) => sum + c.daily_price * c.qty, 0);
-  const tax = +(base * 0.1).toFixed(2);
-  const deposit = 50;
-  const total = +(base + tax + deposit).toFixed(2);
+  const carts = checkout?.carts ?? [];
+  const quote = checkout?.quote;
+  const dates = checkout?.session.partialBooking.dates;
+
+  // format time if available
+  let timeStr = '—';
+  if (dates?.start && dates.end) {
+    const s = dates.start;
+    const e = dates.end;
+    const hm = { hour: '2-digit', minute: '2-digit' } as const;
+    const sameDay = s.toDateString() === e.toDateString();
+    timeStr = `${s.toLocaleDateString()} · ${s.toLocaleTimeString([], hm)} → ${
+      sameDay ? '' : `${e.toLocaleDateString()} · `
+    }${e.toLocaleTimeString([], hm)}`;
+  }
+  const durationStr = dates ? describeDuration(dates) : '';
 
   return (
     <View style={styles.container}>
       <ScrollView contentContainerStyle={styles.scroll}>
+        {/* Hold countdown */}
+        {holdSeconds !== null ? (
+          <View style={styles.holdRow}>
+            <MaterialCommunityIcons name="timer-sand" size={scale(16)} color={colors.primaryDark} />
+            <Text style={styles.holdText}>{`Carts held for ${formatCountdown(holdSeconds)}`}</Text>
+          </View>
+        ) : null}
+
         {/* Profile */}
         <Text style={styles.sectionTitle}>Profile</Text>
 
@@ -173,66 +297,107 @@ export default function ReviewScreen({ route, navigation }: Props) {
             <Text style={styles.profileText}>{`Identity Document: ${profile.idDocument}`}</Text>
           ) : null}
 
-          {/* <TouchableOpacity style={styles.editRow} onPress={() => {
-            // navigate to payment/profile screen for edits if you have one
-            navigation.navigate('PaymentScreen', { sessionId });
-          }}>
+          <TouchableOpacity style={styles.editRow} onPress={() => navigation.navigate('ProfileScreen')}>
             <MaterialCommunityIcons name="pencil" size={scale(16)} color={colors.primaryDark}/>
             <Text style={[styles.profileText, { color: colors.primaryDark, marginLeft: scale(4) }]}>Edit</Text>
-          </TouchableOpacity> */}
+          </TouchableOpacity>
         </View>
 
         {/* Review booking */}
         <Text style={styles.sectionTitle}>Review booking</Text>
-        {carts.map((c) => (
-          <View key={c.id} style={styles.card}>
-            <View style={styles.reviewRow}>
-              <Image source={{ uri: c.image_url }} style={styles.kartThumb} />
-              <View style={{ flex: 1, marginLeft: scale(12) }}>
-                <Text style={styles.reviewText}>{`${c.brand} ${c.model}`}</Text>
-                <Text style={styles.reviewText}>{`Qty: ${c.qty} × $${c.daily_price}`}</Text>
-                <Text style={styles.reviewText}>{`${c.time}`}</Text>
-              </View>
-              <View style={styles.qtyRow}>
-                <Text style={styles.reviewText}>−</Text>
-                <Text style={styles.reviewText}>{c.qty}</Text>
-                <Text style={styles.reviewText}>+</Text>
+        {carts.map((c) => {
+          const line = quote?.lines.find(l => l.kind === 'rental' && l.id === c.id);
+          const qty = line?.qty ?? 1;
+          return (
+            <View key={c.id} style={styles.card}>
+              <View style={styles.reviewRow}>
+                <Image source={{ uri: c.imageUrl }} style={styles.kartThumb} />
+                <View style={{ flex: 1, marginLeft: scale(12) }}>
+                  <Text style={styles.reviewText}>{`${c.brand} ${c.model}`}</Text>
+                  {line ? (
+                    <Text style={styles.reviewText}>{describeLine(line, quote?.currency)}</Text>
+                  ) : null}
+                  <Text style={styles.reviewText}>{`${timeStr}`}</Text>
+                  {durationStr ? (
+                    <Text style={styles.reviewText}>{`Duration: ${durationStr}`}</Text>
+                  ) : null}
+                </View>
+                <View style={styles.qtyRow}>
+                  <TouchableOpacity onPress={() => changeQty(c.id, -1)} disabled={qty <= 1}>
+                    <Text style={[styles.qtyBtn, qty <= 1 && styles.qtyBtnDisabled]}>−</Text>
+                  </TouchableOpacity>
+                  <Text style={styles.reviewText}>{qty}</Text>
+                  <TouchableOpacity onPress={() => changeQty(c.id, 1)}>
+                    <Text style={[styles.qtyBtn, qty >= (freeUnits[c.id] ?? qty) && styles.qtyBtnDisabled]}>+</Text>
+                  </TouchableOpacity>
+                </View>
               </View>
             </View>
-          </View>
-        ))}
+          );
+        })}
 
         {/* Taxes and Fees */}
         <Text style={styles.sectionTitle}>Taxes and Fees</Text>
-        <View style={styles.card}>
-          <View style={styles.feeRow}>
-            <Text style={styles.feeLabel}>{`Base rental (${carts.length} day${carts.length>1?'s':''})`}</Text>
-            <Text style={styles.feeValue}>{`$${base.toFixed(2)}`}</Text>
-          </View>
-          <View style={styles.feeRow}>
-            <Text style={styles.feeLabel}>Service tax (10%)</Text>
-            <Text style={styles.feeValue}>{`$${tax}`}</Text>
-          </View>
-          <View style={styles.feeRow}>
-            <Text style={styles.feeLabel}>Kart deposit</Text>
-            <View style={styles.infoRow}>
-              <Text style={styles.feeValue}>{`$${deposit}`}</Text>
-              <MaterialCommunityIcons name="information" size={scale(14)} color={colors.grayLight} />
+        {quote ? (
+          <View style={styles.card}>
+            {quote.lines.map(l => (
+              <View key={`${l.kind}-${l.id}`} style={styles.feeRow}>
+                <Text style={styles.feeLabel}>
+                  {l.kind === 'rental'
+                    ? `${l.label} (${describeRentalLength(l)})`
+                    : l.label}
+                </Text>
+                <Text style={styles.feeValue}>{formatMoney(l.amount, quote.currency)}</Text>
+              </View>
+            ))}
+            <View style={styles.feeRow}>
+              <Text style={styles.feeLabel}>{`Service tax (${Math.round(quote.taxRate * 100)}%)`}</Text>
+              <Text style={styles.feeValue}>{formatMoney(quote.tax, quote.currency)}</Text>
+            </View>
+            <View style={styles.feeRow}>
+              <Text style={styles.feeLabel}>Kart deposit</Text>
+              <View style={styles.infoRow}>
+                <Text style={styles.feeValue}>{formatMoney(quote.deposit, quote.currency)}</Text>
+                <MaterialCommunityIcons name="information" size={scale(14)} color={colors.grayLight} />
+              </View>
+            </View>
+            <View style={[styles.feeRow, { marginTop: scale(8) }]}>
+              <Text style={[styles.feeLabel, { fontWeight: '600' }]}>Total</Text>
+              <Text style={[styles.feeValue, { fontWeight: '600' }]}>{formatMoney(quote.total, quote.currency)}</Text>
             </View>
           </View>
-          <View style={[styles.feeRow, { marginTop: scale(8) }]}>
-            <Text style={[styles.feeLabel, { fontWeight: '600' }]}>Total</Text>
-            <Text style={[styles.feeValue, { fontWeight: '600' }]}>{`$${total}`}</Text>
-          </View>
-        </View>
+        ) : null}
+
+        {/* Price change when modifying a booking */}
+        {quote && checkout?.amends ? (
+          <>
+            <Text style={styles.sectionTitle}>Changes</Text>
+            <View style={styles.card}>
+              <View style={styles.feeRow}>
+                <Text style={styles.feeLabel}>Current booking</Text>
+                <Text style={styles.feeValue}>{formatMoney(bookingTotal(checkout.amends), quote.currency)}</Text>
+              </View>
+              <View style={styles.feeRow}>
+                <Text style={styles.feeLabel}>Updated booking</Text>
+                <Text style={styles.feeValue}>{formatMoney(quote.total, quote.currency)}</Text>
+              </View>
+              <View style={[styles.feeRow, { marginTop: scale(8) }]}>
+                <Text style={[styles.feeLabel, { fontWeight: '600' }]}>
+                  {describeDifference(priceDifference(checkout.amends, quote), quote.currency)}
+                </Text>
+              </View>
+            </View>
+          </>
+        ) : null}
       </ScrollView>
 
       {/* Confirm button */}
-      <TouchableOpacity
-        style={styles.confirmBtn}
-        onPress={() => navigation.navigate('PaymentScreen', { sessionId })}
-      >
-        <Text style={styles.confirmText}>Confirm</Text>
+      <TouchableOpacity style={styles.confirmBtn} onPress={onConfirm} disabled={saving}>
+        {saving ? (
+          <ActivityIndicator color={colors.white} />
+        ) : (
+          <Text style={styles.confirmText}>{checkout?.amends ? 'Confirm changes' : 'Confirm'}</Text>
+        )}
       </TouchableOpacity>
 
       {/* Pagination dots */}
@@ -273,6 +438,8 @@ const styles = StyleSheet.create({
     marginBottom: scale(12),
     width: '100%',
   },
+  holdRow: { flexDirection: 'row', alignItems: 'center', marginBottom: scale(8) },
+  holdText: { marginLeft: scale(6), fontSize: scale(14), fontWeight: '600', color: colors.primaryDark },
   profileText: { fontSize: scale(12), color: colors.textDark, marginBottom: scale(4) },
   editRow: { flexDirection: 'row', alignItems: 'center', marginTop: scale(4) },
   reviewRow: { flexDirection: 'row', alignItems: 'center' },
@@ -282,8 +449,10 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     alignItems: 'center',
     justifyContent: 'space-between',
-    width: scale(50),
+    width: scale(60),
   },
+  qtyBtn: { fontSize: scale(18), color: colors.primaryDark, paddingHorizontal: scale(4) },
+  qtyBtnDisabled: { color: colors.grayLight },
   feeRow: {
     flexDirection: 'row',
     justifyContent: 'space-between',
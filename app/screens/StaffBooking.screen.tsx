@@ -0,0 +1,645 @@
+// app/screens/StaffBooking.screen.tsx
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+  Image,
+} from 'react-native';
+import auth from '@react-native-firebase/auth';
+import { launchImageLibrary } from 'react-native-image-picker';
+import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
+import { colors } from '../theme/colors';
+import { scale } from '../theme/scale';
+import type { NativeStackScreenProps } from '@react-navigation/native-stack';
+import type { NavigatorParamList } from '../navigators/navigation-route';
+import {
+  checkInBooking,
+  checkOutBooking,
+  getBookingPayment,
+  getCustomer,
+  getLocation,
+  getStaffMember,
+  settleReturn,
+  subscribeBooking,
+  uploadInspectionPhotos,
+} from '../services/firestore';
+import type {
+  Booking,
+  Customer,
+  DocumentStatus,
+  InspectionArea,
+  Location,
+  StaffMember,
+  UnitReading,
+} from '../services/firestore';
+import { STATUS_LABELS } from '../services/booking-lifecycle';
+import {
+  counterUnits,
+  minutesLate,
+  parseReading,
+  validateCheckIn,
+  validateCheckOut,
+} from '../services/counter';
+import { DOCUMENT_STATUS_LABELS, MIN_RENTER_AGE, ageOn, parseDob } from '../services/profile';
+import { describeDuration } from '../services/duration';
+import { DEFAULT_PRICING, formatMoney } from '../services/pricing';
+import {
+  DEPOSIT_STATUS_LABELS,
+  INSPECTION_AREAS,
+  depositOf,
+  returnPolicyFor,
+  settleDeposit,
+} from '../services/settlement';
+import { getPaymentProvider, holdDeposit, settleDepositIntent } from '../services/payments';
+import type { PaymentIntent, PaymentProvider } from '../services/payments';
+
+type Props = NativeStackScreenProps<NavigatorParamList, 'StaffBookingScreen'>;
+
+type ReadingInput = { battery: string; hours: string };
+
+export default function StaffBookingScreen({ route, navigation }: Props) {
+  const { bookingId } = route.params;
+
+  const [booking, setBooking] = useState<Booking | null>(null);
+  const [customer, setCustomer] = useState<Customer | null>(null);
+  const [staff, setStaff] = useState<StaffMember | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [inputs, setInputs] = useState<Record<string, ReadingInput>>({});
+  const [idChecked, setIdChecked] = useState(false);
+  const [licenceChecked, setLicenceChecked] = useState(false);
+  const [note, setNote] = useState('');
+  const [location, setLocation] = useState<Location | null>(null);
+  const [damaged, setDamaged] = useState<Record<string, InspectionArea[]>>({});
+  const [inspectionNotes, setInspectionNotes] = useState('');
+  const [photoUris, setPhotoUris] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+  const uid = auth().currentUser?.uid;
+
+  // 🔹 Who is at the counter
+  useEffect(() => {
+    if (!uid) {
+      return;
+    }
+    let cancelled = false;
+    getStaffMember(uid)
+      .then(member => {
+        if (!cancelled) {
+          setStaff(member);
+        }
+      })
+      .catch(err => console.error('❌ staff load error', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [uid]);
+
+  // 🔹 Live booking, so a second device at the counter can't act on a stale status
+  useEffect(() => {
+    const unsub = subscribeBooking(
+      bookingId,
+      data => {
+        setBooking(data);
+        setLoading(false);
+      },
+      err => {
+        console.error('❌ booking subscription error', err);
+        Alert.alert('Error', 'Could not load booking.');
+        setLoading(false);
+      }
+    );
+    return () => unsub();
+  }, [bookingId]);
+
+  // 🔹 The renter whose documents staff check
+  const customerId = booking?.customerId;
+  useEffect(() => {
+    if (!customerId) {
+      return;
+    }
+    let cancelled = false;
+    getCustomer(customerId)
+      .then(found => {
+        if (!cancelled) {
+          setCustomer(found);
+        }
+      })
+      .catch(err => console.error('❌ customer load error', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [customerId]);
+
+  // 🔹 Return policy of the booking's location
+  const locationId = booking?.locationId;
+  useEffect(() => {
+    getLocation(locationId ?? undefined)
+      .then(setLocation)
+      .catch(err => console.error('❌ location load error', err));
+  }, [locationId]);
+
+  if (loading) {
+    return (
+      <View style={styles.loader}>
+        <ActivityIndicator size="large" color={colors.primaryDark} />
+      </View>
+    );
+  }
+
+  if (!booking || !staff) {
+    return (
+      <View style={styles.loader}>
+        <Text style={styles.muted}>{!booking ? 'Booking not found.' : 'Counter mode is only available to staff.'}</Text>
+        <TouchableOpacity style={{ marginTop: scale(16) }} onPress={() => navigation.goBack()}>
+          <Text style={styles.link}>Back</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  const units = counterUnits(booking);
+  const handingOver = booking.status === 'confirmed';
+  const takingBack = booking.status === 'checked_out';
+  const inspecting = booking.status === 'returned' && !booking.settlement;
+  const { start, end } = booking.partialBooking.dates;
+  const late = takingBack ? minutesLate(booking, new Date()) : 0;
+
+  const currency = booking.partialBooking.quote?.currency;
+  const policy = returnPolicyFor(location);
+  const cartInspections = units.map(unit => ({ unitId: unit.unitId, damaged: damaged[unit.unitId] ?? [] }));
+  const preview = inspecting
+    ? settleDeposit(booking, cartInspections, policy, booking.checkIn?.at ?? new Date())
+    : null;
+  const settlement = preview ?? booking.settlement;
+
+  const dob = customer ? parseDob(customer.dob) : null;
+  const age = dob ? ageOn(dob, start ?? new Date()) : null;
+
+  const onReading = (unitId: string, field: keyof ReadingInput, value: string) =>
+    setInputs(all => ({
+      ...all,
+      [unitId]: { ...(all[unitId] ?? { battery: '', hours: '' }), [field]: value },
+    }));
+
+  const readings = (): UnitReading[] =>
+    units.flatMap(unit => {
+      const battery = parseReading(inputs[unit.unitId]?.battery ?? '');
+      const hours = parseReading(inputs[unit.unitId]?.hours ?? '');
+      return battery === null || hours === null ? [] : [{ unitId: unit.unitId, battery, hours }];
+    });
+
+  // 🔹 Hand over: documents checked, readings taken, then confirmed -> checked_out
+  const onHandOver = async () => {
+    if (!idChecked || !licenceChecked) {
+      return Alert.alert('Check documents', 'Confirm the ID and driver’s licence before handing over.');
+    }
+    const taken = readings();
+    const invalid = validateCheckOut(units, taken);
+    if (invalid) {
+      return Alert.alert('Check readings', invalid);
+    }
+    setSaving(true);
+    try {
+      // Hold the deposit on the booking's card now rather than at payment, as an
+      // authorization lapses within about a week. Bookings not paid through this
+      // provider go out without a hold and any charges at return stay outstanding
+      const payment = await getBookingPayment(booking.id);
+      const deposit = depositOf(booking);
+      let hold: PaymentIntent | null = null;
+      let provider: PaymentProvider | null = null;
+      if (deposit > 0 && payment?.paymentMethodId && payment.stripeCustomerId) {
+        provider = getPaymentProvider();
+        if (payment.provider === provider.name) {
+          hold = await holdDeposit(provider, {
+            customerId: payment.stripeCustomerId,
+            tokenId: payment.paymentMethodId,
+            currency: currency ?? DEFAULT_PRICING.currency,
+            amount: deposit,
+            reference: booking.id,
+          });
+        }
+      }
+      try {
+        await checkOutBooking(booking.id, staff.id, taken, hold);
+      } catch (err) {
+        if (provider && hold) {
+          provider.void(hold.id).catch(voidErr => console.error('❌ Void deposit after failed hand-over', voidErr));
+        }
+        throw err;
+      }
+      // A hold taken when the booking was paid is replaced by the new one
+      const previous = payment?.deposit;
+      if (provider && hold && previous?.intentId && previous.status === 'held') {
+        provider.void(previous.intentId).catch(voidErr => console.error('❌ Void previous deposit', voidErr));
+      }
+      setInputs({});
+      Alert.alert('Handed over', 'The booking is now picked up.');
+    } catch (err: any) {
+      console.error('❌ check-out error', err);
+      Alert.alert('Hand-over failed', err.message || 'Please try again');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // 🔹 Take back: return readings, then checked_out -> returned
+  const onCheckIn = async () => {
+    const taken = readings();
+    const invalid = validateCheckIn(units, taken, booking.checkOut);
+    if (invalid) {
+      return Alert.alert('Check readings', invalid);
+    }
+    setSaving(true);
+    try {
+      await checkInBooking(booking.id, staff.id, taken, note.trim() || null);
+      setInputs({});
+      setNote('');
+      Alert.alert('Checked in', 'The carts are back.');
+    } catch (err: any) {
+      console.error('❌ check-in error', err);
+      Alert.alert('Check-in failed', err.message || 'Please try again');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleDamage = (unitId: string, area: InspectionArea) =>
+    setDamaged(all => {
+      const current = all[unitId] ?? [];
+      return {
+        ...all,
+        [unitId]: current.includes(area) ? current.filter(a => a !== area) : [...current, area],
+      };
+    });
+
+  // 🔹 Photos of any damage, picked from the device library
+  const onAddPhotos = async () => {
+    const result = await launchImageLibrary({ mediaType: 'photo', selectionLimit: 0, quality: 0.7 });
+    if (result.errorCode) {
+      return Alert.alert('Photos unavailable', result.errorMessage || 'Could not open the photo library.');
+    }
+    const picked = (result.assets ?? []).map(a => a.uri).filter((uri): uri is string => !!uri);
+    setPhotoUris(uris => [...uris, ...picked]);
+  };
+
+  // 🔹 Settle: upload photos, record the inspection, capture charges and release the rest
+  const onSettle = () => {
+    if (!preview) {
+      return;
+    }
+    const charges = preview.captured + preview.outstanding;
+    Alert.alert(
+      'Settle deposit?',
+      charges > 0
+        ? `Keep ${formatMoney(preview.captured, currency)} and release ${formatMoney(preview.released, currency)} of the deposit.`
+        : `Release the full ${formatMoney(preview.deposit, currency)} deposit.`,
+      [
+        { text: 'Back', style: 'cancel' },
+        {
+          text: 'Settle',
+          onPress: async () => {
+            setSaving(true);
+            try {
+              const photos = await uploadInspectionPhotos(booking.id, photoUris);
+              // Capture what is kept from the deposit authorization, or void it; a retry
+              // after settleReturn failed finds it already settled and moves on. Only a
+              // held deposit needs the provider, so bookings without one settle without it
+              const payment = await getBookingPayment(booking.id);
+              let depositIntent: PaymentIntent | null = null;
+              if (payment?.deposit?.intentId && payment.deposit.status === 'held') {
+                const provider = getPaymentProvider();
+                if (payment.provider === provider.name) {
+                  depositIntent = await settleDepositIntent(provider, payment.deposit.intentId, preview.captured);
+                }
+              }
+              // What the provider actually kept is recorded; the rest of the charges stay outstanding
+              const settled = await settleReturn(
+                booking.id,
+                staff.id,
+                { carts: cartInspections, notes: inspectionNotes.trim(), photos },
+                policy,
+                depositIntent,
+              );
+              setPhotoUris([]);
+              if (settled.outstanding > preview.outstanding) {
+                Alert.alert(
+                  'Deposit not taken',
+                  `The deposit hold was no longer available. ${formatMoney(settled.outstanding, currency)} is outstanding.`,
+                );
+              }
+            } catch (err: any) {
+              console.error('❌ settlement error', err);
+              Alert.alert('Settlement failed', err.message || 'Please try again');
+            } finally {
+              setSaving(false);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderCheck = (label: string, checked: boolean, toggle: () => void) => (
+    <TouchableOpacity style={styles.checkRow} onPress={toggle}>
+      <MaterialCommunityIcons
+        name={checked ? 'checkbox-marked' : 'checkbox-blank-outline'}
+        size={scale(22)}
+        color={checked ? colors.primaryDark : colors.grayLight}
+      />
+      <Text style={styles.checkLabel}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderDocument = (label: string, status: DocumentStatus) => (
+    <View style={styles.detailRow}>
+      <Text style={styles.detailLabel}>{label}</Text>
+      <Text style={[styles.detailValue, status === 'rejected' ? styles.warning : null]}>
+        {DOCUMENT_STATUS_LABELS[status]}
+      </Text>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()}>
+          <MaterialCommunityIcons name="chevron-left" size={scale(24)} color={colors.textDark} />
+        </TouchableOpacity>
+        <Text style={styles.title}>Counter</Text>
+        <View style={{ width: scale(24) }} />
+      </View>
+
+      <ScrollView contentContainerStyle={styles.scroll}>
+        {/* Booking */}
+        <View style={styles.card}>
+          <Text style={styles.cardTitle}>Booking {booking.id}</Text>
+          <Text style={styles.status}>{STATUS_LABELS[booking.status]}</Text>
+          <Text style={styles.muted}>
+            {start?.toLocaleString()} – {end?.toLocaleString()} ({describeDuration(booking.partialBooking.dates)})
+          </Text>
+          {late > 0 ? <Text style={styles.warning}>Returned {late} min late</Text> : null}
+        </View>
+
+        {/* Customer */}
+        <Text style={styles.sectionTitle}>Customer</Text>
+        <View style={styles.card}>
+          {customer ? (
+            <>
+              <Text style={styles.cardTitle}>
+                {`${customer.firstName} ${customer.lastName}`.trim() || customer.email}
+              </Text>
+              <View style={styles.detailRow}>
+                <Text style={styles.detailLabel}>Date of birth</Text>
+                <Text style={[styles.detailValue, age !== null && age < MIN_RENTER_AGE ? styles.warning : null]}>
+                  {dob ? `${dob.toLocaleDateString()} (${age})` : 'Not given'}
+                </Text>
+              </View>
+              <View style={styles.detailRow}>
+                <Text style={styles.detailLabel}>Licence number</Text>
+                <Text style={styles.detailValue}>{customer.driverLicense || 'Not given'}</Text>
+              </View>
+              {renderDocument('Identity document', customer.documents.identity)}
+              {renderDocument('Driver’s licence', customer.documents.driverLicense)}
+            </>
+          ) : (
+            <Text style={styles.muted}>No profile on file.</Text>
+          )}
+          {handingOver ? (
+            <View style={styles.checks}>
+              {renderCheck('Photo ID matches the customer', idChecked, () => setIdChecked(c => !c))}
+              {renderCheck('Driver’s licence is valid', licenceChecked, () => setLicenceChecked(c => !c))}
+            </View>
+          ) : null}
+        </View>
+
+        {/* Units */}
+        <Text style={styles.sectionTitle}>{takingBack ? 'Return readings' : 'Carts'}</Text>
+        {units.map(unit => {
+          const out = booking.checkOut?.readings.find(r => r.unitId === unit.unitId);
+          const back = booking.checkIn?.readings.find(r => r.unitId === unit.unitId);
+          return (
+            <View key={unit.unitId} style={styles.card}>
+              <Text style={styles.cardTitle}>{unit.label}</Text>
+              {out ? (
+                <Text style={styles.muted}>
+                  Out: {out.battery}% · {out.hours} h
+                  {back ? `   Back: ${back.battery}% · ${back.hours} h` : ''}
+                </Text>
+              ) : null}
+              {handingOver || takingBack ? (
+                <View style={styles.readingRow}>
+                  <TextInput
+                    style={[styles.input, { marginRight: scale(8) }]}
+                    placeholder="Battery %"
+                    placeholderTextColor={colors.grayLight}
+                    keyboardType="numeric"
+                    value={inputs[unit.unitId]?.battery ?? ''}
+                    onChangeText={v => onReading(unit.unitId, 'battery', v)}
+                  />
+                  <TextInput
+                    style={[styles.input, { marginLeft: scale(8) }]}
+                    placeholder="Hour meter"
+                    placeholderTextColor={colors.grayLight}
+                    keyboardType="numeric"
+                    value={inputs[unit.unitId]?.hours ?? ''}
+                    onChangeText={v => onReading(unit.unitId, 'hours', v)}
+                  />
+                </View>
+              ) : null}
+            </View>
+          );
+        })}
+
+        {takingBack ? (
+          <TextInput
+            style={[styles.input, styles.noteInput]}
+            placeholder="Condition notes (optional)"
+            placeholderTextColor={colors.grayLight}
+            value={note}
+            onChangeText={setNote}
+            multiline
+          />
+        ) : null}
+        {booking.checkIn?.note ? <Text style={styles.muted}>Note: {booking.checkIn.note}</Text> : null}
+
+        {/* Return inspection */}
+        {inspecting ? (
+          <>
+            <Text style={styles.sectionTitle}>Inspection</Text>
+            {units.map(unit => (
+              <View key={unit.unitId} style={styles.card}>
+                <Text style={styles.cardTitle}>{unit.label}</Text>
+                <Text style={styles.muted}>Tick any area with new damage.</Text>
+                {INSPECTION_AREAS.map(area =>
+                  renderCheck(
+                    `${area.label} (${formatMoney(policy.damageCharges[area.key], currency)})`,
+                    (damaged[unit.unitId] ?? []).includes(area.key),
+                    () => toggleDamage(unit.unitId, area.key),
+                  )
+                )}
+              </View>
+            ))}
+            <TextInput
+              style={[styles.input, styles.noteInput]}
+              placeholder="Inspection notes"
+              placeholderTextColor={colors.grayLight}
+              value={inspectionNotes}
+              onChangeText={setInspectionNotes}
+              multiline
+            />
+            <View style={styles.photoRow}>
+              {photoUris.map(uri => (
+                <Image key={uri} source={{ uri }} style={styles.photo} />
+              ))}
+              <TouchableOpacity style={[styles.photo, styles.addPhoto]} onPress={onAddPhotos}>
+                <MaterialCommunityIcons name="image-plus" size={scale(24)} color={colors.primaryDark} />
+              </TouchableOpacity>
+            </View>
+          </>
+        ) : null}
+
+        {/* Deposit */}
+        {settlement ? (
+          <>
+            <Text style={styles.sectionTitle}>Deposit</Text>
+            <View style={styles.card}>
+              {([
+                ['Deposit', settlement.deposit],
+                ['Late return', settlement.lateFee],
+                ['Damage', settlement.damageFee],
+                ['Kept', settlement.captured],
+                ['Released', settlement.released],
+              ] as [string, number][]).map(([label, amount]) => (
+                <View key={label} style={styles.detailRow}>
+                  <Text style={styles.detailLabel}>{label}</Text>
+                  <Text style={styles.detailValue}>{formatMoney(amount, currency)}</Text>
+                </View>
+              ))}
+              {settlement.outstanding > 0 ? (
+                <Text style={styles.warning}>
+                  {`Outstanding charges: ${formatMoney(settlement.outstanding, currency)}.`}
+                </Text>
+              ) : null}
+              {booking.settlement ? (
+                <Text style={styles.status}>{DEPOSIT_STATUS_LABELS[booking.settlement.status]}</Text>
+              ) : null}
+            </View>
+          </>
+        ) : null}
+      </ScrollView>
+
+      {handingOver || takingBack || inspecting ? (
+        <TouchableOpacity
+          style={styles.primaryBtn}
+          onPress={handingOver ? onHandOver : takingBack ? onCheckIn : onSettle}
+          disabled={saving}
+        >
+          {saving ? (
+            <ActivityIndicator color={colors.white} />
+          ) : (
+            <Text style={styles.primaryText}>
+              {handingOver ? 'Hand over carts' : takingBack ? 'Check in carts' : 'Settle deposit'}
+            </Text>
+          )}
+        </TouchableOpacity>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: colors.backgroundLight },
+  loader: { flex: 1, alignItems: 'center', justifyContent: 'center' },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: scale(16),
+    justifyContent: 'space-between',
+  },
+  title: {
+    fontSize: scale(18),
+    fontWeight: '600',
+    color: colors.primaryDark,
+  },
+  scroll: { paddingHorizontal: scale(16), paddingBottom: scale(120) },
+  link: { color: colors.primaryDark },
+
+  sectionTitle: {
+    fontSize: scale(16),
+    fontWeight: '600',
+    color: colors.primaryDark,
+    marginTop: scale(16),
+    marginBottom: scale(12),
+  },
+  card: {
+    backgroundColor: colors.white,
+    borderRadius: scale(8),
+    padding: scale(12),
+    marginBottom: scale(12),
+  },
+  cardTitle: { fontSize: scale(15), fontWeight: '600', color: colors.textDark },
+  status: { fontSize: scale(13), color: colors.primaryDark, marginVertical: scale(4) },
+  muted: { fontSize: scale(13), color: colors.icon, marginTop: scale(4) },
+  warning: { fontSize: scale(13), color: colors.red, marginTop: scale(4) },
+
+  detailRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: scale(4),
+  },
+  detailLabel: { fontSize: scale(13), color: colors.icon },
+  detailValue: { fontSize: scale(13), color: colors.textDark },
+
+  checks: { marginTop: scale(8) },
+  checkRow: { flexDirection: 'row', alignItems: 'center', paddingVertical: scale(6) },
+  checkLabel: { marginLeft: scale(10), fontSize: scale(14), color: colors.textDark },
+
+  readingRow: { flexDirection: 'row', marginTop: scale(10) },
+  input: {
+    flex: 1,
+    backgroundColor: colors.backgroundLight,
+    borderRadius: scale(6),
+    paddingHorizontal: scale(12),
+    paddingVertical: scale(12),
+    fontSize: scale(14),
+    color: colors.textDark,
+  },
+  noteInput: {
+    backgroundColor: colors.white,
+    minHeight: scale(80),
+    textAlignVertical: 'top',
+    marginBottom: scale(12),
+  },
+
+  photoRow: { flexDirection: 'row', flexWrap: 'wrap', marginBottom: scale(12) },
+  photo: {
+    width: scale(72),
+    height: scale(72),
+    borderRadius: scale(6),
+    marginRight: scale(8),
+    marginBottom: scale(8),
+  },
+  addPhoto: {
+    backgroundColor: colors.white,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+
+  primaryBtn: {
+    position: 'absolute',
+    bottom: scale(32),
+    left: scale(16),
+    right: scale(16),
+    backgroundColor: colors.primaryDark,
+    paddingVertical: scale(16),
+    borderRadius: scale(8),
+    alignItems: 'center',
+  },
+  primaryText: { color: colors.white, fontSize: scale(16), fontWeight: '600' },
+});
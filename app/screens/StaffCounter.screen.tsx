@@ -0,0 +1,192 @@
+// app/screens/StaffCounter.screen.tsx
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import auth from '@react-native-firebase/auth';
+import MaterialCommunityIcons from 'react-native-vector-icons/MaterialCommunityIcons';
+import { colors } from '../theme/colors';
+import { scale } from '../theme/scale';
+import type { NativeStackScreenProps } from '@react-navigation/native-stack';
+import type { NavigatorParamList } from '../navigators/navigation-route';
+import { findBookingForCode, getStaffMember } from '../services/firestore';
+import type { StaffMember } from '../services/firestore';
+
+type Props = NativeStackScreenProps<NavigatorParamList, 'StaffCounterScreen'>;
+
+export default function StaffCounterScreen({ navigation }: Props) {
+  const [staff, setStaff] = useState<StaffMember | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [code, setCode] = useState('');
+  const [looking, setLooking] = useState(false);
+  const uid = auth().currentUser?.uid;
+
+  // 🔹 Counter mode is only for active staff/{uid} records
+  useEffect(() => {
+    if (!uid) {
+      setLoading(false);
+      return;
+    }
+    let cancelled = false;
+
+    getStaffMember(uid)
+      .then(member => {
+        if (!cancelled) {
+          setStaff(member);
+        }
+      })
+      .catch(err => console.error('❌ staff load error', err))
+      .finally(() => {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [uid]);
+
+  // 🔹 A hardware scanner types the pass and submits; staff can also type the fallback code
+  const onLookUp = async () => {
+    if (!code.trim()) {
+      return;
+    }
+    setLooking(true);
+    try {
+      const booking = await findBookingForCode(code);
+      setCode('');
+      navigation.navigate('StaffBookingScreen', { bookingId: booking.id });
+    } catch (err: any) {
+      console.error('❌ booking code lookup error', err);
+      Alert.alert('Code not accepted', err.message || 'Please try again');
+    } finally {
+      setLooking(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loader}>
+        <ActivityIndicator size="large" color={colors.primaryDark} />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()}>
+          <MaterialCommunityIcons name="chevron-left" size={scale(24)} color={colors.textDark} />
+        </TouchableOpacity>
+        <Text style={styles.title}>Staff Counter</Text>
+        <View style={{ width: scale(24) }} />
+      </View>
+
+      {!staff ? (
+        <View style={styles.empty}>
+          <MaterialCommunityIcons name="lock-outline" size={scale(48)} color={colors.grayLight} />
+          <Text style={styles.emptyText}>Counter mode is only available to staff.</Text>
+        </View>
+      ) : (
+        <View style={styles.body}>
+          <Text style={styles.greeting}>Signed in as {staff.name || 'staff'}</Text>
+          <View style={styles.scanBox}>
+            <MaterialCommunityIcons name="qrcode-scan" size={scale(56)} color={colors.primaryDark} />
+            <Text style={styles.scanHint}>
+              Scan the customer’s pass, or type the code shown under it.
+            </Text>
+          </View>
+
+          <TextInput
+            style={styles.input}
+            placeholder="Booking pass or code, e.g. 7KQ2-M9XD"
+            placeholderTextColor={colors.grayLight}
+            value={code}
+            onChangeText={setCode}
+            onSubmitEditing={onLookUp}
+            autoCapitalize="characters"
+            autoCorrect={false}
+            autoFocus
+            returnKeyType="search"
+          />
+
+          <TouchableOpacity
+            style={[styles.primaryBtn, !code.trim() ? styles.disabledBtn : null]}
+            onPress={onLookUp}
+            disabled={looking || !code.trim()}
+          >
+            {looking ? (
+              <ActivityIndicator color={colors.white} />
+            ) : (
+              <Text style={styles.primaryText}>Find booking</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, backgroundColor: colors.backgroundLight },
+  loader: { flex: 1, alignItems: 'center', justifyContent: 'center' },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: scale(16),
+    justifyContent: 'space-between',
+  },
+  title: {
+    fontSize: scale(18),
+    fontWeight: '600',
+    color: colors.primaryDark,
+  },
+  empty: { flex: 1, alignItems: 'center', justifyContent: 'center', padding: scale(32) },
+  emptyText: {
+    fontSize: scale(14),
+    color: colors.icon,
+    textAlign: 'center',
+    marginTop: scale(12),
+  },
+
+  body: { paddingHorizontal: scale(16) },
+  greeting: { fontSize: scale(13), color: colors.icon, marginBottom: scale(16) },
+  scanBox: {
+    backgroundColor: colors.white,
+    borderRadius: scale(8),
+    padding: scale(24),
+    alignItems: 'center',
+    marginBottom: scale(16),
+  },
+  scanHint: {
+    fontSize: scale(13),
+    color: colors.textDark,
+    textAlign: 'center',
+    marginTop: scale(12),
+  },
+  input: {
+    backgroundColor: colors.white,
+    borderRadius: scale(6),
+    paddingHorizontal: scale(12),
+    paddingVertical: scale(14),
+    fontSize: scale(14),
+    color: colors.textDark,
+  },
+  primaryBtn: {
+    backgroundColor: colors.primaryDark,
+    paddingVertical: scale(16),
+    borderRadius: scale(8),
+    alignItems: 'center',
+    marginTop: scale(16),
+  },
+  disabledBtn: { opacity: 0.5 },
+  primaryText: { color: colors.white, fontSize: scale(16), fontWeight: '600' },
+});
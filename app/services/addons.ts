@@ -0,0 +1,60 @@
+// app/services/addons.ts
+//
+// Pure add-on catalog rules: which add-ons fit the selected carts, how a
+// session's selection maps onto the catalog, and how much stock is left for
+// a rental window. Stock is booked on `addonSchedules/{addonId}` the same
+// way units are booked on `schedules`.
+import { findConflicts } from './availability';
+import type { Addon, BookingDates, Reservation } from './firestore/models';
+
+/**
+ * Stock left for an add-on over a window; `left` is null when the add-on
+ * is not stock-limited.
+ */
+export type AddonAvailability = {
+  addon: Addon;
+  left: number | null;
+};
+
+/**
+ * Add-ons that fit at least one of the selected cart models.
+ */
+export function compatibleAddons(catalog: Addon[], cartIds: string[]): Addon[] {
+  return catalog.filter(
+    a => a.modelIds.length === 0 || a.modelIds.some(id => cartIds.includes(id)),
+  );
+}
+
+/**
+ * Maps a session's stored add-ons onto the catalog. Sessions started before
+ * the catalog stored labels rather than ids, so labels are matched too.
+ * Entries no longer in the catalog are dropped.
+ */
+export function resolveAddons(selection: string[], catalog: Addon[]): Addon[] {
+  const found = new Map<string, Addon>();
+  selection.forEach(key => {
+    const needle = key.trim().toLowerCase();
+    const addon =
+      catalog.find(a => a.id === key) ??
+      catalog.find(a => a.label.toLowerCase() === needle);
+    if (addon) {
+      found.set(addon.id, addon);
+    }
+  });
+  return Array.from(found.values());
+}
+
+export function stockLeft(
+  addon: Addon,
+  reservations: Reservation[],
+  dates: BookingDates,
+  ignoreBookingId?: string,
+): number | null {
+  if (addon.stock === null) {
+    return null;
+  }
+  const inUse = findConflicts(reservations, dates, ignoreBookingId).length;
+  return Math.max(0, addon.stock - inUse);
+}
+
+export const isSoldOut = (a: AddonAvailability) => a.left !== null && a.left < 1;
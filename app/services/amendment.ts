@@ -0,0 +1,53 @@
+// app/services/amendment.ts
+//
+// Pure helpers for "Modify booking": seeding a checkout session from an
+// existing booking and pricing the change against what was already paid.
+import type { Booking, PartialBooking } from './firestore/models';
+import { formatMoney, roundMoney } from './pricing';
+import type { Quote } from './pricing';
+
+/**
+ * The booking's current selection, as a session's partial booking.
+ */
+export function selectionFromBooking(booking: Booking): PartialBooking {
+  const { carts, addons, dates } = booking.partialBooking;
+  return {
+    carts: carts.map(c => c.id),
+    quantities: Object.fromEntries(carts.map(c => [c.id, c.qty])),
+    addons,
+    dates,
+  };
+}
+
+/**
+ * What the customer paid for the booking as it stands.
+ */
+export const bookingTotal = (booking: Booking) =>
+  booking.partialBooking.quote?.total ?? booking.partialBooking.totals?.total ?? 0;
+
+/**
+ * Positive when the amendment costs more, negative when it is refunded.
+ */
+export const priceDifference = (booking: Booking, quote: Quote) =>
+  roundMoney(quote.total - bookingTotal(booking));
+
+/**
+ * What an amendment does to the rental (carts, add-ons and tax): charged
+ * when positive and refunded when negative. The deposit is left out, as it
+ * is only held once the carts are handed over.
+ */
+export function rentalDifference(booking: Booking, quote: Quote) {
+  const { quote: booked, totals } = booking.partialBooking;
+  const paid = booked ? booked.subtotal + booked.tax : (totals?.base ?? 0) + (totals?.tax ?? 0);
+  return roundMoney(quote.subtotal + quote.tax - paid);
+}
+
+export function describeDifference(difference: number, currency?: string) {
+  if (difference > 0) {
+    return `Additional charge ${formatMoney(difference, currency)}`;
+  }
+  if (difference < 0) {
+    return `Refund ${formatMoney(-difference, currency)}`;
+  }
+  return 'No change in price';
+}
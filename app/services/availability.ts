@@ -0,0 +1,101 @@
+// app/services/availability.ts
+//
+// Pure availability rules. Reservations live on `schedules/{unitId}`
+// documents so the final check-and-write can run inside a transaction.
+import type { BookingDates, CartUnit, Reservation } from './firestore/models';
+import { isLapsed } from './holds';
+
+export type Interval = { start: Date; end: Date };
+
+/**
+ * How many units of a cart model are free for a window, against how many
+ * the customer asked for.
+ */
+export type ModelAvailability = {
+  cartId: string;
+  requested: number;
+  free: CartUnit[];
+};
+
+/**
+ * Half-open overlap test: a rental ending at 10:00 does not clash with one
+ * starting at 10:00.
+ */
+export const overlaps = (a: Interval, b: Interval) =>
+  a.start.getTime() < b.end.getTime() && b.start.getTime() < a.end.getTime();
+
+export function toInterval(dates: BookingDates): Interval | null {
+  return dates.start && dates.end ? { start: dates.start, end: dates.end } : null;
+}
+
+/**
+ * Reservations that clash with the requested window, counting active
+ * checkout holds. `ignoreBookingId` lets a booking (or a session's hold) be
+ * re-checked against its own schedule entries.
+ */
+export function findConflicts(
+  reservations: Reservation[],
+  dates: BookingDates,
+  ignoreBookingId?: string,
+  now: Date = new Date(),
+): Reservation[] {
+  const wanted = toInterval(dates);
+  if (!wanted) {
+    return [];
+  }
+  return reservations.filter(
+    r => r.bookingId !== ignoreBookingId && !isLapsed(r, now) && overlaps(r, wanted),
+  );
+}
+
+/**
+ * Units with no clashing reservation, fullest battery first so the best
+ * charged carts are handed out first.
+ */
+export function freeUnits(
+  units: CartUnit[],
+  reservationsByUnit: Record<string, Reservation[]>,
+  dates: BookingDates,
+  ignoreBookingId?: string,
+): CartUnit[] {
+  return units
+    .filter(
+      u =>
+        findConflicts(reservationsByUnit[u.id] ?? [], dates, ignoreBookingId)
+          .length === 0,
+    )
+    .sort((a, b) => (b.battery ?? -1) - (a.battery ?? -1));
+}
+
+/**
+ * Picks `qty` free units, or null when there aren't enough.
+ */
+export function allocateUnits(
+  units: CartUnit[],
+  reservationsByUnit: Record<string, Reservation[]>,
+  dates: BookingDates,
+  qty: number,
+  ignoreBookingId?: string,
+): CartUnit[] | null {
+  const free = freeUnits(units, reservationsByUnit, dates, ignoreBookingId);
+  return free.length >= qty ? free.slice(0, qty) : null;
+}
+
+/**
+ * Units in service per cart model, for the Landing list. Models with no
+ * unit documents count as one legacy unit.
+ */
+export function unitsInService(modelId: string, units: CartUnit[]) {
+  const ofModel = units.filter(u => u.modelId === modelId);
+  return ofModel.length === 0
+    ? 1
+    : ofModel.filter(u => u.status === 'available').length;
+}
+
+export const isShort = (a: ModelAvailability) => a.free.length < a.requested;
+
+export function describeShortfall(a: ModelAvailability) {
+  return a.free.length === 0
+    ? 'Fully booked for these times'
+    : `Only ${a.free.length} available for these times`;
+}
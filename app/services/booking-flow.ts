@@ -0,0 +1,44 @@
+// app/services/booking-flow.ts
+//
+// Pure rules for the checkout steps: what each step needs from the session
+// before it can be shown, and where to send the customer when it's missing.
+// Landing picks the carts, Details the window (and add-ons), AddOns and
+// Review need that window, and Payment only takes new bookings; changes to
+// an existing booking are confirmed on Review.
+import { resumeScreen } from './session-resume';
+import type { Session } from './firestore/models';
+
+export type FlowStep = 'DetailsScreen' | 'AddOnsScreen' | 'ReviewScreen' | 'PaymentScreen';
+
+export type FlowRedirect = FlowStep | 'LandingScreen';
+
+/**
+ * Where to go instead of `step`, or null when the session is ready for it.
+ * Sessions that are gone, finished, have no carts or belong to someone other
+ * than the signed-in customer (`uid`) start over on Landing.
+ */
+export function flowRedirect(
+  step: FlowStep,
+  session: Session | null,
+  uid: string | null,
+): FlowRedirect | null {
+  if (
+    !session ||
+    !uid ||
+    session.customerId !== uid ||
+    session.status !== 'in_progress' ||
+    session.partialBooking.carts.length === 0
+  ) {
+    return 'LandingScreen';
+  }
+  if (step === 'DetailsScreen') {
+    return null;
+  }
+  if (resumeScreen(session) === 'DetailsScreen') {
+    return 'DetailsScreen';
+  }
+  if (step === 'PaymentScreen' && session.amendsBookingId) {
+    return 'ReviewScreen';
+  }
+  return null;
+}
@@ -0,0 +1,59 @@
+// app/services/booking-groups.ts
+//
+// Pure grouping for My Bookings. A booking is "active" while its carts are
+// out, "upcoming" until its drop-off time passes, and "past" after that or
+// once it is returned, closed or a no-show.
+import type { Booking } from './firestore/models';
+
+export type BookingGroup = 'upcoming' | 'active' | 'past' | 'cancelled';
+
+export const BOOKING_GROUPS: { key: BookingGroup; title: string }[] = [
+  { key: 'active', title: 'Active' },
+  { key: 'upcoming', title: 'Upcoming' },
+  { key: 'past', title: 'Past' },
+  { key: 'cancelled', title: 'Cancelled' },
+];
+
+export function bookingGroup(booking: Booking, now: Date = new Date()): BookingGroup {
+  switch (booking.status) {
+    case 'cancelled':
+      return 'cancelled';
+    case 'checked_out':
+      return 'active';
+    case 'returned':
+    case 'closed':
+    case 'no_show':
+      return 'past';
+    default: {
+      const end = booking.partialBooking.dates.end;
+      return end && end.getTime() < now.getTime() ? 'past' : 'upcoming';
+    }
+  }
+}
+
+const startTime = (b: Booking) =>
+  b.partialBooking.dates.start?.getTime() ?? b.createdAt?.getTime() ?? 0;
+
+/**
+ * Bookings by group. Upcoming and active ones are soonest first, past and
+ * cancelled ones most recent first.
+ */
+export function groupBookings(
+  bookings: Booking[],
+  now: Date = new Date(),
+): Record<BookingGroup, Booking[]> {
+  const groups: Record<BookingGroup, Booking[]> = {
+    upcoming: [],
+    active: [],
+    past: [],
+    cancelled: [],
+  };
+  bookings.forEach(b => groups[bookingGroup(b, now)].push(b));
+
+  const soonest = (a: Booking, b: Booking) => startTime(a) - startTime(b);
+  groups.upcoming.sort(soonest);
+  groups.active.sort(soonest);
+  groups.past.sort((a, b) => soonest(b, a));
+  groups.cancelled.sort((a, b) => soonest(b, a));
+  return groups;
+}
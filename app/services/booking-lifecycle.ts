@@ -0,0 +1,75 @@
+// app/services/booking-lifecycle.ts
+//
+// The booking state machine. Every status change goes through
+// `assertTransition` so the allowed moves are defined in one place; the
+// repository records each change on the booking's `statusHistory`.
+import type { BookingStatus } from './firestore/models';
+
+export const BOOKING_STATUSES: BookingStatus[] = [
+  'pending_payment',
+  'confirmed',
+  'checked_out',
+  'returned',
+  'closed',
+  'cancelled',
+  'no_show',
+];
+
+const TRANSITIONS: Record<BookingStatus, BookingStatus[]> = {
+  pending_payment: ['confirmed', 'cancelled'],
+  confirmed: ['checked_out', 'cancelled', 'no_show'],
+  checked_out: ['returned'],
+  returned: ['closed'],
+  closed: [],
+  cancelled: [],
+  no_show: [],
+};
+
+export const STATUS_LABELS: Record<BookingStatus, string> = {
+  pending_payment: 'Awaiting payment',
+  confirmed: 'Confirmed',
+  checked_out: 'Picked up',
+  returned: 'Returned',
+  closed: 'Closed',
+  cancelled: 'Cancelled',
+  no_show: 'No-show',
+};
+
+// The usual course of a booking, used to show what is still ahead of it.
+const HAPPY_PATH: BookingStatus[] = ['confirmed', 'checked_out', 'returned', 'closed'];
+
+/**
+ * Remaining steps on the usual course, none once a booking has left it
+ * (cancelled, no-show) or finished.
+ */
+export function upcomingStatuses(status: BookingStatus): BookingStatus[] {
+  if (status === 'pending_payment') {
+    return HAPPY_PATH;
+  }
+  const at = HAPPY_PATH.indexOf(status);
+  return at === -1 ? [] : HAPPY_PATH.slice(at + 1);
+}
+
+export const isBookingStatus = (value: any): value is BookingStatus =>
+  BOOKING_STATUSES.includes(value);
+
+export const nextStatuses = (from: BookingStatus) => TRANSITIONS[from];
+
+export const canTransition = (from: BookingStatus, to: BookingStatus) =>
+  TRANSITIONS[from].includes(to);
+
+/**
+ * Dates, carts and add-ons can only change before pick-up.
+ */
+export const canAmend = (status: BookingStatus) =>
+  status === 'pending_payment' || status === 'confirmed';
+
+export const isFinal = (status: BookingStatus) => TRANSITIONS[status].length === 0;
+
+export function assertTransition(from: BookingStatus, to: BookingStatus) {
+  if (!canTransition(from, to)) {
+    throw new Error(
+      `A booking that is ${STATUS_LABELS[from].toLowerCase()} can't be marked ${STATUS_LABELS[to].toLowerCase()}.`,
+    );
+  }
+}
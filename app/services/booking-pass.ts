@@ -0,0 +1,97 @@
+// app/services/booking-pass.ts
+//
+// The pick-up pass shown on Confirmation and checked by staff. A pass is
+// issued when the booking is confirmed: the QR code carries the booking id
+// and a random token, a random fallback code is shown under it for when
+// scanning fails, and both are stored on the booking (`pass`). Staff accept
+// a code only if it matches the one stored on the booking, so an edited or
+// made-up code is rejected without the app holding any signing key.
+import { canTransition } from './booking-lifecycle';
+import type { Booking, BookingStatus } from './firestore/models';
+
+export const PASS_PREFIX = 'GCB2';
+
+const SEPARATOR = '|';
+const TOKEN_LENGTH = 24;
+const TOKEN_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+const FALLBACK_LENGTH = 8;
+// No O, I or L: typed codes read those as 0 and 1 (see normalizeFallbackCode)
+const FALLBACK_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTUVWXYZ';
+
+export type IssuedPass = { code: string; fallbackCode: string };
+
+export type PassCheck =
+  | { valid: true; bookingId: string }
+  | { valid: false; reason: string };
+
+/**
+ * Shown until the carts are handed over and again to return them.
+ */
+export const showsPass = (status: BookingStatus) =>
+  canTransition(status, 'checked_out') || canTransition(status, 'returned');
+
+const randomChars = (alphabet: string, length: number, random: () => number) =>
+  Array.from({ length }, () => alphabet[Math.floor(random() * alphabet.length)]).join('');
+
+/**
+ * A new pass for a booking: the QR text and its fallback code.
+ */
+export const issuePass = (bookingId: string, random: () => number = Math.random): IssuedPass => ({
+  code: [PASS_PREFIX, bookingId, randomChars(TOKEN_ALPHABET, TOKEN_LENGTH, random)].join(SEPARATOR),
+  fallbackCode: randomChars(FALLBACK_ALPHABET, FALLBACK_LENGTH, random),
+});
+
+/**
+ * Whether scanned or typed text is a QR pass rather than a fallback code.
+ */
+export const isPassText = (text: string) => text.includes(SEPARATOR);
+
+/**
+ * Reads the booking id out of scanned text, saying why it was rejected.
+ * The token is only checked against the stored pass (see verifyPass).
+ */
+export function parsePass(text: string): PassCheck {
+  const parts = text.trim().split(SEPARATOR);
+  if (!parts[0].startsWith('GCB')) {
+    return { valid: false, reason: 'This is not a booking pass.' };
+  }
+  if (parts[0] !== PASS_PREFIX) {
+    return { valid: false, reason: 'This pass was issued with an older version of the app.' };
+  }
+  if (parts.length !== 3 || !parts[1] || !parts[2]) {
+    return { valid: false, reason: 'This is not a booking pass.' };
+  }
+  return { valid: true, bookingId: parts[1] };
+}
+
+/**
+ * Checks scanned text against the pass stored on the booking it names.
+ */
+export function verifyPass(text: string, booking: Booking): PassCheck {
+  const check = parsePass(text);
+  if (!check.valid) {
+    return check;
+  }
+  if (check.bookingId !== booking.id || booking.pass?.code !== text.trim()) {
+    return { valid: false, reason: 'This pass does not match the booking. Ask the customer to reopen their booking.' };
+  }
+  return check;
+}
+
+/**
+ * Typed input in the canonical form passes store: upper case, no
+ * separators, with the look-alike letters read as digits.
+ */
+export const normalizeFallbackCode = (input: string) =>
+  input
+    .toUpperCase()
+    .replace(/[^0-9A-Z]/g, '')
+    .replace(/O/g, '0')
+    .replace(/[IL]/g, '1');
+
+export const isFallbackCode = (code: string) => code.length === FALLBACK_LENGTH;
+
+/**
+ * A stored fallback code as shown under the QR code, e.g. "7KQ2-M9XD".
+ */
+export const formatFallbackCode = (code: string) => `${code.slice(0, 4)}-${code.slice(4)}`;
@@ -0,0 +1,59 @@
+// app/services/booking-share.ts
+//
+// What gets shared from Confirmation: a plain-text summary of the booking
+// with a link that opens it in the app. Only the booking's customer gets
+// past the link; anyone else is sent to the home screen. Deliberately
+// leaves out the pass and its fallback code, which hand the carts over at
+// the counter.
+import { bookingTotal } from './amendment';
+import { STATUS_LABELS } from './booking-lifecycle';
+import { bookingLink } from './deep-links';
+import { formatMoney } from './pricing';
+import type { Booking, Location } from './firestore/models';
+
+// The name the app goes by, as on the Welcome screen.
+const APP_NAME = 'Golf Kart Rental';
+
+export type BookingShare = {
+  title: string;
+  subject: string;
+  message: string;
+  url: string;
+};
+
+const fmtDateTime = (date: Date | null) =>
+  date
+    ? date.toLocaleString(undefined, {
+        weekday: 'short',
+        month: 'short',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: '2-digit',
+      })
+    : '';
+
+export function bookingShare(booking: Booking, location: Location | null): BookingShare {
+  const partial = booking.partialBooking;
+  const url = bookingLink(booking.id);
+  const carts = partial.carts
+    .map(c => `${c.qty} × ${`${c.brand} ${c.model}`.trim() || 'Cart'}`)
+    .join(', ');
+  const where = [location?.name, location?.address].filter(Boolean).join(', ');
+  const total = bookingTotal(booking);
+
+  const lines = [
+    `${APP_NAME} booking (${STATUS_LABELS[booking.status]})`,
+    partial.dates.start ? `Pick-up: ${fmtDateTime(partial.dates.start)}${where ? ` at ${where}` : ''}` : '',
+    partial.dates.end ? `Return: ${fmtDateTime(partial.dates.end)}` : '',
+    carts ? `Carts: ${carts}` : '',
+    total > 0 ? `Total: ${formatMoney(total, partial.quote?.currency)}` : '',
+    `View booking: ${url}`,
+  ];
+
+  return {
+    title: 'Share booking',
+    subject: `${APP_NAME} booking`,
+    message: lines.filter(Boolean).join('\n'),
+    url,
+  };
+}
@@ -0,0 +1,80 @@
+// app/services/cancellation.ts
+//
+// Pure cancellation policy. The rental part of a booking (rental, add-ons
+// and tax) is refunded by how long before pick-up the customer cancels;
+// the deposit is always returned in full. A booking still awaiting payment
+// has been charged nothing, so nothing is refunded.
+import type { Booking, CancellationPolicy, Location } from './firestore/models';
+import { roundMoney } from './pricing';
+
+/**
+ * Full refund up to 24 hours before pick-up, half after that.
+ */
+export const DEFAULT_CANCELLATION_POLICY: CancellationPolicy = {
+  tiers: [
+    { minHoursBefore: 24, refundRate: 1 },
+    { minHoursBefore: 0, refundRate: 0.5 },
+  ],
+};
+
+/**
+ * The policy a booking at `location` is cancelled under.
+ */
+export const cancellationPolicyFor = (location: Location | null): CancellationPolicy =>
+  location?.cancellationPolicy ?? DEFAULT_CANCELLATION_POLICY;
+
+export type RefundQuote = {
+  refundRate: number;
+  rentalRefund: number;
+  depositRefund: number;
+  refund: number;
+  fee: number;
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * The most generous tier the cancellation still qualifies for. Nothing is
+ * refunded once pick-up time has passed unless a tier allows it.
+ */
+export function refundRateFor(
+  policy: CancellationPolicy,
+  hoursBefore: number,
+): number {
+  const tier = [...policy.tiers]
+    .sort((a, b) => b.minHoursBefore - a.minHoursBefore)
+    .find(t => hoursBefore >= t.minHoursBefore);
+  return tier ? tier.refundRate : 0;
+}
+
+/**
+ * What cancelling `booking` at `now` would refund.
+ */
+export function refundFor(
+  booking: Booking,
+  policy: CancellationPolicy,
+  now: Date = new Date(),
+): RefundQuote {
+  if (booking.status === 'pending_payment') {
+    return { refundRate: 0, rentalRefund: 0, depositRefund: 0, refund: 0, fee: 0 };
+  }
+  const { quote, totals, dates } = booking.partialBooking;
+  const paid = quote
+    ? { rental: quote.subtotal + quote.tax, deposit: quote.deposit }
+    : { rental: (totals?.base ?? 0) + (totals?.tax ?? 0), deposit: totals?.deposit ?? 0 };
+
+  const hoursBefore = dates.start
+    ? (dates.start.getTime() - now.getTime()) / HOUR_MS
+    : Infinity;
+  const refundRate = refundRateFor(policy, hoursBefore);
+  const rentalRefund = roundMoney(paid.rental * refundRate);
+  const depositRefund = roundMoney(paid.deposit);
+
+  return {
+    refundRate,
+    rentalRefund,
+    depositRefund,
+    refund: roundMoney(rentalRefund + depositRefund),
+    fee: roundMoney(paid.rental - rentalRefund),
+  };
+}
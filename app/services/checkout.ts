@@ -0,0 +1,196 @@
+// app/services/checkout.ts
+//
+// Loads everything a checkout step needs for a session: the carts, the
+// chosen add-ons, the pick-up location, the priced quote and, when the
+// session modifies a booking, that booking. The booking flow loads it once
+// and Review and Payment share it, so the quote the customer reviews is the
+// one that gets written to the booking. Also hosts
+// the advisory availability checks used before the customer continues,
+// finds the customer's account with the payment provider and sends the
+// refunds a booking owes.
+import { resolveAddons, stockLeft } from './addons';
+import type { AddonAvailability } from './addons';
+import { freeUnits } from './availability';
+import type { ModelAvailability } from './availability';
+import {
+  getAddonReservations,
+  getAddons,
+  getBooking,
+  getCarts,
+  getCustomer,
+  getLocation,
+  getModelUnits,
+  getReservations,
+  completeRefund,
+  rentalIntentIds,
+  savePaymentCustomer,
+} from './firestore';
+import type {
+  Addon,
+  Booking,
+  BookingDates,
+  Cart,
+  Location,
+  PartialBooking,
+  PaymentRecord,
+  Reservation,
+  Session,
+} from './firestore';
+import { addonQuoteInput, buildQuote } from './pricing';
+import type { Quote } from './pricing';
+import { refundBookingCharge } from './payments/charge';
+import type { PaymentProvider } from './payments/provider';
+
+export type Checkout = {
+  session: Session;
+  carts: Cart[];
+  addons: Addon[];
+  location: Location;
+  quote: Quote;
+  amends: Booking | null;
+};
+
+/**
+ * Everything a step needs for the session the booking flow holds.
+ */
+export async function checkoutFor(session: Session): Promise<Checkout> {
+  const cartIds = session.partialBooking.carts;
+  if (cartIds.length === 0) {
+    throw new Error('No carts in this session yet');
+  }
+
+  const carts = await getCarts(cartIds);
+  const missing = cartIds.find(id => !carts.some(c => c.id === id));
+  if (missing) {
+    throw new Error(`Cart ${missing} not found`);
+  }
+
+  const [catalog, location, amends] = await Promise.all([
+    getAddons(),
+    getLocation(),
+    session.amendsBookingId ? getBooking(session.amendsBookingId) : null,
+  ]);
+  const addons = resolveAddons(session.partialBooking.addons, catalog);
+
+  return {
+    session,
+    carts,
+    addons,
+    location,
+    quote: priceSession(session.partialBooking, carts, addons),
+    amends,
+  };
+}
+
+/**
+ * Prices a session's selection. Exposed so Review can re-price locally
+ * while the customer changes quantities.
+ */
+export function priceSession(
+  partial: PartialBooking,
+  carts: Cart[],
+  addons: Addon[],
+): Quote {
+  return buildQuote({
+    carts: carts.map(cart => ({ cart, qty: partial.quantities[cart.id] ?? 1 })),
+    addons: addons.map(addonQuoteInput),
+    dates: partial.dates,
+  });
+}
+
+/**
+ * Advisory availability check for the Details and Review steps: how many
+ * units of each requested model are free for the window. When modifying a
+ * booking, its own reservations don't count against it.
+ */
+export async function checkAvailability(
+  requests: { cartId: string; qty: number }[],
+  dates: BookingDates,
+  ignoreBookingId?: string,
+): Promise<ModelAvailability[]> {
+  return Promise.all(
+    requests.map(async ({ cartId, qty }) => {
+      const units = await getModelUnits(cartId);
+      const reservations: Record<string, Reservation[]> = {};
+      await Promise.all(
+        units.map(async u => {
+          reservations[u.id] = await getReservations(u.id);
+        }),
+      );
+      return {
+        cartId,
+        requested: qty,
+        free: freeUnits(units, reservations, dates, ignoreBookingId),
+      };
+    }),
+  );
+}
+
+/**
+ * Advisory stock check for the chosen add-ons over the rental window.
+ */
+export async function checkAddonStock(
+  addons: Addon[],
+  dates: BookingDates,
+  ignoreBookingId?: string,
+): Promise<AddonAvailability[]> {
+  return Promise.all(
+    addons.map(async addon => ({
+      addon,
+      left:
+        addon.stock === null
+          ? null
+          : stockLeft(
+              addon,
+              await getAddonReservations(addon.id),
+              dates,
+              ignoreBookingId,
+            ),
+    })),
+  );
+}
+
+/**
+ * The customer's id with `provider`, creating the provider-side customer on
+ * their first payment.
+ */
+export async function paymentCustomerFor(
+  provider: PaymentProvider,
+  uid: string,
+  contact: { email: string; name: string },
+): Promise<string> {
+  const customer = await getCustomer(uid);
+  const known = customer?.paymentCustomers[provider.name];
+  if (known) {
+    return known;
+  }
+  const id = await provider.createCustomer({ uid, ...contact });
+  await savePaymentCustomer(uid, provider.name, id);
+  return id;
+}
+
+/**
+ * Sends the refund a payment owes after a cancellation or a cheaper booking
+ * change, through the provider that took it, then records it. Safe to call
+ * again when it fails part-way.
+ */
+export async function sendPendingRefund(provider: PaymentProvider, record: PaymentRecord) {
+  const pending = record.pendingRefund;
+  if (!pending) {
+    return;
+  }
+  if (record.provider !== provider.name) {
+    throw new Error('This payment was not taken in the app. Please contact us for your refund.');
+  }
+  await refundBookingCharge(
+    provider,
+    {
+      rentalIntentIds: rentalIntentIds(record),
+      depositIntentId:
+        pending.releaseDeposit && record.deposit?.status === 'held' ? record.deposit.intentId : null,
+    },
+    pending.rental,
+    pending.refundedBefore,
+  );
+  await completeRefund(record.id);
+}
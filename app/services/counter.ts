@@ -0,0 +1,97 @@
+// app/services/counter.ts
+//
+// Pure rules for staff counter mode: which units a booking hands over, and
+// whether the battery and hour-meter readings taken at check-out and
+// check-in make sense. The repository moves the booking to `checked_out` /
+// `returned` once these pass.
+import type { Booking, BookingCheckOut, UnitReading } from './firestore/models';
+
+export type CounterUnit = {
+  unitId: string;
+  label: string;
+};
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * The units to hand over; bookings made before the fleet had units hand
+ * over one per booked cart.
+ */
+export function counterUnits(booking: Booking): CounterUnit[] {
+  const modelName = (modelId: string) => {
+    const cart = booking.partialBooking.carts.find(c => c.id === modelId);
+    return cart ? `${cart.brand} ${cart.model}`.trim() : 'Cart';
+  };
+  if (booking.units.length) {
+    return booking.units.map(u => ({
+      unitId: u.unitId,
+      label: [modelName(u.modelId), u.plate || u.serial].filter(Boolean).join(' · '),
+    }));
+  }
+  return booking.partialBooking.carts.map(c => ({ unitId: c.id, label: modelName(c.id) }));
+}
+
+/**
+ * A typed reading as a number, or null when it isn't one.
+ */
+export function parseReading(text: string): number | null {
+  const trimmed = text.trim().replace(',', '.');
+  if (!trimmed) {
+    return null;
+  }
+  const value = Number(trimmed);
+  return isFinite(value) ? value : null;
+}
+
+/**
+ * Why check-out readings can't be saved, or null when they are complete.
+ */
+export function validateCheckOut(units: CounterUnit[], readings: UnitReading[]): string | null {
+  for (const unit of units) {
+    const reading = readings.find(r => r.unitId === unit.unitId);
+    if (!reading) {
+      return `Enter the readings for ${unit.label}.`;
+    }
+    if (reading.battery < 0 || reading.battery > 100) {
+      return `Battery for ${unit.label} must be between 0 and 100%.`;
+    }
+    if (reading.hours < 0) {
+      return `Hour meter for ${unit.label} can't be negative.`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Check-in readings must also not run the hour meter backwards from
+ * check-out.
+ */
+export function validateCheckIn(
+  units: CounterUnit[],
+  readings: UnitReading[],
+  checkOut: BookingCheckOut | null,
+): string | null {
+  const invalid = validateCheckOut(units, readings);
+  if (invalid) {
+    return invalid;
+  }
+  for (const unit of units) {
+    const out = checkOut?.readings.find(r => r.unitId === unit.unitId);
+    const back = readings.find(r => r.unitId === unit.unitId)!;
+    if (out && back.hours < out.hours) {
+      return `Hour meter for ${unit.label} is below its check-out reading (${out.hours}).`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Minutes past the booked drop-off, zero when on time.
+ */
+export function minutesLate(booking: Booking, returnedAt: Date): number {
+  const end = booking.partialBooking.dates.end;
+  if (!end) {
+    return 0;
+  }
+  return Math.max(0, Math.floor((returnedAt.getTime() - end.getTime()) / MINUTE_MS));
+}
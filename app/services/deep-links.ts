@@ -0,0 +1,110 @@
+// app/services/deep-links.ts
+//
+// Links that open the app at a specific place, from notifications and
+// emails. The same paths work on the `carapp://` scheme and, once the
+// business's website is set as `links.host` in app.json, on that host as
+// universal links:
+//
+//   /booking/:id         a booking (Confirmation)
+//   /cart/:id            a cart model, preselected on Landing
+//   /checkout/:sessionId an unfinished checkout (Details)
+//
+// Pure: the navigator's linking config turns these into navigation state and
+// holds them back until the customer is signed in (see deep-linking.ts).
+import appConfig from '../../app.json';
+import type { NavigatorParamList } from '../navigators/navigation-route';
+
+export const APP_LINK_SCHEME = 'carapp://';
+
+/**
+ * Universal-link host, such as `https://example.com`; also the public
+ * website. Empty until the business has one, and then only the scheme works.
+ */
+export const APP_LINK_HOST: string = appConfig.links.host;
+
+const prefixesFor = (host: string) => (host ? [APP_LINK_SCHEME, host] : [APP_LINK_SCHEME]);
+
+export const DEEP_LINK_PREFIXES = prefixesFor(APP_LINK_HOST);
+
+/**
+ * A link to a booking: on the universal-link host when there is one,
+ * otherwise on the scheme.
+ */
+export const bookingLink = (bookingId: string, host: string = APP_LINK_HOST) =>
+  `${host ? `${host}/` : APP_LINK_SCHEME}booking/${encodeURIComponent(bookingId)}`;
+
+export type DeepLinkTarget =
+  | { kind: 'booking'; bookingId: string }
+  | { kind: 'cart'; cartId: string }
+  | { kind: 'checkout'; sessionId: string };
+
+export type DeepLinkRoute = {
+  name: keyof NavigatorParamList;
+  params?: Record<string, string>;
+};
+
+const decode = (segment: string) => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return '';
+  }
+};
+
+/**
+ * The target of an in-app path such as `booking/AbC123` (leading slash,
+ * trailing slash, query and hash ignored); null for anything else.
+ */
+export function parseDeepLinkPath(path: string): DeepLinkTarget | null {
+  const segments = path.split(/[?#]/)[0].split('/').filter(Boolean);
+  if (segments.length !== 2) {
+    return null;
+  }
+  const [kind, raw] = segments;
+  const id = decode(raw);
+  if (!id) {
+    return null;
+  }
+  switch (kind.toLowerCase()) {
+    case 'booking':
+      return { kind: 'booking', bookingId: id };
+    case 'cart':
+      return { kind: 'cart', cartId: id };
+    case 'checkout':
+      return { kind: 'checkout', sessionId: id };
+    default:
+      return null;
+  }
+}
+
+/**
+ * The target of a full link, or null when it is not one of ours. `host`
+ * is the universal-link host, empty when there is none.
+ */
+export function parseDeepLink(url: string, host: string = APP_LINK_HOST): DeepLinkTarget | null {
+  const prefix = prefixesFor(host).find(p => url.toLowerCase().startsWith(p.toLowerCase()));
+  if (!prefix) {
+    return null;
+  }
+  const rest = url.slice(prefix.length);
+  // `https://host/booking/…` must not match `https://host.evil/booking/…`
+  if (prefix === host && rest && !/^[/?#]/.test(rest)) {
+    return null;
+  }
+  return parseDeepLinkPath(rest);
+}
+
+/**
+ * The stack a link opens: always on top of Landing, so back leads home.
+ * A checkout reopens on Details, which reloads everything saved so far.
+ */
+export function deepLinkRoutes(target: DeepLinkTarget): DeepLinkRoute[] {
+  switch (target.kind) {
+    case 'booking':
+      return [{ name: 'LandingScreen' }, { name: 'ConfirmationScreen', params: { bookingId: target.bookingId } }];
+    case 'cart':
+      return [{ name: 'LandingScreen', params: { cartId: target.cartId } }];
+    case 'checkout':
+      return [{ name: 'LandingScreen' }, { name: 'DetailsScreen', params: { sessionId: target.sessionId } }];
+  }
+}
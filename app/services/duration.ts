@@ -0,0 +1,75 @@
+// app/services/duration.ts
+//
+// Pure rental-window rules: the limits Details enforces before a session is
+// saved, and the human-readable duration shown on Review and Confirmation.
+// How a window is billed (hourly vs daily) lives in pricing.ts.
+import type { BookingDates } from './firestore/models';
+
+export type RentalLimits = {
+  minHours: number;
+  maxDays: number;
+};
+
+export const DEFAULT_RENTAL_LIMITS: RentalLimits = {
+  minHours: 1,
+  maxDays: 7,
+};
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+// Leeway so a pick-up of "now" is still valid by the time the form is saved.
+const PAST_GRACE_MS = 5 * MINUTE_MS;
+
+const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? '' : 's'}`;
+
+/**
+ * Why a rental window can't be booked, or null when it is fine.
+ */
+export function validateWindow(
+  dates: BookingDates,
+  limits: RentalLimits = DEFAULT_RENTAL_LIMITS,
+  now: Date = new Date(),
+): string | null {
+  const { start, end } = dates;
+  if (!start || !end) {
+    return 'Choose a pick-up and drop-off time.';
+  }
+  if (start.getTime() < now.getTime() - PAST_GRACE_MS) {
+    return 'Pick-up time is in the past.';
+  }
+  const length = end.getTime() - start.getTime();
+  if (length <= 0) {
+    return 'Drop-off must be after pick-up.';
+  }
+  if (length < limits.minHours * HOUR_MS) {
+    return `Rentals are at least ${plural(limits.minHours, 'hour')}.`;
+  }
+  if (length > limits.maxDays * DAY_MS) {
+    return `Rentals can be at most ${plural(limits.maxDays, 'day')}.`;
+  }
+  return null;
+}
+
+/**
+ * e.g. "2 days 3 hours", "1 hour 30 minutes". Empty for a missing or
+ * inverted window.
+ */
+export function describeDuration(dates: BookingDates) {
+  const { start, end } = dates;
+  if (!start || !end || end.getTime() <= start.getTime()) {
+    return '';
+  }
+  const minutes = Math.round((end.getTime() - start.getTime()) / MINUTE_MS);
+  const days = Math.floor(minutes / (24 * 60));
+  const hours = Math.floor((minutes % (24 * 60)) / 60);
+  const mins = minutes % 60;
+  return [
+    days ? plural(days, 'day') : '',
+    hours ? plural(hours, 'hour') : '',
+    mins ? plural(mins, 'minute') : '',
+  ]
+    .filter(Boolean)
+    .join(' ');
+}
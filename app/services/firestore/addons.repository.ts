@@ -0,0 +1,16 @@
+// app/services/firestore/addons.repository.ts
+import firestore from '@react-native-firebase/firestore';
+import { Collections } from './collections';
+import { addonFromFirestore } from './converters';
+import type { Addon } from './models';
+
+/**
+ * The active add-on catalog, sorted by label.
+ */
+export async function getAddons(): Promise<Addon[]> {
+  const qs = await firestore().collection(Collections.addons).get();
+  return qs.docs
+    .map(d => addonFromFirestore(d.id, d.data()))
+    .filter(a => a.active)
+    .sort((a, b) => a.label.localeCompare(b.label));
+}
@@ -0,0 +1,972 @@
+// app/services/firestore/bookings.repository.ts
+import firestore from '@react-native-firebase/firestore';
+import type { FirebaseFirestoreTypes } from '@react-native-firebase/firestore';
+import { stockLeft } from '../addons';
+import { bookingTotal, priceDifference, rentalDifference } from '../amendment';
+import { assertTransition, canAmend } from '../booking-lifecycle';
+import { refundFor } from '../cancellation';
+import type { RefundQuote } from '../cancellation';
+import { allocateUnits, findConflicts, toInterval } from '../availability';
+import type { Interval } from '../availability';
+import {
+  issuePass,
+  isFallbackCode,
+  isPassText,
+  normalizeFallbackCode,
+  parsePass,
+  showsPass,
+  verifyPass,
+} from '../booking-pass';
+import { validateWindow } from '../duration';
+import { holdExpiry } from '../holds';
+import { slotBookingCount, slotKey, slotsLeft, validateOpeningHours } from '../opening-hours';
+import { quoteTotals, roundMoney } from '../pricing';
+import type { Quote } from '../pricing';
+import { settleDeposit, settlementWithIntent } from '../settlement';
+import type { SettlementQuote } from '../settlement';
+import type { PaymentIntent } from '../payments/provider';
+import { Collections } from './collections';
+import {
+  bookingCartToFirestore,
+  bookingFromFirestore,
+  customerToFirestore,
+  locationFromFirestore,
+  paymentFromFirestore,
+  paymentToFirestore,
+  reservationsFromFirestore,
+  reservationsWithout,
+  sessionFromFirestore,
+  slotBookingsFromFirestore,
+  statusChangeToFirestore,
+} from './converters';
+import { pickupSlotRef } from './locations.repository';
+import { capturedRental, getBookingPayment, pendingRefundFields } from './payments.repository';
+import { addonScheduleRef, scheduleRef } from './schedules.repository';
+import { getModelUnits } from './units.repository';
+import type {
+  Addon,
+  Booking,
+  BookingCart,
+  BookingDates,
+  BookingStatus,
+  BookingUnit,
+  CancellationPolicy,
+  CartInspection,
+  CartUnit,
+  Customer,
+  Location,
+  PartialBooking,
+  PaymentRecord,
+  Reservation,
+  ReturnPolicy,
+  UnitReading,
+} from './models';
+
+export type NewPaymentRecord = Omit<
+  PaymentRecord,
+  | 'id'
+  | 'customerId'
+  | 'sessionId'
+  | 'bookingId'
+  | 'refundedAmount'
+  | 'amendmentIntentIds'
+  | 'pendingRefund'
+  | 'createdAt'
+>;
+
+export type PendingBookingInput = {
+  customerId: string;
+  sessionId: string;
+  partialBooking: PartialBooking;
+  carts: BookingCart[];
+  addons: Addon[];
+  location: Location;
+  quote: Quote;
+  profile: Partial<Omit<Customer, 'id' | 'documents' | 'paymentCustomers'>>;
+};
+
+export type AmendBookingInput = {
+  bookingId: string;
+  sessionId: string;
+  actor: string;
+  partialBooking: PartialBooking;
+  carts: BookingCart[];
+  addons: Addon[];
+  location: Location;
+  quote: Quote;
+  /** The rental difference, and the charge taken for it before saving. */
+  payment: { rental: number; rentalIntentId: string | null };
+};
+
+type BookedSelection = {
+  partialBooking: PartialBooking;
+  carts: BookingCart[];
+  addons: Addon[];
+  quote: Quote;
+};
+
+/**
+ * Checks a rental window against the rental limits and the location's
+ * opening hours, throwing the reason when it can't be booked.
+ */
+function checkedWindow(dates: BookingDates, location: Location): Interval {
+  const window = toInterval(dates);
+  if (!window) {
+    throw new Error('Pick-up and drop-off times are required.');
+  }
+  const invalid = validateWindow(dates) ?? validateOpeningHours(location, dates);
+  if (invalid) {
+    throw new Error(invalid);
+  }
+  return window;
+}
+
+/**
+ * Picks units for every booked cart, throwing when a model has run out.
+ */
+function allocateCarts(
+  carts: BookingCart[],
+  candidates: CartUnit[][],
+  reservations: Record<string, Reservation[]>,
+  dates: BookingDates,
+  ignoreBookingId?: string,
+): BookingUnit[] {
+  const units: BookingUnit[] = [];
+  carts.forEach((cart, i) => {
+    const allocated = allocateUnits(
+      candidates[i],
+      reservations,
+      dates,
+      cart.qty,
+      ignoreBookingId,
+    );
+    if (!allocated) {
+      throw new Error(
+        `${`${cart.brand} ${cart.model}`.trim() || 'This cart'} is no longer available for the selected times.`,
+      );
+    }
+    allocated.forEach(unit =>
+      units.push({
+        unitId: unit.id,
+        modelId: cart.id,
+        serial: unit.serial,
+        plate: unit.plate,
+      }),
+    );
+  });
+  return units;
+}
+
+function assertAddonStock(
+  stocked: Addon[],
+  reservations: Record<string, Reservation[]>,
+  dates: BookingDates,
+  ignoreBookingId?: string,
+) {
+  stocked.forEach(addon => {
+    const left = stockLeft(addon, reservations[addon.id] ?? [], dates, ignoreBookingId);
+    if (left !== null && left < 1) {
+      throw new Error(`${addon.label} is sold out for the selected times.`);
+    }
+  });
+}
+
+/**
+ * The `partialBooking` written on a booking for the priced selection.
+ */
+const bookedSelectionToFirestore = (input: BookedSelection) => ({
+  ...input.partialBooking,
+  carts: input.carts.map(bookingCartToFirestore),
+  addons: input.addons.map(a => a.id),
+  totals: quoteTotals(input.quote),
+  quote: input.quote,
+});
+
+/**
+ * `pickupSlots` fields that take a booking off the slot, paid or not.
+ */
+const slotEntryRemoved = (bookingId: string) => ({
+  bookings: firestore.FieldValue.arrayRemove(bookingId),
+  pending: { [bookingId]: firestore.FieldValue.delete() },
+});
+
+/**
+ * Subscribes to a single booking. `onNext` receives null when the document
+ * does not exist. Returns the unsubscribe function.
+ */
+export function subscribeBooking(
+  bookingId: string,
+  onNext: (booking: Booking | null) => void,
+  onError: (err: Error) => void,
+) {
+  return firestore()
+    .collection(Collections.bookings)
+    .doc(bookingId)
+    .onSnapshot(
+      snap =>
+        onNext(snap.exists() ? bookingFromFirestore(snap.id, snap.data()!) : null),
+      onError,
+    );
+}
+
+/**
+ * Allocates free units for every booked cart model, reserves stock for
+ * stock-limited add-ons and a place in the pick-up slot, and writes those
+ * reservations, the customer profile and a booking awaiting payment in one
+ * transaction, so two customers racing for the same unit can't both
+ * succeed. Units held for the session count as free and its hold is
+ * swapped for the booking's. Like a hold, the units are only kept until the
+ * payment deadline; `confirmBookingPayment` makes them permanent. Returns
+ * the booking id.
+ */
+export async function createPendingBooking(input: PendingBookingInput) {
+  const db = firestore();
+  const window = checkedWindow(input.partialBooking.dates, input.location);
+  const pickupSlot = slotKey(window.start);
+  const slotRef = pickupSlotRef(input.location.id, pickupSlot);
+
+  const bookingRef = db.collection(Collections.bookings).doc();
+  const sessionRef = db.collection(Collections.sessions).doc(input.sessionId);
+  // Unit lists are read up front: queries can't run inside a transaction.
+  const candidates = await Promise.all(input.carts.map(c => getModelUnits(c.id)));
+
+  await db.runTransaction(async tx => {
+    // All reads must happen before the first write.
+    const sessionSnap = await tx.get(sessionRef);
+    const hold = sessionSnap.exists()
+      ? sessionFromFirestore(sessionSnap.id, sessionSnap.data()!).hold
+      : null;
+    const unitIds = Array.from(
+      new Set([...candidates.flat().map(u => u.id), ...(hold?.unitIds ?? [])]),
+    );
+    const schedules: Record<string, { [key: string]: any }> = {};
+    const reservations: Record<string, Reservation[]> = {};
+    await Promise.all(
+      unitIds.map(async id => {
+        const snap = await tx.get(scheduleRef(id));
+        schedules[id] = snap.exists() ? snap.data()! : {};
+        reservations[id] = reservationsFromFirestore(schedules[id]);
+      }),
+    );
+    const stocked = input.addons.filter(a => a.stock !== null);
+    const addonReservations: Record<string, Reservation[]> = {};
+    await Promise.all(
+      stocked.map(async addon => {
+        const snap = await tx.get(addonScheduleRef(addon.id));
+        addonReservations[addon.id] = snap.exists()
+          ? reservationsFromFirestore(snap.data()!)
+          : [];
+      }),
+    );
+
+    const slotSnap = await tx.get(slotRef);
+    const slotCount = slotSnap.exists()
+      ? slotBookingCount(slotBookingsFromFirestore(slotSnap.data()!))
+      : 0;
+    if (slotsLeft(input.location, slotCount) < 1) {
+      throw new Error('That pick-up time is now full. Please choose another slot.');
+    }
+
+    const units = allocateCarts(
+      input.carts,
+      candidates,
+      reservations,
+      input.partialBooking.dates,
+      input.sessionId,
+    );
+    assertAddonStock(stocked, addonReservations, input.partialBooking.dates);
+
+    // Payment gets what is left of the session's hold, or a fresh hold.
+    const paymentDueBy =
+      hold && hold.expiresAt.getTime() > Date.now() ? hold.expiresAt : holdExpiry();
+    const entry = {
+      bookingId: bookingRef.id,
+      start: window.start,
+      end: window.end,
+      expiresAt: paymentDueBy,
+    };
+    const reservation = { reservations: firestore.FieldValue.arrayUnion(entry) };
+    // Swap the session's hold for the booking on every schedule it touched.
+    unitIds.forEach(id => {
+      const held = reservations[id].some(r => r.bookingId === input.sessionId);
+      const gets = units.some(u => u.unitId === id);
+      if (held) {
+        const next = reservationsWithout(schedules[id], input.sessionId);
+        tx.set(scheduleRef(id), { reservations: gets ? [...next, entry] : next }, { merge: true });
+      } else if (gets) {
+        tx.set(scheduleRef(id), reservation, { merge: true });
+      }
+    });
+    stocked.forEach(addon =>
+      tx.set(addonScheduleRef(addon.id), reservation, { merge: true }),
+    );
+    // Counts towards the slot until the payment deadline (see slotBookingCount)
+    tx.set(slotRef, { pending: { [bookingRef.id]: paymentDueBy } }, { merge: true });
+
+    tx.set(
+      db.collection(Collections.customers).doc(input.customerId),
+      {
+        ...customerToFirestore(input.profile),
+        updatedAt: firestore.FieldValue.serverTimestamp(),
+      },
+      { merge: true },
+    );
+
+    tx.set(bookingRef, {
+      customerId: input.customerId,
+      createdAt: firestore.FieldValue.serverTimestamp(),
+      status: 'pending_payment',
+      statusHistory: [statusChangeToFirestore('pending_payment', input.customerId)],
+      partialBooking: bookedSelectionToFirestore(input),
+      units,
+      locationId: input.location.id,
+      pickupSlot,
+      sessionId: input.sessionId,
+      paymentDueBy,
+    });
+
+    tx.update(sessionRef, {
+      bookingRef: bookingRef.id,
+      hold: null,
+      updatedAt: firestore.FieldValue.serverTimestamp(),
+    });
+  });
+
+  return bookingRef.id;
+}
+
+const passToFirestore = (bookingId: string) => ({
+  ...issuePass(bookingId),
+  issuedAt: firestore.FieldValue.serverTimestamp(),
+});
+
+/**
+ * Confirms a booking once its payment has been authorized: keeps its units
+ * and pick-up slot for good, records the payment, issues the pick-up pass
+ * and closes the checkout session. Throws if the payment deadline passed and the units or the slot
+ * have since gone to someone else, in which case the caller should void the
+ * payment.
+ */
+export async function confirmBookingPayment(bookingId: string, payment: NewPaymentRecord) {
+  const db = firestore();
+  const ref = db.collection(Collections.bookings).doc(bookingId);
+  const paymentRef = db.collection(Collections.payments).doc();
+
+  await db.runTransaction(async tx => {
+    const snap = await tx.get(ref);
+    if (!snap.exists()) {
+      throw new Error('Booking not found');
+    }
+    const booking = bookingFromFirestore(snap.id, snap.data()!);
+    assertTransition(booking.status, 'confirmed');
+    const window = toInterval(booking.partialBooking.dates);
+    if (!window) {
+      throw new Error('Pick-up and drop-off times are required.');
+    }
+    const unitIds = booking.units.map(u => u.unitId);
+    const schedules = await Promise.all(unitIds.map(id => tx.get(scheduleRef(id))));
+    const { locationId, pickupSlot } = booking;
+    const slotRef = locationId && pickupSlot ? pickupSlotRef(locationId, pickupSlot) : null;
+    const [slotSnap, locationSnap] = locationId && slotRef
+      ? await Promise.all([tx.get(slotRef), tx.get(db.collection(Collections.locations).doc(locationId))])
+      : [null, null];
+
+    const entry = { bookingId, start: window.start, end: window.end };
+    schedules.forEach((s, i) => {
+      const data = s.exists() ? s.data()! : {};
+      const clashes = findConflicts(
+        reservationsFromFirestore(data),
+        booking.partialBooking.dates,
+        bookingId,
+      );
+      if (clashes.length) {
+        throw new Error('Your carts were released before the payment went through. Please book again.');
+      }
+      tx.set(
+        scheduleRef(unitIds[i]),
+        { reservations: [...reservationsWithout(data, bookingId), entry] },
+        { merge: true },
+      );
+    });
+    // Past the payment deadline the slot may have filled up meanwhile
+    if (slotRef && slotSnap && locationSnap) {
+      const location = locationFromFirestore(
+        locationSnap.id,
+        locationSnap.exists() ? locationSnap.data()! : {},
+      );
+      const others = slotSnap.exists()
+        ? slotBookingCount(slotBookingsFromFirestore(slotSnap.data()!), bookingId)
+        : 0;
+      if (slotsLeft(location, others) < 1) {
+        throw new Error('Your pick-up time filled up before the payment went through. Please book again.');
+      }
+      tx.set(
+        slotRef,
+        {
+          bookings: firestore.FieldValue.arrayUnion(bookingId),
+          pending: { [bookingId]: firestore.FieldValue.delete() },
+        },
+        { merge: true },
+      );
+    }
+
+    tx.update(ref, {
+      status: 'confirmed',
+      statusHistory: firestore.FieldValue.arrayUnion(
+        statusChangeToFirestore('confirmed', booking.customerId),
+      ),
+      paymentDueBy: null,
+      pass: passToFirestore(bookingId),
+      updatedAt: firestore.FieldValue.serverTimestamp(),
+    });
+    if (booking.sessionId) {
+      tx.update(db.collection(Collections.sessions).doc(booking.sessionId), {
+        status: 'booked',
+        updatedAt: firestore.FieldValue.serverTimestamp(),
+      });
+    }
+    tx.set(paymentRef, {
+      ...paymentToFirestore(payment),
+      customerId: booking.customerId,
+      sessionId: booking.sessionId,
+      bookingId,
+      createdAt: firestore.FieldValue.serverTimestamp(),
+    });
+  });
+}
+
+/**
+ * Issues the pick-up pass of a booking confirmed before passes existed.
+ * Does nothing when it already has one or no longer shows it.
+ */
+export async function issueBookingPass(bookingId: string) {
+  const db = firestore();
+  const ref = db.collection(Collections.bookings).doc(bookingId);
+  await db.runTransaction(async tx => {
+    const snap = await tx.get(ref);
+    if (!snap.exists()) {
+      throw new Error('Booking not found');
+    }
+    const booking = bookingFromFirestore(snap.id, snap.data()!);
+    if (booking.pass || !showsPass(booking.status)) {
+      return;
+    }
+    tx.update(ref, {
+      pass: passToFirestore(bookingId),
+      updatedAt: firestore.FieldValue.serverTimestamp(),
+    });
+  });
+}
+
+/**
+ * Subscribes to every booking of a customer. Returns the unsubscribe
+ * function.
+ */
+export function subscribeCustomerBookings(
+  customerId: string,
+  onNext: (bookings: Booking[]) => void,
+  onError: (err: Error) => void,
+) {
+  return firestore()
+    .collection(Collections.bookings)
+    .where('customerId', '==', customerId)
+    .onSnapshot(
+      snap => onNext(snap.docs.map(d => bookingFromFirestore(d.id, d.data()))),
+      onError,
+    );
+}
+
+export async function getBooking(id: string): Promise<Booking | null> {
+  const snap = await firestore().collection(Collections.bookings).doc(id).get();
+  return snap.exists() ? bookingFromFirestore(snap.id, snap.data()!) : null;
+}
+
+/**
+ * Replaces a booking's dates, carts and add-ons. Units, add-on stock and
+ * the pick-up slot are re-allocated with the booking's own reservations
+ * set aside, and the previous version is kept on `revisions` with the
+ * provider references for the change. The payment records the extra
+ * charge and new deposit hold taken beforehand, or owes the refund when the
+ * change costs less (sent afterwards, see completeRefund). Throws if the
+ * booking's price moved since the change was charged. Returns the price
+ * difference (positive charged, negative refunded).
+ */
+export async function amendBooking(input: AmendBookingInput): Promise<number> {
+  const db = firestore();
+  const dates = input.partialBooking.dates;
+  const window = checkedWindow(dates, input.location);
+  const pickupSlot = slotKey(window.start);
+  const ref = db.collection(Collections.bookings).doc(input.bookingId);
+  const candidates = await Promise.all(input.carts.map(c => getModelUnits(c.id)));
+  // Queries can't run inside a transaction; the payment doc is re-read there.
+  const payment = await getBookingPayment(input.bookingId);
+  const paymentRef = payment
+    ? db.collection(Collections.payments).doc(payment.id)
+    : null;
+
+  return db.runTransaction(async tx => {
+    const snap = await tx.get(ref);
+    if (!snap.exists()) {
+      throw new Error('Booking not found');
+    }
+    const raw = snap.data()!;
+    const booking = bookingFromFirestore(snap.id, raw);
+    if (!canAmend(booking.status)) {
+      throw new Error('This booking can no longer be changed.');
+    }
+    const rental = rentalDifference(booking, input.quote);
+    if (rental !== input.payment.rental) {
+      throw new Error('This booking changed while you were editing it. Please review the change again.');
+    }
+    if (rental > 0 && !input.payment.rentalIntentId) {
+      throw new Error('The additional charge for this change was not taken.');
+    }
+
+    // Every schedule the booking is on now or may move to.
+    const previousUnits = booking.units.length
+      ? booking.units.map(u => u.unitId)
+      : booking.partialBooking.carts.map(c => c.id);
+    const unitIds = Array.from(
+      new Set([...candidates.flat().map(u => u.id), ...previousUnits]),
+    );
+    const stocked = input.addons.filter(a => a.stock !== null);
+    const addonIds = Array.from(
+      new Set([...stocked.map(a => a.id), ...booking.partialBooking.addons]),
+    );
+    const [unitSnaps, addonSnaps, slotSnap] = await Promise.all([
+      Promise.all(unitIds.map(id => tx.get(scheduleRef(id)))),
+      Promise.all(addonIds.map(id => tx.get(addonScheduleRef(id)))),
+      tx.get(pickupSlotRef(input.location.id, pickupSlot)),
+    ]);
+    const paymentSnap = paymentRef ? await tx.get(paymentRef) : null;
+
+    const rawSchedules = (snaps: typeof unitSnaps, ids: string[]) => {
+      const out: Record<string, { [key: string]: any }> = {};
+      snaps.forEach((s, i) => {
+        out[ids[i]] = s.exists() ? s.data()! : {};
+      });
+      return out;
+    };
+    const unitSchedules = rawSchedules(unitSnaps, unitIds);
+    const addonSchedules = rawSchedules(addonSnaps, addonIds);
+    const parsed = (schedules: typeof unitSchedules) =>
+      Object.fromEntries(
+        Object.entries(schedules).map(([id, data]) => [id, reservationsFromFirestore(data)]),
+      );
+
+    const units = allocateCarts(
+      input.carts,
+      candidates,
+      parsed(unitSchedules),
+      dates,
+      input.bookingId,
+    );
+    assertAddonStock(stocked, parsed(addonSchedules), dates, input.bookingId);
+    const slotCount = slotSnap.exists()
+      ? slotBookingCount(slotBookingsFromFirestore(slotSnap.data()!), input.bookingId)
+      : 0;
+    if (slotsLeft(input.location, slotCount) < 1) {
+      throw new Error('That pick-up time is now full. Please choose another slot.');
+    }
+
+    // Rewrite each affected schedule: drop the old entry, add the new one.
+    const entry = { bookingId: input.bookingId, start: window.start, end: window.end };
+    const rewrite = (
+      schedules: typeof unitSchedules,
+      keep: string[],
+      refFor: typeof scheduleRef,
+    ) =>
+      Object.entries(schedules).forEach(([id, data]) => {
+        const had = reservationsFromFirestore(data).some(r => r.bookingId === input.bookingId);
+        const gets = keep.includes(id);
+        if (had || gets) {
+          const next = reservationsWithout(data, input.bookingId);
+          tx.set(refFor(id), { reservations: gets ? [...next, entry] : next }, { merge: true });
+        }
+      });
+    rewrite(unitSchedules, units.map(u => u.unitId), scheduleRef);
+    rewrite(addonSchedules, stocked.map(a => a.id), addonScheduleRef);
+
+    if (booking.locationId && booking.pickupSlot && booking.pickupSlot !== pickupSlot) {
+      tx.set(
+        pickupSlotRef(booking.locationId, booking.pickupSlot),
+        slotEntryRemoved(input.bookingId),
+        { merge: true },
+      );
+    }
+    tx.set(
+      pickupSlotRef(input.location.id, pickupSlot),
+      { bookings: firestore.FieldValue.arrayUnion(input.bookingId) },
+      { merge: true },
+    );
+
+    const difference = priceDifference(booking, input.quote);
+    tx.update(ref, {
+      partialBooking: bookedSelectionToFirestore(input),
+      units,
+      locationId: input.location.id,
+      pickupSlot,
+      revisions: firestore.FieldValue.arrayUnion({
+        at: new Date(),
+        actor: input.actor,
+        partialBooking: raw.partialBooking ?? {},
+        units: raw.units ?? [],
+        pickupSlot: raw.pickupSlot ?? null,
+        total: bookingTotal(booking),
+        difference,
+        paymentIntentId: input.payment.rentalIntentId,
+      }),
+      updatedAt: firestore.FieldValue.serverTimestamp(),
+    });
+
+    if (paymentRef && paymentSnap?.exists()) {
+      const record = paymentFromFirestore(paymentSnap.id, paymentSnap.data()!);
+      const { rentalIntentId } = input.payment;
+      tx.update(paymentRef, {
+        ...(rentalIntentId
+          ? {
+              capturedAmount: roundMoney(capturedRental(record) + rental),
+              amendmentIntentIds: firestore.FieldValue.arrayUnion(rentalIntentId),
+            }
+          : {}),
+        ...(rental < 0 ? pendingRefundFields(record, -rental, 'booking change', false) : {}),
+      });
+    }
+
+    tx.update(db.collection(Collections.sessions).doc(input.sessionId), {
+      status: 'booked',
+      bookingRef: input.bookingId,
+      updatedAt: firestore.FieldValue.serverTimestamp(),
+    });
+
+    return difference;
+  });
+}
+
+/**
+ * Moves a booking to a new status if the lifecycle allows it, recording who
+ * made the change on `statusHistory`.
+ */
+export async function transitionBooking(
+  bookingId: string,
+  to: BookingStatus,
+  actor: string,
+  note: string | null = null,
+) {
+  const db = firestore();
+  const ref = db.collection(Collections.bookings).doc(bookingId);
+  await db.runTransaction(async tx => {
+    const snap = await tx.get(ref);
+    if (!snap.exists()) {
+      throw new Error('Booking not found');
+    }
+    assertTransition(bookingFromFirestore(snap.id, snap.data()!).status, to);
+    tx.update(ref, {
+      status: to,
+      statusHistory: firestore.FieldValue.arrayUnion(
+        statusChangeToFirestore(to, actor, note),
+      ),
+      updatedAt: firestore.FieldValue.serverTimestamp(),
+    });
+  });
+}
+
+/**
+ * Cancels a booking under the location's policy: releases its units,
+ * add-on stock and pick-up slot, records the refund on the booking and
+ * marks its payment (when there is one) `refund_pending`. The provider is
+ * refunded afterwards and the refund recorded with completeRefund, so a
+ * failed refund stays visible and can be retried. Returns the refund.
+ */
+export async function cancelBooking(
+  bookingId: string,
+  actor: string,
+  policy: CancellationPolicy,
+): Promise<RefundQuote> {
+  const db = firestore();
+  const ref = db.collection(Collections.bookings).doc(bookingId);
+  // Queries can't run inside a transaction; the payment doc is re-read there.
+  const payment = await getBookingPayment(bookingId);
+  const paymentRef = payment
+    ? db.collection(Collections.payments).doc(payment.id)
+    : null;
+
+  return db.runTransaction(async tx => {
+    const snap = await tx.get(ref);
+    if (!snap.exists()) {
+      throw new Error('Booking not found');
+    }
+    const booking = bookingFromFirestore(snap.id, snap.data()!);
+    assertTransition(booking.status, 'cancelled');
+    const refund = refundFor(booking, policy);
+
+    // Bookings made before fleet units were reserved under the cart id.
+    const unitIds = booking.units.length
+      ? booking.units.map(u => u.unitId)
+      : booking.partialBooking.carts.map(c => c.id);
+    const scheduleRefs = [
+      ...unitIds.map(scheduleRef),
+      ...booking.partialBooking.addons.map(addonScheduleRef),
+    ];
+    const schedules = await Promise.all(scheduleRefs.map(r => tx.get(r)));
+    const paymentSnap = paymentRef ? await tx.get(paymentRef) : null;
+
+    schedules.forEach((s, i) => {
+      if (s.exists()) {
+        tx.update(scheduleRefs[i], {
+          reservations: reservationsWithout(s.data()!, bookingId),
+        });
+      }
+    });
+    if (booking.locationId && booking.pickupSlot) {
+      tx.set(
+        pickupSlotRef(booking.locationId, booking.pickupSlot),
+        slotEntryRemoved(bookingId),
+        { merge: true },
+      );
+    }
+
+    tx.update(ref, {
+      status: 'cancelled',
+      statusHistory: firestore.FieldValue.arrayUnion(
+        statusChangeToFirestore('cancelled', actor),
+      ),
+      cancellation: {
+        at: firestore.FieldValue.serverTimestamp(),
+        actor,
+        refund: refund.refund,
+        fee: refund.fee,
+      },
+      updatedAt: firestore.FieldValue.serverTimestamp(),
+    });
+
+    if (paymentRef && paymentSnap?.exists()) {
+      const record = paymentFromFirestore(paymentSnap.id, paymentSnap.data()!);
+      tx.update(paymentRef, pendingRefundFields(record, refund.rentalRefund, 'cancellation', true));
+    }
+
+    return refund;
+  });
+}
+
+/**
+ * Finds the booking behind a scanned pass or a typed fallback code,
+ * throwing the reason when the code can't be trusted.
+ */
+export async function findBookingForCode(code: string): Promise<Booking> {
+  if (isPassText(code)) {
+    const parsed = parsePass(code);
+    if (!parsed.valid) {
+      throw new Error(parsed.reason);
+    }
+    const booking = await getBooking(parsed.bookingId);
+    if (!booking) {
+      throw new Error('Booking not found');
+    }
+    const check = verifyPass(code, booking);
+    if (!check.valid) {
+      throw new Error(check.reason);
+    }
+    return booking;
+  }
+
+  const fallback = normalizeFallbackCode(code);
+  if (!isFallbackCode(fallback)) {
+    throw new Error('Enter the 8-character code shown under the QR code.');
+  }
+  // Codes are unique while a booking is active; older bookings may reuse one
+  const qs = await firestore()
+    .collection(Collections.bookings)
+    .where('pass.fallbackCode', '==', fallback)
+    .get();
+  const match = qs.docs
+    .map(d => bookingFromFirestore(d.id, d.data()))
+    .find(b => showsPass(b.status));
+  if (!match) {
+    throw new Error('No active booking matches that code.');
+  }
+  return match;
+}
+
+/**
+ * Hands the carts over: records the readings, marks the customer's
+ * documents as checked by staff and moves the booking to `checked_out`.
+ * `depositHold` is the deposit just authorized on the booking's card; it
+ * replaces whatever the payment had on record and is settled at return.
+ */
+export async function checkOutBooking(
+  bookingId: string,
+  staffId: string,
+  readings: UnitReading[],
+  depositHold: PaymentIntent | null = null,
+) {
+  const db = firestore();
+  const ref = db.collection(Collections.bookings).doc(bookingId);
+  // Queries can't run inside a transaction; the payment doc is re-read there.
+  const payment = depositHold ? await getBookingPayment(bookingId) : null;
+  const paymentRef = payment
+    ? db.collection(Collections.payments).doc(payment.id)
+    : null;
+
+  await db.runTransaction(async tx => {
+    const snap = await tx.get(ref);
+    if (!snap.exists()) {
+      throw new Error('Booking not found');
+    }
+    const booking = bookingFromFirestore(snap.id, snap.data()!);
+    assertTransition(booking.status, 'checked_out');
+    const paymentSnap = paymentRef ? await tx.get(paymentRef) : null;
+
+    const at = new Date();
+    tx.update(ref, {
+      status: 'checked_out',
+      statusHistory: firestore.FieldValue.arrayUnion(
+        statusChangeToFirestore('checked_out', staffId),
+      ),
+      checkOut: { at, staffId, readings },
+      updatedAt: firestore.FieldValue.serverTimestamp(),
+    });
+    const verified = { status: 'verified', verifiedBy: staffId, verifiedAt: at };
+    tx.set(
+      db.collection(Collections.customers).doc(booking.customerId),
+      { documents: { identity: verified, driverLicense: verified } },
+      { merge: true },
+    );
+    updateUnitBatteries(tx, booking, readings);
+    if (depositHold && paymentRef && paymentSnap?.exists()) {
+      tx.update(paymentRef, {
+        deposit: {
+          amount: depositHold.amount,
+          status: 'held',
+          captured: 0,
+          released: 0,
+          intentId: depositHold.id,
+        },
+      });
+    }
+  });
+}
+
+/**
+ * Takes the carts back: records the return readings and an optional note
+ * and moves the booking to `returned`.
+ */
+export async function checkInBooking(
+  bookingId: string,
+  staffId: string,
+  readings: UnitReading[],
+  note: string | null = null,
+) {
+  const db = firestore();
+  const ref = db.collection(Collections.bookings).doc(bookingId);
+  await db.runTransaction(async tx => {
+    const snap = await tx.get(ref);
+    if (!snap.exists()) {
+      throw new Error('Booking not found');
+    }
+    const booking = bookingFromFirestore(snap.id, snap.data()!);
+    assertTransition(booking.status, 'returned');
+
+    tx.update(ref, {
+      status: 'returned',
+      statusHistory: firestore.FieldValue.arrayUnion(
+        statusChangeToFirestore('returned', staffId, note),
+      ),
+      checkIn: { at: new Date(), staffId, readings, note },
+      updatedAt: firestore.FieldValue.serverTimestamp(),
+    });
+    updateUnitBatteries(tx, booking, readings);
+  });
+}
+
+export type ReturnInspectionInput = {
+  carts: CartInspection[];
+  notes: string;
+  photos: string[];
+};
+
+/**
+ * Records the return inspection and the deposit settlement under the
+ * location's return policy on the booking and its payment, and closes the
+ * booking. `depositIntent` is the deposit hold after settleDepositIntent
+ * ran, or null when there was none: only what it captured is recorded as
+ * kept, and charges it didn't cover are outstanding. Returns the
+ * settlement.
+ */
+export async function settleReturn(
+  bookingId: string,
+  staffId: string,
+  inspection: ReturnInspectionInput,
+  policy: ReturnPolicy,
+  depositIntent: PaymentIntent | null,
+): Promise<SettlementQuote> {
+  const db = firestore();
+  const ref = db.collection(Collections.bookings).doc(bookingId);
+  // Queries can't run inside a transaction; the payment doc is re-read there.
+  const payment = await getBookingPayment(bookingId);
+  const paymentRef = payment
+    ? db.collection(Collections.payments).doc(payment.id)
+    : null;
+
+  return db.runTransaction(async tx => {
+    const snap = await tx.get(ref);
+    if (!snap.exists()) {
+      throw new Error('Booking not found');
+    }
+    const booking = bookingFromFirestore(snap.id, snap.data()!);
+    assertTransition(booking.status, 'closed');
+    const paymentSnap = paymentRef ? await tx.get(paymentRef) : null;
+
+    const at = new Date();
+    const settlement = settlementWithIntent(
+      settleDeposit(booking, inspection.carts, policy, booking.checkIn?.at ?? at),
+      depositIntent,
+    );
+
+    tx.update(ref, {
+      status: 'closed',
+      statusHistory: firestore.FieldValue.arrayUnion(
+        statusChangeToFirestore('closed', staffId),
+      ),
+      inspection: { ...inspection, at, staffId },
+      settlement: { ...settlement, at, staffId },
+      updatedAt: firestore.FieldValue.serverTimestamp(),
+    });
+
+    // The released part of the hold was never taken, so it is not a refund
+    if (paymentRef && paymentSnap?.exists()) {
+      const record = paymentFromFirestore(paymentSnap.id, paymentSnap.data()!);
+      tx.update(paymentRef, {
+        deposit: {
+          amount: settlement.deposit,
+          status: settlement.status,
+          captured: settlement.captured,
+          released: settlement.released,
+          intentId: depositIntent?.id ?? record.deposit?.intentId ?? null,
+        },
+      });
+    }
+
+    return settlement;
+  });
+}
+
+/**
+ * Keeps each unit's battery level current for the Landing availability
+ * list. Legacy bookings have no unit documents to update.
+ */
+function updateUnitBatteries(
+  tx: FirebaseFirestoreTypes.Transaction,
+  booking: Booking,
+  readings: UnitReading[],
+) {
+  booking.units.forEach(unit => {
+    const reading = readings.find(r => r.unitId === unit.unitId);
+    if (reading) {
+      tx.update(firestore().collection(Collections.cartUnits).doc(unit.unitId), {
+        battery: reading.battery,
+        updatedAt: firestore.FieldValue.serverTimestamp(),
+      });
+    }
+  });
+}
@@ -0,0 +1,41 @@
+// app/services/firestore/carts.repository.ts
+import firestore from '@react-native-firebase/firestore';
+import { Collections } from './collections';
+import { cartFromFirestore } from './converters';
+import type { Cart } from './models';
+
+/**
+ * Subscribes to the whole cart catalog. Returns the unsubscribe function.
+ */
+export function subscribeCarts(
+  onNext: (carts: Cart[]) => void,
+  onError: (err: Error) => void,
+) {
+  return firestore()
+    .collection(Collections.carts)
+    .onSnapshot(
+      snap => onNext(snap.docs.map(d => cartFromFirestore(d.id, d.data()))),
+      onError,
+    );
+}
+
+/**
+ * The whole cart catalog, once.
+ */
+export async function listCarts(): Promise<Cart[]> {
+  const qs = await firestore().collection(Collections.carts).get();
+  return qs.docs.map(d => cartFromFirestore(d.id, d.data()));
+}
+
+export async function getCart(id: string): Promise<Cart | null> {
+  const snap = await firestore().collection(Collections.carts).doc(id).get();
+  return snap.exists() ? cartFromFirestore(snap.id, snap.data()!) : null;
+}
+
+/**
+ * Loads several carts by id, in the given order, skipping missing ones.
+ */
+export async function getCarts(ids: string[]): Promise<Cart[]> {
+  const carts = await Promise.all(ids.map(getCart));
+  return carts.filter((c): c is Cart => c !== null);
+}
@@ -0,0 +1,18 @@
+// app/services/firestore/collections.ts
+export const Collections = {
+  carts: 'carts',
+  cartUnits: 'cartUnits',
+  sessions: 'sessions',
+  bookings: 'bookings',
+  customers: 'customers',
+  payments: 'payments',
+  paymentMethods: 'paymentMethods',
+  schedules: 'schedules',
+  addons: 'addons',
+  addonSchedules: 'addonSchedules',
+  locations: 'locations',
+  pickupSlots: 'pickupSlots',
+  staff: 'staff',
+  counters: 'counters',
+  settings: 'settings',
+} as const;
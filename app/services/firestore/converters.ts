@@ -0,0 +1,934 @@
+// app/services/firestore/converters.ts
+//
+// Pure converters between raw Firestore documents and the domain models.
+// Every legacy field variant (`passangers`, `Add-ons`, `first_name`, string
+// prices, ...) is normalized here and nowhere else. Field mapping only:
+// defaults for settings a document leaves out are filled in by the services
+// that use them (e.g. cancellationPolicyFor, returnPolicyFor).
+import type { AddonPricingUnit, Quote, QuoteLine } from '../pricing';
+import type {
+  Addon,
+  Booking,
+  BookingCancellation,
+  BookingCart,
+  BookingCheckIn,
+  BookingCheckOut,
+  BookingInspection,
+  BookingInvoice,
+  BookingPassRecord,
+  BookingRevision,
+  BookingStatus,
+  BookingTotals,
+  BookingUnit,
+  BusinessDetails,
+  Cart,
+  CartUnit,
+  CartUnitStatus,
+  CancellationPolicy,
+  CartInspection,
+  Customer,
+  DepositSettlement,
+  DepositStatus,
+  DocumentStatus,
+  InspectionArea,
+  Location,
+  OpeningHours,
+  PartialBooking,
+  PaymentDeposit,
+  PaymentMethod,
+  PaymentRecord,
+  PendingRefund,
+  Reservation,
+  ReturnPolicySettings,
+  Session,
+  SessionHold,
+  SessionStatus,
+  SlotBooking,
+  StaffMember,
+  StatusChange,
+  UnitReading,
+} from './models';
+
+type RawDoc = { [key: string]: unknown };
+
+const isDoc = (value: unknown): value is RawDoc =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * A nested map field, or an empty one when it is missing or not a map.
+ */
+const doc = (value: unknown): RawDoc => (isDoc(value) ? value : {});
+
+const list = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+const ADDON_FIELDS = ['Add-ons', 'addons', 'addOns', 'add_ons', 'AddOns'];
+
+const str = (value: unknown): string =>
+  value === undefined || value === null ? '' : String(value);
+
+const strOrNull = (value: unknown): string | null =>
+  value === undefined || value === null || value === '' ? null : String(value);
+
+const firstDefined = (...values: unknown[]) =>
+  values.find(v => v !== undefined && v !== null);
+
+/**
+ * Converts a Firestore Timestamp, Date, epoch millis or date string to a Date.
+ */
+export function toDate(value: unknown): Date | null {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? null : value;
+  }
+  if (isDoc(value) && typeof value.toDate === 'function') {
+    const date: unknown = value.toDate();
+    return date instanceof Date ? date : null;
+  }
+  if (typeof value === 'number' || typeof value === 'string') {
+    const d = new Date(value);
+    return isNaN(d.getTime()) ? null : d;
+  }
+  return null;
+}
+
+/**
+ * Parses a price stored as a number or as text such as "$45" or "45.00".
+ */
+export function parsePrice(value: unknown): number {
+  if (typeof value === 'number') {
+    return isFinite(value) ? value : 0;
+  }
+  return parseFloat(str(value).replace(/[^0-9.-]+/g, '')) || 0;
+}
+
+/**
+ * Like `parsePrice`, but keeps "no price set" distinct from zero.
+ */
+export function priceOrNull(value: unknown): number | null {
+  return value === undefined || value === null || value === ''
+    ? null
+    : parsePrice(value);
+}
+
+/**
+ * Parses an add-ons field that may be an array, a map of labels or a
+ * JSON-ish string such as "['Cooler','Speaker']".
+ */
+export function parseAddonsField(raw: unknown): string[] {
+  if (!raw) {
+    return [];
+  }
+  if (Array.isArray(raw)) {
+    return raw.map(String).map(s => s.trim()).filter(Boolean);
+  }
+  if (typeof raw === 'object') {
+    return Object.values(raw).map(String).map(s => s.trim()).filter(Boolean);
+  }
+  if (typeof raw === 'string') {
+    const s = raw.trim();
+    try {
+      const parsed = JSON.parse(s);
+      if (Array.isArray(parsed)) {
+        return parsed.map(String).map(i => i.trim()).filter(Boolean);
+      }
+    } catch (e) {
+      // not valid JSON, fall through to manual parse
+    }
+
+    const stripped = s.replace(/^\[|\]$/g, '').trim();
+    if (!stripped) {
+      return [];
+    }
+    return stripped
+      .split(',')
+      .map(x => x.trim().replace(/^["']|["']$/g, '').trim())
+      .filter(Boolean);
+  }
+  return [];
+}
+
+/**
+ * Collects the add-on labels from every legacy add-on field on a cart.
+ */
+export function cartAddons(data: RawDoc): string[] {
+  const labels = new Set<string>();
+  ADDON_FIELDS.forEach(field =>
+    parseAddonsField(data[field]).forEach(a => labels.add(a)),
+  );
+  return Array.from(labels);
+}
+
+export function cartFromFirestore(id: string, data: RawDoc): Cart {
+  return {
+    id,
+    cartId: str(data.cart_id ?? data.cartId ?? id),
+    brand: str(data.brand),
+    model: str(data.model),
+    passengers: str(firstDefined(data.passangers, data.passengers)) || 'N/A',
+    battery: str(data.battery),
+    dailyPrice: parsePrice(data.daily_price ?? data.dailyPrice),
+    hourlyPrice: priceOrNull(data.hourly_price ?? data.hourlyPrice),
+    imageUrl: str(data.image_url ?? data.imageUrl),
+    addons: cartAddons(data),
+  };
+}
+
+/**
+ * Accepts "flat", "day"/"per_day"/"daily" and "hour"/"per_hour"/"hourly".
+ */
+function addonPricingUnit(value: unknown): AddonPricingUnit {
+  const unit = str(value).toLowerCase();
+  if (['day', 'per_day', 'daily'].includes(unit)) {
+    return 'day';
+  }
+  if (['hour', 'per_hour', 'hourly'].includes(unit)) {
+    return 'hour';
+  }
+  return 'flat';
+}
+
+export function addonFromFirestore(id: string, data: RawDoc): Addon {
+  const stock = firstDefined(data.stock, data.quantity);
+  const modelIds = firstDefined(data.modelIds, data.model_ids, data.compatibleModels);
+  return {
+    id,
+    label: str(data.label ?? data.name) || id,
+    description: str(data.description),
+    price: parsePrice(data.price),
+    unit: addonPricingUnit(data.unit ?? data.pricingUnit),
+    stock: stock === undefined ? null : Math.max(0, Math.floor(parsePrice(stock))),
+    modelIds: list(modelIds).map(String),
+    active: data.active !== false,
+  };
+}
+
+const UNIT_STATUSES: CartUnitStatus[] = ['available', 'maintenance', 'retired'];
+
+export function cartUnitFromFirestore(id: string, data: RawDoc): CartUnit {
+  const status = str(data.status).toLowerCase();
+  const battery = firstDefined(data.battery, data.batteryLevel, data.battery_level);
+  return {
+    id,
+    modelId: str(data.modelId ?? data.model_id ?? data.cartId),
+    serial: str(data.serial ?? data.serial_number),
+    plate: str(data.plate),
+    status: UNIT_STATUSES.find(s => s === status) ?? 'available',
+    battery: battery === undefined ? null : parsePrice(battery),
+  };
+}
+
+/**
+ * Carts added before units existed are treated as a single unit whose id is
+ * the cart id, so their existing schedules keep working.
+ */
+export const legacyUnitFor = (modelId: string): CartUnit => ({
+  id: modelId,
+  modelId,
+  serial: '',
+  plate: '',
+  status: 'available',
+  battery: null,
+});
+
+const datesFromFirestore = (raw: unknown) => ({
+  start: toDate(doc(raw).start),
+  end: toDate(doc(raw).end),
+});
+
+function partialBookingFromFirestore(raw: unknown): PartialBooking {
+  const partial = doc(raw);
+  const carts = list(partial.carts).map(c => (typeof c === 'string' ? c : str(doc(c).id)));
+  const quantities: Record<string, number> = {};
+  carts.forEach(id => {
+    quantities[id] = Math.max(1, Number(doc(partial.quantities)[id]) || 1);
+  });
+  return {
+    carts,
+    quantities,
+    addons: parseAddonsField(partial.addons),
+    dates: datesFromFirestore(partial.dates),
+  };
+}
+
+function sessionHoldFromFirestore(raw: unknown): SessionHold | null {
+  const hold = doc(raw);
+  const expiresAt = toDate(hold.expiresAt);
+  if (!expiresAt) {
+    return null;
+  }
+  return { unitIds: list(hold.unitIds).map(str).filter(Boolean), expiresAt };
+}
+
+const SESSION_STATUSES: SessionStatus[] = ['in_progress', 'booked', 'abandoned'];
+
+const sessionStatus = (value: unknown): SessionStatus =>
+  SESSION_STATUSES.find(status => status === value) ?? 'in_progress';
+
+export function sessionFromFirestore(id: string, data: RawDoc): Session {
+  return {
+    id,
+    customerId: str(data.customerId),
+    status: sessionStatus(data.status),
+    partialBooking: partialBookingFromFirestore(data.partialBooking),
+    bookingRef: strOrNull(data.bookingRef),
+    amendsBookingId: strOrNull(data.amendsBookingId),
+    hold: sessionHoldFromFirestore(data.hold),
+    createdAt: toDate(data.createdAt),
+    updatedAt: toDate(data.updatedAt),
+  };
+}
+
+/**
+ * Booking carts are either bare cart ids (early documents) or snapshots of
+ * the cart taken when the booking was written.
+ */
+export function bookingCartFromFirestore(raw: unknown): BookingCart {
+  if (typeof raw === 'string') {
+    return { id: raw, brand: '', model: '', imageUrl: '', dailyPrice: 0, qty: 1 };
+  }
+  const c = doc(raw);
+  return {
+    id: str(c.id),
+    brand: str(c.brand),
+    model: str(c.model),
+    imageUrl: str(c.image_url ?? c.imageUrl),
+    dailyPrice: parsePrice(c.daily_price ?? c.dailyPrice),
+    qty: Number(c.qty) || 1,
+  };
+}
+
+export function bookingCartToFirestore(cart: BookingCart): RawDoc {
+  return {
+    id: cart.id,
+    brand: cart.brand,
+    model: cart.model,
+    image_url: cart.imageUrl,
+    daily_price: cart.dailyPrice,
+    qty: cart.qty,
+  };
+}
+
+function totalsFromFirestore(raw: unknown): BookingTotals | null {
+  if (!isDoc(raw)) {
+    return null;
+  }
+  return {
+    base: parsePrice(raw.base),
+    tax: parsePrice(raw.tax),
+    deposit: parsePrice(raw.deposit),
+    total: parsePrice(raw.total),
+  };
+}
+
+function quoteLineFromFirestore(raw: unknown): QuoteLine {
+  const l = doc(raw);
+  return {
+    kind: l.kind === 'addon' ? 'addon' : 'rental',
+    id: str(l.id),
+    label: str(l.label),
+    qty: Number(l.qty) || 1,
+    unit: l.unit ? addonPricingUnit(l.unit) : 'day',
+    units: Number(l.units) || 1,
+    unitPrice: parsePrice(l.unitPrice),
+    amount: parsePrice(l.amount),
+  };
+}
+
+function quoteFromFirestore(raw: unknown): Quote | null {
+  if (!isDoc(raw) || !Array.isArray(raw.lines)) {
+    return null;
+  }
+  const rental = doc(raw.rental);
+  return {
+    lines: raw.lines.map(quoteLineFromFirestore),
+    rental: {
+      unit: rental.unit === 'hour' ? 'hour' : 'day',
+      units: Number(rental.units) || 1,
+      hours: Number(rental.hours) || 24,
+      days: Number(rental.days) || 1,
+    },
+    subtotal: parsePrice(raw.subtotal),
+    taxRate: Number(raw.taxRate) || 0,
+    tax: parsePrice(raw.tax),
+    deposit: parsePrice(raw.deposit),
+    total: parsePrice(raw.total),
+    currency: str(raw.currency) || 'USD',
+  };
+}
+
+const bookingUnitFromFirestore = (raw: unknown): BookingUnit => {
+  const unit = doc(raw);
+  return {
+    unitId: str(unit.unitId),
+    modelId: str(unit.modelId),
+    serial: str(unit.serial),
+    plate: str(unit.plate),
+  };
+};
+
+const BOOKING_STATUSES: BookingStatus[] = [
+  'pending_payment',
+  'confirmed',
+  'checked_out',
+  'returned',
+  'closed',
+  'cancelled',
+  'no_show',
+];
+
+const bookingStatusOrNull = (value: unknown): BookingStatus | null =>
+  BOOKING_STATUSES.find(status => status === value) ?? null;
+
+function statusHistoryFromFirestore(raw: unknown): StatusChange[] {
+  return list(raw).flatMap(entry => {
+    const h = doc(entry);
+    const status = bookingStatusOrNull(h.status);
+    return status
+      ? [{ status, at: toDate(h.at), actor: str(h.actor) || 'system', note: strOrNull(h.note) }]
+      : [];
+  });
+}
+
+/**
+ * A history entry as written to Firestore. Server timestamps aren't
+ * allowed inside arrays, so the client clock is used.
+ */
+export function statusChangeToFirestore(
+  status: BookingStatus,
+  actor: string,
+  note: string | null = null,
+): RawDoc {
+  return { status, at: new Date(), actor, note };
+}
+
+function cancellationFromFirestore(raw: unknown): BookingCancellation | null {
+  if (!isDoc(raw)) {
+    return null;
+  }
+  return {
+    at: toDate(raw.at),
+    actor: str(raw.actor) || 'system',
+    refund: parsePrice(raw.refund),
+    fee: parsePrice(raw.fee),
+  };
+}
+
+function revisionFromFirestore(raw: unknown): BookingRevision {
+  const revision = doc(raw);
+  const partial = doc(revision.partialBooking);
+  return {
+    at: toDate(revision.at),
+    actor: str(revision.actor) || 'system',
+    dates: datesFromFirestore(partial.dates),
+    carts: list(partial.carts).map(bookingCartFromFirestore),
+    addons: parseAddonsField(partial.addons),
+    total: parsePrice(revision.total),
+    difference: parsePrice(revision.difference),
+    paymentIntentId: strOrNull(revision.paymentIntentId),
+  };
+}
+
+const readingFromFirestore = (raw: unknown): UnitReading => {
+  const reading = doc(raw);
+  return {
+    unitId: str(reading.unitId),
+    battery: Number(reading.battery) || 0,
+    hours: Number(reading.hours) || 0,
+  };
+};
+
+const readingsFromFirestore = (raw: unknown): UnitReading[] => list(raw).map(readingFromFirestore);
+
+function checkOutFromFirestore(raw: unknown): BookingCheckOut | null {
+  if (!isDoc(raw)) {
+    return null;
+  }
+  return {
+    at: toDate(raw.at),
+    staffId: str(raw.staffId),
+    readings: readingsFromFirestore(raw.readings),
+  };
+}
+
+function checkInFromFirestore(raw: unknown): BookingCheckIn | null {
+  if (!isDoc(raw)) {
+    return null;
+  }
+  return {
+    at: toDate(raw.at),
+    staffId: str(raw.staffId),
+    readings: readingsFromFirestore(raw.readings),
+    note: strOrNull(raw.note),
+  };
+}
+
+const INSPECTION_AREAS: InspectionArea[] = ['body', 'seats', 'tyres', 'glass', 'lights', 'charger'];
+
+const isInspectionArea = (value: unknown): value is InspectionArea =>
+  INSPECTION_AREAS.some(area => area === value);
+
+const cartInspectionFromFirestore = (raw: unknown): CartInspection => {
+  const cart = doc(raw);
+  return {
+    unitId: str(cart.unitId),
+    damaged: list(cart.damaged).filter(isInspectionArea),
+  };
+};
+
+function inspectionFromFirestore(raw: unknown): BookingInspection | null {
+  if (!isDoc(raw)) {
+    return null;
+  }
+  return {
+    at: toDate(raw.at),
+    staffId: str(raw.staffId),
+    carts: list(raw.carts).map(cartInspectionFromFirestore),
+    notes: str(raw.notes),
+    photos: list(raw.photos).map(String),
+  };
+}
+
+const DEPOSIT_STATUSES: DepositStatus[] = ['held', 'released', 'partially_captured', 'captured'];
+
+const depositStatus = (value: unknown): DepositStatus =>
+  DEPOSIT_STATUSES.find(status => status === value) ?? 'held';
+
+function invoiceFromFirestore(raw: unknown): BookingInvoice | null {
+  if (!isDoc(raw)) {
+    return null;
+  }
+  const sequence = Number(raw.sequence);
+  if (!Number.isInteger(sequence) || sequence < 1) {
+    return null;
+  }
+  return {
+    number: str(raw.number),
+    sequence,
+    issuedAt: toDate(raw.issuedAt),
+  };
+}
+
+function passFromFirestore(raw: unknown): BookingPassRecord | null {
+  if (!isDoc(raw) || !str(raw.code) || !str(raw.fallbackCode)) {
+    return null;
+  }
+  return {
+    code: str(raw.code),
+    fallbackCode: str(raw.fallbackCode),
+    issuedAt: toDate(raw.issuedAt),
+  };
+}
+
+function settlementFromFirestore(raw: unknown): DepositSettlement | null {
+  if (!isDoc(raw)) {
+    return null;
+  }
+  return {
+    at: toDate(raw.at),
+    staffId: str(raw.staffId),
+    deposit: parsePrice(raw.deposit),
+    lateFee: parsePrice(raw.lateFee),
+    damageFee: parsePrice(raw.damageFee),
+    captured: parsePrice(raw.captured),
+    released: parsePrice(raw.released),
+    outstanding: parsePrice(raw.outstanding),
+    status: depositStatus(raw.status),
+  };
+}
+
+export function bookingFromFirestore(id: string, data: RawDoc): Booking {
+  const partial = doc(data.partialBooking);
+  return {
+    id,
+    customerId: str(data.customerId),
+    sessionId: strOrNull(data.sessionId),
+    // bookings written before the lifecycle existed are all "confirmed"
+    status: bookingStatusOrNull(data.status) ?? 'confirmed',
+    statusHistory: statusHistoryFromFirestore(data.statusHistory),
+    createdAt: toDate(data.createdAt),
+    partialBooking: {
+      carts: list(partial.carts).map(bookingCartFromFirestore),
+      addons: parseAddonsField(partial.addons),
+      dates: datesFromFirestore(partial.dates),
+      totals: totalsFromFirestore(partial.totals),
+      quote: quoteFromFirestore(partial.quote),
+    },
+    units: list(data.units).map(bookingUnitFromFirestore),
+    locationId: strOrNull(data.locationId),
+    pickupSlot: strOrNull(data.pickupSlot),
+    cancellation: cancellationFromFirestore(data.cancellation),
+    revisions: list(data.revisions).map(revisionFromFirestore),
+    checkOut: checkOutFromFirestore(data.checkOut),
+    checkIn: checkInFromFirestore(data.checkIn),
+    inspection: inspectionFromFirestore(data.inspection),
+    settlement: settlementFromFirestore(data.settlement),
+    paymentDueBy: toDate(data.paymentDueBy),
+    invoice: invoiceFromFirestore(data.invoice),
+    pass: passFromFirestore(data.pass),
+  };
+}
+
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+/**
+ * Parses "08:30" into minutes after midnight.
+ */
+export function parseClock(value: unknown): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(str(value).trim());
+  if (!match) {
+    return null;
+  }
+  const minutes = Number(match[1]) * 60 + Number(match[2]);
+  return minutes <= 24 * 60 ? minutes : null;
+}
+
+function openingHoursFromFirestore(raw: unknown): OpeningHours | null {
+  const open = parseClock(doc(raw).open);
+  const close = parseClock(doc(raw).close);
+  return open !== null && close !== null && close > open ? { open, close } : null;
+}
+
+/**
+ * Shop defaults for locations that leave a field out: 08:00-18:00 every
+ * day, half-hour slots, four pick-ups per slot.
+ */
+export const DEFAULT_OPENING_HOURS: OpeningHours = { open: 8 * 60, close: 18 * 60 };
+
+/**
+ * `{ tiers: [{ minHoursBefore: 24, refundRate: 1 }, ...] }`; rates outside
+ * 0-1 are clamped. Null when the location has no tiers of its own.
+ */
+function cancellationPolicyFromFirestore(raw: unknown): CancellationPolicy | null {
+  const tiers = list(doc(raw).tiers);
+  if (tiers.length === 0) {
+    return null;
+  }
+  return {
+    tiers: tiers.map(entry => {
+      const t = doc(entry);
+      return {
+        minHoursBefore: Number(t.minHoursBefore) || 0,
+        refundRate: Math.min(1, Math.max(0, Number(t.refundRate) || 0)),
+      };
+    }),
+  };
+}
+
+const nonNegativeOrNull = (value: unknown) => {
+  const amount = priceOrNull(value);
+  return amount === null ? null : Math.max(0, amount);
+};
+
+/**
+ * `{ graceMinutes, lateFeePerHour, damageCharges: { body: 40, ... } }`, with
+ * only the fields and areas the location sets.
+ */
+function returnPolicyFromFirestore(raw: unknown): ReturnPolicySettings | null {
+  if (!isDoc(raw)) {
+    return null;
+  }
+  const damageCharges: Partial<Record<InspectionArea, number>> = {};
+  Object.entries(doc(raw.damageCharges)).forEach(([area, value]) => {
+    const charge = nonNegativeOrNull(value);
+    if (isInspectionArea(area) && charge !== null) {
+      damageCharges[area] = charge;
+    }
+  });
+  return {
+    graceMinutes: nonNegativeOrNull(raw.graceMinutes),
+    lateFeePerHour: nonNegativeOrNull(raw.lateFeePerHour),
+    damageCharges,
+  };
+}
+
+/**
+ * `hours` is a map keyed by weekday ("mon" ... "sun", or "0" ... "6" with
+ * 0 = Sunday) of `{ open: "08:00", close: "18:00" }`; a missing or null
+ * entry means closed that day.
+ */
+export function locationFromFirestore(id: string, data: RawDoc): Location {
+  const rawHours = isDoc(data.hours) ? data.hours : null;
+  const hours = WEEKDAYS.map((day, i) =>
+    rawHours
+      ? openingHoursFromFirestore(rawHours[day] ?? rawHours[String(i)])
+      : DEFAULT_OPENING_HOURS,
+  );
+  return {
+    id,
+    name: str(data.name),
+    address: str(data.address),
+    hours,
+    blackouts: list(data.blackouts).map(String),
+    slotMinutes: Number(data.slotMinutes) > 0 ? Number(data.slotMinutes) : 30,
+    maxPickupsPerSlot:
+      Number(data.maxPickupsPerSlot) > 0 ? Number(data.maxPickupsPerSlot) : 4,
+    cancellationPolicy: cancellationPolicyFromFirestore(data.cancellationPolicy),
+    returnPolicy: returnPolicyFromFirestore(data.returnPolicy),
+  };
+}
+
+/**
+ * Bookings stored on a `pickupSlots` document: confirmed ones in `bookings`,
+ * those awaiting payment in `pending`, keyed by id with their deadline (an
+ * unreadable deadline counts as passed).
+ */
+export function slotBookingsFromFirestore(data: RawDoc): SlotBooking[] {
+  const confirmed = list(data.bookings).map(String);
+  return [
+    ...confirmed.map(bookingId => ({ bookingId, expiresAt: null })),
+    ...Object.entries(doc(data.pending))
+      .filter(([bookingId]) => !confirmed.includes(bookingId))
+      .map(([bookingId, expiresAt]) => ({ bookingId, expiresAt: toDate(expiresAt) ?? new Date(0) })),
+  ];
+}
+
+/**
+ * Reads `schedules/{cartId}.reservations`, dropping malformed entries.
+ */
+export function reservationsFromFirestore(data: RawDoc): Reservation[] {
+  return list(data.reservations)
+    .map(entry => {
+      const r = doc(entry);
+      const expiresAt = toDate(r.expiresAt);
+      return {
+        bookingId: str(r.bookingId),
+        start: toDate(r.start),
+        end: toDate(r.end),
+        ...(expiresAt ? { expiresAt } : {}),
+      };
+    })
+    .filter(
+      (r: { start: Date | null; end: Date | null }): r is Reservation =>
+        r.start !== null && r.end !== null,
+    );
+}
+
+/**
+ * The raw `reservations` entries minus those of one booking (or session
+ * hold), for writing back when it releases its schedule. Expired holds are
+ * dropped along the way.
+ */
+export function reservationsWithout(
+  data: RawDoc,
+  bookingId: string,
+  now: Date = new Date(),
+): RawDoc[] {
+  return list(data.reservations)
+    .map(doc)
+    .filter(r => {
+      const expiresAt = toDate(r.expiresAt);
+      return str(r.bookingId) !== bookingId && !(expiresAt && expiresAt <= now);
+    });
+}
+
+const DOCUMENT_STATUSES: DocumentStatus[] = ['missing', 'pending', 'verified', 'rejected'];
+
+/**
+ * Reads `documents.{kind}.status`; an upload nobody has reviewed yet is
+ * pending.
+ */
+function documentStatus(raw: unknown, uploaded: boolean): DocumentStatus {
+  const entry = doc(raw);
+  const status = DOCUMENT_STATUSES.find(s => s === (entry.status ?? raw));
+  if (status) {
+    return status;
+  }
+  return uploaded || str(entry.url) ? 'pending' : 'missing';
+}
+
+export function customerFromFirestore(id: string, data: RawDoc): Customer {
+  return {
+    id,
+    firstName: str(data.firstName ?? data.first_name),
+    lastName: str(data.lastName ?? data.last_name),
+    email: str(data.email),
+    phone: str(data.phone ?? data.phoneNumber ?? data.phone_number),
+    dob: str(data.dob),
+    address: str(data.address),
+    city: str(data.city),
+    state: str(data.state),
+    country: str(data.country),
+    zipcode: str(data.zipcode ?? data.postalCode),
+    driverLicense: str(data.driverLicense ?? data.dln),
+    idDocument: str(data.identityDocument ?? data.idDocument),
+    documents: {
+      identity: documentStatus(
+        doc(data.documents).identity,
+        !!str(data.identityDocument ?? data.idDocument),
+      ),
+      driverLicense: documentStatus(doc(data.documents).driverLicense, false),
+    },
+    paymentCustomers: Object.fromEntries(
+      Object.entries(doc(data.paymentCustomers)).map(([provider, customerId]) => [provider, str(customerId)]),
+    ),
+  };
+}
+
+/**
+ * Writes the editable profile fields, storing blanks as null like the
+ * original Payment form did.
+ */
+export function customerToFirestore(
+  customer: Partial<Omit<Customer, 'id' | 'documents' | 'paymentCustomers'>>,
+): RawDoc {
+  const out: RawDoc = {};
+  (Object.keys(customer) as (keyof typeof customer)[]).forEach(key => {
+    const value = customer[key];
+    out[key] = typeof value === 'string' ? value.trim() || null : value ?? null;
+  });
+  return out;
+}
+
+export function businessDetailsFromFirestore(data: RawDoc): BusinessDetails {
+  return {
+    name: str(data.name).trim(),
+    address: str(data.address).trim(),
+    email: str(data.email).trim(),
+    phone: str(data.phone).trim(),
+    taxId: str(data.taxId).trim(),
+  };
+}
+
+export function staffMemberFromFirestore(id: string, data: RawDoc): StaffMember {
+  return {
+    id,
+    name: str(data.name),
+    locationId: strOrNull(data.locationId),
+    active: data.active !== false,
+  };
+}
+
+function paymentDepositFromFirestore(raw: unknown): PaymentDeposit | null {
+  if (!isDoc(raw)) {
+    return null;
+  }
+  return {
+    amount: parsePrice(raw.amount),
+    status: depositStatus(raw.status),
+    captured: parsePrice(raw.captured),
+    released: parsePrice(raw.released),
+    intentId: strOrNull(raw.intentId),
+  };
+}
+
+function pendingRefundFromFirestore(raw: unknown): PendingRefund | null {
+  if (!isDoc(raw)) {
+    return null;
+  }
+  return {
+    rental: parsePrice(raw.rental),
+    refundedBefore: parsePrice(raw.refundedBefore),
+    releaseDeposit: raw.releaseDeposit === true,
+    reason: str(raw.reason) || 'cancellation',
+  };
+}
+
+export function paymentFromFirestore(id: string, data: RawDoc): PaymentRecord {
+  const masked = str(data.masked);
+  return {
+    id,
+    customerId: str(data.customerId),
+    sessionId: strOrNull(data.sessionId),
+    bookingId: strOrNull(data.bookingId),
+    amount: parsePrice(data.amount),
+    currency: str(data.currency) || 'USD',
+    method: str(data.method) || 'card',
+    status: str(data.status),
+    provider: str(data.provider),
+    refundedAmount: parsePrice(data.refundedAmount),
+    capturedAmount: parsePrice(data.capturedAmount),
+    stripeCustomerId: strOrNull(data.stripeCustomerId),
+    paymentIntentId: strOrNull(data.paymentIntentId),
+    amendmentIntentIds: list(data.amendmentIntentIds).map(String),
+    paymentMethodId: strOrNull(data.paymentMethodId),
+    last4: strOrNull(data.last4) ?? (masked ? masked.slice(-4) : null),
+    brand: strOrNull(data.brand),
+    expiry: strOrNull(data.expiry),
+    deposit: paymentDepositFromFirestore(data.deposit),
+    pendingRefund: pendingRefundFromFirestore(data.pendingRefund),
+    createdAt: toDate(data.createdAt),
+  };
+}
+
+// 12+ digits in a row, ignoring spaces and dashes: a card number
+const CARD_NUMBER_RE = /\d(?:[ -]?\d){11,}/;
+
+const assertNoCardNumber = (values: (string | null)[]) => {
+  if (values.some(value => value && CARD_NUMBER_RE.test(value))) {
+    throw new Error('Card numbers must never be stored');
+  }
+};
+
+const last4OrNull = (value: string | null) => (value && /^\d{4}$/.test(value) ? value : null);
+const expiryOrNull = (value: string | null) => (value && /^\d{2}\/\d{2}$/.test(value) ? value : null);
+
+/**
+ * Writes a payment with only the provider's references and the card's
+ * brand, last4 and expiry. Refuses anything that carries a card number.
+ */
+export function paymentToFirestore(
+  payment: Omit<
+    PaymentRecord,
+    | 'id'
+    | 'customerId'
+    | 'sessionId'
+    | 'bookingId'
+    | 'refundedAmount'
+    | 'amendmentIntentIds'
+    | 'pendingRefund'
+    | 'createdAt'
+  >,
+): RawDoc {
+  assertNoCardNumber([payment.method, payment.brand, payment.paymentMethodId, payment.stripeCustomerId]);
+  return {
+    amount: payment.amount,
+    currency: payment.currency,
+    method: payment.method,
+    status: payment.status,
+    provider: payment.provider,
+    capturedAmount: payment.capturedAmount,
+    stripeCustomerId: payment.stripeCustomerId,
+    paymentIntentId: payment.paymentIntentId,
+    paymentMethodId: payment.paymentMethodId,
+    last4: last4OrNull(payment.last4),
+    brand: payment.brand,
+    expiry: expiryOrNull(payment.expiry),
+    deposit: payment.deposit,
+  };
+}
+
+export function paymentMethodFromFirestore(id: string, data: RawDoc): PaymentMethod {
+  return {
+    id,
+    customerId: str(data.customerId),
+    provider: str(data.provider),
+    tokenId: str(data.tokenId),
+    brand: str(data.brand),
+    last4: str(data.last4),
+    expiry: str(data.expiry),
+    isDefault: data.isDefault === true,
+    createdAt: toDate(data.createdAt),
+  };
+}
+
+/**
+ * Same rules as paymentToFirestore: the token and the card summary only.
+ */
+export function paymentMethodToFirestore(
+  method: Pick<PaymentMethod, 'provider' | 'tokenId' | 'brand' | 'last4' | 'expiry'>,
+): RawDoc {
+  assertNoCardNumber([method.tokenId, method.brand]);
+  const last4 = last4OrNull(method.last4);
+  if (!method.tokenId || !last4) {
+    throw new Error('A saved card needs its provider token and last four digits');
+  }
+  return {
+    provider: method.provider,
+    tokenId: method.tokenId,
+    brand: method.brand,
+    last4,
+    expiry: expiryOrNull(method.expiry) ?? '',
+  };
+}
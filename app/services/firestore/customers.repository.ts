@@ -0,0 +1,46 @@
+// app/services/firestore/customers.repository.ts
+import firestore from '@react-native-firebase/firestore';
+import { Collections } from './collections';
+import { customerFromFirestore, customerToFirestore } from './converters';
+import type { Customer } from './models';
+
+export async function getCustomer(uid: string): Promise<Customer | null> {
+  const snap = await firestore().collection(Collections.customers).doc(uid).get();
+  return snap.exists() ? customerFromFirestore(snap.id, snap.data()!) : null;
+}
+
+/**
+ * Merges profile fields into `customers/{uid}`.
+ */
+export async function saveCustomer(
+  uid: string,
+  fields: Partial<Omit<Customer, 'id' | 'documents' | 'paymentCustomers'>>,
+) {
+  await firestore()
+    .collection(Collections.customers)
+    .doc(uid)
+    .set(
+      {
+        ...customerToFirestore(fields),
+        updatedAt: firestore.FieldValue.serverTimestamp(),
+      },
+      { merge: true },
+    );
+}
+
+/**
+ * Remembers the customer's id with a payment provider so later checkouts
+ * reuse it.
+ */
+export async function savePaymentCustomer(uid: string, provider: string, customerId: string) {
+  await firestore()
+    .collection(Collections.customers)
+    .doc(uid)
+    .set(
+      {
+        paymentCustomers: { [provider]: customerId },
+        updatedAt: firestore.FieldValue.serverTimestamp(),
+      },
+      { merge: true },
+    );
+}
@@ -0,0 +1,133 @@
+// app/services/firestore/holds.repository.ts
+import firestore from '@react-native-firebase/firestore';
+import { allocateUnits, toInterval } from '../availability';
+import { holdExpiry } from '../holds';
+import { Collections } from './collections';
+import {
+  reservationsFromFirestore,
+  reservationsWithout,
+  sessionFromFirestore,
+} from './converters';
+import { scheduleRef } from './schedules.repository';
+import { getModelUnits } from './units.repository';
+import type { BookingDates, Reservation, SessionHold } from './models';
+
+export type HoldRequest = {
+  cartId: string;
+  qty: number;
+  label: string;
+};
+
+/**
+ * Holds units of every requested model for the session until the hold
+ * expires, replacing any hold the session already had. Throws when a model
+ * has run out. Returns the new hold.
+ */
+export async function placeHold(
+  sessionId: string,
+  requests: HoldRequest[],
+  dates: BookingDates,
+): Promise<SessionHold> {
+  const window = toInterval(dates);
+  if (!window) {
+    throw new Error('Pick-up and drop-off times are required.');
+  }
+  const db = firestore();
+  const sessionRef = db.collection(Collections.sessions).doc(sessionId);
+  // Unit lists are read up front: queries can't run inside a transaction.
+  const candidates = await Promise.all(requests.map(r => getModelUnits(r.cartId)));
+  const expiresAt = holdExpiry();
+  let hold: SessionHold = { unitIds: [], expiresAt };
+
+  await db.runTransaction(async tx => {
+    const sessionSnap = await tx.get(sessionRef);
+    if (!sessionSnap.exists()) {
+      throw new Error('Session not found');
+    }
+    const previous = sessionFromFirestore(sessionSnap.id, sessionSnap.data()!).hold;
+
+    // Every schedule the session holds now or is about to hold.
+    const unitIds = Array.from(
+      new Set([...candidates.flat().map(u => u.id), ...(previous?.unitIds ?? [])]),
+    );
+    const schedules: Record<string, { [key: string]: any }> = {};
+    await Promise.all(
+      unitIds.map(async id => {
+        const snap = await tx.get(scheduleRef(id));
+        schedules[id] = snap.exists() ? snap.data()! : {};
+      }),
+    );
+    const reservations: Record<string, Reservation[]> = Object.fromEntries(
+      unitIds.map(id => [id, reservationsFromFirestore(schedules[id])]),
+    );
+
+    const held: string[] = [];
+    requests.forEach((request, i) => {
+      const allocated = allocateUnits(
+        candidates[i],
+        reservations,
+        dates,
+        request.qty,
+        sessionId,
+      );
+      if (!allocated) {
+        throw new Error(`${request.label || 'This cart'} is no longer available for the selected times.`);
+      }
+      held.push(...allocated.map(u => u.id));
+    });
+
+    // Drop the old hold everywhere, then add the new one.
+    const entry = { bookingId: sessionId, start: window.start, end: window.end, expiresAt };
+    unitIds.forEach(id => {
+      const had = reservations[id].some(r => r.bookingId === sessionId);
+      const gets = held.includes(id);
+      if (had || gets) {
+        const next = reservationsWithout(schedules[id], sessionId);
+        tx.set(scheduleRef(id), { reservations: gets ? [...next, entry] : next }, { merge: true });
+      }
+    });
+
+    hold = { unitIds: held, expiresAt };
+    tx.update(sessionRef, {
+      hold,
+      updatedAt: firestore.FieldValue.serverTimestamp(),
+    });
+  });
+
+  return hold;
+}
+
+/**
+ * Gives back whatever the session holds, e.g. when the hold expires or the
+ * customer abandons checkout.
+ */
+export async function releaseHold(sessionId: string) {
+  const db = firestore();
+  const sessionRef = db.collection(Collections.sessions).doc(sessionId);
+
+  await db.runTransaction(async tx => {
+    const sessionSnap = await tx.get(sessionRef);
+    if (!sessionSnap.exists()) {
+      return;
+    }
+    const hold = sessionFromFirestore(sessionSnap.id, sessionSnap.data()!).hold;
+    if (!hold) {
+      return;
+    }
+    const snaps = await Promise.all(hold.unitIds.map(id => tx.get(scheduleRef(id))));
+
+    snaps.forEach((snap, i) => {
+      if (snap.exists()) {
+        tx.set(
+          scheduleRef(hold.unitIds[i]),
+          { reservations: reservationsWithout(snap.data()!, sessionId) },
+          { merge: true },
+        );
+      }
+    });
+    tx.update(sessionRef, {
+      hold: null,
+      updatedAt: firestore.FieldValue.serverTimestamp(),
+    });
+  });
+}
@@ -0,0 +1,16 @@
+export * from './models';
+export * from './converters';
+export * from './carts.repository';
+export * from './addons.repository';
+export * from './sessions.repository';
+export * from './bookings.repository';
+export * from './customers.repository';
+export * from './payments.repository';
+export * from './schedules.repository';
+export * from './units.repository';
+export * from './locations.repository';
+export * from './holds.repository';
+export * from './staff.repository';
+export * from './photos.repository';
+export * from './invoices.repository';
+export * from './settings.repository';
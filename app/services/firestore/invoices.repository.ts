@@ -0,0 +1,58 @@
+// app/services/firestore/invoices.repository.ts
+import firestore from '@react-native-firebase/firestore';
+import { assertInvoiceDetails, canIssueInvoice, formatInvoiceNumber } from '../receipts';
+import { Collections } from './collections';
+import { bookingFromFirestore, businessDetailsFromFirestore, paymentFromFirestore } from './converters';
+import { getBookingPayment } from './payments.repository';
+import { businessDetailsRef } from './settings.repository';
+import type { BookingInvoice } from './models';
+
+const invoiceCounterRef = () =>
+  firestore().collection(Collections.counters).doc('invoices');
+
+/**
+ * The booking's invoice number, issuing the next one in the sequence the
+ * first time it is asked for, once the booking's payment is captured and
+ * the business details an invoice needs are set up. Runs
+ * in a transaction with the counter, so numbers are sequential with no gaps
+ * and never given to two bookings.
+ */
+export async function issueInvoice(bookingId: string): Promise<BookingInvoice> {
+  const db = firestore();
+  const ref = db.collection(Collections.bookings).doc(bookingId);
+  const counterRef = invoiceCounterRef();
+  // Queries can't run inside a transaction; the payment doc is re-read there.
+  const found = await getBookingPayment(bookingId);
+  const paymentRef = found ? db.collection(Collections.payments).doc(found.id) : null;
+
+  return db.runTransaction(async tx => {
+    const snap = await tx.get(ref);
+    if (!snap.exists()) {
+      throw new Error('Booking not found');
+    }
+    const booking = bookingFromFirestore(snap.id, snap.data()!);
+    if (booking.invoice) {
+      return booking.invoice;
+    }
+    const paymentSnap = paymentRef ? await tx.get(paymentRef) : null;
+    const payment = paymentSnap?.exists()
+      ? paymentFromFirestore(paymentSnap.id, paymentSnap.data()!)
+      : null;
+    if (!canIssueInvoice(booking, payment)) {
+      throw new Error('An invoice is issued once the booking is paid.');
+    }
+    const business = await tx.get(businessDetailsRef());
+    assertInvoiceDetails(businessDetailsFromFirestore(business.exists() ? business.data()! : {}));
+    const counter = await tx.get(counterRef);
+    const last = counter.exists() ? Number(counter.data()!.last) || 0 : 0;
+
+    const invoice: BookingInvoice = {
+      number: formatInvoiceNumber(last + 1),
+      sequence: last + 1,
+      issuedAt: new Date(),
+    };
+    tx.set(counterRef, { last: invoice.sequence }, { merge: true });
+    tx.update(ref, { invoice, updatedAt: firestore.FieldValue.serverTimestamp() });
+    return invoice;
+  });
+}
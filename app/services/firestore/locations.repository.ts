@@ -0,0 +1,46 @@
+// app/services/firestore/locations.repository.ts
+import firestore from '@react-native-firebase/firestore';
+import { slotBookingCount, slotDocId } from '../opening-hours';
+import { Collections } from './collections';
+import { locationFromFirestore, slotBookingsFromFirestore } from './converters';
+import type { Location } from './models';
+
+/**
+ * The shop only has one pick-up location for now.
+ */
+export const DEFAULT_LOCATION_ID = 'main';
+
+/**
+ * Loads a location's configuration. A location without a document falls
+ * back to the default hours and slot settings.
+ */
+export async function getLocation(id: string = DEFAULT_LOCATION_ID): Promise<Location> {
+  const snap = await firestore().collection(Collections.locations).doc(id).get();
+  return locationFromFirestore(id, snap.exists() ? snap.data()! : {});
+}
+
+export const pickupSlotRef = (locationId: string, key: string) =>
+  firestore().collection(Collections.pickupSlots).doc(slotDocId(locationId, key));
+
+/**
+ * Bookings already starting in each of the given slots, not counting
+ * `ignoreBookingId`. Advisory only; `createPendingBooking` re-checks the slot
+ * before writing.
+ */
+export async function getSlotCounts(
+  locationId: string,
+  keys: string[],
+  ignoreBookingId?: string,
+): Promise<Record<string, number>> {
+  const counts: Record<string, number> = {};
+  await Promise.all(
+    keys.map(async key => {
+      const snap = await pickupSlotRef(locationId, key).get();
+      counts[key] = slotBookingCount(
+        slotBookingsFromFirestore(snap.exists() ? snap.data()! : {}),
+        ignoreBookingId,
+      );
+    }),
+  );
+  return counts;
+}
@@ -0,0 +1,490 @@
+// app/services/firestore/models.ts
+//
+// Typed domain models for the documents the app reads and writes.
+// Screens only ever see these shapes; the legacy field variants stored in
+// Firestore are handled by the converters.
+import type { AddonPricingUnit, Quote } from '../pricing';
+
+export type Cart = {
+  id: string;
+  cartId: string;
+  brand: string;
+  model: string;
+  passengers: string;
+  battery: string;
+  dailyPrice: number;
+  hourlyPrice: number | null;
+  imageUrl: string;
+  addons: string[];
+};
+
+/**
+ * An entry in the `addons` catalog. `stock` is how many can be out at the
+ * same time (null for unlimited); an empty `modelIds` fits every cart model.
+ */
+export type Addon = {
+  id: string;
+  label: string;
+  description: string;
+  price: number;
+  unit: AddonPricingUnit;
+  stock: number | null;
+  modelIds: string[];
+  active: boolean;
+};
+
+/**
+ * Opening and closing time for one weekday, in minutes after midnight.
+ */
+export type OpeningHours = {
+  open: number;
+  close: number;
+};
+
+/**
+ * Cancelling at least `minHoursBefore` pick-up refunds `refundRate` (0-1)
+ * of the rental.
+ */
+export type CancellationTier = {
+  minHoursBefore: number;
+  refundRate: number;
+};
+
+export type CancellationPolicy = {
+  tiers: CancellationTier[];
+};
+
+/**
+ * Parts of a cart staff check when it comes back.
+ */
+export type InspectionArea = 'body' | 'seats' | 'tyres' | 'glass' | 'lights' | 'charger';
+
+/**
+ * Charges taken from the deposit at return: `lateFeePerHour` for every
+ * started hour past drop-off once `graceMinutes` have passed, and a fixed
+ * charge for each damaged area.
+ */
+export type ReturnPolicy = {
+  graceMinutes: number;
+  lateFeePerHour: number;
+  damageCharges: Record<InspectionArea, number>;
+};
+
+/**
+ * A location's own return policy fields; anything left out (null or a
+ * missing area) falls back to the default policy (see returnPolicyFor).
+ */
+export type ReturnPolicySettings = {
+  graceMinutes: number | null;
+  lateFeePerHour: number | null;
+  damageCharges: Partial<Record<InspectionArea, number>>;
+};
+
+/**
+ * A pick-up location. `hours` is indexed like `Date.getDay()` (0 = Sunday),
+ * null for closed days; `blackouts` are extra closed dates as YYYY-MM-DD.
+ * At most `maxPickupsPerSlot` bookings may start in each slot. The policies
+ * are null when the location doesn't set its own.
+ */
+export type Location = {
+  id: string;
+  name: string;
+  address: string;
+  hours: (OpeningHours | null)[];
+  blackouts: string[];
+  slotMinutes: number;
+  maxPickupsPerSlot: number;
+  cancellationPolicy: CancellationPolicy | null;
+  returnPolicy: ReturnPolicySettings | null;
+};
+
+export type CartUnitStatus = 'available' | 'maintenance' | 'retired';
+
+/**
+ * A physical cart. `modelId` points at the `carts` document it is an
+ * instance of.
+ */
+export type CartUnit = {
+  id: string;
+  modelId: string;
+  serial: string;
+  plate: string;
+  status: CartUnitStatus;
+  battery: number | null;
+};
+
+export type BookingDates = {
+  start: Date | null;
+  end: Date | null;
+};
+
+export type PartialBooking = {
+  carts: string[];
+  quantities: Record<string, number>;
+  addons: string[];
+  dates: BookingDates;
+};
+
+export type SessionStatus = 'in_progress' | 'booked' | 'abandoned';
+
+/**
+ * Units held for a session between Details and Payment.
+ */
+export type SessionHold = {
+  unitIds: string[];
+  expiresAt: Date;
+};
+
+/**
+ * A checkout session. Sessions started from "Modify booking" carry the id
+ * of the booking they amend.
+ */
+export type Session = {
+  id: string;
+  customerId: string;
+  status: SessionStatus;
+  partialBooking: PartialBooking;
+  bookingRef: string | null;
+  amendsBookingId: string | null;
+  hold: SessionHold | null;
+  createdAt: Date | null;
+  updatedAt: Date | null;
+};
+
+export type BookingCart = {
+  id: string;
+  brand: string;
+  model: string;
+  imageUrl: string;
+  dailyPrice: number;
+  qty: number;
+};
+
+/**
+ * The unit handed over for one of the booked carts.
+ */
+export type BookingUnit = {
+  unitId: string;
+  modelId: string;
+  serial: string;
+  plate: string;
+};
+
+export type BookingTotals = {
+  base: number;
+  tax: number;
+  deposit: number;
+  total: number;
+};
+
+export type BookingStatus =
+  | 'pending_payment'
+  | 'confirmed'
+  | 'checked_out'
+  | 'returned'
+  | 'closed'
+  | 'cancelled'
+  | 'no_show';
+
+/**
+ * One entry in a booking's `statusHistory`. `actor` is the uid of whoever
+ * made the change, or "system".
+ */
+export type StatusChange = {
+  status: BookingStatus;
+  at: Date | null;
+  actor: string;
+  note: string | null;
+};
+
+/**
+ * Recorded on a booking when it is cancelled.
+ */
+export type BookingCancellation = {
+  at: Date | null;
+  actor: string;
+  refund: number;
+  fee: number;
+};
+
+/**
+ * A previous version of an amended booking, kept on `revisions`.
+ * `difference` is what the amendment charged (positive) or refunded
+ * (negative). `paymentIntentId` is the provider charge for an increase;
+ * refunds go through the payment's pending refund.
+ */
+export type BookingRevision = {
+  at: Date | null;
+  actor: string;
+  dates: BookingDates;
+  carts: BookingCart[];
+  addons: string[];
+  total: number;
+  difference: number;
+  paymentIntentId: string | null;
+};
+
+/**
+ * Battery (percent) and hour-meter readings for one unit, taken at the
+ * counter.
+ */
+export type UnitReading = {
+  unitId: string;
+  battery: number;
+  hours: number;
+};
+
+/**
+ * Recorded by staff when the carts are handed over.
+ */
+export type BookingCheckOut = {
+  at: Date | null;
+  staffId: string;
+  readings: UnitReading[];
+};
+
+/**
+ * Recorded by staff when the carts come back.
+ */
+export type BookingCheckIn = {
+  at: Date | null;
+  staffId: string;
+  readings: UnitReading[];
+  note: string | null;
+};
+
+/**
+ * One cart's checklist: the areas staff found damaged.
+ */
+export type CartInspection = {
+  unitId: string;
+  damaged: InspectionArea[];
+};
+
+/**
+ * The return inspection. `photos` are download URLs in Storage.
+ */
+export type BookingInspection = {
+  at: Date | null;
+  staffId: string;
+  carts: CartInspection[];
+  notes: string;
+  photos: string[];
+};
+
+/**
+ * `held` from payment until return; afterwards whether any of it was kept.
+ */
+export type DepositStatus = 'held' | 'released' | 'partially_captured' | 'captured';
+
+/**
+ * How the deposit was settled after inspection. `outstanding` is what the
+ * charges came to beyond the deposit.
+ */
+export type DepositSettlement = {
+  at: Date | null;
+  staffId: string;
+  deposit: number;
+  lateFee: number;
+  damageFee: number;
+  captured: number;
+  released: number;
+  outstanding: number;
+  status: DepositStatus;
+};
+
+/**
+ * The invoice number a booking was given. Numbers come from one gapless
+ * sequence (`counters/invoices`) and are issued once per booking.
+ */
+export type BookingInvoice = {
+  number: string;
+  sequence: number;
+  issuedAt: Date | null;
+};
+
+/**
+ * The pick-up pass issued when a booking was confirmed. `code` is the text
+ * in the QR code and `fallbackCode` the eight characters shown under it,
+ * stored without the dash. Staff accept a pass only if it matches this
+ * record (see verifyPass).
+ */
+export type BookingPassRecord = {
+  code: string;
+  fallbackCode: string;
+  issuedAt: Date | null;
+};
+
+/**
+ * `paymentDueBy` is set while the booking awaits payment; its units are
+ * released after it.
+ */
+export type Booking = {
+  id: string;
+  customerId: string;
+  sessionId: string | null;
+  status: BookingStatus;
+  statusHistory: StatusChange[];
+  createdAt: Date | null;
+  partialBooking: {
+    carts: BookingCart[];
+    addons: string[];
+    dates: BookingDates;
+    totals: BookingTotals | null;
+    quote: Quote | null;
+  };
+  units: BookingUnit[];
+  locationId: string | null;
+  pickupSlot: string | null;
+  cancellation: BookingCancellation | null;
+  revisions: BookingRevision[];
+  checkOut: BookingCheckOut | null;
+  checkIn: BookingCheckIn | null;
+  inspection: BookingInspection | null;
+  settlement: DepositSettlement | null;
+  paymentDueBy: Date | null;
+  invoice: BookingInvoice | null;
+  pass: BookingPassRecord | null;
+};
+
+/**
+ * One entry in `schedules/{unitId}.reservations`. Checkout holds are
+ * entries keyed by the session id that carry an `expiresAt`.
+ */
+export type Reservation = {
+  bookingId: string;
+  start: Date;
+  end: Date;
+  expiresAt?: Date;
+};
+
+/**
+ * One booking counted on a `pickupSlots` document. Bookings awaiting
+ * payment carry their payment deadline and stop counting after it.
+ */
+export type SlotBooking = {
+  bookingId: string;
+  expiresAt: Date | null;
+};
+
+/**
+ * Review state of an uploaded identity document or driver's licence; set by
+ * staff, never by the customer.
+ */
+export type DocumentStatus = 'missing' | 'pending' | 'verified' | 'rejected';
+
+export type CustomerDocuments = {
+  identity: DocumentStatus;
+  driverLicense: DocumentStatus;
+};
+
+/**
+ * `paymentCustomers` maps a payment provider's name to the customer's id
+ * with it.
+ */
+export type Customer = {
+  id: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone: string;
+  dob: string;
+  address: string;
+  city: string;
+  state: string;
+  country: string;
+  zipcode: string;
+  driverLicense: string;
+  idDocument: string;
+  documents: CustomerDocuments;
+  paymentCustomers: Record<string, string>;
+};
+
+/**
+ * The business as it appears on invoices, from the `settings/business`
+ * document.
+ */
+export type BusinessDetails = {
+  name: string;
+  address: string;
+  email: string;
+  phone: string;
+  taxId: string;
+};
+
+/**
+ * A `staff/{uid}` document; only active staff can open counter mode.
+ */
+export type StaffMember = {
+  id: string;
+  name: string;
+  locationId: string | null;
+  active: boolean;
+};
+
+/**
+ * The deposit part of a payment and what became of it.
+ */
+export type PaymentDeposit = {
+  amount: number;
+  status: DepositStatus;
+  captured: number;
+  released: number;
+  intentId: string | null;
+};
+
+/**
+ * A refund decided on but not yet confirmed by the provider. The payment
+ * shows `refund_pending` until completeRefund records it. `refundedBefore`
+ * is the payment's refundedAmount when the refund was decided;
+ * `releaseDeposit` is set when the booking was cancelled.
+ */
+export type PendingRefund = {
+  rental: number;
+  refundedBefore: number;
+  releaseDeposit: boolean;
+  reason: string;
+};
+
+export type PaymentRecord = {
+  id: string;
+  customerId: string;
+  sessionId: string | null;
+  bookingId: string | null;
+  amount: number;
+  currency: string;
+  method: string;
+  status: string;
+  provider: string;
+  refundedAmount: number;
+  /** Rental money taken so far, including booking changes. */
+  capturedAmount: number;
+  stripeCustomerId: string | null;
+  paymentIntentId: string | null;
+  /** Charges for booking changes, oldest first. */
+  amendmentIntentIds: string[];
+  paymentMethodId: string | null;
+  last4: string | null;
+  brand: string | null;
+  expiry: string | null;
+  deposit: PaymentDeposit | null;
+  pendingRefund: PendingRefund | null;
+  createdAt: Date | null;
+};
+
+/**
+ * A card the customer saved for later checkouts: the provider's reusable
+ * token plus what is needed to show it. Charges are separate
+ * PaymentRecords, one per booking.
+ */
+export type PaymentMethod = {
+  id: string;
+  customerId: string;
+  provider: string;
+  tokenId: string;
+  brand: string;
+  last4: string;
+  expiry: string;
+  isDefault: boolean;
+  createdAt: Date | null;
+};
@@ -0,0 +1,203 @@
+// app/services/firestore/payments.repository.ts
+import firestore from '@react-native-firebase/firestore';
+import { nextDefaultAfterRemoving, samePaymentMethod, sortPaymentMethods } from '../payment-methods';
+import { roundMoney } from '../pricing';
+import { Collections } from './collections';
+import {
+  paymentFromFirestore,
+  paymentMethodFromFirestore,
+  paymentMethodToFirestore,
+} from './converters';
+import type { PaymentMethod, PaymentRecord } from './models';
+
+export type NewPaymentMethod = Pick<PaymentMethod, 'provider' | 'tokenId' | 'brand' | 'last4' | 'expiry'>;
+
+/**
+ * The payment taken for a booking, if one was recorded.
+ */
+export async function getBookingPayment(
+  bookingId: string,
+): Promise<PaymentRecord | null> {
+  const qs = await firestore()
+    .collection(Collections.payments)
+    .where('bookingId', '==', bookingId)
+    .limit(1)
+    .get();
+  return qs.empty ? null : paymentFromFirestore(qs.docs[0].id, qs.docs[0].data());
+}
+
+/**
+ * The provider intents holding the booking's rental money, oldest first.
+ */
+export const rentalIntentIds = (record: PaymentRecord): string[] =>
+  [record.paymentIntentId, ...record.amendmentIntentIds].filter((id): id is string => !!id);
+
+/**
+ * Rental money the payment has taken. Payments recorded before
+ * `capturedAmount` was kept took their total less the deposit.
+ */
+export const capturedRental = (record: PaymentRecord) =>
+  record.capturedAmount || roundMoney(record.amount - (record.deposit?.amount ?? 0));
+
+/**
+ * The fields that add a refund of `amount` to a payment. Only captured
+ * money counts: a deposit hold that is released was never taken.
+ */
+export function refundFields(record: PaymentRecord, amount: number, reason: string) {
+  const refunded = roundMoney(record.refundedAmount + amount);
+  const paid = capturedRental(record);
+  let status = 'captured';
+  if (refunded >= paid) {
+    status = 'refunded';
+  } else if (refunded > 0) {
+    status = 'partially_refunded';
+  }
+  return {
+    refundedAmount: refunded,
+    status,
+    ...(amount > 0
+      ? { refunds: firestore.FieldValue.arrayUnion({ amount, reason, at: new Date() }) }
+      : {}),
+  };
+}
+
+/**
+ * The fields that make a payment owe a refund of `amount`, on top of any
+ * refund it already owes. See completeRefund.
+ */
+export function pendingRefundFields(
+  record: PaymentRecord,
+  amount: number,
+  reason: string,
+  releaseDeposit: boolean,
+) {
+  const owed = record.pendingRefund;
+  return {
+    status: 'refund_pending',
+    pendingRefund: {
+      rental: roundMoney((owed?.rental ?? 0) + amount),
+      refundedBefore: owed?.refundedBefore ?? record.refundedAmount,
+      releaseDeposit: releaseDeposit || (owed?.releaseDeposit ?? false),
+      reason,
+    },
+  };
+}
+
+/**
+ * Records a pending refund once the provider has sent it, releasing the
+ * deposit hold with it. Does nothing when no refund is pending, so it is
+ * safe to call again.
+ */
+export async function completeRefund(paymentId: string) {
+  const db = firestore();
+  const ref = db.collection(Collections.payments).doc(paymentId);
+  await db.runTransaction(async tx => {
+    const snap = await tx.get(ref);
+    if (!snap.exists()) {
+      throw new Error('Payment not found');
+    }
+    const record = paymentFromFirestore(snap.id, snap.data()!);
+    const pending = record.pendingRefund;
+    if (!pending) {
+      return;
+    }
+    tx.update(ref, {
+      ...refundFields(record, pending.rental, pending.reason),
+      pendingRefund: null,
+      ...(pending.releaseDeposit && record.deposit?.status === 'held'
+        ? { deposit: { ...record.deposit, status: 'released', released: record.deposit.amount } }
+        : {}),
+    });
+  });
+}
+
+/**
+ * The customer's saved cards, default first.
+ */
+export async function getPaymentMethods(customerId: string): Promise<PaymentMethod[]> {
+  const qs = await firestore()
+    .collection(Collections.paymentMethods)
+    .where('customerId', '==', customerId)
+    .get();
+  return sortPaymentMethods(qs.docs.map(d => paymentMethodFromFirestore(d.id, d.data())));
+}
+
+/**
+ * Saves a tokenized card for later checkouts and returns its id. A card
+ * already on file gets the new token; the first card saved becomes the
+ * default.
+ */
+export async function savePaymentMethod(
+  customerId: string,
+  method: NewPaymentMethod,
+  makeDefault = false,
+): Promise<string> {
+  const db = firestore();
+  const existing = await getPaymentMethods(customerId);
+  const match = existing.find(m => samePaymentMethod(m, method));
+  const ref = match
+    ? db.collection(Collections.paymentMethods).doc(match.id)
+    : db.collection(Collections.paymentMethods).doc();
+  const isDefault = makeDefault || (match ? match.isDefault : !existing.some(m => m.isDefault));
+
+  const batch = db.batch();
+  if (isDefault) {
+    existing
+      .filter(m => m.isDefault && m.id !== ref.id)
+      .forEach(m => batch.update(db.collection(Collections.paymentMethods).doc(m.id), { isDefault: false }));
+  }
+  batch.set(
+    ref,
+    {
+      ...paymentMethodToFirestore(method),
+      customerId,
+      isDefault,
+      updatedAt: firestore.FieldValue.serverTimestamp(),
+      ...(match ? {} : { createdAt: firestore.FieldValue.serverTimestamp() }),
+    },
+    { merge: true },
+  );
+  await batch.commit();
+  return ref.id;
+}
+
+export async function setDefaultPaymentMethod(customerId: string, methodId: string) {
+  const db = firestore();
+  const methods = await getPaymentMethods(customerId);
+  if (!methods.some(m => m.id === methodId)) {
+    throw new Error('Payment method not found');
+  }
+  const batch = db.batch();
+  methods
+    .filter(m => m.isDefault !== (m.id === methodId))
+    .forEach(m =>
+      batch.update(db.collection(Collections.paymentMethods).doc(m.id), {
+        isDefault: m.id === methodId,
+        updatedAt: firestore.FieldValue.serverTimestamp(),
+      }),
+    );
+  await batch.commit();
+}
+
+/**
+ * Forgets a saved card, once it has been detached at the provider (see
+ * PaymentProvider.detachCard). Past charges keep their own copy of the card
+ * summary, so receipts are unaffected.
+ */
+export async function removePaymentMethod(customerId: string, methodId: string) {
+  const db = firestore();
+  const methods = await getPaymentMethods(customerId);
+  if (!methods.some(m => m.id === methodId)) {
+    throw new Error('Payment method not found');
+  }
+  const next = nextDefaultAfterRemoving(methods, methodId);
+  const batch = db.batch();
+  batch.delete(db.collection(Collections.paymentMethods).doc(methodId));
+  if (next) {
+    batch.update(db.collection(Collections.paymentMethods).doc(next.id), {
+      isDefault: true,
+      updatedAt: firestore.FieldValue.serverTimestamp(),
+    });
+  }
+  await batch.commit();
+}
@@ -0,0 +1,20 @@
+// app/services/firestore/photos.repository.ts
+import storage from '@react-native-firebase/storage';
+
+/**
+ * Uploads photos picked on the device for a booking's return inspection
+ * and returns their download URLs, in order.
+ */
+export async function uploadInspectionPhotos(
+  bookingId: string,
+  uris: string[],
+): Promise<string[]> {
+  const batch = Date.now();
+  return Promise.all(
+    uris.map(async (uri, i) => {
+      const ref = storage().ref(`inspections/${bookingId}/${batch}-${i}.jpg`);
+      await ref.putFile(uri);
+      return ref.getDownloadURL();
+    }),
+  );
+}
@@ -0,0 +1,28 @@
+// app/services/firestore/schedules.repository.ts
+import firestore from '@react-native-firebase/firestore';
+import { Collections } from './collections';
+import { reservationsFromFirestore } from './converters';
+import type { Reservation } from './models';
+
+export const scheduleRef = (resourceId: string) =>
+  firestore().collection(Collections.schedules).doc(resourceId);
+
+/**
+ * Current reservations for a cart. Outside a transaction this is advisory
+ * only; `createPendingBooking` re-checks before writing.
+ */
+export async function getReservations(resourceId: string): Promise<Reservation[]> {
+  const snap = await scheduleRef(resourceId).get();
+  return snap.exists() ? reservationsFromFirestore(snap.data()!) : [];
+}
+
+/**
+ * Add-on stock is booked the same way, one schedule per catalog entry.
+ */
+export const addonScheduleRef = (addonId: string) =>
+  firestore().collection(Collections.addonSchedules).doc(addonId);
+
+export async function getAddonReservations(addonId: string): Promise<Reservation[]> {
+  const snap = await addonScheduleRef(addonId).get();
+  return snap.exists() ? reservationsFromFirestore(snap.data()!) : [];
+}
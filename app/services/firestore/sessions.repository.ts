@@ -0,0 +1,136 @@
+// app/services/firestore/sessions.repository.ts
+import firestore from '@react-native-firebase/firestore';
+import { Collections } from './collections';
+import { selectionFromBooking } from '../amendment';
+import { sessionFromFirestore } from './converters';
+import { releaseHold } from './holds.repository';
+import type { Booking, PartialBooking, Session } from './models';
+
+/**
+ * Starts a checkout session for the selected cart models, keyed by model id
+ * with the number of units wanted.
+ */
+export async function createSession(
+  customerId: string,
+  selection: Record<string, number>,
+): Promise<string> {
+  const ref = await firestore().collection(Collections.sessions).add({
+    customerId,
+    createdAt: firestore.FieldValue.serverTimestamp(),
+    partialBooking: {
+      carts: Object.keys(selection),
+      quantities: selection,
+      addons: [],
+      dates: {},
+    },
+    status: 'in_progress',
+    updatedAt: firestore.FieldValue.serverTimestamp(),
+  });
+  return ref.id;
+}
+
+/**
+ * Starts a session for modifying a booking, seeded with its current
+ * selection.
+ */
+export async function createAmendmentSession(booking: Booking): Promise<string> {
+  const ref = await firestore().collection(Collections.sessions).add({
+    customerId: booking.customerId,
+    createdAt: firestore.FieldValue.serverTimestamp(),
+    partialBooking: selectionFromBooking(booking),
+    amendsBookingId: booking.id,
+    status: 'in_progress',
+    updatedAt: firestore.FieldValue.serverTimestamp(),
+  });
+  return ref.id;
+}
+
+/**
+ * The customer's in-progress sessions, for offering to resume one.
+ */
+export async function getOpenSessions(customerId: string): Promise<Session[]> {
+  const snap = await firestore()
+    .collection(Collections.sessions)
+    .where('customerId', '==', customerId)
+    .where('status', '==', 'in_progress')
+    .get();
+  return snap.docs.map(d => sessionFromFirestore(d.id, d.data()));
+}
+
+/**
+ * Reuses a resumed session for a new cart selection, keeping its dates and
+ * add-ons.
+ */
+export async function saveSessionSelection(
+  id: string,
+  selection: Record<string, number>,
+) {
+  await firestore().collection(Collections.sessions).doc(id).update({
+    'partialBooking.carts': Object.keys(selection),
+    'partialBooking.quantities': selection,
+    updatedAt: firestore.FieldValue.serverTimestamp(),
+  });
+}
+
+/**
+ * Marks a session the customer chose not to continue, giving back any
+ * carts it holds.
+ */
+export async function abandonSession(id: string) {
+  await releaseHold(id);
+  await firestore().collection(Collections.sessions).doc(id).update({
+    status: 'abandoned',
+    updatedAt: firestore.FieldValue.serverTimestamp(),
+  });
+}
+
+export async function getSession(id: string): Promise<Session> {
+  const snap = await firestore().collection(Collections.sessions).doc(id).get();
+  if (!snap.exists()) {
+    throw new Error('Session not found');
+  }
+  return sessionFromFirestore(snap.id, snap.data()!);
+}
+
+/**
+ * Saves the Details step: chosen carts, add-ons and rental window.
+ */
+export async function saveSessionDetails(
+  id: string,
+  details: PartialBooking,
+) {
+  await firestore().collection(Collections.sessions).doc(id).update({
+    'partialBooking.dates.start': details.dates.start,
+    'partialBooking.dates.end': details.dates.end,
+    'partialBooking.addons': details.addons,
+    'partialBooking.carts': details.carts,
+    'partialBooking.quantities': details.quantities,
+    updatedAt: firestore.FieldValue.serverTimestamp(),
+  });
+}
+
+export async function saveSessionAddons(id: string, addons: string[]) {
+  await firestore()
+    .collection(Collections.sessions)
+    .doc(id)
+    .set(
+      {
+        partialBooking: { addons },
+        updatedAt: firestore.FieldValue.serverTimestamp(),
+      },
+      { merge: true },
+    );
+}
+
+/**
+ * Saves the Review step's quantity stepper.
+ */
+export async function saveSessionQuantities(
+  id: string,
+  quantities: Record<string, number>,
+) {
+  await firestore().collection(Collections.sessions).doc(id).update({
+    'partialBooking.quantities': quantities,
+    updatedAt: firestore.FieldValue.serverTimestamp(),
+  });
+}
@@ -0,0 +1,17 @@
+// app/services/firestore/settings.repository.ts
+import firestore from '@react-native-firebase/firestore';
+import { Collections } from './collections';
+import { businessDetailsFromFirestore } from './converters';
+import type { BusinessDetails } from './models';
+
+export const businessDetailsRef = () =>
+  firestore().collection(Collections.settings).doc('business');
+
+/**
+ * The business details printed on invoices; blank fields when the
+ * settings document hasn't been set up.
+ */
+export async function getBusinessDetails(): Promise<BusinessDetails> {
+  const snap = await businessDetailsRef().get();
+  return businessDetailsFromFirestore(snap.exists() ? snap.data()! : {});
+}
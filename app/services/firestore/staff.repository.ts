@@ -0,0 +1,18 @@
+// app/services/firestore/staff.repository.ts
+import firestore from '@react-native-firebase/firestore';
+import { Collections } from './collections';
+import { staffMemberFromFirestore } from './converters';
+import type { StaffMember } from './models';
+
+/**
+ * The signed-in user's staff record, or null for customers and for staff
+ * who have been deactivated.
+ */
+export async function getStaffMember(uid: string): Promise<StaffMember | null> {
+  const snap = await firestore().collection(Collections.staff).doc(uid).get();
+  if (!snap.exists()) {
+    return null;
+  }
+  const member = staffMemberFromFirestore(snap.id, snap.data()!);
+  return member.active ? member : null;
+}
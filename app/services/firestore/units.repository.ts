@@ -0,0 +1,37 @@
+// app/services/firestore/units.repository.ts
+import firestore from '@react-native-firebase/firestore';
+import { Collections } from './collections';
+import { cartUnitFromFirestore, legacyUnitFor } from './converters';
+import type { CartUnit } from './models';
+
+/**
+ * Subscribes to every fleet unit. Returns the unsubscribe function.
+ */
+export function subscribeUnits(
+  onNext: (units: CartUnit[]) => void,
+  onError: (err: Error) => void,
+) {
+  return firestore()
+    .collection(Collections.cartUnits)
+    .onSnapshot(
+      snap => onNext(snap.docs.map(d => cartUnitFromFirestore(d.id, d.data()))),
+      onError,
+    );
+}
+
+/**
+ * Units of one cart model that can be rented out. A model without any unit
+ * documents yet counts as a single legacy unit.
+ */
+export async function getModelUnits(modelId: string): Promise<CartUnit[]> {
+  const qs = await firestore()
+    .collection(Collections.cartUnits)
+    .where('modelId', '==', modelId)
+    .get();
+  if (qs.empty) {
+    return [legacyUnitFor(modelId)];
+  }
+  return qs.docs
+    .map(d => cartUnitFromFirestore(d.id, d.data()))
+    .filter(u => u.status === 'available');
+}
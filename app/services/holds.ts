@@ -0,0 +1,32 @@
+// app/services/holds.ts
+//
+// Pure rules for checkout holds. Saving Details holds the allocated units
+// for a few minutes by adding an entry keyed by the session id, with an
+// `expiresAt`, to each unit's schedule; availability counts it until then.
+// Review and Payment count down to the expiry and send the customer back
+// to Details once it passes.
+import type { Reservation } from './firestore/models';
+
+export const HOLD_MINUTES = 10;
+
+export const holdExpiry = (now: Date = new Date(), minutes = HOLD_MINUTES) =>
+  new Date(now.getTime() + minutes * 60 * 1000);
+
+/**
+ * True for a hold whose time is up; bookings never lapse.
+ */
+export const isLapsed = (r: Reservation, now: Date = new Date()) =>
+  !!r.expiresAt && r.expiresAt.getTime() <= now.getTime();
+
+export const secondsLeft = (expiresAt: Date, now: Date = new Date()) =>
+  Math.max(0, Math.ceil((expiresAt.getTime() - now.getTime()) / 1000));
+
+/**
+ * "9:05" for 545 seconds.
+ */
+export const formatCountdown = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+export const HOLD_EXPIRED_MESSAGE =
+  `We hold your carts for ${HOLD_MINUTES} minutes while you check out, and that time ran out, so they have been released. ` +
+  'Check your times and save again to hold them.';
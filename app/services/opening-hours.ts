@@ -0,0 +1,147 @@
+// app/services/opening-hours.ts
+//
+// Pure opening-hours rules for a pick-up location: which days are open,
+// which pick-up slots exist on a day, and whether a rental window fits.
+// Times are the device's local time, as shown by the pickers. Bookings per
+// slot are counted on `pickupSlots/{locationId}_{slotKey}` so the capacity
+// check can run inside the confirm transaction; unpaid bookings only count
+// until their payment deadline.
+import type { BookingDates, Location, SlotBooking } from './firestore/models';
+
+const MINUTE_MS = 60 * 1000;
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/**
+ * Local calendar date as YYYY-MM-DD, the format used for blackouts.
+ */
+export const dayKey = (d: Date) =>
+  `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+
+/**
+ * Identifies the pick-up slot starting at `d`, e.g. "2025-06-01T09:30".
+ */
+export const slotKey = (d: Date) =>
+  `${dayKey(d)}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+
+export const slotDocId = (locationId: string, key: string) => `${locationId}_${key}`;
+
+/**
+ * "08:00" for 480 minutes after midnight.
+ */
+export const formatClock = (minutes: number) =>
+  `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+
+const atMinutes = (day: Date, minutes: number) => {
+  const d = new Date(day);
+  d.setHours(0, minutes, 0, 0);
+  return d;
+};
+
+const minutesIntoDay = (d: Date) => d.getHours() * 60 + d.getMinutes();
+
+/**
+ * Opening and closing time on the given day, or null when closed.
+ */
+export function openingOn(
+  location: Location,
+  day: Date,
+): { open: Date; close: Date } | null {
+  const hours = location.hours[day.getDay()];
+  if (!hours || location.blackouts.includes(dayKey(day))) {
+    return null;
+  }
+  return { open: atMinutes(day, hours.open), close: atMinutes(day, hours.close) };
+}
+
+/**
+ * Pick-up slot start times on a day, skipping those already past.
+ */
+export function slotsOn(location: Location, day: Date, now: Date = new Date()): Date[] {
+  const opening = openingOn(location, day);
+  if (!opening) {
+    return [];
+  }
+  const slots: Date[] = [];
+  const step = location.slotMinutes * MINUTE_MS;
+  for (let t = opening.open.getTime(); t < opening.close.getTime(); t += step) {
+    if (t >= now.getTime()) {
+      slots.push(new Date(t));
+    }
+  }
+  return slots;
+}
+
+/**
+ * The first pick-up slot at or after `from`, looking up to `days` ahead.
+ */
+export function firstSlotFrom(
+  location: Location,
+  from: Date,
+  days = 30,
+): Date | null {
+  for (let i = 0; i < days; i++) {
+    const day = new Date(from);
+    day.setDate(from.getDate() + i);
+    const [slot] = slotsOn(location, day, from);
+    if (slot) {
+      return slot;
+    }
+  }
+  return null;
+}
+
+const describeHours = (opening: { open: Date; close: Date }) =>
+  `${formatClock(minutesIntoDay(opening.open))} and ${formatClock(minutesIntoDay(opening.close))}`;
+
+/**
+ * Why a rental window doesn't fit the location's hours, or null when it
+ * does. Pick-up must be on a slot boundary; drop-off only needs the shop
+ * to be open.
+ */
+export function validateOpeningHours(
+  location: Location,
+  dates: BookingDates,
+): string | null {
+  const { start, end } = dates;
+  if (!start || !end) {
+    return null;
+  }
+
+  const pickUp = openingOn(location, start);
+  if (!pickUp) {
+    return `We're closed on ${start.toDateString()}.`;
+  }
+  if (start < pickUp.open || start >= pickUp.close) {
+    return `Pick-up must be between ${describeHours(pickUp)}.`;
+  }
+  const offset = (start.getTime() - pickUp.open.getTime()) / MINUTE_MS;
+  if (offset % location.slotMinutes !== 0) {
+    return 'Choose one of the listed pick-up slots.';
+  }
+
+  const dropOff = openingOn(location, end);
+  if (!dropOff) {
+    return `We're closed on ${end.toDateString()}; choose another drop-off day.`;
+  }
+  if (end < dropOff.open || end > dropOff.close) {
+    return `Drop-off must be between ${describeHours(dropOff)}.`;
+  }
+  return null;
+}
+
+export const slotsLeft = (location: Location, booked: number) =>
+  Math.max(0, location.maxPickupsPerSlot - booked);
+
+/**
+ * Bookings taking up a slot, not counting `ignoreBookingId` or unpaid
+ * bookings past their payment deadline.
+ */
+export const slotBookingCount = (
+  entries: SlotBooking[],
+  ignoreBookingId?: string,
+  now: Date = new Date(),
+) =>
+  entries.filter(
+    e => e.bookingId !== ignoreBookingId && (!e.expiresAt || e.expiresAt.getTime() > now.getTime()),
+  ).length;
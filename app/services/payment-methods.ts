@@ -0,0 +1,59 @@
+// app/services/payment-methods.ts
+//
+// Pure rules for the customer's saved cards (`paymentMethods`): the order
+// they are listed in, which one checkout picks, and which can still be
+// charged. The per-booking charges live in `payments` and never change these.
+import { brandLabel, isExpired, parseExpiry } from './payments/card';
+import type { PaymentMethod } from './firestore/models';
+
+/**
+ * Default first, then the most recently saved.
+ */
+export const sortPaymentMethods = (methods: PaymentMethod[]) =>
+  [...methods].sort(
+    (a, b) =>
+      Number(b.isDefault) - Number(a.isDefault) ||
+      (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0),
+  );
+
+export function paymentMethodExpired(method: PaymentMethod, today: Date): boolean {
+  const expiry = parseExpiry(method.expiry);
+  return expiry ? isExpired(expiry.month, expiry.year, today) : false;
+}
+
+/**
+ * Cards a checkout on `provider` can charge: tokens from another provider
+ * mean nothing to it.
+ */
+export const usablePaymentMethods = (methods: PaymentMethod[], provider: string, today: Date) =>
+  sortPaymentMethods(methods).filter(m => m.provider === provider && !paymentMethodExpired(m, today));
+
+/**
+ * What checkout preselects: the default card when it can be charged,
+ * otherwise the newest one that can.
+ */
+export const preferredPaymentMethod = (methods: PaymentMethod[], provider: string, today: Date) =>
+  usablePaymentMethods(methods, provider, today)[0] ?? null;
+
+/**
+ * Saving a card that is already on file (same provider, brand, last4 and
+ * expiry) refreshes it instead of adding a duplicate.
+ */
+export const samePaymentMethod = (
+  a: Pick<PaymentMethod, 'provider' | 'brand' | 'last4' | 'expiry'>,
+  b: Pick<PaymentMethod, 'provider' | 'brand' | 'last4' | 'expiry'>,
+) => a.provider === b.provider && a.brand === b.brand && a.last4 === b.last4 && a.expiry === b.expiry;
+
+/**
+ * The saved method to promote when `removedId` goes, if it was the default.
+ */
+export function nextDefaultAfterRemoving(methods: PaymentMethod[], removedId: string): PaymentMethod | null {
+  const removed = methods.find(m => m.id === removedId);
+  if (!removed?.isDefault) {
+    return null;
+  }
+  return sortPaymentMethods(methods).find(m => m.id !== removedId) ?? null;
+}
+
+export const paymentMethodLabel = (method: Pick<PaymentMethod, 'brand' | 'last4'>) =>
+  `${brandLabel(method.brand)} •••• ${method.last4}`;
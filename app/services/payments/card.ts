@@ -0,0 +1,241 @@
+// app/services/payments/card.ts
+//
+// Pure rules for the card form: brand detection from the number's leading
+// digits (BIN), Luhn check, grouping as the customer types, MM/YY expiry and
+// CVV length by brand. The raw number and CVV only go to the provider's
+// tokenizeCard; Firestore gets the token, brand, last4 and expiry.
+import type { CardDetails } from './provider';
+
+export type CardBrand =
+  | 'visa'
+  | 'mastercard'
+  | 'amex'
+  | 'discover'
+  | 'diners'
+  | 'jcb'
+  | 'unionpay'
+  | 'unknown';
+
+type BrandSpec = {
+  label: string;
+  pattern: RegExp;
+  lengths: number[];
+  /** Digit positions a space goes before, e.g. 4 8 12 for 4-4-4-4. */
+  gaps: number[];
+  cvcLength: number;
+};
+
+/**
+ * Brands by BIN range, with the lengths they issue, how they print and
+ * their CVV length.
+ */
+export const CARD_BRANDS: Record<Exclude<CardBrand, 'unknown'>, BrandSpec> = {
+  visa: { label: 'Visa', pattern: /^4/, lengths: [13, 16, 19], gaps: [4, 8, 12], cvcLength: 3 },
+  mastercard: {
+    label: 'Mastercard',
+    pattern: /^(5[1-5]|222[1-9]|22[3-9]\d|2[3-6]\d\d|27[01]\d|2720)/,
+    lengths: [16],
+    gaps: [4, 8, 12],
+    cvcLength: 3,
+  },
+  amex: { label: 'American Express', pattern: /^3[47]/, lengths: [15], gaps: [4, 10], cvcLength: 4 },
+  discover: {
+    label: 'Discover',
+    pattern: /^(6011|64[4-9]|65)/,
+    lengths: [16, 19],
+    gaps: [4, 8, 12],
+    cvcLength: 3,
+  },
+  diners: {
+    label: 'Diners Club',
+    pattern: /^(30[0-5]|3095|36|3[89])/,
+    lengths: [14, 16, 19],
+    gaps: [4, 10],
+    cvcLength: 3,
+  },
+  jcb: { label: 'JCB', pattern: /^(352[89]|35[3-8])/, lengths: [16, 17, 18, 19], gaps: [4, 8, 12], cvcLength: 3 },
+  unionpay: { label: 'UnionPay', pattern: /^62/, lengths: [16, 17, 18, 19], gaps: [4, 8, 12], cvcLength: 3 },
+};
+
+const UNKNOWN_SPEC: BrandSpec = {
+  label: 'Card',
+  pattern: /^/,
+  lengths: [12, 13, 14, 15, 16, 17, 18, 19],
+  gaps: [4, 8, 12],
+  cvcLength: 3,
+};
+
+export type CardFields = {
+  number: string;
+  name: string;
+  expiry: string;
+  cvc: string;
+};
+
+export type CardErrors = Partial<Record<keyof CardFields, string>>;
+
+export const EMPTY_CARD: CardFields = { number: '', name: '', expiry: '', cvc: '' };
+
+export const digitsOnly = (text: string) => text.replace(/\D/g, '');
+
+const specFor = (brand: CardBrand) => (brand === 'unknown' ? UNKNOWN_SPEC : CARD_BRANDS[brand]);
+
+export function detectBrand(number: string): CardBrand {
+  const digits = digitsOnly(number);
+  const match = (Object.keys(CARD_BRANDS) as (keyof typeof CARD_BRANDS)[]).find(brand =>
+    CARD_BRANDS[brand].pattern.test(digits),
+  );
+  return digits && match ? match : 'unknown';
+}
+
+/**
+ * Display name for a brand; also accepts a provider's brand id such as
+ * Stripe's `amex`, passing unknown ones through.
+ */
+export function brandLabel(brand: string): string {
+  const spec = (CARD_BRANDS as Record<string, BrandSpec | undefined>)[brand.toLowerCase()];
+  return spec ? spec.label : brand || UNKNOWN_SPEC.label;
+}
+
+export const cvcLengthFor = (brand: CardBrand) => specFor(brand).cvcLength;
+
+export function luhnValid(number: string): boolean {
+  const digits = digitsOnly(number);
+  if (!digits) {
+    return false;
+  }
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let d = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      d *= 2;
+      if (d > 9) {
+        d -= 9;
+      }
+    }
+    sum += d;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * The number as typed so far, grouped the way the brand prints it
+ * (4-6-5 for Amex) and cut at the brand's longest length.
+ */
+export function formatCardNumber(text: string): string {
+  const spec = specFor(detectBrand(text));
+  const digits = digitsOnly(text).slice(0, Math.max(...spec.lengths));
+  return digits
+    .split('')
+    .map((d, i) => (spec.gaps.includes(i) ? ` ${d}` : d))
+    .join('');
+}
+
+/**
+ * MM/YY as typed so far: a leading 2-9 can only be a single-digit month,
+ * and the slash is added once the month is complete.
+ */
+export function formatExpiry(text: string): string {
+  let digits = digitsOnly(text);
+  if (/^[2-9]/.test(digits)) {
+    digits = `0${digits}`;
+  }
+  digits = digits.slice(0, 4);
+  return digits.length > 2 ? `${digits.slice(0, 2)}/${digits.slice(2)}` : digits;
+}
+
+/**
+ * Month and four-digit year from MM/YY (or MM/YYYY), or null when malformed.
+ */
+export function parseExpiry(text: string): { month: number; year: number } | null {
+  const match = /^(\d{1,2})\s*\/\s*(\d{2}|\d{4})$/.exec(text.trim());
+  if (!match) {
+    return null;
+  }
+  const month = Number(match[1]);
+  const year = match[2].length === 2 ? 2000 + Number(match[2]) : Number(match[2]);
+  return month >= 1 && month <= 12 ? { month, year } : null;
+}
+
+export const formatCardExpiry = (month: number, year: number) =>
+  `${String(month).padStart(2, '0')}/${String(year).slice(-2)}`;
+
+/**
+ * A card is good through the last day of its expiry month.
+ */
+export const isExpired = (month: number, year: number, today: Date) =>
+  year < today.getFullYear() || (year === today.getFullYear() && month < today.getMonth() + 1);
+
+export function validateCardNumber(number: string): string | null {
+  const digits = digitsOnly(number);
+  if (!digits) {
+    return 'Enter your card number.';
+  }
+  const spec = specFor(detectBrand(digits));
+  if (!spec.lengths.includes(digits.length)) {
+    return digits.length < Math.max(...spec.lengths) ? 'The card number is incomplete.' : 'The card number is too long.';
+  }
+  return luhnValid(digits) ? null : 'The card number is not valid.';
+}
+
+export function validateExpiry(expiry: string, today: Date): string | null {
+  if (!expiry.trim()) {
+    return 'Enter the expiry date.';
+  }
+  const parsed = parseExpiry(expiry);
+  if (!parsed) {
+    return 'Use MM/YY.';
+  }
+  if (isExpired(parsed.month, parsed.year, today)) {
+    return 'This card has expired.';
+  }
+  return parsed.year > today.getFullYear() + 20 ? 'Check the expiry year.' : null;
+}
+
+export function validateCvc(cvc: string, brand: CardBrand): string | null {
+  const length = cvcLengthFor(brand);
+  if (!cvc.trim()) {
+    return 'Enter the security code.';
+  }
+  return /^\d+$/.test(cvc) && cvc.length === length ? null : `The security code is ${length} digits.`;
+}
+
+/**
+ * Field-by-field problems with a new card, empty when it can be tokenized.
+ */
+export function validateCard(fields: CardFields, today: Date): CardErrors {
+  const errors: CardErrors = {};
+  const number = validateCardNumber(fields.number);
+  const expiry = validateExpiry(fields.expiry, today);
+  const cvc = validateCvc(fields.cvc, detectBrand(fields.number));
+  if (number) {
+    errors.number = number;
+  }
+  if (!fields.name.trim()) {
+    errors.name = 'Enter the name on the card.';
+  }
+  if (expiry) {
+    errors.expiry = expiry;
+  }
+  if (cvc) {
+    errors.cvc = cvc;
+  }
+  return errors;
+}
+
+/**
+ * What the provider tokenizes; call only once validateCard passes.
+ */
+export function cardDetailsFrom(fields: CardFields): CardDetails {
+  const expiry = parseExpiry(fields.expiry);
+  if (!expiry) {
+    throw new Error('Invalid card expiry');
+  }
+  return {
+    number: digitsOnly(fields.number),
+    expMonth: expiry.month,
+    expYear: expiry.year,
+    cvc: fields.cvc.trim(),
+    name: fields.name.trim(),
+  };
+}
@@ -0,0 +1,101 @@
+// app/services/payments/charge.ts
+//
+// How a booking is paid for. The rental (carts, add-ons and tax) is
+// authorized and captured when the booking is paid, and again for a booking
+// change that costs more. The deposit is only held while the carts are out:
+// card authorizations lapse after about a week and bookings are often made
+// further ahead, so it is authorized at hand-over (holdDeposit) and settled
+// at return, when some of it may be captured and the rest voided.
+import { roundMoney } from '../pricing';
+import type { PaymentIntent, PaymentProvider } from './provider';
+
+export type ChargeInput = {
+  customerId: string;
+  tokenId: string;
+  currency: string;
+  amount: number;
+  reference: string;
+};
+
+const authorize = (provider: PaymentProvider, input: ChargeInput, what: string) =>
+  provider.authorize({
+    customerId: input.customerId,
+    tokenId: input.tokenId,
+    amount: roundMoney(input.amount),
+    currency: input.currency,
+    description: `${what} for booking ${input.reference}`,
+    reference: input.reference,
+  });
+
+/**
+ * Takes the rental for a booking, or the extra rental of a booking change.
+ * If the capture fails the authorization is voided, so the customer is
+ * never left with a hold for a booking that didn't go through.
+ */
+export async function chargeBooking(provider: PaymentProvider, input: ChargeInput): Promise<PaymentIntent> {
+  const rental = await authorize(provider, input, 'Rental');
+  try {
+    return await provider.capture(rental.id);
+  } catch (err) {
+    await provider.void(rental.id).catch(voidErr => console.error('❌ void after failed charge', voidErr));
+    throw err;
+  }
+}
+
+/**
+ * Holds the deposit on the booking's card when the carts are handed over.
+ */
+export const holdDeposit = (provider: PaymentProvider, input: ChargeInput): Promise<PaymentIntent> =>
+  authorize(provider, input, 'Deposit');
+
+/**
+ * Settles an authorized deposit at return: captures `captured` of it, or
+ * voids it when nothing is kept. Safe to retry when recording the
+ * settlement failed: a deposit that is no longer authorized was already
+ * settled and is returned as it is.
+ */
+export async function settleDepositIntent(
+  provider: PaymentProvider,
+  intentId: string,
+  captured: number,
+): Promise<PaymentIntent> {
+  const intent = await provider.retrieve(intentId);
+  if (intent.status !== 'authorized') {
+    return intent;
+  }
+  return captured > 0 ? provider.capture(intentId, captured) : provider.void(intentId);
+}
+
+/**
+ * Hands a booking's money back: refunds `rentalRefund` from the captured
+ * rental intents, newest first, and voids the deposit authorization if one
+ * is held. Used when a booking is cancelled, or can't be confirmed after
+ * payment.
+ *
+ * Safe to retry: `refundedBefore` is what the intents had already refunded
+ * when this refund was decided, so only what is still due goes out, and a
+ * deposit that is no longer authorized is left alone.
+ */
+export async function refundBookingCharge(
+  provider: PaymentProvider,
+  charge: { rentalIntentIds: string[]; depositIntentId: string | null },
+  rentalRefund: number,
+  refundedBefore = 0,
+) {
+  const intents = await Promise.all(charge.rentalIntentIds.map(id => provider.retrieve(id)));
+  const refundedSince = intents.reduce((sum, intent) => sum + intent.refunded, 0) - refundedBefore;
+  let due = roundMoney(rentalRefund - refundedSince);
+  for (const intent of [...intents].reverse()) {
+    const give = roundMoney(Math.min(due, intent.captured - intent.refunded));
+    if (give > 0) {
+      await provider.refund(intent.id, give);
+      due = roundMoney(due - give);
+    }
+  }
+  if (charge.depositIntentId) {
+    const deposit = await provider.retrieve(charge.depositIntentId);
+    if (deposit.status === 'authorized') {
+      await provider.void(deposit.id);
+    }
+  }
+}
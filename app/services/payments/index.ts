@@ -0,0 +1,53 @@
+// app/services/payments/index.ts
+import auth from '@react-native-firebase/auth';
+import appConfig from '../../../app.json';
+import { createMockProvider } from './mock.provider';
+import { createStripeProvider } from './stripe.provider';
+import type { PaymentProvider } from './provider';
+
+export * from './provider';
+export * from './charge';
+export * from './card';
+export { createMockProvider } from './mock.provider';
+export { createStripeProvider } from './stripe.provider';
+
+// Set per build in app.json (`payments.stripePublishableKey` and
+// `payments.backendUrl`). Until both are set, release builds can't take
+// bookings and development builds check out on the mock.
+const STRIPE_PUBLISHABLE_KEY = appConfig.payments.stripePublishableKey;
+const PAYMENTS_BACKEND_URL = appConfig.payments.backendUrl;
+
+export const PAYMENTS_NOT_CONFIGURED =
+  'Payments are not available in this version of the app. Please contact us to book.';
+
+let provider: PaymentProvider | null = null;
+
+const stripeConfigured = () => !!(STRIPE_PUBLISHABLE_KEY && PAYMENTS_BACKEND_URL);
+
+/**
+ * Whether getPaymentProvider has a provider to hand out. Release builds
+ * never fall back to the mock.
+ */
+export const paymentsConfigured = () => stripeConfigured() || __DEV__;
+
+/**
+ * The provider checkout charges through: Stripe when it is configured,
+ * otherwise the in-memory mock in development builds. Throws when neither
+ * is available.
+ */
+export function getPaymentProvider(): PaymentProvider {
+  if (!provider) {
+    if (stripeConfigured()) {
+      provider = createStripeProvider({
+        publishableKey: STRIPE_PUBLISHABLE_KEY,
+        backendUrl: PAYMENTS_BACKEND_URL,
+        getIdToken: async () => (await auth().currentUser?.getIdToken()) ?? null,
+      });
+    } else if (__DEV__) {
+      provider = createMockProvider({ latencyMs: 600 });
+    } else {
+      throw new Error(PAYMENTS_NOT_CONFIGURED);
+    }
+  }
+  return provider;
+}
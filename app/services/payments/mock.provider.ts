@@ -0,0 +1,152 @@
+// app/services/payments/mock.provider.ts
+//
+// An in-memory payment provider for development and tests. It follows the
+// Stripe test-card conventions, so the same numbers exercise the same
+// failures against either provider:
+//   4242 4242 4242 4242  succeeds
+//   4000 0000 0000 0002  declined
+//   4000 0000 0000 9995  insufficient funds
+//   4000 0000 0000 0069  expired card
+//   4000 0000 0000 0127  incorrect CVC
+//   4000 0000 0000 0119  processing error (retryable)
+import { roundMoney } from '../pricing';
+import { brandLabel, detectBrand } from './card';
+import { paymentError } from './provider';
+import type { CardToken, PaymentErrorCode, PaymentIntent, PaymentProvider } from './provider';
+
+const FAILING_CARDS: Record<string, PaymentErrorCode> = {
+  '4000000000000002': 'card_declined',
+  '4000000000009995': 'insufficient_funds',
+  '4000000000000069': 'expired_card',
+  '4000000000000127': 'incorrect_cvc',
+  '4000000000000119': 'processing_error',
+};
+
+export type MockProviderOptions = {
+  /** Simulated round trip, so loading states show in development. */
+  latencyMs?: number;
+};
+
+export function createMockProvider({ latencyMs = 0 }: MockProviderOptions = {}): PaymentProvider {
+  let seq = 0;
+  const nextId = (prefix: string) => `mock_${prefix}_${++seq}`;
+  // Card numbers by token id; only the token leaves the provider.
+  const cards = new Map<string, string>();
+  const intents = new Map<string, PaymentIntent>();
+
+  const later = <T>(value: () => T): Promise<T> =>
+    new Promise((resolve, reject) => {
+      const run = () => {
+        try {
+          resolve(value());
+        } catch (err) {
+          reject(err);
+        }
+      };
+      if (latencyMs > 0) {
+        setTimeout(run, latencyMs);
+      } else {
+        run();
+      }
+    });
+
+  const intentFor = (id: string) => {
+    const intent = intents.get(id);
+    if (!intent) {
+      throw paymentError('invalid_request', `No such payment: ${id}`);
+    }
+    return intent;
+  };
+
+  const save = (intent: PaymentIntent) => {
+    intents.set(intent.id, intent);
+    return { ...intent };
+  };
+
+  return {
+    name: 'mock',
+
+    createCustomer: () => later(() => nextId('cus')),
+
+    tokenizeCard: card =>
+      later(() => {
+        const number = card.number.replace(/\D/g, '');
+        if (number.length < 12 || number.length > 19) {
+          throw paymentError('invalid_request', 'The card number is incomplete.');
+        }
+        const token: CardToken = {
+          id: nextId('pm'),
+          brand: brandLabel(detectBrand(number)),
+          last4: number.slice(-4),
+          expMonth: card.expMonth,
+          expYear: card.expYear,
+        };
+        cards.set(token.id, number);
+        return token;
+      }),
+
+    detachCard: tokenId =>
+      later(() => {
+        cards.delete(tokenId);
+      }),
+
+    authorize: input =>
+      later(() => {
+        const number = cards.get(input.tokenId);
+        if (!number) {
+          throw paymentError('invalid_request', 'This card is no longer available. Enter it again.');
+        }
+        const failure = FAILING_CARDS[number];
+        if (failure) {
+          throw paymentError(failure);
+        }
+        if (input.amount <= 0) {
+          throw paymentError('invalid_request', 'Nothing to charge.');
+        }
+        return save({
+          id: nextId('pi'),
+          status: 'authorized',
+          amount: roundMoney(input.amount),
+          currency: input.currency,
+          captured: 0,
+          refunded: 0,
+        });
+      }),
+
+    capture: (intentId, amount) =>
+      later(() => {
+        const intent = intentFor(intentId);
+        const take = roundMoney(amount ?? intent.amount);
+        if (intent.status !== 'authorized' || take > intent.amount) {
+          throw paymentError('invalid_request', 'This payment cannot be captured.');
+        }
+        return save({ ...intent, status: 'captured', captured: take });
+      }),
+
+    refund: (intentId, amount) =>
+      later(() => {
+        const intent = intentFor(intentId);
+        const give = roundMoney(amount ?? intent.captured - intent.refunded);
+        const refunded = roundMoney(intent.refunded + give);
+        if (intent.status === 'authorized' || intent.status === 'voided' || refunded > intent.captured) {
+          throw paymentError('invalid_request', 'This payment cannot be refunded.');
+        }
+        return save({
+          ...intent,
+          refunded,
+          status: refunded >= intent.captured ? 'refunded' : 'partially_refunded',
+        });
+      }),
+
+    void: intentId =>
+      later(() => {
+        const intent = intentFor(intentId);
+        if (intent.status !== 'authorized') {
+          throw paymentError('invalid_request', 'Only an uncaptured payment can be voided.');
+        }
+        return save({ ...intent, status: 'voided' });
+      }),
+
+    retrieve: intentId => later(() => ({ ...intentFor(intentId) })),
+  };
+}
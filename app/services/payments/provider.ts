@@ -0,0 +1,109 @@
+// app/services/payments/provider.ts
+//
+// The payment gateway contract. Checkout only talks to a PaymentProvider,
+// so the Stripe implementation and the in-memory mock used in development
+// and tests are interchangeable. Amounts are in major units (dollars), like
+// the rest of the app; providers convert at their edge.
+
+export type CardDetails = {
+  number: string;
+  expMonth: number;
+  expYear: number;
+  cvc: string;
+  name: string;
+};
+
+/**
+ * A reusable reference to a card held by the provider. Only this, never the
+ * card number, is stored.
+ */
+export type CardToken = {
+  id: string;
+  brand: string;
+  last4: string;
+  expMonth: number;
+  expYear: number;
+};
+
+export type IntentStatus =
+  | 'authorized'
+  | 'captured'
+  | 'voided'
+  | 'partially_refunded'
+  | 'refunded';
+
+export type PaymentIntent = {
+  id: string;
+  status: IntentStatus;
+  amount: number;
+  currency: string;
+  captured: number;
+  refunded: number;
+};
+
+export type AuthorizeInput = {
+  customerId: string;
+  tokenId: string;
+  amount: number;
+  currency: string;
+  description: string;
+  /** The booking being paid for. */
+  reference: string;
+};
+
+export type PaymentProvider = {
+  name: string;
+  createCustomer(input: { uid: string; email: string; name: string }): Promise<string>;
+  tokenizeCard(card: CardDetails): Promise<CardToken>;
+  /** Removes a saved card from the provider; detaching a card twice is fine. */
+  detachCard(tokenId: string): Promise<void>;
+  /** Reserves the amount on the card without taking it. */
+  authorize(input: AuthorizeInput): Promise<PaymentIntent>;
+  /** Takes all of an authorization, or `amount` of it. */
+  capture(intentId: string, amount?: number): Promise<PaymentIntent>;
+  /** Gives back all of a captured payment, or `amount` of it. */
+  refund(intentId: string, amount?: number): Promise<PaymentIntent>;
+  /** Drops an authorization that was never captured. */
+  void(intentId: string): Promise<PaymentIntent>;
+  /** The intent as the provider has it now. */
+  retrieve(intentId: string): Promise<PaymentIntent>;
+};
+
+export type PaymentErrorCode =
+  | 'card_declined'
+  | 'insufficient_funds'
+  | 'expired_card'
+  | 'incorrect_cvc'
+  | 'processing_error'
+  | 'network_error'
+  | 'invalid_request';
+
+export type PaymentError = Error & { code: PaymentErrorCode };
+
+export const PAYMENT_ERROR_MESSAGES: Record<PaymentErrorCode, string> = {
+  card_declined: 'Your card was declined. Try another card.',
+  insufficient_funds: 'Your card has insufficient funds. Try another card.',
+  expired_card: 'Your card has expired. Check the expiry date or try another card.',
+  incorrect_cvc: 'The security code (CVV) is incorrect.',
+  processing_error: 'The payment could not be processed. Please try again.',
+  network_error: 'We could not reach the payment service. Check your connection and try again.',
+  invalid_request: 'The payment could not be completed.',
+};
+
+const RETRYABLE: PaymentErrorCode[] = ['processing_error', 'network_error'];
+
+export function paymentError(code: PaymentErrorCode, message?: string): PaymentError {
+  return Object.assign(new Error(message || PAYMENT_ERROR_MESSAGES[code]), { code });
+}
+
+export const isPaymentError = (err: unknown): err is PaymentError =>
+  err instanceof Error &&
+  'code' in err &&
+  typeof err.code === 'string' &&
+  err.code in PAYMENT_ERROR_MESSAGES;
+
+/**
+ * Temporary failures worth retrying with the same card; anything else
+ * needs a different card or details.
+ */
+export const isRetryable = (err: unknown) => isPaymentError(err) && RETRYABLE.includes(err.code);
@@ -0,0 +1,199 @@
+// app/services/payments/stripe.provider.ts
+//
+// Stripe behind the PaymentProvider contract. Cards are turned into
+// PaymentMethods straight from the device with the publishable key, so the
+// card number never touches our servers. Everything that needs the secret
+// key goes through our payments backend, which forwards to the matching
+// Stripe endpoint and returns Stripe's JSON unchanged.
+//
+// Backend calls carry the signed-in user's Firebase ID token and intents are
+// tagged with their booking. Capture and refund amounts are sent as Stripe
+// takes them (`amount_to_capture`, `amount`); the app decides them before
+// the booking document records the change they pay for.
+import { roundMoney } from '../pricing';
+import { brandLabel } from './card';
+import { paymentError } from './provider';
+import type { IntentStatus, PaymentErrorCode, PaymentIntent, PaymentProvider } from './provider';
+
+const STRIPE_API = 'https://api.stripe.com/v1';
+
+export type StripeConfig = {
+  publishableKey: string;
+  backendUrl: string;
+  /** The signed-in user's Firebase ID token, or null when signed out. */
+  getIdToken: () => Promise<string | null>;
+  fetchImpl?: typeof fetch;
+};
+
+type StripeJson = { [key: string]: any };
+
+// Currencies without minor units would need a table; the app only sells in USD.
+export const toCents = (amount: number) => Math.round(amount * 100);
+const fromCents = (cents: any) => roundMoney((Number(cents) || 0) / 100);
+
+const form = (params: Record<string, string | number | undefined>) =>
+  Object.entries(params)
+    .filter(([, v]) => v !== undefined)
+    .map(([k, v]) => `${encodeURIComponent(k)}=${encodeURIComponent(String(v))}`)
+    .join('&');
+
+/**
+ * Maps a Stripe error object onto our codes; declines carry the reason in
+ * `decline_code`.
+ */
+export function errorCodeFromStripe(error: StripeJson | undefined): PaymentErrorCode {
+  const code = error?.decline_code || error?.code;
+  switch (code) {
+    case 'insufficient_funds':
+      return 'insufficient_funds';
+    case 'expired_card':
+      return 'expired_card';
+    case 'incorrect_cvc':
+      return 'incorrect_cvc';
+    case 'processing_error':
+    case 'rate_limit':
+      return 'processing_error';
+    default:
+      return error?.type === 'card_error' ? 'card_declined' : 'invalid_request';
+  }
+}
+
+/**
+ * Our view of a Stripe PaymentIntent.
+ */
+export function intentFromStripe(json: StripeJson): PaymentIntent {
+  const amount = fromCents(json.amount);
+  const captured = fromCents(json.amount_received);
+  const refunded = fromCents(json.latest_charge?.amount_refunded ?? json.amount_refunded);
+  let status: IntentStatus = 'authorized';
+  if (json.status === 'canceled') {
+    status = 'voided';
+  } else if (json.status === 'succeeded' && refunded >= captured) {
+    status = 'refunded';
+  } else if (json.status === 'succeeded') {
+    status = refunded > 0 ? 'partially_refunded' : 'captured';
+  }
+  return {
+    id: String(json.id),
+    status,
+    amount,
+    currency: String(json.currency || 'usd').toUpperCase(),
+    captured,
+    refunded,
+  };
+}
+
+export function createStripeProvider({
+  publishableKey,
+  backendUrl,
+  getIdToken,
+  fetchImpl = fetch,
+}: StripeConfig): PaymentProvider {
+  const post = async (url: string, body: string, headers: Record<string, string> = {}) => {
+    let res: Response;
+    try {
+      res = await fetchImpl(url, { method: 'POST', headers, body });
+    } catch (err) {
+      console.error('❌ payment request failed', err);
+      throw paymentError('network_error');
+    }
+    const json: StripeJson = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      if (res.status >= 500) {
+        throw paymentError('processing_error');
+      }
+      throw paymentError(errorCodeFromStripe(json.error), json.error?.message);
+    }
+    return json;
+  };
+
+  const backend = async (path: string, params: Record<string, any>) => {
+    const idToken = await getIdToken();
+    if (!idToken) {
+      throw paymentError('invalid_request', 'Please sign in again to continue.');
+    }
+    return post(`${backendUrl}${path}`, JSON.stringify(params), {
+      Authorization: `Bearer ${idToken}`,
+      'Content-Type': 'application/json',
+    });
+  };
+
+  const retrieve = async (intentId: string) =>
+    intentFromStripe(await backend(`/payment_intents/${intentId}/retrieve`, {}));
+
+
+  return {
+    name: 'stripe',
+
+    createCustomer: async ({ uid, email, name }) => {
+      const json = await backend('/customers', { email, name, metadata: { uid } });
+      return String(json.id);
+    },
+
+    tokenizeCard: async card => {
+      const json = await post(
+        `${STRIPE_API}/payment_methods`,
+        form({
+          type: 'card',
+          'card[number]': card.number.replace(/\D/g, ''),
+          'card[exp_month]': card.expMonth,
+          'card[exp_year]': card.expYear,
+          'card[cvc]': card.cvc,
+          'billing_details[name]': card.name || undefined,
+        }),
+        {
+          Authorization: `Bearer ${publishableKey}`,
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+      );
+      return {
+        id: String(json.id),
+        brand: brandLabel(String(json.card?.brand ?? '')),
+        last4: String(json.card?.last4 ?? ''),
+        expMonth: Number(json.card?.exp_month) || card.expMonth,
+        expYear: Number(json.card?.exp_year) || card.expYear,
+      };
+    },
+
+    detachCard: async tokenId => {
+      await backend(`/payment_methods/${tokenId}/detach`, {});
+    },
+
+    authorize: async input =>
+      intentFromStripe(
+        await backend('/payment_intents', {
+          customer: input.customerId,
+          payment_method: input.tokenId,
+          amount: toCents(input.amount),
+          currency: input.currency.toLowerCase(),
+          description: input.description,
+          metadata: { bookingId: input.reference },
+          capture_method: 'manual',
+          confirm: true,
+          // Keeps the card on the customer so it can be used again.
+          setup_future_usage: 'off_session',
+        }),
+      ),
+
+    capture: async (intentId, amount) =>
+      intentFromStripe(
+        await backend(
+          `/payment_intents/${intentId}/capture`,
+          amount !== undefined ? { amount_to_capture: toCents(amount) } : {},
+        ),
+      ),
+
+    refund: async (intentId, amount) => {
+      await backend('/refunds', {
+        payment_intent: intentId,
+        ...(amount !== undefined ? { amount: toCents(amount) } : {}),
+      });
+      return retrieve(intentId);
+    },
+
+    void: async intentId =>
+      intentFromStripe(await backend(`/payment_intents/${intentId}/cancel`, {})),
+
+    retrieve,
+  };
+}
@@ -0,0 +1,207 @@
+// app/services/pricing.ts
+//
+// Pure pricing engine. Review, Payment and Confirmation all render from the
+// quote built here, and Payment stores the same quote on the booking.
+import type { Addon, BookingDates, BookingTotals, Cart } from './firestore/models';
+
+export type RentalUnit = 'day' | 'hour';
+export type AddonPricingUnit = 'flat' | RentalUnit;
+
+export type PricingConfig = {
+  currency: string;
+  taxRate: number;
+  depositPerCart: number;
+  /** Rentals longer than this many hours bill as full days. */
+  hourlyUpToHours: number;
+};
+
+export const DEFAULT_PRICING: PricingConfig = {
+  currency: 'USD',
+  taxRate: 0.1,
+  depositPerCart: 50,
+  hourlyUpToHours: 4,
+};
+
+export type QuoteCartInput = {
+  cart: Cart;
+  qty: number;
+};
+
+export type QuoteAddonInput = {
+  id: string;
+  label: string;
+  price: number;
+  unit: AddonPricingUnit;
+  qty?: number;
+};
+
+export type QuoteLine = {
+  kind: 'rental' | 'addon';
+  id: string;
+  label: string;
+  qty: number;
+  unit: AddonPricingUnit;
+  units: number;
+  unitPrice: number;
+  amount: number;
+};
+
+export type Quote = {
+  lines: QuoteLine[];
+  rental: RentalLength;
+  subtotal: number;
+  taxRate: number;
+  tax: number;
+  deposit: number;
+  total: number;
+  currency: string;
+};
+
+export type RentalLength = {
+  unit: RentalUnit;
+  units: number;
+  hours: number;
+  days: number;
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const roundMoney = (amount: number) =>
+  Math.round((amount + Number.EPSILON) * 100) / 100;
+
+/**
+ * Billable length of a rental window. Short rentals (up to
+ * `hourlyUpToHours`) are billed by the started hour, anything longer by the
+ * started day. A missing window counts as one day.
+ */
+export function rentalLength(
+  dates: BookingDates,
+  config: PricingConfig = DEFAULT_PRICING,
+): RentalLength {
+  const { start, end } = dates;
+  if (!start || !end || end.getTime() <= start.getTime()) {
+    return { unit: 'day', units: 1, hours: 24, days: 1 };
+  }
+  const hours = Math.ceil((end.getTime() - start.getTime()) / HOUR_MS);
+  const days = Math.max(1, Math.ceil(hours / 24));
+  return hours <= config.hourlyUpToHours
+    ? { unit: 'hour', units: hours, hours, days }
+    : { unit: 'day', units: days, hours, days };
+}
+
+/**
+ * e.g. "3 hours", "1 day". Accepts a rental length or a rental quote line.
+ */
+export function describeRentalLength(length: { unit: string; units: number }) {
+  const { unit, units } = length;
+  return `${units} ${unit}${units === 1 ? '' : 's'}`;
+}
+
+function rentalLine(
+  input: QuoteCartInput,
+  length: RentalLength,
+): QuoteLine {
+  const { cart, qty } = input;
+  // Carts without an hourly rate are billed as a full day.
+  const hourly = length.unit === 'hour' && cart.hourlyPrice !== null;
+  const unitPrice = hourly ? cart.hourlyPrice! : cart.dailyPrice;
+  const units = hourly ? length.hours : length.days;
+  return {
+    kind: 'rental',
+    id: cart.id,
+    label: `${cart.brand} ${cart.model}`.trim(),
+    qty,
+    unit: hourly ? 'hour' : 'day',
+    units,
+    unitPrice,
+    amount: roundMoney(unitPrice * units * qty),
+  };
+}
+
+function addonLine(input: QuoteAddonInput, length: RentalLength): QuoteLine {
+  const qty = input.qty ?? 1;
+  const units =
+    input.unit === 'hour' ? length.hours : input.unit === 'day' ? length.days : 1;
+  return {
+    kind: 'addon',
+    id: input.id,
+    label: input.label,
+    qty,
+    unit: input.unit,
+    units,
+    unitPrice: input.price,
+    amount: roundMoney(input.price * units * qty),
+  };
+}
+
+export const addonQuoteInput = (addon: Addon): QuoteAddonInput => ({
+  id: addon.id,
+  label: addon.label,
+  price: addon.price,
+  unit: addon.unit,
+});
+
+export function buildQuote(input: {
+  carts: QuoteCartInput[];
+  addons: QuoteAddonInput[];
+  dates: BookingDates;
+  config?: PricingConfig;
+}): Quote {
+  const config = input.config ?? DEFAULT_PRICING;
+  const length = rentalLength(input.dates, config);
+
+  const lines = [
+    ...input.carts.filter(c => c.qty > 0).map(c => rentalLine(c, length)),
+    ...input.addons.map(a => addonLine(a, length)),
+  ];
+
+  const subtotal = roundMoney(lines.reduce((sum, l) => sum + l.amount, 0));
+  const tax = roundMoney(subtotal * config.taxRate);
+  // One refundable deposit per cart handed out.
+  const cartCount = lines
+    .filter(l => l.kind === 'rental')
+    .reduce((sum, l) => sum + l.qty, 0);
+  const deposit = roundMoney(cartCount * config.depositPerCart);
+
+  return {
+    lines,
+    rental: length,
+    subtotal,
+    taxRate: config.taxRate,
+    tax,
+    deposit,
+    total: roundMoney(subtotal + tax + deposit),
+    currency: config.currency,
+  };
+}
+
+/**
+ * The legacy `totals` summary stored alongside the quote on bookings.
+ */
+export const quoteTotals = (quote: Quote): BookingTotals => ({
+  base: quote.subtotal,
+  tax: quote.tax,
+  deposit: quote.deposit,
+  total: quote.total,
+});
+
+export function formatMoney(amount: number, currency = DEFAULT_PRICING.currency) {
+  const symbol = currency === 'USD' ? '$' : `${currency} `;
+  return `${amount < 0 ? '-' : ''}${symbol}${Math.abs(amount).toFixed(2)}`;
+}
+
+/**
+ * Catalog price, e.g. "$10.00 / day" or "$5.00".
+ */
+export function describeAddonPrice(addon: Addon, currency?: string) {
+  const per = addon.unit === 'flat' ? '' : ` / ${addon.unit}`;
+  return `${formatMoney(addon.price, currency)}${per}`;
+}
+
+/**
+ * e.g. "2 × $40.00 × 3 days" or "1 × $5.00" for flat-priced add-ons.
+ */
+export function describeLine(line: QuoteLine, currency?: string) {
+  const per = line.unit === 'flat' ? '' : ` × ${describeRentalLength(line)}`;
+  return `${line.qty} × ${formatMoney(line.unitPrice, currency)}${per}`;
+}
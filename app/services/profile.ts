@@ -0,0 +1,120 @@
+// app/services/profile.ts
+//
+// Pure rules for the customer profile edited on the Profile screen: which
+// fields are required, what a valid value looks like, and how document
+// verification is described. Persisted on `customers/{uid}`.
+import type { Customer, DocumentStatus } from './firestore/models';
+
+export type ProfileFields = Pick<
+  Customer,
+  | 'firstName'
+  | 'lastName'
+  | 'dob'
+  | 'address'
+  | 'city'
+  | 'state'
+  | 'country'
+  | 'zipcode'
+  | 'phone'
+  | 'email'
+  | 'driverLicense'
+>;
+
+export type ProfileErrors = Partial<Record<keyof ProfileFields, string>>;
+
+export const EMPTY_PROFILE: ProfileFields = {
+  firstName: '',
+  lastName: '',
+  dob: '',
+  address: '',
+  city: '',
+  state: '',
+  country: '',
+  zipcode: '',
+  phone: '',
+  email: '',
+  driverLicense: '',
+};
+
+export const MIN_RENTER_AGE = 18;
+
+export const DOCUMENT_STATUS_LABELS: Record<DocumentStatus, string> = {
+  missing: 'Not uploaded',
+  pending: 'Awaiting review',
+  verified: 'Verified',
+  rejected: 'Rejected, please upload again',
+};
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const LICENCE_RE = /^[A-Z0-9-]{4,20}$/i;
+
+/**
+ * Picks the editable fields off a stored customer.
+ */
+export const profileFields = (customer: Customer): ProfileFields =>
+  (Object.keys(EMPTY_PROFILE) as (keyof ProfileFields)[]).reduce(
+    (out, key) => ({ ...out, [key]: customer[key] }),
+    EMPTY_PROFILE,
+  );
+
+/**
+ * A YYYY-MM-DD date of birth as a local date, or null when malformed.
+ */
+export function parseDob(dob: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(dob.trim());
+  if (!match) {
+    return null;
+  }
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(year, month - 1, day);
+  return date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+}
+
+export function ageOn(dob: Date, now: Date) {
+  const age = now.getFullYear() - dob.getFullYear();
+  const hadBirthday =
+    now.getMonth() > dob.getMonth() ||
+    (now.getMonth() === dob.getMonth() && now.getDate() >= dob.getDate());
+  return hadBirthday ? age : age - 1;
+}
+
+/**
+ * One message per invalid field; empty when the profile can be saved.
+ */
+export function validateProfile(fields: ProfileFields, now: Date = new Date()): ProfileErrors {
+  const errors: ProfileErrors = {};
+  const required: (keyof ProfileFields)[] = [
+    'firstName',
+    'lastName',
+    'dob',
+    'address',
+    'phone',
+    'email',
+    'driverLicense',
+  ];
+  required.forEach(key => {
+    if (!fields[key].trim()) {
+      errors[key] = 'Required';
+    }
+  });
+
+  if (fields.email.trim() && !EMAIL_RE.test(fields.email.trim())) {
+    errors.email = 'Enter a valid email address.';
+  }
+  const digits = fields.phone.replace(/\D/g, '');
+  if (fields.phone.trim() && (digits.length < 7 || digits.length > 15)) {
+    errors.phone = 'Enter a valid phone number.';
+  }
+  if (fields.driverLicense.trim() && !LICENCE_RE.test(fields.driverLicense.trim())) {
+    errors.driverLicense = 'Use letters, digits and dashes only.';
+  }
+  if (fields.dob.trim()) {
+    const dob = parseDob(fields.dob);
+    if (!dob || dob > now) {
+      errors.dob = 'Enter a valid date of birth.';
+    } else if (ageOn(dob, now) < MIN_RENTER_AGE) {
+      errors.dob = `Renters must be at least ${MIN_RENTER_AGE}.`;
+    }
+  }
+  return errors;
+}
@@ -0,0 +1,278 @@
+// app/services/receipts.ts
+//
+// Itemized invoices/receipts for a booking: what was rented, tax and
+// deposit, what was paid and what was given back (amendments, cancellation,
+// deposit settlement). Built from the booking and its payment record, then
+// rendered to HTML; the Confirmation screen turns that into a PDF. Invoice
+// numbers are issued by the repository (see issueInvoice).
+import { describeLine, DEFAULT_PRICING, formatMoney, quoteTotals } from './pricing';
+import { brandLabel } from './payments/card';
+import type {
+  Booking,
+  BookingInvoice,
+  BusinessDetails,
+  Customer,
+  Location,
+  PaymentRecord,
+} from './firestore/models';
+
+// What an invoice can't go out without, for corporate clients in particular.
+const REQUIRED_BUSINESS_DETAILS: [keyof BusinessDetails, string][] = [
+  ['name', 'name'],
+  ['address', 'address'],
+  ['taxId', 'tax ID'],
+];
+
+/**
+ * Throws while the business's name, address or tax ID is missing, so no
+ * invoice is numbered or printed without them.
+ */
+export function assertInvoiceDetails(business: BusinessDetails) {
+  const missing = REQUIRED_BUSINESS_DETAILS.filter(([key]) => !business[key]).map(([, label]) => label);
+  if (missing.length) {
+    const last = missing.pop();
+    const what = missing.length ? `${missing.join(', ')} and ${last} are` : `${last} is`;
+    throw new Error(`Invoices are not available yet: the business ${what} not set up. Please contact us for one.`);
+  }
+}
+
+const INVOICE_PREFIX = 'INV-';
+
+export const formatInvoiceNumber = (sequence: number) =>
+  `${INVOICE_PREFIX}${String(sequence).padStart(6, '0')}`;
+
+export type ReceiptLine = {
+  label: string;
+  detail: string;
+  amount: number;
+};
+
+export type ReceiptEntry = {
+  label: string;
+  at: Date | null;
+  amount: number;
+};
+
+export type Receipt = {
+  invoiceNumber: string;
+  issuedAt: Date | null;
+  business: BusinessDetails;
+  customer: { name: string; email: string; address: string };
+  bookingId: string;
+  pickup: { name: string; address: string };
+  start: Date | null;
+  end: Date | null;
+  currency: string;
+  lines: ReceiptLine[];
+  subtotal: number;
+  taxRate: number;
+  tax: number;
+  deposit: number;
+  total: number;
+  payments: ReceiptEntry[];
+  refunds: ReceiptEntry[];
+  /** Kept from the deposit at return: late fee and damage. */
+  charges: ReceiptEntry[];
+  paid: number;
+  refunded: number;
+};
+
+const sum = (entries: ReceiptEntry[]) =>
+  Math.round(entries.reduce((total, e) => total + e.amount, 0) * 100) / 100;
+
+// Payment statuses once the rental money has been taken.
+const CAPTURED_STATUSES = ['captured', 'partially_refunded', 'refunded', 'refund_pending'];
+
+/**
+ * Bookings are invoiced once their payment has been captured; one cancelled
+ * before it was paid never gets an invoice number.
+ */
+export const canIssueInvoice = (booking: Booking, payment: PaymentRecord | null) =>
+  booking.status !== 'pending_payment' &&
+  !!payment &&
+  payment.bookingId === booking.id &&
+  CAPTURED_STATUSES.includes(payment.status);
+
+export function buildReceipt(
+  booking: Booking,
+  invoice: BookingInvoice,
+  payment: PaymentRecord | null,
+  customer: Customer | null,
+  location: Location | null,
+  business: BusinessDetails,
+): Receipt {
+  const partial = booking.partialBooking;
+  const quote = partial.quote;
+  const currency = quote?.currency ?? payment?.currency ?? DEFAULT_PRICING.currency;
+  const totals = quote ? quoteTotals(quote) : partial.totals ?? { base: 0, tax: 0, deposit: 0, total: 0 };
+
+  // Bookings written before the pricing engine only carry `totals`
+  const lines: ReceiptLine[] = quote
+    ? quote.lines.map(l => ({ label: l.label, detail: describeLine(l, currency), amount: l.amount }))
+    : [
+        {
+          label: 'Cart rental',
+          detail: partial.carts.map(c => `${c.qty} × ${`${c.brand} ${c.model}`.trim()}`).join(', '),
+          amount: totals.base,
+        },
+      ];
+
+  const payments: ReceiptEntry[] = [];
+  const refunds: ReceiptEntry[] = [];
+  if (payment) {
+    const card = payment.last4 ? `${brandLabel(payment.brand ?? '')} •••• ${payment.last4}` : payment.method;
+    payments.push({ label: `Paid by ${card}`, at: payment.createdAt, amount: payment.amount });
+  }
+  booking.revisions.forEach(r => {
+    if (r.difference > 0) {
+      payments.push({ label: 'Booking change', at: r.at, amount: r.difference });
+    } else if (r.difference < 0) {
+      refunds.push({ label: 'Booking change refund', at: r.at, amount: -r.difference });
+    }
+  });
+  if (booking.cancellation && booking.cancellation.refund > 0) {
+    refunds.push({ label: 'Cancellation refund', at: booking.cancellation.at, amount: booking.cancellation.refund });
+  }
+
+  const charges: ReceiptEntry[] = [];
+  const settlement = booking.settlement;
+  if (settlement) {
+    if (settlement.released > 0) {
+      refunds.push({ label: 'Deposit returned', at: settlement.at, amount: settlement.released });
+    }
+    if (settlement.lateFee > 0) {
+      charges.push({ label: 'Late return fee', at: settlement.at, amount: settlement.lateFee });
+    }
+    if (settlement.damageFee > 0) {
+      charges.push({ label: 'Damage charge', at: settlement.at, amount: settlement.damageFee });
+    }
+  }
+
+  return {
+    invoiceNumber: invoice.number,
+    issuedAt: invoice.issuedAt,
+    business,
+    customer: {
+      name: customer ? `${customer.firstName} ${customer.lastName}`.trim() : '',
+      email: customer?.email ?? '',
+      address: customer
+        ? [customer.address, customer.city, customer.state, customer.zipcode, customer.country]
+            .filter(Boolean)
+            .join(', ')
+        : '',
+    },
+    bookingId: booking.id,
+    pickup: { name: location?.name ?? '', address: location?.address ?? business.address },
+    start: partial.dates.start,
+    end: partial.dates.end,
+    currency,
+    lines,
+    subtotal: totals.base,
+    taxRate: quote ? quote.taxRate : DEFAULT_PRICING.taxRate,
+    tax: totals.tax,
+    deposit: totals.deposit,
+    total: totals.total,
+    payments,
+    refunds,
+    charges,
+    paid: sum(payments),
+    refunded: sum(refunds),
+  };
+}
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const fmtDate = (date: Date | null) => (date ? date.toLocaleDateString() : '');
+const fmtDateTime = (date: Date | null) => (date ? date.toLocaleString() : '');
+
+const row = (label: string, amount: string, className = '') =>
+  `<tr class="${className}"><td colspan="2">${escapeHtml(label)}</td><td class="amount">${escapeHtml(amount)}</td></tr>`;
+
+const entryRows = (entries: ReceiptEntry[], currency: string, sign = '') =>
+  entries
+    .map(e =>
+      row(`${e.label}${e.at ? ` (${fmtDate(e.at)})` : ''}`, `${sign}${formatMoney(e.amount, currency)}`),
+    )
+    .join('');
+
+/**
+ * A self-contained HTML page (inline styles, no images) so it prints the
+ * same to PDF on both platforms.
+ */
+export function receiptHtml(receipt: Receipt): string {
+  const { business, customer, currency } = receipt;
+  const money = (amount: number) => formatMoney(amount, currency);
+  const lines = receipt.lines
+    .map(
+      l =>
+        `<tr><td>${escapeHtml(l.label)}</td><td class="detail">${escapeHtml(l.detail)}</td><td class="amount">${escapeHtml(money(l.amount))}</td></tr>`,
+    )
+    .join('');
+  const businessLines = [business.address, business.email, business.phone, business.taxId ? `Tax ID ${business.taxId}` : '']
+    .filter(Boolean)
+    .map(escapeHtml)
+    .join('<br/>');
+  const customerLines = [customer.name, customer.email, customer.address]
+    .filter(Boolean)
+    .map(escapeHtml)
+    .join('<br/>');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8"/>
+<title>Invoice ${escapeHtml(receipt.invoiceNumber)}</title>
+<style>
+  body { font-family: -apple-system, Helvetica, Arial, sans-serif; color: #222; font-size: 12px; margin: 24px; }
+  h1 { font-size: 20px; margin: 0 0 4px; }
+  .muted { color: #777; }
+  .header { display: flex; justify-content: space-between; margin-bottom: 24px; }
+  table { width: 100%; border-collapse: collapse; margin-top: 16px; }
+  th { text-align: left; border-bottom: 2px solid #222; padding: 6px 4px; }
+  td { padding: 6px 4px; border-bottom: 1px solid #eee; vertical-align: top; }
+  .detail { color: #555; }
+  .amount { text-align: right; white-space: nowrap; }
+  .total td { font-weight: bold; border-top: 2px solid #222; }
+  .section td { font-weight: bold; padding-top: 16px; border-bottom: none; }
+</style>
+</head>
+<body>
+  <div class="header">
+    <div>
+      <h1>${escapeHtml(business.name)}</h1>
+      <div class="muted">${businessLines}</div>
+    </div>
+    <div style="text-align: right">
+      <h1>Invoice</h1>
+      <div>${escapeHtml(receipt.invoiceNumber)}</div>
+      <div class="muted">Issued ${escapeHtml(fmtDate(receipt.issuedAt))}</div>
+      <div class="muted">Booking ${escapeHtml(receipt.bookingId)}</div>
+    </div>
+  </div>
+
+  ${customerLines ? `<div><strong>Billed to</strong><br/>${customerLines}</div>` : ''}
+  <div style="margin-top: 12px"><strong>Pick-up</strong><br/>${escapeHtml(
+    [receipt.pickup.name, receipt.pickup.address].filter(Boolean).join(', '),
+  )}<br/>${escapeHtml(fmtDateTime(receipt.start))}${receipt.end ? ` → ${escapeHtml(fmtDateTime(receipt.end))}` : ''}</div>
+
+  <table>
+    <tr><th>Item</th><th></th><th class="amount">Amount</th></tr>
+    ${lines}
+    ${row('Subtotal', money(receipt.subtotal))}
+    ${row(`Service tax (${Math.round(receipt.taxRate * 100)}%)`, money(receipt.tax))}
+    ${row('Refundable deposit', money(receipt.deposit))}
+    ${row('Total', money(receipt.total), 'total')}
+    ${receipt.payments.length ? `${row('Payments', '', 'section')}${entryRows(receipt.payments, currency)}` : ''}
+    ${receipt.charges.length ? `${row('Kept from deposit', '', 'section')}${entryRows(receipt.charges, currency)}` : ''}
+    ${receipt.refunds.length ? `${row('Refunds', '', 'section')}${entryRows(receipt.refunds, currency, '-')}` : ''}
+    ${row('Net paid', money(receipt.paid - receipt.refunded), 'total')}
+  </table>
+</body>
+</html>`;
+}
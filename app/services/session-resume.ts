@@ -0,0 +1,38 @@
+// app/services/session-resume.ts
+//
+// Pure rules for picking up an unfinished checkout. Landing offers the
+// customer's most recent in-progress session instead of starting another
+// one; sessions left alone for longer than the resume window are ignored.
+import type { Session } from './firestore/models';
+
+export const RESUME_WINDOW_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const lastTouched = (s: Session) => (s.updatedAt ?? s.createdAt)?.getTime() ?? 0;
+
+/**
+ * The newest in-progress session touched within the resume window. Sessions
+ * modifying a booking are resumed from that booking, not from Landing.
+ */
+export function latestResumable(
+  sessions: Session[],
+  now: Date = new Date(),
+  windowDays = RESUME_WINDOW_DAYS,
+): Session | null {
+  const since = now.getTime() - windowDays * DAY_MS;
+  return (
+    sessions
+      .filter(s => s.status === 'in_progress' && !s.amendsBookingId)
+      .filter(s => lastTouched(s) >= since)
+      .sort((a, b) => lastTouched(b) - lastTouched(a))[0] ?? null
+  );
+}
+
+/**
+ * Where to pick up: Review once a rental window was saved, Details before.
+ */
+export const resumeScreen = (session: Session): 'DetailsScreen' | 'ReviewScreen' =>
+  session.partialBooking.dates.start && session.partialBooking.dates.end
+    ? 'ReviewScreen'
+    : 'DetailsScreen';
@@ -0,0 +1,159 @@
+// app/services/settlement.ts
+//
+// Pure return settlement. After check-in staff inspect each cart; late
+// return and damage charges under the location's return policy are taken
+// from the deposit, and whatever is left is released. Charges beyond the
+// deposit are reported as outstanding rather than captured.
+import type {
+  Booking,
+  CartInspection,
+  DepositStatus,
+  InspectionArea,
+  Location,
+  ReturnPolicy,
+} from './firestore/models';
+import { minutesLate } from './counter';
+import { roundMoney } from './pricing';
+import type { PaymentIntent } from './payments/provider';
+
+export const INSPECTION_AREAS: { key: InspectionArea; label: string }[] = [
+  { key: 'body', label: 'Body & bumpers' },
+  { key: 'seats', label: 'Seats & upholstery' },
+  { key: 'tyres', label: 'Tyres & wheels' },
+  { key: 'glass', label: 'Windshield & roof' },
+  { key: 'lights', label: 'Lights & controls' },
+  { key: 'charger', label: 'Battery & charger' },
+];
+
+/**
+ * Fifteen minutes' grace, then $25 for every started hour.
+ */
+export const DEFAULT_RETURN_POLICY: ReturnPolicy = {
+  graceMinutes: 15,
+  lateFeePerHour: 25,
+  damageCharges: {
+    body: 40,
+    seats: 25,
+    tyres: 30,
+    glass: 50,
+    lights: 20,
+    charger: 50,
+  },
+};
+
+/**
+ * The location's return policy, with the default's values for every field
+ * and area it leaves out.
+ */
+export function returnPolicyFor(location: Location | null): ReturnPolicy {
+  const settings = location?.returnPolicy;
+  if (!settings) {
+    return DEFAULT_RETURN_POLICY;
+  }
+  return {
+    graceMinutes: settings.graceMinutes ?? DEFAULT_RETURN_POLICY.graceMinutes,
+    lateFeePerHour: settings.lateFeePerHour ?? DEFAULT_RETURN_POLICY.lateFeePerHour,
+    damageCharges: { ...DEFAULT_RETURN_POLICY.damageCharges, ...settings.damageCharges },
+  };
+}
+
+export const DEPOSIT_STATUS_LABELS: Record<DepositStatus, string> = {
+  held: 'Held',
+  released: 'Released',
+  partially_captured: 'Partly kept',
+  captured: 'Kept',
+};
+
+export type SettlementQuote = {
+  deposit: number;
+  lateFee: number;
+  damageFee: number;
+  captured: number;
+  released: number;
+  outstanding: number;
+  status: DepositStatus;
+};
+
+/**
+ * The deposit taken with the booking; bookings made before the pricing
+ * engine carry it on `totals`.
+ */
+export function depositOf(booking: Booking): number {
+  const { quote, totals } = booking.partialBooking;
+  return quote ? quote.deposit : totals?.deposit ?? 0;
+}
+
+/**
+ * Late fee for a return at `returnedAt`: nothing within the grace period,
+ * then a full hour's fee for every started hour past drop-off.
+ */
+export function lateFeeFor(booking: Booking, policy: ReturnPolicy, returnedAt: Date): number {
+  const late = minutesLate(booking, returnedAt);
+  if (late <= policy.graceMinutes) {
+    return 0;
+  }
+  return roundMoney(Math.ceil(late / 60) * policy.lateFeePerHour);
+}
+
+export const damageFeeFor = (carts: CartInspection[], policy: ReturnPolicy) =>
+  roundMoney(
+    carts.reduce(
+      (sum, cart) => sum + cart.damaged.reduce((s, area) => s + policy.damageCharges[area], 0),
+      0,
+    ),
+  );
+
+/**
+ * What settling the deposit of a returned booking would capture and
+ * release.
+ */
+export function settleDeposit(
+  booking: Booking,
+  carts: CartInspection[],
+  policy: ReturnPolicy,
+  returnedAt: Date,
+): SettlementQuote {
+  const deposit = depositOf(booking);
+  const lateFee = lateFeeFor(booking, policy, returnedAt);
+  const damageFee = damageFeeFor(carts, policy);
+  const charges = roundMoney(lateFee + damageFee);
+  const captured = Math.min(deposit, charges);
+  const released = roundMoney(deposit - captured);
+
+  return {
+    deposit,
+    lateFee,
+    damageFee,
+    captured,
+    released,
+    outstanding: roundMoney(charges - captured),
+    status: depositStatusFor(captured, released),
+  };
+}
+
+function depositStatusFor(captured: number, released: number): DepositStatus {
+  if (captured === 0) {
+    return 'released';
+  }
+  return released === 0 ? 'captured' : 'partially_captured';
+}
+
+/**
+ * The settlement as the provider carried it out: what the deposit intent
+ * actually captured (nothing when there was no intent, or it had lapsed or
+ * been voided), with the charges it didn't cover left outstanding.
+ */
+export function settlementWithIntent(
+  quote: SettlementQuote,
+  intent: PaymentIntent | null,
+): SettlementQuote {
+  const captured = roundMoney(intent?.captured ?? 0);
+  const released = roundMoney(Math.max(0, quote.deposit - captured));
+  return {
+    ...quote,
+    captured,
+    released,
+    outstanding: roundMoney(Math.max(0, quote.lateFee + quote.damageFee - captured)),
+    status: depositStatusFor(captured, released),
+  };
+}